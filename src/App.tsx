@@ -9,6 +9,7 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { InventoryProvider } from "@/contexts/InventoryContext";
 import { ProtectedRoute, PublicOnlyRoute } from "@/components/ProtectedRoute";
 import ErrorBoundary from "@/components/ErrorBoundary";
+import { RecurringInvoiceScheduler } from "@/components/RecurringInvoiceScheduler";
 import { validateEnvironment } from "@/lib/security";
 import { lazy, Suspense } from "react";
 import { Loader2 } from "lucide-react";
@@ -34,8 +35,15 @@ const Sales = lazy(() => import("./pages/Sales"));
 const Purchases = lazy(() => import("./pages/Purchases"));
 const Expenses = lazy(() => import("./pages/Expenses"));
 const Receipts = lazy(() => import("./pages/Receipts"));
+const CreditNotes = lazy(() => import("./pages/CreditNotes"));
+const Quotations = lazy(() => import("./pages/Quotations"));
+const DeliveryChallans = lazy(() => import("./pages/DeliveryChallans"));
+const RecurringInvoices = lazy(() => import("./pages/RecurringInvoices"));
+const EWayBills = lazy(() => import("./pages/EWayBills"));
 const Reports = lazy(() => import("./pages/Reports"));
+const BalanceReconciliation = lazy(() => import("./pages/BalanceReconciliation"));
 const Settings = lazy(() => import("./pages/Settings"));
+const InvoiceTemplates = lazy(() => import("./pages/InvoiceTemplates"));
 const BulkImportCustomers = lazy(() => import("./pages/BulkImportCustomers"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
@@ -94,6 +102,7 @@ const App = () => {
                 <TooltipProvider>
                   <Toaster />
                   <Sonner />
+                  <RecurringInvoiceScheduler />
                   <BrowserRouter>
                   <Suspense fallback={<PageLoader />}>
                     <Routes>
@@ -258,6 +267,54 @@ const App = () => {
                           </ProtectedRoute>
                         } 
                       />
+                      <Route 
+                        path="/credit-notes" 
+                        element={
+                          <ProtectedRoute>
+                            <CreditNotes />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/quotations" 
+                        element={
+                          <ProtectedRoute>
+                            <Quotations />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/delivery-challans" 
+                        element={
+                          <ProtectedRoute>
+                            <DeliveryChallans />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/recurring-invoices" 
+                        element={
+                          <ProtectedRoute>
+                            <RecurringInvoices />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/eway-bills" 
+                        element={
+                          <ProtectedRoute>
+                            <EWayBills />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/invoice-templates" 
+                        element={
+                          <ProtectedRoute>
+                            <InvoiceTemplates />
+                          </ProtectedRoute>
+                        } 
+                      />
                       <Route 
                         path="/reports" 
                         element={
@@ -266,6 +323,14 @@ const App = () => {
                           </ProtectedRoute>
                         } 
                       />
+                      <Route 
+                        path="/balance-reconciliation" 
+                        element={
+                          <ProtectedRoute>
+                            <BalanceReconciliation />
+                          </ProtectedRoute>
+                        } 
+                      />
                       
                       {/* Admin-only routes */}
                       <Route 
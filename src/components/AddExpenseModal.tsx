@@ -0,0 +1,536 @@
+/**
+ * Add Expense Modal
+ * Records a one-off expense or sets up a recurring schedule (rent, salaries,
+ * utilities). Every generated expense is posted to the cashbook as cash out.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Paperclip, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { GST_RATES, validateGSTIN } from "@/lib/invoiceUtils";
+import {
+  expensesService,
+  type Expense,
+  type ExpenseAttachment,
+  type ExpenseCategory,
+  type ExpensePaymentMethod,
+  type RecurringFrequency,
+} from "@/services/api/expensesService";
+
+interface AddExpenseModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExpensesAdded?: (expenses: Expense[]) => void;
+}
+
+const PAYMENT_METHODS: { value: ExpensePaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "bank", label: "Bank Transfer" },
+  { value: "card", label: "Card" },
+  { value: "cheque", label: "Cheque" },
+  { value: "other", label: "Other" },
+];
+
+const FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function AddExpenseModal({ open, onOpenChange, onExpensesAdded }: AddExpenseModalProps) {
+  const { format: formatCurrency } = useCurrency();
+
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [categoryId, setCategoryId] = useState("");
+  const [newCategory, setNewCategory] = useState("");
+  const [isAddingCategory, setIsAddingCategory] = useState(false);
+  const [date, setDate] = useState(today());
+  const [amount, setAmount] = useState("");
+  const [vendorName, setVendorName] = useState("");
+  const [description, setDescription] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<ExpensePaymentMethod>("cash");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [gstRate, setGstRate] = useState(0);
+  const [itcEligible, setItcEligible] = useState(false);
+  const [supplierGstin, setSupplierGstin] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [frequency, setFrequency] = useState<RecurringFrequency>("monthly");
+  const [endDate, setEndDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form and load categories when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setCategoryId("");
+    setNewCategory("");
+    setIsAddingCategory(false);
+    setDate(today());
+    setAmount("");
+    setVendorName("");
+    setDescription("");
+    setPaymentMethod("cash");
+    setReferenceNumber("");
+    setGstRate(0);
+    setItcEligible(false);
+    setSupplierGstin("");
+    setInvoiceNumber("");
+    setAttachments([]);
+    setIsRecurring(false);
+    setFrequency("monthly");
+    setEndDate("");
+
+    let cancelled = false;
+    expensesService.fetchCategories().then(({ data }) => {
+      if (!cancelled && data) setCategories(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const amounts = useMemo(
+    () => expensesService.calculateAmounts(parseFloat(amount) || 0, gstRate),
+    [amount, gstRate]
+  );
+
+  const handleAddCategory = async () => {
+    const name = newCategory.trim();
+    if (!name) return;
+
+    const existing = categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      setCategoryId(existing.id);
+      setIsAddingCategory(false);
+      setNewCategory("");
+      return;
+    }
+
+    const { data, error } = await expensesService.createCategory(name);
+    if (error || !data) {
+      toast.error("Failed to add category");
+      return;
+    }
+
+    setCategories(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setCategoryId(data.id);
+    setIsAddingCategory(false);
+    setNewCategory("");
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    setAttachments(prev => [
+      ...prev,
+      ...files.map(file => ({
+        name: file.name,
+        size: file.size,
+        type: file.type || "application/octet-stream",
+        uploaded_at: new Date().toISOString(),
+      })),
+    ]);
+    e.target.value = "";
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const category = categories.find(c => c.id === categoryId);
+    if (!category) {
+      toast.error("Select an expense category");
+      return;
+    }
+
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    if (supplierGstin && !validateGSTIN(supplierGstin.toUpperCase())) {
+      toast.error("Supplier GSTIN is not valid");
+      return;
+    }
+
+    if (isRecurring && !description.trim()) {
+      toast.error("Give the recurring expense a name, e.g. Office rent");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (isRecurring) {
+        const { error } = await expensesService.createRecurringExpense({
+          name: description.trim(),
+          category_id: category.id,
+          category_name: category.name,
+          vendor_name: vendorName.trim() || undefined,
+          amount: value,
+          gst_rate: gstRate,
+          itc_eligible: itcEligible,
+          payment_method: paymentMethod,
+          frequency,
+          start_date: date,
+          end_date: endDate || undefined,
+        });
+        if (error) throw error;
+
+        // Post any occurrence that is already due (including today's)
+        const { created } = await expensesService.processDueRecurringExpenses();
+
+        toast.success("Recurring expense scheduled!", {
+          description: `${description.trim()} • ${FREQUENCIES.find(f => f.value === frequency)?.label}`,
+        });
+        onExpensesAdded?.(created);
+      } else {
+        const { data, error } = await expensesService.createExpense({
+          date: new Date(date).toISOString(),
+          category_id: category.id,
+          category_name: category.name,
+          vendor_name: vendorName.trim() || undefined,
+          description: description.trim() || undefined,
+          amount: value,
+          gst_rate: gstRate,
+          itc_eligible: itcEligible,
+          supplier_gstin: supplierGstin.trim() || undefined,
+          invoice_number: invoiceNumber.trim() || undefined,
+          payment_method: paymentMethod,
+          reference_number: referenceNumber.trim() || undefined,
+          attachments,
+        });
+        if (error || !data) throw error ?? new Error("Failed to add expense");
+
+        toast.success("Expense added!", {
+          description: `${category.name} • ${formatCurrency(data.total_amount)}`,
+        });
+        onExpensesAdded?.([data]);
+      }
+
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to add expense:", error);
+      toast.error("Failed to add expense", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Expense</DialogTitle>
+          <DialogDescription>
+            Expenses are posted to your cash book as cash out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Category *</Label>
+              {isAddingCategory ? (
+                <div className="flex gap-2">
+                  <Input
+                    autoFocus
+                    value={newCategory}
+                    onChange={(e) => setNewCategory(e.target.value)}
+                    placeholder="e.g. Internet"
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleAddCategory();
+                      }
+                    }}
+                  />
+                  <Button type="button" onClick={handleAddCategory}>Add</Button>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => setIsAddingCategory(false)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Select value={categoryId} onValueChange={setCategoryId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="button" variant="outline" size="icon" onClick={() => setIsAddingCategory(true)}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expense-amount">Amount (before GST) *</Label>
+                <Input
+                  id="expense-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-date">{isRecurring ? "First Due Date" : "Date"}</Label>
+                <Input
+                  id="expense-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expense-description">
+                {isRecurring ? "Name *" : "Description (Optional)"}
+              </Label>
+              <Textarea
+                id="expense-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder={isRecurring ? "e.g. Office rent" : "What was this expense for?"}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expense-vendor">Paid To</Label>
+                <Input
+                  id="expense-vendor"
+                  value={vendorName}
+                  onChange={(e) => setVendorName(e.target.value)}
+                  placeholder="Vendor or payee"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Payment Method</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as ExpensePaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* GST input credit */}
+            <div className="rounded-lg border border-border p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>GST Rate</Label>
+                  <Select value={gstRate.toString()} onValueChange={(value) => setGstRate(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_RATES.map(rate => (
+                        <SelectItem key={rate.value} value={rate.value.toString()}>
+                          {rate.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Checkbox
+                    id="expense-itc"
+                    checked={itcEligible}
+                    disabled={gstRate === 0}
+                    onCheckedChange={(checked) => setItcEligible(checked === true)}
+                  />
+                  <Label htmlFor="expense-itc" className="text-sm font-normal">
+                    Claim input tax credit
+                  </Label>
+                </div>
+              </div>
+              {gstRate > 0 && !isRecurring && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expense-gstin">Supplier GSTIN</Label>
+                    <Input
+                      id="expense-gstin"
+                      value={supplierGstin}
+                      onChange={(e) => setSupplierGstin(e.target.value.toUpperCase())}
+                      placeholder="22AAAAA0000A1Z5"
+                      maxLength={15}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="expense-invoice">Supplier Invoice No.</Label>
+                    <Input
+                      id="expense-invoice"
+                      value={invoiceNumber}
+                      onChange={(e) => setInvoiceNumber(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {!isRecurring && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="expense-reference">Reference (Optional)</Label>
+                  <Input
+                    id="expense-reference"
+                    value={referenceNumber}
+                    onChange={(e) => setReferenceNumber(e.target.value)}
+                    placeholder="Cheque / UTR number"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="expense-attachments" className="flex items-center gap-2">
+                    <Paperclip className="h-4 w-4" />
+                    Attachments
+                  </Label>
+                  <Input id="expense-attachments" type="file" multiple onChange={handleFilesSelected} />
+                  {attachments.length > 0 && (
+                    <div className="space-y-1">
+                      {attachments.map((file, index) => (
+                        <div key={`${file.name}-${index}`} className="flex items-center justify-between text-xs bg-muted/50 rounded px-2 py-1">
+                          <span className="truncate">{file.name} • {(file.size / 1024).toFixed(1)} KB</span>
+                          <button
+                            type="button"
+                            onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Recurring schedule */}
+            <div className="rounded-lg border border-border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="expense-recurring">Repeat this expense</Label>
+                  <p className="text-xs text-muted-foreground">For rent, salaries, utilities and other regular costs</p>
+                </div>
+                <Switch id="expense-recurring" checked={isRecurring} onCheckedChange={setIsRecurring} />
+              </div>
+              {isRecurring && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Frequency</Label>
+                    <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurringFrequency)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FREQUENCIES.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="expense-end-date">End Date (Optional)</Label>
+                    <Input
+                      id="expense-end-date"
+                      type="date"
+                      value={endDate}
+                      min={date}
+                      onChange={(e) => setEndDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {amounts.total_amount > 0 && (
+              <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Amount</span>
+                  <span>{formatCurrency(amounts.amount)}</span>
+                </div>
+                {amounts.gst_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">GST ({gstRate}%)</span>
+                    <span>{formatCurrency(amounts.gst_amount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between pt-2 border-t font-semibold">
+                  <span>Total Paid</span>
+                  <span className="text-primary">{formatCurrency(amounts.total_amount)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : isRecurring ? (
+                "Schedule Expense"
+              ) : (
+                "Add Expense"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,8 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { transactionsService } from "@/services/api/transactionsService";
+import { creditControlService } from "@/services/api/creditControlService";
+import { useCurrency } from "@/contexts/CurrencyContext";
 
 interface AddTransactionModalProps {
   open: boolean;
@@ -34,6 +36,7 @@ export function AddTransactionModal({
   });
   
   const amountInputRef = useRef<HTMLInputElement>(null);
+  const { format: formatCurrency } = useCurrency();
 
   // Focus amount input whenever modal opens
   useEffect(() => {
@@ -54,6 +57,40 @@ export function AddTransactionModal({
     }
 
     try {
+      // Money given to a customer is credit; check it against their limit
+      if (partyType === "customer" && transactionType === "gave") {
+        const { data: credit, error: creditError } = await creditControlService.checkCustomerCredit(
+          partyId,
+          parseFloat(formData.amount),
+          formatCurrency
+        );
+        const breaches = credit?.status.breaches ?? [];
+
+        // An unchecked limit is never passed silently: blocked when set to
+        // block, otherwise only with the user's say-so
+        if (creditError) {
+          const { data: mode } = await creditControlService.getMode();
+          if (mode === "block") {
+            toast.error(`Could not check ${customerName}'s credit limit`, {
+              description: creditError.message ?? "Try again once the customer's balance can be loaded.",
+            });
+            return;
+          }
+          if (!confirm(`Could not check ${customerName}'s credit limit.\n\nSave anyway?`)) {
+            return;
+          }
+        }
+        if (credit?.blocked) {
+          toast.error(`Credit limit reached for ${customerName}`, {
+            description: breaches.map(b => b.message).join(". "),
+          });
+          return;
+        }
+        if (breaches.length > 0 && !confirm(`${customerName}: ${breaches.map(b => b.message).join(". ")}.\n\nSave anyway?`)) {
+          return;
+        }
+      }
+
       // Convert the date string to ISO timestamp (with current time)
       const dateObj = new Date(formData.date);
       // Set to current time instead of midnight
@@ -0,0 +1,275 @@
+/**
+ * Ageing Report
+ * Open receivables and payables by party, bucketed by days past due, with
+ * each party's bills underneath
+ */
+
+import { Fragment, useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronRight, FileSpreadsheet, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useBusinessContext } from "@/contexts/BusinessContext";
+import {
+  ageingService,
+  type AgeingBill,
+  type AgeingReport as AgeingReportData,
+  type AgeingSide,
+  type DueDateSource,
+  type PartyAgeing,
+} from "@/services/api/ageingService";
+import { DEFAULT_PAST_DUE_BOUNDARIES, parseBucketBoundaries } from "@/lib/ageing";
+import { exportReportToXLSX, sanitizeFileName } from "@/lib/reportExport";
+
+const thClass = "py-3 px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider";
+
+const DUE_DATE_NOTES: Record<DueDateSource, string> = {
+  bill: "",
+  payment_terms: "from payment terms",
+  bill_date: "no terms; due on bill date",
+};
+
+type AgeingView = "receivables" | "payables";
+
+interface AgeingExportRow {
+  side: string;
+  party: string;
+  bill: AgeingBill;
+  bucket: string;
+}
+
+export function AgeingReport() {
+  const { format: formatCurrency } = useCurrency();
+  const { businessProfile } = useBusinessContext();
+
+  const [asOf, setAsOf] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [boundariesText, setBoundariesText] = useState(DEFAULT_PAST_DUE_BOUNDARIES.join(", "));
+  const [boundaries, setBoundaries] = useState(DEFAULT_PAST_DUE_BOUNDARIES);
+  const [view, setView] = useState<AgeingView>("receivables");
+  const [report, setReport] = useState<AgeingReportData | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!asOf) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    ageingService.generateAgeing(asOf, boundaries).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        toast.error("Failed to prepare the ageing report");
+      }
+      setReport(data);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [asOf, boundaries]);
+
+  const applyBoundaries = () => {
+    const parsed = parseBucketBoundaries(boundariesText);
+    if (!parsed) {
+      toast.error("Enter bucket limits in days, e.g. 30, 60, 90");
+      setBoundariesText(boundaries.join(", "));
+      return;
+    }
+    setBoundaries(parsed);
+  };
+
+  const toggleParty = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const formatDate = (value: string) => format(parseISO(value), "dd MMM yyyy");
+
+  const daysLabel = (days: number) =>
+    days > 0 ? `${days} days overdue` : days === 0 ? "Due today" : `Due in ${-days} days`;
+
+  const handleExportExcel = () => {
+    if (!report) return;
+
+    const sides: [string, AgeingSide][] = [["Receivable", report.receivables], ["Payable", report.payables]];
+    const rows: AgeingExportRow[] = sides.flatMap(([side, data]) =>
+      data.parties.flatMap(party =>
+        party.bills.map(bill => ({ side, party: party.party_name, bill, bucket: report.buckets[bill.bucket_index].label }))
+      )
+    );
+
+    if (rows.length === 0) {
+      toast.error("No open bills to export");
+      return;
+    }
+
+    exportReportToXLSX<AgeingExportRow>(
+      {
+        title: "Receivables and Payables Ageing",
+        subtitle: `As of ${formatDate(report.asOf)}`,
+        businessName: businessProfile.businessName,
+        columns: [
+          { header: "Type", value: row => row.side },
+          { header: "Party", value: row => row.party },
+          { header: "Bill", value: row => row.bill.bill_number },
+          { header: "Bill Date", value: row => formatDate(row.bill.date) },
+          { header: "Due Date", value: row => formatDate(row.bill.due_date) },
+          { header: "Days Past Due", value: row => Math.max(row.bill.days_past_due, 0), align: "right" },
+          { header: "Bucket", value: row => row.bucket },
+          { header: "Balance", value: row => row.bill.balance_amount, align: "right" },
+        ],
+        rows,
+        summary: sides.flatMap(([side, data]) => [
+          ...report.buckets.map((bucket, index) => ({ label: `${side} ${bucket.label}`, value: data.buckets[index] })),
+          { label: `${side} total`, value: data.total },
+        ]),
+        fileName: sanitizeFileName(`Ageing_${report.asOf}`),
+      },
+      "Ageing"
+    );
+  };
+
+  const side = report ? report[view] : null;
+
+  const partyRow = (party: PartyAgeing) => {
+    const isExpanded = expanded.has(`${view}:${party.party_key}`);
+    return (
+      <Fragment key={party.party_key}>
+        <tr
+          className="hover:bg-muted/30 transition-colors cursor-pointer"
+          onClick={() => toggleParty(`${view}:${party.party_key}`)}
+        >
+          <td className="py-3 px-4 text-sm font-medium">
+            <div className="flex items-center gap-2">
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              {party.party_name}
+              <span className="text-xs text-muted-foreground">({party.bills.length})</span>
+            </div>
+          </td>
+          <td className="py-3 px-4 text-sm text-muted-foreground">
+            {party.payment_terms_days !== null ? `${party.payment_terms_days} days` : "—"}
+          </td>
+          {party.buckets.map((amount, index) => (
+            <td key={index} className="py-3 px-4 text-sm text-right">
+              {amount ? formatCurrency(amount) : <span className="text-muted-foreground">-</span>}
+            </td>
+          ))}
+          <td className="py-3 px-4 text-sm text-right font-semibold">{formatCurrency(party.total)}</td>
+        </tr>
+        {isExpanded && party.bills.map(bill => (
+          <tr key={bill.id} className="bg-muted/20 text-xs">
+            <td className="py-2 px-4 pl-12">
+              {bill.bill_number} • {formatDate(bill.date)}
+            </td>
+            <td className="py-2 px-4 text-muted-foreground">
+              Due {formatDate(bill.due_date)}
+              {DUE_DATE_NOTES[bill.due_date_source] && ` (${DUE_DATE_NOTES[bill.due_date_source]})`}
+            </td>
+            {(report?.buckets ?? []).map((_, index) => (
+              <td key={index} className="py-2 px-4 text-right">
+                {index === bill.bucket_index ? (
+                  <span className={bill.days_past_due > 0 ? "text-red-500" : ""}>{daysLabel(bill.days_past_due)}</span>
+                ) : null}
+              </td>
+            ))}
+            <td className="py-2 px-4 text-right">{formatCurrency(bill.balance_amount)}</td>
+          </tr>
+        ))}
+      </Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="sm:w-48">
+          <label className="text-sm text-muted-foreground mb-2 block font-medium">As of</label>
+          <Input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="bg-background border-border"
+          />
+        </div>
+        <div className="sm:w-48">
+          <label className="text-sm text-muted-foreground mb-2 block font-medium">Buckets (days)</label>
+          <Input
+            value={boundariesText}
+            onChange={(e) => setBoundariesText(e.target.value)}
+            onBlur={applyBoundaries}
+            onKeyDown={(e) => e.key === "Enter" && applyBoundaries()}
+            placeholder="30, 60, 90"
+            className="bg-background border-border"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant={view === "receivables" ? "default" : "outline"} onClick={() => setView("receivables")}>
+            Receivables
+          </Button>
+          <Button variant={view === "payables" ? "default" : "outline"} onClick={() => setView("payables")}>
+            Payables
+          </Button>
+        </div>
+        <Button variant="outline" className="sm:ml-auto" onClick={handleExportExcel} disabled={!report || isLoading}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Download Excel
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : !report || !side ? null : (
+        <div className="bg-card rounded-lg border border-border overflow-x-auto shadow-sm">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className={`${thClass} text-left`}>{view === "receivables" ? "Customer" : "Supplier"}</th>
+                <th className={`${thClass} text-left`}>Terms</th>
+                {report.buckets.map(bucket => (
+                  <th key={bucket.label} className={`${thClass} text-right`}>{bucket.label}</th>
+                ))}
+                <th className={`${thClass} text-right`}>Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {side.parties.length === 0 ? (
+                <tr>
+                  <td colSpan={report.buckets.length + 3} className="py-12 text-center text-muted-foreground">
+                    No open {view === "receivables" ? "invoices" : "purchase bills"}
+                  </td>
+                </tr>
+              ) : (
+                side.parties.map(partyRow)
+              )}
+            </tbody>
+            {side.parties.length > 0 && (
+              <tfoot className="bg-muted/50 font-semibold">
+                <tr>
+                  <td className="py-3 px-4 text-sm" colSpan={2}>Total</td>
+                  {side.buckets.map((amount, index) => (
+                    <td key={index} className="py-3 px-4 text-sm text-right">{formatCurrency(amount)}</td>
+                  ))}
+                  <td className="py-3 px-4 text-sm text-right">{formatCurrency(side.total)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
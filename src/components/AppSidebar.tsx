@@ -14,7 +14,14 @@ import {
   Settings,
   Bell,
   CreditCard,
-  BarChart3
+  BarChart3,
+  FileMinus,
+  FileSignature,
+  Truck,
+  Repeat,
+  Route,
+  Palette,
+  Scale
 } from "lucide-react";
 import LendenLedgerIcon from "@/assets/LenDenledgericon1.png";
 import {
@@ -37,6 +44,10 @@ const businessNav = [
   { title: "Customers", url: "/customers", icon: Users },
   { title: "Suppliers", url: "/suppliers", icon: Building2 },
   { title: "Invoices", url: "/invoices", icon: FileText },
+  { title: "Quotations", url: "/quotations", icon: FileSignature },
+  { title: "Challans", url: "/delivery-challans", icon: Truck },
+  { title: "Recurring", url: "/recurring-invoices", icon: Repeat },
+  { title: "E-Way Bills", url: "/eway-bills", icon: Route },
   { title: "Cash Book", url: "/cashbook", icon: Wallet },
   { title: "Staff", url: "/staff", icon: UserCog },
   { title: "Inventory", url: "/inventory", icon: Package2 },
@@ -47,14 +58,17 @@ const transactionNav = [
   { title: "Purchases", url: "/purchases", icon: Package },
   { title: "Expenses", url: "/expenses", icon: TrendingUp },
   { title: "Receipts", url: "/receipts", icon: Receipt },
+  { title: "Credit Notes", url: "/credit-notes", icon: FileMinus },
 ];
 
 const reportsNav = [
   { title: "Reports", url: "/reports", icon: BarChart3 },
+  { title: "Reconciliation", url: "/balance-reconciliation", icon: Scale },
 ];
 
 const settingsNav = [
   { title: "Settings", url: "/settings", icon: Settings },
+  { title: "Invoice Templates", url: "/invoice-templates", icon: Palette },
   { title: "Notifications", url: "/notifications", icon: Bell },
   { title: "Billing", url: "/billing", icon: CreditCard },
 ];
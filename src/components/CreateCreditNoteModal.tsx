@@ -0,0 +1,368 @@
+/**
+ * Create Credit / Debit Note Modal
+ * Raises a note against a sales or purchase bill: pick the bill, then the
+ * quantity and rate to reverse (credit) or add (debit) on each line.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { billsService, type Bill } from "@/services/api/billsService";
+import {
+  creditNotesService,
+  NOTE_REASONS,
+  type CreditNote,
+  type NoteType,
+} from "@/services/api/creditNotesService";
+import { calculateLineItemAmount } from "@/lib/invoiceUtils";
+
+interface CreateCreditNoteModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNoteCreated?: (note: CreditNote) => void;
+  bill?: Bill | null; // Raise the note against this bill
+}
+
+interface LineInput {
+  quantity: string;
+  rate: string;
+}
+
+// Taxable rate per unit: net of the line discount and of tax on tax-inclusive lines
+const netRate = (item: Bill["items"][number]) =>
+  calculateLineItemAmount("1", String(item.unit_price), String(item.discount_percentage ?? 0),
+    Number(item.tax_rate ?? 0), Number(item.cess_rate ?? 0), Boolean(item.tax_inclusive));
+
+export function CreateCreditNoteModal({ open, onOpenChange, onNoteCreated, bill }: CreateCreditNoteModalProps) {
+  const { format: formatCurrency } = useCurrency();
+
+  const [noteType, setNoteType] = useState<NoteType>("credit");
+  const [partyType, setPartyType] = useState<Bill["party_type"]>("customer");
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [isLoadingBills, setIsLoadingBills] = useState(false);
+  const [billId, setBillId] = useState("");
+  const [lines, setLines] = useState<Record<string, LineInput>>({});
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [reason, setReason] = useState(NOTE_REASONS[0]);
+  const [restock, setRestock] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setNoteType("credit");
+    setPartyType(bill?.party_type ?? "customer");
+    setBillId(bill?.id ?? "");
+    setDate(new Date().toISOString().split("T")[0]);
+    setReason(NOTE_REASONS[0]);
+    setRestock(true);
+    setNotes("");
+  }, [open, bill]);
+
+  // Load the bills notes can be raised against
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoadingBills(true);
+    billsService.fetchBills({ partyType }).then(({ data }) => {
+      if (cancelled) return;
+      setBills((data ?? []).filter(b => b.status !== "cancelled" && b.status !== "draft"));
+      setIsLoadingBills(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, partyType]);
+
+  const selectedBill = useMemo(
+    () => bills.find(b => b.id === billId) ?? (bill?.id === billId ? bill : undefined),
+    [bills, billId, bill]
+  );
+
+  // Start every line at zero quantity and the billed net rate
+  useEffect(() => {
+    setLines(Object.fromEntries(
+      (selectedBill?.items ?? []).map(item => [item.id, { quantity: "", rate: netRate(item).toString() }])
+    ));
+  }, [selectedBill]);
+
+  const totals = useMemo(() => creditNotesService.calculateTotals(
+    (selectedBill?.items ?? []).map(item => ({
+      bill_item_id: item.id,
+      product_id: item.product_id ?? null,
+      name: item.name,
+      hsn: item.hsn ?? null,
+      quantity: parseFloat(lines[item.id]?.quantity) || 0,
+      unit_price: parseFloat(lines[item.id]?.rate) || 0,
+      tax_rate: Number(item.tax_rate ?? 0),
+    })).filter(item => item.quantity > 0 && item.unit_price > 0)
+  ), [selectedBill, lines]);
+
+  const updateLine = (itemId: string, field: keyof LineInput, value: string) => {
+    setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedBill) {
+      toast.error("Select the original bill");
+      return;
+    }
+
+    if (totals.items.length === 0) {
+      toast.error("Enter a quantity and rate for at least one line");
+      return;
+    }
+
+    const overReturned = selectedBill.items.find(item =>
+      noteType === "credit" && (parseFloat(lines[item.id]?.quantity) || 0) > Number(item.quantity)
+    );
+    if (overReturned) {
+      toast.error(`Quantity for ${overReturned.name} exceeds the billed ${overReturned.quantity}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await creditNotesService.createNote({
+        note_type: noteType,
+        date: new Date(date).toISOString(),
+        bill: selectedBill,
+        reason,
+        items: totals.items,
+        restock: noteType === "credit" && restock,
+        notes: notes.trim() || undefined,
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to create note");
+      }
+
+      toast.success(`${noteType === "credit" ? "Credit" : "Debit"} note created!`, {
+        description: `${data.note_number} against ${data.original_bill_number} for ${formatCurrency(data.total_amount)}`,
+      });
+
+      onNoteCreated?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to create note:", error);
+      toast.error("Failed to create note", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hasStockLines = selectedBill?.items.some(item => item.product_id) ?? false;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{noteType === "credit" ? "Create Credit Note" : "Create Debit Note"}</DialogTitle>
+          <DialogDescription>
+            {noteType === "credit"
+              ? "Reverse returned or overcharged lines on an issued bill."
+              : "Charge for an undercharged price or quantity on an issued bill."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Note Type</Label>
+                <Select value={noteType} onValueChange={(value) => setNoteType(value as NoteType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="credit">Credit Note</SelectItem>
+                    <SelectItem value="debit">Debit Note</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Against</Label>
+                <Select
+                  value={partyType}
+                  onValueChange={(value) => {
+                    setPartyType(value as Bill["party_type"]);
+                    setBillId("");
+                  }}
+                  disabled={Boolean(bill)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="customer">Sales invoice</SelectItem>
+                    <SelectItem value="supplier">Purchase bill</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Original Bill *</Label>
+              <Select value={billId} onValueChange={setBillId} disabled={Boolean(bill) || isLoadingBills}>
+                <SelectTrigger>
+                  <SelectValue placeholder={isLoadingBills ? "Loading bills..." : "Select bill"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(bill && !bills.some(b => b.id === bill.id) ? [bill, ...bills] : bills).map(b => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.bill_number} • {b.party_name} • {formatCurrency(Number(b.total_amount))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="note-date">Date</Label>
+                <Input
+                  id="note-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={setReason}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTE_REASONS.map(value => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {selectedBill && (
+              <div className="space-y-2">
+                <Label>{noteType === "credit" ? "Lines to Reverse" : "Lines to Charge"}</Label>
+                <div className="space-y-2">
+                  {selectedBill.items.map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Billed {item.quantity} × {formatCurrency(netRate(item))}
+                          {Number(item.tax_rate) > 0 && ` • GST ${item.tax_rate}%`}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={lines[item.id]?.quantity ?? ""}
+                        onChange={(e) => updateLine(item.id, "quantity", e.target.value)}
+                        placeholder="Qty"
+                        className="h-8 w-20 text-sm bg-card"
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={lines[item.id]?.rate ?? ""}
+                        onChange={(e) => updateLine(item.id, "rate", e.target.value)}
+                        placeholder="Rate"
+                        className="h-8 w-28 text-sm bg-card"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {noteType === "credit" && hasStockLines && (
+              <div className="flex items-center justify-between rounded-lg border border-border p-3">
+                <div>
+                  <Label htmlFor="note-restock">
+                    {partyType === "customer" ? "Return goods to stock" : "Remove returned goods from stock"}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">Only lines linked to inventory products are moved</p>
+                </div>
+                <Switch id="note-restock" checked={restock} onCheckedChange={setRestock} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="note-notes">Notes (Optional)</Label>
+              <Textarea
+                id="note-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="Add any remarks..."
+              />
+            </div>
+
+            {totals.total_amount > 0 && (
+              <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taxable value</span>
+                  <span>{formatCurrency(totals.subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">GST</span>
+                  <span>{formatCurrency(totals.tax_amount)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t font-semibold">
+                  <span>{noteType === "credit" ? "Credit" : "Debit"} total</span>
+                  <span className="text-primary">{formatCurrency(totals.total_amount)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !selectedBill}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Note"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * Create E-Way Bill Modal
+ * Collects transport details for a goods invoice, downloads the e-way bill
+ * JSON for upload to the portal, and records the number the portal issues
+ * in the e-way bill register.
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import type { Bill } from "@/services/api/billsService";
+import { eWayBillsService, type EWayBill } from "@/services/api/eWayBillsService";
+import {
+  downloadEWayBillJSON,
+  hasPartB,
+  EWAY_BILL_JSON_VERSION,
+  EWAY_BILL_THRESHOLD,
+  TRANSPORT_MODE_LABELS,
+  type EWayBillTransport,
+  type TransportMode,
+  type VehicleType,
+} from "@/lib/eWayBill";
+
+interface CreateEWayBillModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bill: Bill | null;
+  onEWayBillCreated?: (ewayBill: EWayBill) => void;
+}
+
+export function CreateEWayBillModal({ open, onOpenChange, bill, onEWayBillCreated }: CreateEWayBillModalProps) {
+  const { format: formatCurrency } = useCurrency();
+
+  const [transMode, setTransMode] = useState<TransportMode>("road");
+  const [distanceKm, setDistanceKm] = useState("");
+  const [transporterId, setTransporterId] = useState("");
+  const [transporterName, setTransporterName] = useState("");
+  const [vehicleNo, setVehicleNo] = useState("");
+  const [vehicleType, setVehicleType] = useState<VehicleType>("regular");
+  const [transDocNo, setTransDocNo] = useState("");
+  const [transDocDate, setTransDocDate] = useState("");
+  const [ewbNo, setEwbNo] = useState("");
+  const [ewbDate, setEwbDate] = useState("");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setTransMode("road");
+    setDistanceKm("");
+    setTransporterId("");
+    setTransporterName("");
+    setVehicleNo("");
+    setVehicleType("regular");
+    setTransDocNo("");
+    setTransDocDate("");
+    setEwbNo("");
+    setEwbDate(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  }, [open, bill]);
+
+  const transport: EWayBillTransport = {
+    transMode,
+    distanceKm: Number(distanceKm || 0),
+    transporterId: transporterId || undefined,
+    transporterName: transporterName || undefined,
+    vehicleNo: transMode === "road" ? vehicleNo || undefined : undefined,
+    vehicleType,
+    transDocNo: transDocNo || undefined,
+    transDocDate: transDocDate || undefined,
+  };
+
+  /**
+   * Build the payload, reporting validation problems to the user
+   */
+  const buildPayload = async () => {
+    if (!bill) return null;
+
+    const { payload, errors, error } = await eWayBillsService.buildPayload(bill, transport);
+    if (errors.length > 0) {
+      toast.error("E-way bill details are incomplete", { description: errors.join("\n") });
+      return null;
+    }
+    if (error || !payload) {
+      toast.error("Failed to build e-way bill", { description: error?.message });
+      return null;
+    }
+    return payload;
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const payload = await buildPayload();
+      if (!payload || !bill) return;
+
+      downloadEWayBillJSON(
+        { version: EWAY_BILL_JSON_VERSION, billLists: [payload] },
+        `EWB_${bill.bill_number.replace(/[^a-zA-Z0-9-]/g, "_")}.json`
+      );
+      toast.success("E-way bill JSON downloaded", {
+        description: "Upload it on the e-way bill portal, then enter the number issued",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bill) return;
+
+    setIsSaving(true);
+    try {
+      const payload = await buildPayload();
+      if (!payload) return;
+
+      const { data, error } = await eWayBillsService.createEWayBill({
+        bill,
+        transport,
+        payload,
+        ewb_no: ewbNo,
+        ewb_date: new Date(ewbDate).toISOString(),
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to save e-way bill");
+      }
+
+      toast.success(`E-way bill ${data.ewb_no} saved`, {
+        description: data.valid_until
+          ? `Valid until ${format(new Date(data.valid_until), "dd MMM yyyy, HH:mm")}`
+          : "Part-B pending: add the vehicle before the goods move",
+      });
+
+      onEWayBillCreated?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save e-way bill:", error);
+      toast.error("Failed to save e-way bill", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>E-Way Bill{bill ? ` • ${bill.bill_number}` : ""}</DialogTitle>
+          <DialogDescription>
+            Download the JSON for the e-way bill portal, then record the e-way bill number it issues
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            {bill && (
+              <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Customer</span>
+                  <span>{bill.party_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Invoice value</span>
+                  <span className="font-semibold">{formatCurrency(Number(bill.total_amount))}</span>
+                </div>
+                {Number(bill.total_amount) < EWAY_BILL_THRESHOLD && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    Below {formatCurrency(EWAY_BILL_THRESHOLD)}; an e-way bill is optional for this consignment
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Mode of Transport</Label>
+                <Select value={transMode} onValueChange={(value) => setTransMode(value as TransportMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRANSPORT_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ewb-distance">Distance (km) *</Label>
+                <Input
+                  id="ewb-distance"
+                  type="number"
+                  min="0"
+                  max="4000"
+                  step="1"
+                  value={distanceKm}
+                  onChange={(e) => setDistanceKm(e.target.value)}
+                  placeholder="e.g. 350"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ewb-transporter-name">Transporter Name</Label>
+                <Input
+                  id="ewb-transporter-name"
+                  value={transporterName}
+                  onChange={(e) => setTransporterName(e.target.value)}
+                  placeholder="e.g. VRL Logistics"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ewb-transporter-id">Transporter ID</Label>
+                <Input
+                  id="ewb-transporter-id"
+                  value={transporterId}
+                  onChange={(e) => setTransporterId(e.target.value.toUpperCase())}
+                  placeholder="GSTIN or TRANSIN"
+                  maxLength={15}
+                />
+              </div>
+            </div>
+
+            {transMode === "road" ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ewb-vehicle">Vehicle Number</Label>
+                  <Input
+                    id="ewb-vehicle"
+                    value={vehicleNo}
+                    onChange={(e) => setVehicleNo(e.target.value.toUpperCase())}
+                    placeholder="e.g. KA01AB1234"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Vehicle Type</Label>
+                  <Select value={vehicleType} onValueChange={(value) => setVehicleType(value as VehicleType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="regular">Regular</SelectItem>
+                      <SelectItem value="odc">Over-dimensional cargo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : null}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ewb-doc-no">Transport Doc No{transMode !== "road" && " *"}</Label>
+                <Input
+                  id="ewb-doc-no"
+                  value={transDocNo}
+                  onChange={(e) => setTransDocNo(e.target.value)}
+                  placeholder="LR / RR / AWB / B/L number"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ewb-doc-date">Transport Doc Date{transMode !== "road" && " *"}</Label>
+                <Input
+                  id="ewb-doc-date"
+                  type="date"
+                  value={transDocDate}
+                  onChange={(e) => setTransDocDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {!hasPartB(transport) && (
+              <p className="text-xs text-muted-foreground">
+                Without a {transMode === "road" ? "vehicle number" : "transport document"} only Part-A is filed; the
+                e-way bill becomes valid once Part-B is updated from the register.
+              </p>
+            )}
+
+            <Button type="button" variant="outline" className="w-full" onClick={handleDownload} disabled={isDownloading || !bill}>
+              {isDownloading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              Download E-Way Bill JSON
+            </Button>
+
+            <div className="grid grid-cols-2 gap-4 pt-2 border-t">
+              <div className="space-y-2">
+                <Label htmlFor="ewb-number">E-Way Bill No *</Label>
+                <Input
+                  id="ewb-number"
+                  value={ewbNo}
+                  onChange={(e) => setEwbNo(e.target.value.replace(/\D/g, ""))}
+                  placeholder="12-digit number from the portal"
+                  maxLength={12}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ewb-date">Generated On *</Label>
+                <Input
+                  id="ewb-date"
+                  type="datetime-local"
+                  value={ewbDate}
+                  onChange={(e) => setEwbDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !bill}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save to Register"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
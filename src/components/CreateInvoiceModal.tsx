@@ -6,6 +6,7 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -19,10 +20,15 @@ import {
   ChevronDown,
   Package
 } from "lucide-react";
-import { InvoiceData, InvoiceItem } from "@/types/invoice";
+import { CustomInvoiceTemplate, DocumentType, InvoiceData, InvoiceItem, RoundOffMode, UpiPayee } from "@/types/invoice";
 import { 
   calculateLineItemAmount, 
   calculateInvoiceTotals,
+  invoiceItemToTaxableLine,
+  taxRateSuffix,
+  toBaseCurrency,
+  BASE_CURRENCY,
+  ROUND_OFF_OPTIONS,
   validateGSTIN,
   determineGSTType,
   generateInvoiceNumber,
@@ -33,13 +39,32 @@ import {
   GST_RATES,
   PAYMENT_TERMS,
   DEFAULT_TERMS_CONDITIONS,
-  DEFAULT_PAYMENT_INSTRUCTIONS
+  DEFAULT_PAYMENT_INSTRUCTIONS,
+  DOCUMENT_LABELS
 } from "@/lib/invoiceUtils";
+import { downloadInvoicePdf } from "@/lib/invoicePdf";
+import { getUpiPayee } from "@/lib/upiPayment";
+import { toInvoiceTemplate } from "@/lib/customTemplates";
 import { 
   INVOICE_TEMPLATES, 
+  getTemplatesForDocument,
   renderInvoiceTemplate
 } from "@/lib/invoiceTemplates";
-import { supabase } from "@/integrations/supabase/client";
+import { billsService, type Bill } from "@/services/api/billsService";
+import { customersService } from "@/services/api/customersService";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { invoiceTemplatesService } from "@/services/api/invoiceTemplatesService";
+import { quotationsService, type Quotation } from "@/services/api/quotationsService";
+import { creditControlService } from "@/services/api/creditControlService";
+import { salesDocumentsService, DEFAULT_DOCUMENT_PREFIXES, type SalesDocument } from "@/services/api/salesDocumentsService";
+import {
+  billToInvoiceData,
+  invoiceDataToBillInput,
+  invoiceDataToQuotationInput,
+  invoiceDataToSalesDocumentInput,
+  quotationToInvoiceData,
+  salesDocumentToInvoiceData
+} from "@/lib/invoiceMapping";
 import { useBusinessContext } from "@/contexts/BusinessContext";
 import ProductSelectionModal, { SelectedProduct } from "@/components/ProductSelectionModal";
 
@@ -47,14 +72,32 @@ interface CreateInvoiceModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: (invoiceData: any) => void;
+  invoice?: Bill | null; // Existing invoice to edit
+  documentType?: DocumentType; // Build a quotation, challan or proforma instead of an invoice
+  quotation?: Quotation | null; // Existing quotation to edit
+  salesDocument?: SalesDocument | null; // Existing challan or proforma to edit
 }
 
-export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: CreateInvoiceModalProps) {
+export default function CreateInvoiceModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  invoice,
+  documentType = "invoice",
+  quotation,
+  salesDocument,
+}: CreateInvoiceModalProps) {
   // Get business profile from context
   const { businessProfile } = useBusinessContext();
+  const isQuotation = documentType === "quotation";
+  const salesDocumentType = documentType === "delivery_challan" || documentType === "proforma" ? documentType : null;
+  const labels = DOCUMENT_LABELS[documentType];
+  const existing = isQuotation ? quotation : salesDocumentType ? salesDocument : invoice;
+  const templates = useMemo(() => getTemplatesForDocument(documentType), [documentType]);
   
   // Form State
   const [billNumber, setBillNumber] = useState("");
+  const [suggestedNumber, setSuggestedNumber] = useState("");
   const [billDate, setBillDate] = useState(new Date().toISOString().split('T')[0]);
   const [dueDate, setDueDate] = useState(calculateDueDate(new Date(), 30).toISOString().split('T')[0]);
   
@@ -82,15 +125,22 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
   const [includeGST, setIncludeGST] = useState(false);
   const [gstType, setGstType] = useState<"none" | "igst" | "cgst_sgst">("none");
   const [gstRate, setGstRate] = useState(18);
+  const [invoiceDiscount, setInvoiceDiscount] = useState("0");
+  const [roundOffMode, setRoundOffMode] = useState<RoundOffMode>("none");
+  const [exchangeRate, setExchangeRate] = useState("");
   const [notes, setNotes] = useState("");
   const [termsAndConditions, setTermsAndConditions] = useState(DEFAULT_TERMS_CONDITIONS);
   const [paymentInstructions, setPaymentInstructions] = useState(DEFAULT_PAYMENT_INSTRUCTIONS);
   const [bankDetails, setBankDetails] = useState("");
+  const [upiPayee, setUpiPayee] = useState<UpiPayee | undefined>(undefined);
   
   // Template & UI
-  const [selectedTemplate, setSelectedTemplate] = useState("modern");
+  const [selectedTemplate, setSelectedTemplate] = useState(templates[0]?.id ?? "modern");
+  const [customTemplates, setCustomTemplates] = useState<CustomInvoiceTemplate[]>([]);
+  const [deductStock, setDeductStock] = useState(false);
   const [currencyCode, setCurrencyCode] = useState("INR");
   const [isSaving, setIsSaving] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [expandedSections, setExpandedSections] = useState({
     business: false,
@@ -100,14 +150,103 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
     additional: false
   });
   
-  // Auto-generate invoice number
+  // Suggest the next number in the document's series; it is only reserved on save
   useEffect(() => {
-    setBillNumber(generateInvoiceNumber("INV", 0, new Date().getFullYear()));
-  }, []);
+    if (existing || !open) return;
+
+    const nextNumber = isQuotation
+      ? quotationsService.getNextQuotationNumber()
+      : salesDocumentType
+        ? salesDocumentsService.getNextDocumentNumber(salesDocumentType)
+        : billsService.getNextInvoiceNumber();
+    const fallbackPrefix = isQuotation ? "QT" : salesDocumentType ? DEFAULT_DOCUMENT_PREFIXES[salesDocumentType] : "INV";
+
+    nextNumber
+      .then(number => {
+        setBillNumber(number);
+        setSuggestedNumber(number);
+      })
+      .catch(() => setBillNumber(generateInvoiceNumber(fallbackPrefix, 0, new Date().getFullYear())));
+  }, [existing, open, isQuotation, salesDocumentType]);
+
+  // New documents start on the document type's own template
+  useEffect(() => {
+    if (open && !existing) {
+      setSelectedTemplate(templates[0]?.id ?? "modern");
+    }
+  }, [open, existing, templates]);
+
+  // New documents use the default round-off from settings
+  useEffect(() => {
+    if (!open || existing) return;
+
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      setRoundOffMode(data?.invoice_round_off ?? "none");
+    });
+  }, [open, existing]);
+  
+  // Payment QR follows the UPI settings
+  useEffect(() => {
+    if (!open) return;
+
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      setUpiPayee(getUpiPayee(data));
+    });
+  }, [open]);
+
+  // Templates from the template designer
+  useEffect(() => {
+    if (!open) return;
+
+    invoiceTemplatesService.fetchTemplates().then(({ data }) => {
+      setCustomTemplates(data ?? []);
+    });
+  }, [open]);
+
+  // Load the invoice, quotation, challan or proforma being edited
+  useEffect(() => {
+    if (!open) return;
+
+    const data = isQuotation
+      ? quotation ? quotationToInvoiceData(quotation) : null
+      : salesDocumentType
+        ? salesDocument ? salesDocumentToInvoiceData(salesDocument) : null
+        : invoice ? billToInvoiceData(invoice) : null;
+    if (!data) return;
+
+    setBillNumber(data.billNumber);
+    setBillDate(data.billDate);
+    setDueDate(data.dueDate);
+    setBusinessName(data.businessName);
+    setBusinessAddress(data.businessAddress);
+    setBusinessPhone(data.businessPhone);
+    setBusinessEmail(data.businessEmail);
+    setBusinessGST(data.businessGST);
+    setCustomerName(data.customerName);
+    setCustomerAddress(data.customerAddress);
+    setCustomerPhone(data.customerPhone);
+    setCustomerEmail(data.customerEmail);
+    setCustomerGST(data.customerGST);
+    if (data.items.length > 0) {
+      setItems(data.items);
+    }
+    setIncludeGST(data.includeGST);
+    setGstType(data.gstType);
+    setGstRate(data.gstRate || 18);
+    setInvoiceDiscount(String(data.discountAmount ?? 0));
+    setRoundOffMode(data.roundOffMode ?? "none");
+    setCurrencyCode(data.currencyCode);
+    setExchangeRate(data.exchangeRate ? String(data.exchangeRate) : "");
+    setNotes(data.notes);
+    setTermsAndConditions(data.termsAndConditions);
+    setPaymentInstructions(data.paymentInstructions);
+    setSelectedTemplate(data.templateId);
+    setDeductStock(salesDocument?.stock_deducted ?? false);
+  }, [invoice, quotation, salesDocument, isQuotation, salesDocumentType, open]);
   
   // 🎯 AUTO-POPULATE BUSINESS DETAILS FROM SETTINGS
   useEffect(() => {
-    if (businessProfile && open) {
+    if (businessProfile && open && !existing) {
       console.log('🏢 Auto-populating business details from Settings:', businessProfile);
       
       // Populate business information from settings
@@ -153,7 +292,7 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
         duration: 2000,
       });
     }
-  }, [businessProfile, open]);
+  }, [businessProfile, open, existing]);
   
   // Auto-determine GST type
   useEffect(() => {
@@ -165,13 +304,14 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
   
   // Calculations
   const calculations = useMemo(() => {
-    return calculateInvoiceTotals(items, gstRate, gstType, includeGST);
-  }, [items, gstRate, gstType, includeGST]);
+    return calculateInvoiceTotals(items, gstRate, gstType, includeGST, parseFloat(invoiceDiscount) || 0, roundOffMode);
+  }, [items, gstRate, gstType, includeGST, invoiceDiscount, roundOffMode]);
   
   const currency = useMemo(() => createCurrencyContext(currencyCode), [currencyCode]);
   
   // Invoice data for preview
   const invoiceData = useMemo(() => ({
+    documentType,
     billNumber,
     billDate,
     dueDate,
@@ -187,12 +327,17 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
     customerEmail,
     customerGST,
     customerState,
-    items,
+    items: items.map((item, index) => ({ ...item, amount: calculations.lineAmounts[index].toString() })),
     subtotal: calculations.subtotal,
+    discountAmount: calculations.discountAmount,
     gstAmount: calculations.gstAmount,
     cgst: calculations.cgst,
     sgst: calculations.sgst,
     igst: calculations.igst,
+    cess: calculations.cess,
+    taxBreakup: calculations.taxBreakup,
+    roundOff: calculations.roundOff,
+    roundOffMode,
     total: calculations.total,
     gstType,
     gstRate,
@@ -203,22 +348,28 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
     bankDetails,
     templateId: selectedTemplate,
     currencyCode,
-    currencySymbol: currency.symbol
+    currencySymbol: currency.symbol,
+    exchangeRate: currencyCode !== BASE_CURRENCY ? parseFloat(exchangeRate) || undefined : undefined,
+    upiPayee,
+    amountDue: Math.max(0, calculations.total - (invoice?.paid_amount ?? 0))
   }), [
-    billNumber, billDate, dueDate, businessName, businessAddress, businessPhone, businessEmail,
+    documentType, billNumber, billDate, dueDate, businessName, businessAddress, businessPhone, businessEmail,
     businessGST, businessState, customerName, customerAddress, customerPhone, customerEmail,
     customerGST, customerState, items, calculations, gstType, gstRate, includeGST,
     notes, termsAndConditions, paymentInstructions, bankDetails, selectedTemplate,
-    currencyCode, currency.symbol
+    currencyCode, currency.symbol, roundOffMode, exchangeRate, upiPayee, invoice
   ]);
   
   // Item handlers
-  const updateItem = (id: string, field: keyof InvoiceItem, value: string) => {
+  const updateItem = (id: string, field: keyof InvoiceItem, value: string | boolean) => {
     setItems(prev => prev.map(item => {
       if (item.id === id) {
         const updated = { ...item, [field]: value };
-        if (field === "quantity" || field === "price" || field === "discount") {
-          const amount = calculateLineItemAmount(updated.quantity, updated.price, updated.discount);
+        if (field === "quantity" || field === "price" || field === "discount" || field === "taxRate" || field === "cessRate" || field === "taxInclusive") {
+          const line = invoiceItemToTaxableLine(updated, gstRate, includeGST);
+          const amount = calculateLineItemAmount(
+            updated.quantity, updated.price, updated.discount, line.taxRate, line.cessRate, line.taxInclusive
+          );
           updated.amount = amount.toString();
         }
         return updated;
@@ -253,19 +404,22 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
     // Convert selected products to invoice items
     const newItems: InvoiceItem[] = selectedProducts.map(product => ({
       id: `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      productId: product.id,
       name: product.name,
       description: product.description || "",
       hsn: product.hsn || "",
       quantity: product.quantity.toString(),
       price: product.price.toString(),
       discount: product.discount.toString(),
-      amount: product.amount.toString()
+      amount: product.amount.toString(),
+      taxRate: product.taxRate !== undefined ? product.taxRate.toString() : "",
+      taxInclusive: product.taxInclusive ?? false
     }));
     
     // Add to existing items
     setItems(prev => [...prev, ...newItems]);
     
-    toast.success(`Added ${selectedProducts.length} product${selectedProducts.length !== 1 ? 's' : ''} to invoice`, {
+    toast.success(`Added ${selectedProducts.length} product${selectedProducts.length !== 1 ? 's' : ''} to ${labels.title.toLowerCase()}`, {
       description: selectedProducts.map(p => `${p.name} (${p.quantity}x)`).join(', ')
     });
   };
@@ -275,7 +429,25 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
     setDueDate(newDueDate.toISOString().split('T')[0]);
   };
   
-  // Save invoice
+  // Download the current preview as a PDF
+  const handleDownloadPdf = async () => {
+    if (items.length === 0) {
+      toast.error("Add at least one item before downloading");
+      return;
+    }
+
+    setIsGeneratingPdf(true);
+    try {
+      await downloadInvoicePdf(invoiceData as InvoiceData, customTemplates);
+    } catch (error) {
+      console.error('❌ Error generating invoice PDF:', error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  // Save invoice, quotation, challan or proforma
   const handleSave = async () => {
     const validation = validateInvoiceData(invoiceData);
     if (!validation.isValid) {
@@ -285,81 +457,139 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
     
     setIsSaving(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        toast.error("Not authenticated");
+      // Link the document to a customer so it shows up in their ledger and receipts
+      let partyId = existing?.party_id ?? null;
+      let partyName = customerName.trim();
+
+      if (!partyId || existing?.party_name !== partyName) {
+        const { data: customer, error: customerError } = await customersService.findOrCreateCustomer({
+          name: partyName,
+          phone: customerPhone,
+          email: customerEmail || undefined,
+          address: customerAddress || undefined,
+          gst_number: customerGST || undefined,
+        });
+
+        if (customerError || !customer) {
+          throw customerError ?? new Error('Could not find or create the customer');
+        }
+
+        partyId = customer.id;
+        partyName = customer.name;
+      }
+
+      // A new invoice is credit given; check it, in INR, against the customer's limit
+      if (!invoice && !isQuotation && !salesDocumentType) {
+        const { data: credit, error: creditError } = await creditControlService.checkCustomerCredit(
+          partyId,
+          toBaseCurrency(calculations.total, currencyCode, invoiceData.exchangeRate),
+          amount => createCurrencyContext(BASE_CURRENCY).format(amount)
+        );
+        const breaches = credit?.status.breaches ?? [];
+
+        // An unchecked limit is never passed silently: blocked when set to
+        // block, otherwise only with the user's say-so
+        if (creditError) {
+          const { data: mode } = await creditControlService.getMode();
+          if (mode === "block") {
+            toast.error(`Could not check ${partyName}'s credit limit`, {
+              description: creditError.message ?? "Try again once the customer's balance can be loaded.",
+            });
+            return;
+          }
+          if (!confirm(`Could not check ${partyName}'s credit limit.\n\nCreate the invoice anyway?`)) {
+            return;
+          }
+        }
+        if (credit?.blocked) {
+          toast.error(`Credit limit reached for ${partyName}`, {
+            description: breaches.map(b => b.message).join(". "),
+          });
+          return;
+        }
+        if (breaches.length > 0 && !confirm(`${partyName}: ${breaches.map(b => b.message).join(". ")}.\n\nCreate the invoice anyway?`)) {
+          return;
+        }
+      }
+
+      // An untouched suggested number is left blank so the service reserves
+      // it, which keeps two devices from saving the same number
+      const documentData = {
+        ...invoiceData,
+        billNumber: !existing && billNumber === suggestedNumber ? "" : billNumber,
+      } as InvoiceData;
+
+      if (isQuotation) {
+        const quotationInput = invoiceDataToQuotationInput(documentData, { id: partyId, name: partyName });
+        const { data: saved, error } = quotation
+          ? await quotationsService.updateQuotation(quotation.id, quotationInput)
+          : await quotationsService.createQuotation(quotationInput);
+        if (error) throw error;
+
+        toast.success(quotation ? "Quotation Updated!" : "Quotation Created!", {
+          description: `${saved?.quotation_number ?? billNumber} for ${currency.symbol}${Number(saved?.total_amount ?? calculations.total).toFixed(2)}`
+        });
+
+        onOpenChange(false);
+        onSuccess?.(saved);
         return;
       }
 
-      // Map items to the format expected by database
-      const itemsData = items.map((item, index) => ({
-        id: `item-${Date.now()}-${index}`,
-        description: item.name,
-        quantity: item.quantity,
-        rate: item.price,
-        amount: parseFloat(item.amount),
-      }));
-
-      // Insert into 'bills' table (correct table name)
-      const billData = {
-        id: `bill-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // ✅ Generate unique ID
-        user_id: user.id,
-        bill_number: billNumber,
-        template: selectedTemplate,
-        customer_name: customerName,
-        customer_phone: customerPhone,
-        customer_email: customerEmail || null,
-        customer_gst: customerGST || null,
-        customer_address: customerAddress || null,
-        bill_date: billDate,
-        due_date: dueDate,
-        business_name: businessName,
-        business_address: businessAddress,
-        business_gst: businessGST || null,
-        business_phone: businessPhone,
-        business_email: businessEmail || null,
-        gst_type: gstType,
-        include_gst: gstRate > 0,
-        gst_rate: gstRate,
-        items: itemsData, // Store as JSONB
-        subtotal: calculations.subtotal,
-        gst_amount: calculations.gstAmount,
-        total: calculations.total,
-        notes: notes || null,
-        terms_and_conditions: termsAndConditions || null,
-        payment_instructions: paymentInstructions || null,
-        status: 'draft',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        synced_at: new Date().toISOString(),
-        deleted_at: null,
-        device_id: null, // ✅ Add device_id field
-      };
-
-      console.log('🚀 Creating invoice in bills table:', billData);
-
-      const { data: invoice, error: invoiceError } = await (supabase as any)
-        .from('bills')
-        .insert(billData)
-        .select()
-        .single();
-      
-      if (invoiceError) {
-        console.error('❌ Error creating invoice:', invoiceError);
-        throw invoiceError;
+      if (salesDocumentType) {
+        const documentInput = invoiceDataToSalesDocumentInput(
+          documentData,
+          { id: partyId, name: partyName },
+          salesDocumentType
+        );
+        // Lines that already left stock stay as dispatched
+        const { data: saved, error } = salesDocument
+          ? await salesDocumentsService.updateDocument(
+              salesDocument,
+              salesDocument.stock_deducted ? { ...documentInput, items: undefined, discount_amount: undefined } : documentInput
+            )
+          : await salesDocumentsService.createDocument({ ...documentInput, deduct_stock: deductStock });
+        if (error) throw error;
+
+        toast.success(salesDocument ? `${labels.title} Updated!` : `${labels.title} Created!`, {
+          description: `${saved?.document_number ?? billNumber} for ${currency.symbol}${Number(saved?.total_amount ?? calculations.total).toFixed(2)}`
+        });
+
+        onOpenChange(false);
+        onSuccess?.(saved);
+        return;
+      }
+
+      const billInput = invoiceDataToBillInput(documentData, { id: partyId, name: partyName });
+
+      let saved: Bill | null;
+      if (invoice) {
+        const { data, error } = await billsService.updateBill(invoice.id, {
+          ...billInput,
+          items: billInput.items.map((item, index) => ({
+            ...item,
+            id: invoice.items[index]?.id ?? `item-${Date.now()}-${index}`,
+          })),
+          // Re-derive balance and status against the new total
+          paid_amount: invoice.paid_amount,
+        });
+        if (error) throw error;
+        saved = data;
+      } else {
+        const { data, error } = await billsService.createBill(billInput);
+        if (error) throw error;
+        saved = data;
       }
       
-      console.log('✅ Invoice created successfully:', invoice);
+      console.log('✅ Invoice saved successfully:', saved);
       
-      toast.success("Invoice Created!", {
-        description: `${billNumber} for ${currency.symbol}${calculations.total.toFixed(2)}`
+      toast.success(invoice ? "Invoice Updated!" : "Invoice Created!", {
+        description: `${saved?.bill_number ?? billNumber} for ${currency.symbol}${Number(saved?.total_amount ?? calculations.total).toFixed(2)}`
       });
       
       onOpenChange(false);
-      onSuccess?.(invoice); // Pass the created invoice to parent
+      onSuccess?.(saved); // Pass the saved invoice to parent
     } catch (error: any) {
-      console.error('❌ Failed to save invoice:', error);
+      console.error(`❌ Failed to save ${labels.title.toLowerCase()}:`, error);
       toast.error("Failed to Save", { description: error.message });
     } finally {
       setIsSaving(false);
@@ -400,13 +630,13 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b print:hidden">
           <div>
-            <h2 className="text-lg font-semibold">Create Invoice</h2>
-            <p className="text-sm text-muted-foreground">Professional invoice in seconds</p>
+            <h2 className="text-lg font-semibold">{existing ? `Edit ${labels.title}` : `Create ${labels.title}`}</h2>
+            <p className="text-sm text-muted-foreground">Professional {labels.title.toLowerCase()} in seconds</p>
           </div>
           <div className="flex items-center gap-2 mr-8">
-            <Button variant="ghost" size="sm" onClick={() => window.print()}>
+            <Button variant="ghost" size="sm" onClick={handleDownloadPdf} disabled={isGeneratingPdf}>
               <Download className="h-4 w-4 mr-2" />
-              PDF
+              {isGeneratingPdf ? "Generating..." : "PDF"}
             </Button>
             <Button size="sm" onClick={handleSave} disabled={isSaving}>
               <Save className="h-4 w-4 mr-2" />
@@ -425,12 +655,12 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
               <div className="bg-card rounded-xl p-5 shadow-sm border">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1.5">
-                    <Label className="text-xs font-medium">Invoice Number</Label>
+                    <Label className="text-xs font-medium">{labels.title} Number</Label>
                     <Input
                       value={billNumber}
                       onChange={(e) => setBillNumber(e.target.value)}
                       className="h-9 text-sm"
-                      placeholder="INV-2025-0001"
+                      placeholder={isQuotation ? "QT-0001" : salesDocumentType ? `${DEFAULT_DOCUMENT_PREFIXES[salesDocumentType]}-0001` : "INV-2025-0001"}
                     />
                   </div>
                   
@@ -448,9 +678,24 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                       </SelectContent>
                     </Select>
                   </div>
+
+                  {currencyCode !== BASE_CURRENCY && (
+                    <div className="space-y-1.5">
+                      <Label className="text-xs font-medium">Exchange Rate (₹ per 1 {currencyCode})</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.0001"
+                        value={exchangeRate}
+                        onChange={(e) => setExchangeRate(e.target.value)}
+                        placeholder="e.g. 83.25"
+                        className="h-9 text-sm"
+                      />
+                    </div>
+                  )}
                   
                   <div className="space-y-1.5">
-                    <Label className="text-xs font-medium">Invoice Date</Label>
+                    <Label className="text-xs font-medium">{labels.title} Date</Label>
                     <Input
                       type="date"
                       value={billDate}
@@ -460,7 +705,7 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                   </div>
                   
                   <div className="space-y-1.5">
-                    <Label className="text-xs font-medium">Due Date</Label>
+                    <Label className="text-xs font-medium">{labels.dueDate}</Label>
                     <Input
                       type="date"
                       value={dueDate}
@@ -469,6 +714,28 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                     />
                   </div>
                 </div>
+
+                {documentType === "delivery_challan" && (
+                  <div className="flex items-center justify-between mt-4 pt-4 border-t">
+                    <div>
+                      <span className="text-sm font-medium">Deduct stock on dispatch</span>
+                      <p className="text-xs text-muted-foreground">
+                        {salesDocument
+                          ? salesDocument.stock_deducted
+                            ? "Stock was deducted when issued; item changes are not saved"
+                            : "Set when the challan was issued"
+                          : "Inventory items leave stock now instead of when invoiced"}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setDeductStock(!deductStock)}
+                      disabled={!!salesDocument}
+                      className={`relative w-11 h-6 rounded-full transition-colors disabled:opacity-50 ${deductStock ? 'bg-primary' : 'bg-muted'}`}
+                    >
+                      <span className={`absolute top-0.5 left-0.5 h-5 w-5 bg-white rounded-full transition-transform ${deductStock ? 'translate-x-5' : ''}`} />
+                    </button>
+                  </div>
+                )}
               </div>
               
               {/* Business Info */}
@@ -707,11 +974,46 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                           className="h-8 text-sm bg-card"
                         />
                         <Input
-                          value={`${currency.symbol}${parseFloat(item.amount).toFixed(2)}`}
+                          value={`${currency.symbol}${calculations.lineAmounts[index].toFixed(2)}`}
                           disabled
                           className="h-8 text-sm bg-white font-medium"
                         />
                       </div>
+
+                      {includeGST && (
+                        <div className="grid grid-cols-3 gap-2">
+                          <Select
+                            value={item.taxRate || "default"}
+                            onValueChange={(v) => updateItem(item.id, "taxRate", v === "default" ? "" : v)}
+                          >
+                            <SelectTrigger className="h-8 text-xs bg-card">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="default">GST {gstRate}% (invoice)</SelectItem>
+                              {GST_RATES.map(rate => (
+                                <SelectItem key={rate.value} value={rate.value.toString()}>
+                                  GST {rate.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            value={item.cessRate ?? ""}
+                            onChange={(e) => updateItem(item.id, "cessRate", e.target.value)}
+                            placeholder="Cess%"
+                            className="h-8 text-sm bg-card"
+                          />
+                          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <Checkbox
+                              checked={Boolean(item.taxInclusive)}
+                              onCheckedChange={(checked) => updateItem(item.id, "taxInclusive", checked === true)}
+                            />
+                            Price incl. tax
+                          </label>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -765,15 +1067,27 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                     <span className="text-muted-foreground">Subtotal</span>
                     <span className="font-medium">{currency.symbol}{calculations.subtotal.toFixed(2)}</span>
                   </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="invoiceDiscount" className="text-muted-foreground font-normal">Discount</Label>
+                    <Input
+                      id="invoiceDiscount"
+                      type="number"
+                      min="0"
+                      value={invoiceDiscount}
+                      onChange={(e) => setInvoiceDiscount(e.target.value)}
+                      className="h-8 w-28 text-sm text-right bg-card"
+                    />
+                  </div>
                   
                   {includeGST && gstType === "cgst_sgst" && (
                     <>
                       <div className="flex justify-between text-xs">
-                        <span className="text-muted-foreground">CGST ({gstRate / 2}%)</span>
+                        <span className="text-muted-foreground">CGST{taxRateSuffix(invoiceData, 2)}</span>
                         <span>{currency.symbol}{calculations.cgst.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between text-xs">
-                        <span className="text-muted-foreground">SGST ({gstRate / 2}%)</span>
+                        <span className="text-muted-foreground">SGST{taxRateSuffix(invoiceData, 2)}</span>
                         <span>{currency.symbol}{calculations.sgst.toFixed(2)}</span>
                       </div>
                     </>
@@ -781,10 +1095,36 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                   
                   {includeGST && gstType === "igst" && (
                     <div className="flex justify-between text-xs">
-                      <span className="text-muted-foreground">IGST ({gstRate}%)</span>
+                      <span className="text-muted-foreground">IGST{taxRateSuffix(invoiceData)}</span>
                       <span>{currency.symbol}{calculations.igst.toFixed(2)}</span>
                     </div>
                   )}
+
+                  {calculations.cess > 0 && (
+                    <div className="flex justify-between text-xs">
+                      <span className="text-muted-foreground">Cess</span>
+                      <span>{currency.symbol}{calculations.cess.toFixed(2)}</span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-muted-foreground text-xs">Round off</span>
+                    <div className="flex items-center gap-2">
+                      <Select value={roundOffMode} onValueChange={(value) => setRoundOffMode(value as RoundOffMode)}>
+                        <SelectTrigger className="h-7 w-32 text-xs bg-card">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROUND_OFF_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs w-16 text-right">
+                        {calculations.roundOff > 0 ? "+" : ""}{calculations.roundOff.toFixed(2)}
+                      </span>
+                    </div>
+                  </div>
                   
                   <div className="flex justify-between pt-2 border-t">
                     <span className="font-semibold">Total</span>
@@ -792,6 +1132,13 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                       {currency.symbol}{calculations.total.toFixed(2)}
                     </span>
                   </div>
+
+                  {invoiceData.exchangeRate && (
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>In INR @ ₹{invoiceData.exchangeRate}</span>
+                      <span>₹{toBaseCurrency(calculations.total, currencyCode, invoiceData.exchangeRate).toFixed(2)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -799,7 +1146,7 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
               <div className="bg-card rounded-xl p-4 shadow-sm border">
                 <Label className="text-xs font-medium mb-3 block">Template</Label>
                 <div className="grid grid-cols-3 gap-2">
-                  {INVOICE_TEMPLATES.slice(0, 6).map((template) => (
+                  {templates.slice(0, 6).map((template) => (
                     <button
                       key={template.id}
                       onClick={() => setSelectedTemplate(template.id)}
@@ -817,6 +1164,30 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                     </button>
                   ))}
                 </div>
+                {customTemplates.length > 0 && (
+                  <>
+                    <Label className="text-xs font-medium text-muted-foreground mt-3 mb-2 block">Your templates</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {customTemplates.map(toInvoiceTemplate).map((template) => (
+                        <button
+                          key={template.id}
+                          onClick={() => setSelectedTemplate(template.id)}
+                          className={`p-2 rounded-lg border-2 transition-all ${
+                            selectedTemplate === template.id 
+                              ? "border-primary bg-primary/10" 
+                              : "border-border hover:border-muted-foreground/50"
+                          }`}
+                        >
+                          <div
+                            className="h-12 rounded mb-1.5"
+                            style={{ background: template.previewColor }}
+                          />
+                          <div className="text-xs font-medium truncate">{template.name}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
               </div>
               
               {/* Additional (Collapsible) */}
@@ -882,7 +1253,7 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
           <div className="bg-muted/50 flex flex-col overflow-hidden print:bg-white">
             <div className="px-4 py-3 bg-card/80 backdrop-blur border-b flex items-center justify-between flex-shrink-0 print:hidden">
               <span className="text-xs font-medium">Live Preview</span>
-              <Badge variant="secondary" className="text-xs">{INVOICE_TEMPLATES.find(t => t.id === selectedTemplate)?.name}</Badge>
+              <Badge variant="secondary" className="text-xs">{[...INVOICE_TEMPLATES, ...customTemplates.map(toInvoiceTemplate)].find(t => t.id === selectedTemplate)?.name}</Badge>
             </div>
             <div className="flex-1 overflow-y-auto overflow-x-hidden" id="invoice-preview-container">
               <div className="p-6 min-h-full flex justify-center print:p-0">
@@ -897,7 +1268,7 @@ export default function CreateInvoiceModal({ open, onOpenChange, onSuccess }: Cr
                   }}
                 >
                   <div className="w-full">
-                    {renderInvoiceTemplate(selectedTemplate, invoiceData)}
+                    {renderInvoiceTemplate(selectedTemplate, invoiceData, customTemplates)}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,356 @@
+/**
+ * Create Receipt Modal
+ * Records money received from a customer and allocates it across the
+ * customer's open bills. Anything left over is kept as an advance.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { customersService, type Customer } from "@/services/api/customersService";
+import { receiptsService, type Receipt } from "@/services/api/receiptsService";
+import type { Bill } from "@/services/api/billsService";
+
+interface CreateReceiptModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReceiptCreated?: (receipt: Receipt) => void;
+}
+
+const PAYMENT_METHODS = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "bank", label: "Bank Transfer" },
+  { value: "card", label: "Card" },
+  { value: "cheque", label: "Cheque" },
+];
+
+export function CreateReceiptModal({ open, onOpenChange, onReceiptCreated }: CreateReceiptModalProps) {
+  const { format: formatCurrency } = useCurrency();
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerId, setCustomerId] = useState("");
+  const [openBills, setOpenBills] = useState<Bill[]>([]);
+  const [isLoadingBills, setIsLoadingBills] = useState(false);
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form and load customers when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setCustomerId("");
+    setOpenBills([]);
+    setAllocations({});
+    setAmount("");
+    setDate(new Date().toISOString().split("T")[0]);
+    setPaymentMethod("cash");
+    setReferenceNumber("");
+    setNotes("");
+
+    const controller = new AbortController();
+    customersService.fetchCustomers({ signal: controller.signal }).then(({ data }) => {
+      if (data) setCustomers(data);
+    });
+
+    return () => controller.abort();
+  }, [open]);
+
+  // Load the selected customer's open bills
+  useEffect(() => {
+    if (!customerId) return;
+
+    let cancelled = false;
+    setIsLoadingBills(true);
+    setAllocations({});
+    receiptsService.fetchOpenBills(customerId).then(({ data }) => {
+      if (cancelled) return;
+      setOpenBills(data ?? []);
+      setIsLoadingBills(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const received = parseFloat(amount) || 0;
+
+  const allocated = useMemo(
+    () => Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0),
+    [allocations]
+  );
+
+  const handleAutoAllocate = () => {
+    const result = receiptsService.autoAllocate(openBills, received);
+    setAllocations(Object.fromEntries(result.map(a => [a.bill_id, a.amount.toString()])));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) {
+      toast.error("Select a customer");
+      return;
+    }
+
+    if (received <= 0) {
+      toast.error("Please enter the amount received");
+      return;
+    }
+
+    const overAllocated = openBills.find(bill =>
+      (parseFloat(allocations[bill.id]) || 0) > Number(bill.balance_amount)
+    );
+    if (overAllocated) {
+      toast.error(`Allocation exceeds the balance of ${overAllocated.bill_number}`);
+      return;
+    }
+
+    if (allocated > received + 0.001) {
+      toast.error("Allocated amount exceeds the amount received");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await receiptsService.createReceipt({
+        date: new Date(date).toISOString(),
+        customer_id: customer.id,
+        customer_name: customer.name,
+        amount: received,
+        payment_method: paymentMethod,
+        reference_number: referenceNumber.trim() || undefined,
+        notes: notes.trim() || undefined,
+        allocations: openBills
+          .filter(bill => (parseFloat(allocations[bill.id]) || 0) > 0)
+          .map(bill => ({
+            bill_id: bill.id,
+            bill_number: bill.bill_number,
+            amount: parseFloat(allocations[bill.id]),
+          })),
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to create receipt");
+      }
+
+      toast.success("Receipt created!", {
+        description: `${data.receipt_number} from ${customer.name} for ${formatCurrency(data.amount)}`,
+      });
+
+      onReceiptCreated?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to create receipt:", error);
+      toast.error("Failed to create receipt", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Receipt</DialogTitle>
+          <DialogDescription>
+            Record a payment from a customer and settle their open bills.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Customer *</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name} {customer.phone ? `• ${customer.phone}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="receipt-amount">Amount Received *</Label>
+                <Input
+                  id="receipt-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receipt-date">Date</Label>
+                <Input
+                  id="receipt-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Payment Method</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receipt-reference">Reference</Label>
+                <Input
+                  id="receipt-reference"
+                  value={referenceNumber}
+                  onChange={(e) => setReferenceNumber(e.target.value)}
+                  placeholder="Cheque / UTR number"
+                />
+              </div>
+            </div>
+
+            {customerId && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Allocate to Bills</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={handleAutoAllocate}
+                    disabled={openBills.length === 0 || received <= 0}
+                  >
+                    <Wand2 className="h-4 w-4 mr-2" />
+                    Auto Allocate
+                  </Button>
+                </div>
+
+                {isLoadingBills ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : openBills.length === 0 ? (
+                  <p className="text-sm text-muted-foreground rounded-lg border border-dashed p-4 text-center">
+                    No open bills. The full amount will be kept as an advance.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {openBills.map(bill => (
+                      <div key={bill.id} className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">{bill.bill_number}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Due {formatCurrency(Number(bill.balance_amount))} of {formatCurrency(Number(bill.total_amount))}
+                          </p>
+                        </div>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={bill.balance_amount}
+                          value={allocations[bill.id] ?? ""}
+                          onChange={(e) => setAllocations(prev => ({ ...prev, [bill.id]: e.target.value }))}
+                          placeholder="0.00"
+                          className="h-8 w-32 text-sm bg-card"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="receipt-notes">Notes (Optional)</Label>
+              <Textarea
+                id="receipt-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="Add any remarks..."
+              />
+            </div>
+
+            {received > 0 && (
+              <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Received</span>
+                  <span>{formatCurrency(received)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Allocated to bills</span>
+                  <span>{formatCurrency(allocated)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t font-semibold">
+                  <span>{allocated > received ? "Over-allocated" : "Advance"}</span>
+                  <span className={allocated > received ? "text-destructive" : "text-primary"}>
+                    {formatCurrency(Math.abs(received - allocated))}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !customerId}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Receipt"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Create Recurring Invoice Modal
+ * Turns an existing customer invoice into a repeating profile: pick the
+ * invoice to copy, how often to raise it and when the schedule runs.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { billsService, type Bill } from "@/services/api/billsService";
+import {
+  recurringInvoicesService,
+  RECURRING_FREQUENCY_LABELS,
+  type RecurringInvoice,
+  type RecurringInvoiceFrequency,
+} from "@/services/api/recurringInvoicesService";
+import { billToRecurringTemplate } from "@/lib/invoiceMapping";
+import { PAYMENT_TERMS } from "@/lib/invoiceUtils";
+
+interface CreateRecurringInvoiceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onProfileCreated?: (profile: RecurringInvoice) => void;
+  bill?: Bill | null; // Repeat this invoice
+}
+
+export function CreateRecurringInvoiceModal({ open, onOpenChange, onProfileCreated, bill }: CreateRecurringInvoiceModalProps) {
+  const { format: formatCurrency } = useCurrency();
+
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [isLoadingBills, setIsLoadingBills] = useState(false);
+  const [billId, setBillId] = useState("");
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<RecurringInvoiceFrequency>("monthly");
+  const [startDate, setStartDate] = useState(new Date().toISOString().split("T")[0]);
+  const [endDate, setEndDate] = useState("");
+  const [paymentTerms, setPaymentTerms] = useState(30);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setBillId(bill?.id ?? "");
+    setName(bill ? `${bill.party_name} - ${RECURRING_FREQUENCY_LABELS.monthly}` : "");
+    setFrequency("monthly");
+    setStartDate(new Date().toISOString().split("T")[0]);
+    setEndDate("");
+    setPaymentTerms(30);
+  }, [open, bill]);
+
+  // Load the customer invoices a profile can copy
+  useEffect(() => {
+    if (!open || bill) return;
+
+    let cancelled = false;
+    setIsLoadingBills(true);
+    billsService.fetchBills({ partyType: "customer" }).then(({ data }) => {
+      if (cancelled) return;
+      setBills((data ?? []).filter(b => b.status !== "cancelled"));
+      setIsLoadingBills(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, bill]);
+
+  const selectedBill = useMemo(
+    () => (bill?.id === billId ? bill : bills.find(b => b.id === billId)),
+    [bills, billId, bill]
+  );
+
+  const handleBillChange = (id: string) => {
+    setBillId(id);
+    const source = bills.find(b => b.id === id);
+    if (source && !name.trim()) {
+      setName(`${source.party_name} - ${RECURRING_FREQUENCY_LABELS[frequency]}`);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedBill) {
+      toast.error("Select the invoice to repeat");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await recurringInvoicesService.createProfile({
+        name,
+        bill_template: billToRecurringTemplate(selectedBill),
+        frequency,
+        start_date: startDate,
+        end_date: endDate || undefined,
+        payment_terms_days: paymentTerms,
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to create recurring invoice");
+      }
+
+      toast.success("Recurring invoice created!", {
+        description: `${data.name} • ${RECURRING_FREQUENCY_LABELS[data.frequency]} from ${data.start_date}`,
+      });
+
+      onProfileCreated?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to create recurring invoice:", error);
+      toast.error("Failed to create recurring invoice", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Make Invoice Recurring</DialogTitle>
+          <DialogDescription>
+            A fresh copy of the invoice is raised on every run with the next invoice number
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Invoice to Repeat *</Label>
+              <Select value={billId} onValueChange={handleBillChange} disabled={Boolean(bill) || isLoadingBills}>
+                <SelectTrigger>
+                  <SelectValue placeholder={isLoadingBills ? "Loading invoices..." : "Select invoice"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(bill ? [bill] : bills).map(b => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.bill_number} • {b.party_name} • {formatCurrency(Number(b.total_amount))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-name">Profile Name *</Label>
+              <Input
+                id="recurring-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Monthly maintenance - Sharma Traders"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurringInvoiceFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RECURRING_FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Payment Terms</Label>
+                <Select value={paymentTerms.toString()} onValueChange={(value) => setPaymentTerms(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_TERMS.map(term => (
+                      <SelectItem key={term.value} value={term.value.toString()}>{term.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-start">First Invoice On *</Label>
+                <Input
+                  id="recurring-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-end">End Date (Optional)</Label>
+                <Input
+                  id="recurring-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {selectedBill && (
+              <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Customer</span>
+                  <span>{selectedBill.party_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Items</span>
+                  <span>{selectedBill.items.length}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t font-semibold">
+                  <span>Every {frequency === "weekly" ? "week" : frequency === "monthly" ? "month" : "quarter"}</span>
+                  <span className="text-primary">{formatCurrency(Number(selectedBill.total_amount))}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !selectedBill}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Create Schedule"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Credit Control Settings
+ * Whether a new charge that breaches a customer's credit limit or credit
+ * days only warns or is blocked
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldAlert, Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { businessSettingsService, type CreditLimitMode } from "@/services/api/businessSettingsService";
+
+const CREDIT_LIMIT_MODE_OPTIONS: { value: CreditLimitMode; label: string }[] = [
+  { value: "warn", label: "Warn, and let me continue" },
+  { value: "block", label: "Block the entry or invoice" },
+];
+
+export function CreditControlSettings() {
+  const [mode, setMode] = useState<CreditLimitMode>("warn");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      if (data?.credit_limit_mode) setMode(data.credit_limit_mode);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await businessSettingsService.updateCreditLimitMode(mode);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error("Failed to save credit control", { description: error.message });
+      return;
+    }
+
+    toast.success("Credit control saved", {
+      description: CREDIT_LIMIT_MODE_OPTIONS.find(option => option.value === mode)?.label,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Credit Control
+        </CardTitle>
+        <CardDescription>
+          What happens when a new "You Gave" entry or invoice takes a customer over their credit limit, or they
+          have dues older than their credit days. Limits are set on each customer's profile.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label>When a limit is breached</Label>
+          <Select
+            value={mode}
+            onValueChange={(value) => setMode(value as CreditLimitMode)}
+            disabled={isLoading}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CREDIT_LIMIT_MODE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Credit Control
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,15 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { X, FileText, MessageSquare, Send, Calendar, Plus, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { format, parseISO, isValid } from "date-fns";
 import { AddTransactionModal } from "@/components/AddTransactionModal";
 import { PartyProfileModal } from "@/components/PartyProfileModal";
+import { PartyStatementModal } from "@/components/PartyStatementModal";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { billsService } from "@/services/api/billsService";
+import { ledgerService } from "@/services/api/ledgerService";
+import { buildUpiPaymentLink, getUpiPayee } from "@/lib/upiPayment";
+import type { UpiPayee } from "@/types/invoice";
 
 interface Transaction {
   id: string;
@@ -39,12 +45,60 @@ export function CustomerDetailPanel({ customer, isOpen, onClose, onTransactionAd
   const [isAddTransactionOpen, setIsAddTransactionOpen] = useState(false);
   const [transactionType, setTransactionType] = useState<"gave" | "got" | null>(null);
   const [isPartyProfileOpen, setIsPartyProfileOpen] = useState(false);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [upiPayee, setUpiPayee] = useState<UpiPayee | null>(null);
+  const [openBillNumbers, setOpenBillNumbers] = useState<string[]>([]);
+  const [ledgerBalance, setLedgerBalance] = useState<number | null>(null);
+  const [asOfDate, setAsOfDate] = useState("");
+  const [asOfBalance, setAsOfBalance] = useState<number | null>(null);
+
+  // UPI payee for the payment link in reminders, unless switched off in settings
+  useEffect(() => {
+    if (!isOpen) return;
+
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      setUpiPayee(getUpiPayee(data) ?? null);
+    });
+  }, [isOpen]);
+
+  // Unpaid invoices, oldest first, to name in the UPI payment note
+  useEffect(() => {
+    setOpenBillNumbers([]);
+    if (!isOpen || !customer?.id) return;
+
+    billsService.fetchBills({ partyId: customer.id, partyType: 'customer' }).then(({ data }) => {
+      setOpenBillNumbers(
+        (data ?? [])
+          .filter(bill => !['paid', 'cancelled', 'draft'].includes(bill.status) && Number(bill.balance_amount) > 0)
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map(bill => bill.bill_number)
+      );
+    });
+  }, [isOpen, customer?.id, customer?.transactions?.length]);
+
+  // Balance from the customer's ledger; the stored balance is only a cache
+  useEffect(() => {
+    if (!isOpen || !customer?.id) return;
+
+    setLedgerBalance(null);
+    ledgerService.getPartyBalance('customer', customer.id).then(({ data }) => setLedgerBalance(data));
+  }, [isOpen, customer?.id, customer?.openingBalance, customer?.transactions?.length]);
+
+  // What the customer owed at the end of a past day
+  useEffect(() => {
+    setAsOfBalance(null);
+    if (!isOpen || !customer?.id || !asOfDate) return;
+
+    ledgerService.balanceAsOf('customer', customer.id, asOfDate).then(({ data }) => setAsOfBalance(data));
+  }, [isOpen, customer?.id, asOfDate, ledgerBalance]);
 
   if (!customer) return null;
 
   const transactions = customer.transactions || [];
-  const balance = parseFloat(customer.openingBalance || "0");
-  const isCredit = customer.balanceType === "credit";
+  const storedBalance = parseFloat(customer.openingBalance || "0") * (customer.balanceType === "credit" ? 1 : -1);
+  const signedBalance = ledgerBalance ?? storedBalance;
+  const balance = Math.abs(signedBalance);
+  const isCredit = signedBalance >= 0;
 
   // Debug logging
   console.log('📋 CustomerDetailPanel render:', {
@@ -125,10 +179,8 @@ export function CustomerDetailPanel({ customer, isOpen, onClose, onTransactionAd
     onTransactionAdded?.(transactionData);
   };
 
-  // INDUSTRY-GRADE SOLUTION: Trust the database as single source of truth
-  // The openingBalance field contains the CURRENT net balance, not the initial balance
-  // The database maintains this value through triggers/stored procedures
-  // We should NOT recalculate by looping through transactions (that causes double-counting)
+  // Net balance comes from the ledger (stored balance until it loads); the
+  // per-transaction running balances are not summed again here
   const netBalance = balance;
 
   const handleWhatsAppReminder = () => {
@@ -145,12 +197,22 @@ export function CustomerDetailPanel({ customer, isOpen, onClose, onTransactionAd
     let message = '';
     if (netBalance > 0 && isCredit) {
       // Customer owes money
+      const paymentLink = upiPayee
+        ? buildUpiPaymentLink({
+            ...upiPayee,
+            amount: Math.abs(netBalance),
+            note: openBillNumbers.length > 0 ? openBillNumbers.join(', ') : `Dues - ${customer.name}`,
+          })
+        : null;
+
       message = `Hi ${customer.name},
 
 This is a payment reminder from our business.
 
 Your pending amount: ₹${Math.abs(netBalance).toFixed(0)}
-
+${paymentLink ? `
+Pay via UPI: ${paymentLink}
+` : ''}
 Please clear the dues at the earliest.
 
 Thank you!`;
@@ -211,7 +273,7 @@ Best regards!`;
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Button variant="ghost" size="icon" className="text-gray-400 hover:text-white">
+              <Button variant="ghost" size="icon" onClick={() => setIsStatementOpen(true)} title="Statement of account" className="text-gray-400 hover:text-white">
                 <FileText className="h-5 w-5" />
               </Button>
               <Button variant="ghost" size="icon" onClick={() => setIsPartyProfileOpen(true)} className="text-gray-400 hover:text-white">
@@ -236,6 +298,21 @@ Best regards!`;
              ) : (
                <div className="text-2xl font-bold text-gray-500">₹0</div>
              )}
+             <div className="flex items-center justify-end gap-2 mt-2 text-xs text-gray-500">
+               <span>Balance as of</span>
+               <input
+                 type="date"
+                 value={asOfDate}
+                 max={format(new Date(), "yyyy-MM-dd")}
+                 onChange={(e) => setAsOfDate(e.target.value)}
+                 className="bg-transparent border border-gray-700 rounded px-2 py-1 text-gray-300"
+               />
+             </div>
+             {asOfDate && asOfBalance !== null && (
+               <div className={`text-sm font-medium mt-1 ${asOfBalance > 0 ? "text-red-500" : asOfBalance < 0 ? "text-green-500" : "text-gray-500"}`}>
+                 {asOfBalance > 0 ? "You'll Get:" : asOfBalance < 0 ? "You'll Give:" : "Settled:"} ₹{Math.abs(asOfBalance).toFixed(0)}
+               </div>
+             )}
            </div>
           {/* Set Due Date Section */}
           <div className="py-4 border-b border-gray-800">
@@ -454,6 +531,14 @@ Best regards!`;
         onTransactionAdded={handleTransactionAddedInternal}
       />
 
+      <PartyStatementModal
+        open={isStatementOpen}
+        onOpenChange={setIsStatementOpen}
+        partyType="customer"
+        partyId={customer.id}
+        partyName={customer.name}
+      />
+
       <PartyProfileModal
         open={isPartyProfileOpen}
         onOpenChange={setIsPartyProfileOpen}
@@ -0,0 +1,58 @@
+/**
+ * Customers Over Limit
+ * Dashboard list of customers who owe more than their credit limit or
+ * have dues older than their credit days
+ */
+
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { creditControlService, type CustomerOverLimit } from "@/services/api/creditControlService";
+
+export function CustomersOverLimit() {
+  const { format: formatCurrency } = useCurrency();
+  const [customers, setCustomers] = useState<CustomerOverLimit[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    creditControlService.fetchCustomersOverLimit().then(({ data }) => {
+      if (!cancelled) setCustomers(data ?? []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (customers.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="section-label">Over Credit Limit</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {customers.map(({ customer_id, customer_name, status }) => (
+          <Link key={customer_id} to="/customers" className="action-card">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-lg bg-red-500/10 flex items-center justify-center">
+                <ShieldAlert className="h-4 w-4 text-red-500" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-foreground truncate">{customer_name}</div>
+                <div className="text-xs text-muted-foreground">
+                  Owes {formatCurrency(status.balance)}
+                  {status.credit_limit !== null && ` of ${formatCurrency(status.credit_limit)} limit`}
+                </div>
+              </div>
+              <div className="text-right text-xs text-red-500 shrink-0">
+                {status.over_limit_by > 0 && <div>{formatCurrency(status.over_limit_by)} over</div>}
+                {status.breaches.some(b => b.kind === "days") && <div>{status.oldest_unpaid_days} days unpaid</div>}
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
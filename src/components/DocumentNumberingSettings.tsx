@@ -0,0 +1,101 @@
+/**
+ * Document Numbering Settings
+ * Prefixes for delivery challan and proforma invoice numbers
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Hash, Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { DEFAULT_DOCUMENT_PREFIXES } from "@/services/api/salesDocumentsService";
+
+const sanitizePrefix = (value: string) => value.toUpperCase().replace(/[^A-Z0-9/]/g, "").slice(0, 8);
+
+export function DocumentNumberingSettings() {
+  const [challanPrefix, setChallanPrefix] = useState(DEFAULT_DOCUMENT_PREFIXES.delivery_challan);
+  const [proformaPrefix, setProformaPrefix] = useState(DEFAULT_DOCUMENT_PREFIXES.proforma);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      if (data?.challan_prefix) setChallanPrefix(data.challan_prefix);
+      if (data?.proforma_prefix) setProformaPrefix(data.proforma_prefix);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    if (!challanPrefix || !proformaPrefix) {
+      toast.error("Prefixes cannot be empty");
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await businessSettingsService.updateDocumentPrefixes(challanPrefix, proformaPrefix);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error("Failed to save numbering", { description: error.message });
+      return;
+    }
+
+    toast.success("Document numbering saved", {
+      description: `Next documents will be numbered ${challanPrefix}-0001 and ${proformaPrefix}-0001 onwards`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Prefixes used when numbering delivery challans and proforma invoices without a default numbering series
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="challanPrefix">Delivery Challan Prefix</Label>
+            <Input
+              id="challanPrefix"
+              value={challanPrefix}
+              onChange={(e) => setChallanPrefix(sanitizePrefix(e.target.value))}
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground">e.g. {challanPrefix || "DC"}-0001</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="proformaPrefix">Proforma Invoice Prefix</Label>
+            <Input
+              id="proformaPrefix"
+              value={proformaPrefix}
+              onChange={(e) => setProformaPrefix(sanitizePrefix(e.target.value))}
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground">e.g. {proformaPrefix || "PI"}-0001</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Numbering
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
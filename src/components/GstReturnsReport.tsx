@@ -0,0 +1,316 @@
+/**
+ * GST Returns Report
+ * GSTR-1 section summaries and the GSTR-3B liability for a monthly tax period
+ */
+
+import { useState, useEffect } from "react";
+import { format, subMonths } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, FileJson, FileSpreadsheet, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { gstReturnsService, type GstNote, type GstReturns, type GstTaxTotals } from "@/services/api/gstReturnsService";
+import { exportGSTR1JSON, exportGSTReturnsXLSX } from "@/lib/gstReturnsExport";
+
+const thClass = "py-3 px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider";
+
+export function GstReturnsReport() {
+  const { format: formatCurrency } = useCurrency();
+
+  // Returns are usually filed for the month just ended
+  const [period, setPeriod] = useState(() => format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [returns, setReturns] = useState<GstReturns | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!period) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    gstReturnsService.generateReturns(period).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        toast.error("Failed to prepare GST returns");
+      }
+      setReturns(data);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  const handleExportJSON = () => {
+    if (!returns) return;
+    if (!returns.gstr1.gstin) {
+      toast.error("Add your GSTIN in business settings before exporting GSTR-1 JSON");
+      return;
+    }
+    exportGSTR1JSON(returns.gstr1);
+  };
+
+  const taxCells = (totals: Partial<GstTaxTotals>) => (
+    <>
+      <td className="py-3 px-4 text-sm text-right">{totals.taxableValue !== undefined ? formatCurrency(totals.taxableValue) : ""}</td>
+      <td className="py-3 px-4 text-sm text-right">{formatCurrency(totals.igst ?? 0)}</td>
+      <td className="py-3 px-4 text-sm text-right">{formatCurrency(totals.cgst ?? 0)}</td>
+      <td className="py-3 px-4 text-sm text-right">{formatCurrency(totals.sgst ?? 0)}</td>
+      <td className="py-3 px-4 text-sm text-right">{formatCurrency(totals.cess ?? 0)}</td>
+    </>
+  );
+
+  const taxHeaders = (
+    <>
+      <th className={`${thClass} text-right`}>Taxable Value</th>
+      <th className={`${thClass} text-right`}>IGST</th>
+      <th className={`${thClass} text-right`}>CGST</th>
+      <th className={`${thClass} text-right`}>SGST</th>
+      <th className={`${thClass} text-right`}>Cess</th>
+    </>
+  );
+
+  const sumSection = (rows: GstTaxTotals[]): GstTaxTotals =>
+    rows.reduce(
+      (sum, row) => ({
+        taxableValue: sum.taxableValue + row.taxableValue,
+        igst: sum.igst + row.igst,
+        cgst: sum.cgst + row.cgst,
+        sgst: sum.sgst + row.sgst,
+        cess: sum.cess + row.cess,
+      }),
+      { taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 }
+    );
+
+  // Credit notes count against the period, debit notes add to it
+  const sumNotes = (notes: GstNote[]): GstTaxTotals =>
+    sumSection(notes.map(note => {
+      const sign = note.noteType === "C" ? -1 : 1;
+      return {
+        taxableValue: note.taxableValue * sign,
+        igst: note.igst * sign,
+        cgst: note.cgst * sign,
+        sgst: note.sgst * sign,
+        cess: note.cess * sign,
+      };
+    }));
+
+  const outputTax = returns
+    ? returns.gstr3b.outwardTaxable.igst + returns.gstr3b.outwardTaxable.cgst + returns.gstr3b.outwardTaxable.sgst
+    : 0;
+  const inputTax = returns
+    ? returns.gstr3b.itcTotal.igst + returns.gstr3b.itcTotal.cgst + returns.gstr3b.itcTotal.sgst
+    : 0;
+  const netPayable = returns
+    ? returns.gstr3b.netPayable.igst + returns.gstr3b.netPayable.cgst + returns.gstr3b.netPayable.sgst
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="sm:w-56">
+          <label className="text-sm text-muted-foreground mb-2 block font-medium">Tax Period</label>
+          <Input
+            type="month"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="bg-background border-border"
+          />
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button variant="outline" onClick={handleExportJSON} disabled={!returns || isLoading}>
+            <FileJson className="h-4 w-4 mr-2" />
+            GSTR-1 JSON
+          </Button>
+          <Button variant="outline" onClick={() => returns && exportGSTReturnsXLSX(returns)} disabled={!returns || isLoading}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : returns ? (
+        <>
+          {returns.warnings.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{returns.warnings.length} item{returns.warnings.length !== 1 ? "s" : ""} need attention</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+                  {returns.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <Card className="bg-blue-500/10 border-blue-500/30 p-5">
+              <div className="text-xl font-bold text-blue-500 mb-1">{formatCurrency(returns.gstr1.totals.taxableValue)}</div>
+              <div className="text-blue-500 font-semibold text-sm">Taxable Sales</div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {returns.gstr1.invoiceCount} invoices
+                {returns.gstr1.noteCount > 0 && ` • ${returns.gstr1.noteCount} notes`}
+              </div>
+            </Card>
+            <Card className="bg-red-500/10 border-red-500/30 p-5">
+              <div className="text-xl font-bold text-red-500 mb-1">{formatCurrency(outputTax)}</div>
+              <div className="text-red-500 font-semibold text-sm">Output Tax</div>
+            </Card>
+            <Card className="bg-green-500/10 border-green-500/30 p-5">
+              <div className="text-xl font-bold text-green-500 mb-1">{formatCurrency(inputTax)}</div>
+              <div className="text-green-500 font-semibold text-sm">Input Tax Credit</div>
+            </Card>
+            <Card className="bg-amber-500/10 border-amber-500/30 p-5">
+              <div className="text-xl font-bold text-amber-600 mb-1">{formatCurrency(netPayable)}</div>
+              <div className="text-amber-600 font-semibold text-sm">Net GST Payable</div>
+            </Card>
+          </div>
+
+          {/* GSTR-1 */}
+          <div>
+            <h3 className="text-base font-semibold mb-3">GSTR-1 Summary</h3>
+            <div className="border border-border rounded-lg overflow-x-auto bg-card">
+              <table className="w-full">
+                <thead className="bg-muted/30 border-b border-border">
+                  <tr>
+                    <th className={`${thClass} text-left`}>Section</th>
+                    <th className={`${thClass} text-right`}>Records</th>
+                    {taxHeaders}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  <tr>
+                    <td className="py-3 px-4 text-sm">B2B Invoices (4A)</td>
+                    <td className="py-3 px-4 text-sm text-right">{returns.gstr1.b2b.length}</td>
+                    {taxCells(sumSection(returns.gstr1.b2b))}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">B2C Large (5A)</td>
+                    <td className="py-3 px-4 text-sm text-right">{returns.gstr1.b2cl.length}</td>
+                    {taxCells(sumSection(returns.gstr1.b2cl))}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">B2C Small (7)</td>
+                    <td className="py-3 px-4 text-sm text-right">{returns.gstr1.b2cs.length}</td>
+                    {taxCells(sumSection(returns.gstr1.b2cs))}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">Credit/Debit Notes - Registered (9B)</td>
+                    <td className="py-3 px-4 text-sm text-right">{returns.gstr1.cdnr.length}</td>
+                    {taxCells(sumNotes(returns.gstr1.cdnr))}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">Credit/Debit Notes - Unregistered (9B)</td>
+                    <td className="py-3 px-4 text-sm text-right">{returns.gstr1.cdnur.length}</td>
+                    {taxCells(sumNotes(returns.gstr1.cdnur))}
+                  </tr>
+                  <tr className="bg-muted/30 font-semibold">
+                    <td className="py-3 px-4 text-sm">Total</td>
+                    <td className="py-3 px-4 text-sm text-right">{returns.gstr1.invoiceCount + returns.gstr1.noteCount}</td>
+                    {taxCells(returns.gstr1.totals)}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* HSN */}
+          <div>
+            <h3 className="text-base font-semibold mb-3">HSN-wise Summary (12)</h3>
+            <div className="border border-border rounded-lg overflow-x-auto bg-card">
+              <table className="w-full">
+                <thead className="bg-muted/30 border-b border-border">
+                  <tr>
+                    <th className={`${thClass} text-left`}>HSN</th>
+                    <th className={`${thClass} text-left`}>Description</th>
+                    <th className={`${thClass} text-right`}>Qty</th>
+                    <th className={`${thClass} text-right`}>Rate</th>
+                    {taxHeaders}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {returns.gstr1.hsn.length > 0 ? (
+                    returns.gstr1.hsn.map(row => (
+                      <tr key={`${row.hsn}-${row.uqc}-${row.rate}`}>
+                        <td className="py-3 px-4 text-sm font-mono">{row.hsn || "-"}</td>
+                        <td className="py-3 px-4 text-sm text-muted-foreground">{row.description}</td>
+                        <td className="py-3 px-4 text-sm text-right whitespace-nowrap">{row.quantity} {row.uqc}</td>
+                        <td className="py-3 px-4 text-sm text-right">{row.rate}%</td>
+                        {taxCells(row)}
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={9} className="py-8 text-center text-sm text-muted-foreground">
+                        No sales in this period
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* GSTR-3B */}
+          <div>
+            <h3 className="text-base font-semibold mb-3">GSTR-3B Summary</h3>
+            <div className="border border-border rounded-lg overflow-x-auto bg-card">
+              <table className="w-full">
+                <thead className="bg-muted/30 border-b border-border">
+                  <tr>
+                    <th className={`${thClass} text-left`}>Particulars</th>
+                    {taxHeaders}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  <tr>
+                    <td className="py-3 px-4 text-sm">3.1(a) Outward taxable supplies</td>
+                    {taxCells(returns.gstr3b.outwardTaxable)}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">3.1(c) Nil rated / exempted</td>
+                    {taxCells({ taxableValue: returns.gstr3b.outwardNilRated })}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">4(A)(5) ITC from purchase bills</td>
+                    {taxCells(returns.gstr3b.itcFromPurchases)}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-sm">4(A)(5) ITC from expenses</td>
+                    {taxCells(returns.gstr3b.itcFromExpenses)}
+                  </tr>
+                  <tr className="bg-muted/30 font-semibold">
+                    <td className="py-3 px-4 text-sm">Net tax payable</td>
+                    {taxCells(returns.gstr3b.netPayable)}
+                  </tr>
+                  <tr className="text-muted-foreground">
+                    <td className="py-3 px-4 text-sm">Credit carried forward</td>
+                    {taxCells(returns.gstr3b.creditCarriedForward)}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Figures are net of credit and debit notes issued in the period. Net payable is computed per tax head;
+              cross-utilisation of IGST credit against CGST/SGST is not applied.
+            </p>
+          </div>
+        </>
+      ) : (
+        <div className="py-12 text-center text-muted-foreground">No data for the selected period</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Invoice Rounding Settings
+ * Default round-off applied to the grand total of new invoices
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { ROUND_OFF_OPTIONS } from "@/lib/invoiceUtils";
+import type { RoundOffMode } from "@/types/invoice";
+
+export function InvoiceRoundingSettings() {
+  const [roundOff, setRoundOff] = useState<RoundOffMode>("none");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      if (data?.invoice_round_off) setRoundOff(data.invoice_round_off);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await businessSettingsService.updateRoundOff(roundOff);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error("Failed to save rounding", { description: error.message });
+      return;
+    }
+
+    toast.success("Invoice rounding saved", {
+      description: ROUND_OFF_OPTIONS.find(option => option.value === roundOff)?.label,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Invoice Rounding
+        </CardTitle>
+        <CardDescription>
+          Round grand totals on new invoices; the adjustment is shown as a "Round off" line
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label>Round Off</Label>
+          <Select
+            value={roundOff}
+            onValueChange={(value) => setRoundOff(value as RoundOffMode)}
+            disabled={isLoading}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROUND_OFF_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Rounding
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
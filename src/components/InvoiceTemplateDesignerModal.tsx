@@ -0,0 +1,413 @@
+/**
+ * Invoice Template Designer Modal
+ * Builds a custom template from layout blocks, item columns, colours, font,
+ * logo and custom header fields, with a live preview on a sample invoice.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUp, ArrowDown, Plus, Trash2, Upload, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { renderInvoiceTemplate } from "@/lib/invoiceTemplates";
+import {
+  DEFAULT_TEMPLATE_DEFINITION,
+  MAX_LOGO_BYTES,
+  SAMPLE_INVOICE_DATA,
+  TEMPLATE_BLOCK_LABELS,
+  TEMPLATE_COLUMN_LABELS,
+  TEMPLATE_FONTS,
+  TEMPLATE_LOGO_PLACEMENTS,
+} from "@/lib/customTemplates";
+import { invoiceTemplatesService } from "@/services/api/invoiceTemplatesService";
+import type {
+  CustomInvoiceTemplate,
+  CustomTemplateDefinition,
+  TemplateColumn,
+  TemplateFont,
+  TemplateLogoPlacement,
+} from "@/types/invoice";
+
+interface InvoiceTemplateDesignerModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template?: CustomInvoiceTemplate | null; // Edit this template; omit to create one
+  onSaved?: (template: CustomInvoiceTemplate) => void;
+}
+
+const COLOR_FIELDS: { key: keyof CustomTemplateDefinition["colors"]; label: string }[] = [
+  { key: "primary", label: "Accent" },
+  { key: "text", label: "Text" },
+  { key: "tableHeader", label: "Table header" },
+  { key: "tableHeaderText", label: "Table header text" },
+];
+
+const PREVIEW_ID = "template-designer-preview";
+
+export function InvoiceTemplateDesignerModal({ open, onOpenChange, template, onSaved }: InvoiceTemplateDesignerModalProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [definition, setDefinition] = useState<CustomTemplateDefinition>(DEFAULT_TEMPLATE_DEFINITION);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the template being edited, or the defaults
+  useEffect(() => {
+    if (!open) return;
+
+    setName(template?.name ?? "");
+    setDescription(template?.description ?? "");
+    setDefinition(template?.definition ?? DEFAULT_TEMPLATE_DEFINITION);
+  }, [open, template]);
+
+  const update = (changes: Partial<CustomTemplateDefinition>) => {
+    setDefinition(prev => ({ ...prev, ...changes }));
+  };
+
+  const moveBlock = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= definition.blocks.length) return;
+
+    const blocks = [...definition.blocks];
+    [blocks[index], blocks[target]] = [blocks[target], blocks[index]];
+    update({ blocks });
+  };
+
+  const toggleBlock = (index: number, visible: boolean) => {
+    update({ blocks: definition.blocks.map((block, i) => (i === index ? { ...block, visible } : block)) });
+  };
+
+  const updateCustomField = (index: number, field: "label" | "value", value: string) => {
+    update({
+      customFields: definition.customFields.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry)),
+    });
+  };
+
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Choose a PNG or JPEG image");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error("Logo is too large", { description: `Use an image under ${MAX_LOGO_BYTES / 1024} KB` });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setDefinition(prev => ({ ...prev, logo: { ...prev.logo, image: String(reader.result) } }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const previewTemplate = useMemo<CustomInvoiceTemplate>(() => ({
+    id: PREVIEW_ID,
+    name: name || "Preview",
+    description: null,
+    definition,
+    created_at: "",
+    updated_at: "",
+  }), [name, definition]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const input = { name, description, definition };
+      const { data, error } = template
+        ? await invoiceTemplatesService.updateTemplate(template.id, input)
+        : await invoiceTemplatesService.createTemplate(input);
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to save template");
+      }
+
+      toast.success(`Template "${data.name}" saved`);
+      onSaved?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      toast.error("Failed to save template", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="max-w-[95vw] w-[1400px] h-[92vh] p-0 gap-0 flex flex-col">
+        <DialogHeader className="px-6 py-4 border-b">
+          <DialogTitle>{template ? `Edit ${template.name}` : "New Invoice Template"}</DialogTitle>
+          <DialogDescription>
+            Arrange the blocks, pick columns and colours; the preview updates as you go
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex-1 grid grid-cols-1 lg:grid-cols-[420px_1fr] overflow-hidden">
+          <ScrollArea className="border-r">
+            <div className="p-5 space-y-6">
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Template Name *</Label>
+                  <Input
+                    id="template-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Wholesale GST"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-description">Description</Label>
+                  <Input
+                    id="template-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+
+              {/* Layout blocks */}
+              <div className="space-y-2">
+                <Label>Layout</Label>
+                <div className="rounded-lg border divide-y">
+                  {definition.blocks.map((block, index) => (
+                    <div key={block.type} className="flex items-center gap-3 px-3 py-2">
+                      <Checkbox
+                        id={`block-${block.type}`}
+                        checked={block.visible}
+                        onCheckedChange={(checked) => toggleBlock(index, checked === true)}
+                        disabled={block.type === "items"}
+                      />
+                      <Label htmlFor={`block-${block.type}`} className="flex-1 font-normal">
+                        {TEMPLATE_BLOCK_LABELS[block.type]}
+                      </Label>
+                      <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveBlock(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveBlock(index, 1)} disabled={index === definition.blocks.length - 1}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Item columns */}
+              <div className="space-y-2">
+                <Label>Item Columns</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(TEMPLATE_COLUMN_LABELS) as TemplateColumn[]).map(column => (
+                    <div key={column} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`column-${column}`}
+                        checked={definition.columns[column]}
+                        onCheckedChange={(checked) => update({ columns: { ...definition.columns, [column]: checked === true } })}
+                      />
+                      <Label htmlFor={`column-${column}`} className="font-normal">{TEMPLATE_COLUMN_LABELS[column]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Colours */}
+              <div className="space-y-2">
+                <Label>Colours</Label>
+                <div className="grid grid-cols-2 gap-3">
+                  {COLOR_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <Input
+                        type="color"
+                        value={definition.colors[key]}
+                        onChange={(e) => update({ colors: { ...definition.colors, [key]: e.target.value } })}
+                        className="h-9 w-12 p-1 cursor-pointer"
+                      />
+                      <span className="text-sm">{label}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Typography */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Font</Label>
+                  <Select value={definition.font} onValueChange={(value) => update({ font: value as TemplateFont })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TEMPLATE_FONTS).map(([value, font]) => (
+                        <SelectItem key={value} value={value}>{font.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Text Size</Label>
+                  <Select value={String(definition.fontSize)} onValueChange={(value) => update({ fontSize: Number(value) })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[7, 8, 9, 10, 11, 12].map(size => (
+                        <SelectItem key={size} value={String(size)}>{size} pt</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Logo */}
+              <div className="space-y-2">
+                <Label>Logo</Label>
+                <div className="flex items-center gap-3">
+                  <Select
+                    value={definition.logo.placement}
+                    onValueChange={(value) => update({ logo: { ...definition.logo, placement: value as TemplateLogoPlacement } })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TEMPLATE_LOGO_PLACEMENTS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {definition.logo.placement !== "none" && (
+                    <Button type="button" variant="outline" size="sm" asChild>
+                      <label className="cursor-pointer">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Upload
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg"
+                          className="hidden"
+                          onChange={(e) => handleLogoUpload(e.target.files?.[0])}
+                        />
+                      </label>
+                    </Button>
+                  )}
+                  {definition.logo.placement !== "none" && definition.logo.image && (
+                    <>
+                      <img src={definition.logo.image} alt="Logo" className="h-9 max-w-[80px] object-contain" />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => update({ logo: { ...definition.logo, image: null } })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Custom fields */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Custom Fields</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ customFields: [...definition.customFields, { label: "", value: "" }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {definition.customFields.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Printed under the business name, e.g. PAN, CIN or FSSAI licence</p>
+                )}
+                {definition.customFields.map((field, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={field.label}
+                      onChange={(e) => updateCustomField(index, "label", e.target.value)}
+                      placeholder="Label"
+                      className="w-32"
+                    />
+                    <Input
+                      value={field.value}
+                      onChange={(e) => updateCustomField(index, "value", e.target.value)}
+                      placeholder="Value"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 flex-shrink-0"
+                      onClick={() => update({ customFields: definition.customFields.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-footer">Footer Message</Label>
+                <Input
+                  id="template-footer"
+                  value={definition.footerMessage}
+                  onChange={(e) => update({ footerMessage: e.target.value })}
+                  placeholder="e.g. Thank you for your business!"
+                />
+              </div>
+            </div>
+          </ScrollArea>
+
+          {/* Live preview */}
+          <div className="bg-muted/50 flex flex-col overflow-hidden">
+            <div className="flex-1 overflow-y-auto overflow-x-hidden">
+              <div className="p-6 flex justify-center">
+                <div
+                  className="bg-card shadow-2xl rounded-lg overflow-visible"
+                  style={{ width: "210mm", minHeight: "297mm", transform: "scale(0.7)", transformOrigin: "top center" }}
+                >
+                  {renderInvoiceTemplate(PREVIEW_ID, SAMPLE_INVOICE_DATA, [previewTemplate])}
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter className="px-6 py-4 border-t bg-card">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Template"
+                )}
+              </Button>
+            </DialogFooter>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
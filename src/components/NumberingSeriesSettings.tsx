@@ -0,0 +1,432 @@
+/**
+ * Numbering Series Settings
+ * Named number formats per document type, with a financial-year reset and
+ * a check for missing or duplicate numbers
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, Plus, Pencil, Trash2, SearchCheck, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  numberingSeriesService,
+  RESET_FREQUENCY_LABELS,
+  type NumberingResetFrequency,
+  type NumberingSeries,
+  type SaveNumberingSeriesInput,
+} from "@/services/api/numberingSeriesService";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { getFiscalYearRange } from "@/services/api/profitLossService";
+import {
+  ALL_PERIODS,
+  DEFAULT_SERIES_FORMAT,
+  NUMBERING_TOKENS,
+  collapseSequences,
+  fiscalYearToken,
+  formatSeriesNumber,
+  formatSequence,
+  validateSeriesFormat,
+  type NumberingGapReport,
+} from "@/lib/numberingSeries";
+import { DOCUMENT_LABELS } from "@/lib/invoiceUtils";
+import type { DocumentType } from "@/types/invoice";
+
+const DEFAULT_PREFIXES: Record<DocumentType, string> = {
+  invoice: "INV",
+  quotation: "QT",
+  delivery_challan: "DC",
+  proforma: "PI",
+};
+
+const emptyForm = (documentType: DocumentType, isDefault: boolean): SaveNumberingSeriesInput => ({
+  name: "",
+  document_type: documentType,
+  format: DEFAULT_SERIES_FORMAT,
+  prefix: DEFAULT_PREFIXES[documentType],
+  start_number: 1,
+  reset_frequency: "fiscal_year",
+  is_default: isDefault,
+});
+
+export function NumberingSeriesSettings() {
+  const [seriesList, setSeriesList] = useState<NumberingSeries[]>([]);
+  const [nextNumbers, setNextNumbers] = useState<Record<string, string>>({});
+  const [fiscalYearStart, setFiscalYearStart] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SaveNumberingSeriesInput>(emptyForm("invoice", true));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [reportSeries, setReportSeries] = useState<NumberingSeries | null>(null);
+  const [report, setReport] = useState<NumberingGapReport[] | null>(null);
+
+  const loadSeries = useCallback(async () => {
+    const { data, error } = await numberingSeriesService.fetchSeries();
+    if (error) {
+      toast.error("Failed to load numbering series");
+    } else if (data) {
+      setSeriesList(data);
+
+      const previews = await Promise.all(
+        data.map(series => numberingSeriesService.previewNextNumber(series).catch(() => ""))
+      );
+      setNextNumbers(Object.fromEntries(data.map((series, index) => [series.id, previews[index]])));
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSeries();
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      setFiscalYearStart(data?.fiscal_year_start ?? null);
+    });
+  }, [loadSeries]);
+
+  const openEditor = (series: NumberingSeries | null) => {
+    setEditingId(series?.id ?? null);
+    setForm(series
+      ? {
+          name: series.name,
+          document_type: series.document_type,
+          format: series.format,
+          prefix: series.prefix,
+          start_number: series.start_number,
+          reset_frequency: series.reset_frequency,
+          is_default: series.is_default,
+        }
+      : emptyForm("invoice", !seriesList.some(s => s.document_type === "invoice" && s.is_default)));
+    setIsEditorOpen(true);
+  };
+
+  const update = (changes: Partial<SaveNumberingSeriesInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleDocumentTypeChange = (documentType: DocumentType) => {
+    update({
+      document_type: documentType,
+      prefix: editingId ? form.prefix : DEFAULT_PREFIXES[documentType],
+      is_default: editingId ? form.is_default : !seriesList.some(s => s.document_type === documentType && s.is_default),
+    });
+  };
+
+  const formatError = validateSeriesFormat(form.format);
+  const fiscalYear = getFiscalYearRange(fiscalYearStart);
+  const sampleNumber = formatError
+    ? null
+    : formatSeriesNumber(form.format, {
+        prefix: form.prefix.trim(),
+        sequence: form.start_number || 1,
+        date: new Date(),
+        fiscalYear: fiscalYearToken(fiscalYear.startDate, fiscalYear.endDate),
+      });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = editingId
+      ? await numberingSeriesService.updateSeries(editingId, form)
+      : await numberingSeriesService.createSeries(form);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error("Failed to save series", { description: error.message });
+      return;
+    }
+
+    toast.success(`Numbering series "${form.name.trim()}" saved`, {
+      description: form.is_default
+        ? `New ${DOCUMENT_LABELS[form.document_type].title.toLowerCase()}s will be numbered like ${sampleNumber}`
+        : undefined,
+    });
+    setIsEditorOpen(false);
+    loadSeries();
+  };
+
+  const handleDelete = async (series: NumberingSeries) => {
+    if (!confirm(`Delete numbering series "${series.name}"? Numbers already issued are kept.`)) return;
+
+    const { error } = await numberingSeriesService.deleteSeries(series.id);
+    if (error) {
+      toast.error(`Failed to delete ${series.name}`);
+      return;
+    }
+
+    setSeriesList(prev => prev.filter(s => s.id !== series.id));
+    toast.success(`Numbering series "${series.name}" deleted`);
+  };
+
+  const handleCheckGaps = async (series: NumberingSeries) => {
+    setReportSeries(series);
+    setReport(null);
+
+    const { data, error } = await numberingSeriesService.findGaps(series);
+    if (error) {
+      toast.error("Failed to check numbering", { description: error.message });
+      setReportSeries(null);
+      return;
+    }
+    setReport(data ?? []);
+  };
+
+  const describeMissing = (series: NumberingSeries, missing: number[]) =>
+    collapseSequences(missing)
+      .map(([from, to]) => from === to
+        ? formatSequence(series.format, from)
+        : `${formatSequence(series.format, from)}–${formatSequence(series.format, to)}`)
+      .join(", ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Numbering Series
+            </CardTitle>
+            <CardDescription className="mt-1.5">
+              Number documents like INV/2026-27/0001. The default series of a document type replaces its built-in numbering.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openEditor(null)} disabled={isLoading}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Series
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : seriesList.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No numbering series yet. Documents use the built-in numbers until you add one.
+          </p>
+        ) : (
+          seriesList.map(series => (
+            <div key={series.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-medium truncate">{series.name}</span>
+                  <Badge variant="secondary" className="text-xs">{DOCUMENT_LABELS[series.document_type].title}</Badge>
+                  {series.is_default && <Badge className="text-xs">Default</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-mono">{series.format}</span>
+                  {" • "}Resets: {RESET_FREQUENCY_LABELS[series.reset_frequency].toLowerCase()}
+                  {nextNumbers[series.id] && <> • Next: <span className="font-mono">{nextNumbers[series.id]}</span></>}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleCheckGaps(series)} title="Check for missing or duplicate numbers">
+                  <SearchCheck className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEditor(series)} title="Edit series">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                  onClick={() => handleDelete(series)}
+                  title="Delete series"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {/* Series editor */}
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Numbering Series" : "New Numbering Series"}</DialogTitle>
+            <DialogDescription>Changes apply to documents created from now on</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="seriesName">Name</Label>
+                <Input
+                  id="seriesName"
+                  placeholder="e.g. Sales invoices"
+                  value={form.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Document</Label>
+                <Select value={form.document_type} onValueChange={(value) => handleDocumentTypeChange(value as DocumentType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DOCUMENT_LABELS) as DocumentType[]).map(type => (
+                      <SelectItem key={type} value={type}>{DOCUMENT_LABELS[type].title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="seriesFormat">Format</Label>
+              <Input
+                id="seriesFormat"
+                className="font-mono"
+                value={form.format}
+                onChange={(e) => update({ format: e.target.value.toUpperCase().replace(/\s/g, "") })}
+              />
+              <div className="flex flex-wrap gap-1">
+                {NUMBERING_TOKENS.map(({ token, description }) => (
+                  <Button
+                    key={token}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs font-mono"
+                    title={description}
+                    onClick={() => update({ format: form.format + token })}
+                  >
+                    {token}
+                  </Button>
+                ))}
+              </div>
+              {formatError ? (
+                <p className="text-xs text-destructive">{formatError}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">First number: <span className="font-mono">{sampleNumber}</span></p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="seriesPrefix">Prefix</Label>
+                <Input
+                  id="seriesPrefix"
+                  value={form.prefix}
+                  onChange={(e) => update({ prefix: e.target.value.toUpperCase().replace(/[^A-Z0-9/-]/g, "").slice(0, 8) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesStart">Start at</Label>
+                <Input
+                  id="seriesStart"
+                  type="number"
+                  min={1}
+                  value={form.start_number}
+                  onChange={(e) => update({ start_number: parseInt(e.target.value, 10) || 1 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reset</Label>
+                <Select
+                  value={form.reset_frequency}
+                  onValueChange={(value) => update({ reset_frequency: value as NumberingResetFrequency })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RESET_FREQUENCY_LABELS) as NumberingResetFrequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>{RESET_FREQUENCY_LABELS[frequency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="seriesDefault"
+                checked={form.is_default}
+                onCheckedChange={(checked) => update({ is_default: checked === true })}
+              />
+              <Label htmlFor="seriesDefault" className="font-normal">
+                Use for new {DOCUMENT_LABELS[form.document_type].title.toLowerCase()}s
+              </Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditorOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || Boolean(formatError)}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Series
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Gap report */}
+      <Dialog open={Boolean(reportSeries)} onOpenChange={(open) => !open && setReportSeries(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Numbering Check</DialogTitle>
+            <DialogDescription>
+              {reportSeries?.name} • Deleted documents count as issued and are listed as cancelled
+            </DialogDescription>
+          </DialogHeader>
+
+          {!report || !reportSeries ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : report.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No documents use this series yet.</p>
+          ) : (
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {report.map(period => {
+                const isClean = period.missing.length === 0 && period.duplicates.length === 0;
+                return (
+                  <div key={period.period} className="rounded-lg border p-3 space-y-1.5 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{period.period === ALL_PERIODS ? "All years" : `FY ${period.period}`}</span>
+                      <Badge variant={isClean ? "secondary" : "destructive"} className="text-xs">
+                        {isClean ? "No gaps" : "Needs attention"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {period.issued} issued • {formatSequence(reportSeries.format, period.first)} to {formatSequence(reportSeries.format, period.last)}
+                    </p>
+                    {period.missing.length > 0 && (
+                      <p className="text-xs">
+                        <span className="font-medium text-red-600">Missing ({period.missing.length}):</span>{" "}
+                        <span className="font-mono">{describeMissing(reportSeries, period.missing)}</span>
+                      </p>
+                    )}
+                    {period.duplicates.length > 0 && (
+                      <p className="text-xs">
+                        <span className="font-medium text-red-600">Duplicates:</span>{" "}
+                        <span className="font-mono">
+                          {period.duplicates.map(duplicate => `${duplicate.number} ×${duplicate.count}`).join(", ")}
+                        </span>
+                      </p>
+                    )}
+                    {period.cancelled.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Cancelled: <span className="font-mono">{period.cancelled.join(", ")}</span>
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
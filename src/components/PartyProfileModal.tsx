@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { X, Phone, Globe, Briefcase, MapPin, Trash2, Edit } from "lucide-react";
+import { useState, useEffect } from "react";
+import { X, Phone, Globe, Briefcase, MapPin, Trash2, Edit, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,6 +12,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
+import { customersService } from "@/services/api/customersService";
+import { useCurrency } from "@/contexts/CurrencyContext";
 
 interface PartyProfileModalProps {
   open: boolean;
@@ -44,8 +46,39 @@ export function PartyProfileModal({
     shippingAddress: party.address || "",
     billingAddress: party.address || "",
   });
+  const { format: formatCurrency } = useCurrency();
+  const isCustomer = party.type === "customer";
+  const [credit, setCredit] = useState({ limit: "", days: "" });
+
+  // Credit limit and credit days are kept on the customer
+  useEffect(() => {
+    if (!open || !isCustomer) return;
+
+    customersService.fetchCustomerById(party.id).then(({ data }) => {
+      setCredit({
+        limit: data?.credit_limit !== null && data?.credit_limit !== undefined ? String(data.credit_limit) : "",
+        days: data?.credit_days !== null && data?.credit_days !== undefined ? String(data.credit_days) : "",
+      });
+    });
+  }, [open, isCustomer, party.id]);
+
+  const handleSave = async () => {
+    if (isCustomer) {
+      const limit = credit.limit.trim() === "" ? null : Number(credit.limit);
+      const days = credit.days.trim() === "" ? null : Number(credit.days);
+
+      if ((limit !== null && (isNaN(limit) || limit < 0)) || (days !== null && (!Number.isInteger(days) || days < 0))) {
+        toast.error("Enter a credit limit and credit days of zero or more, or leave them blank");
+        return;
+      }
+
+      const { error } = await customersService.updateCustomer(party.id, { credit_limit: limit, credit_days: days });
+      if (error) {
+        toast.error("Failed to save credit limit", { description: error.message });
+        return;
+      }
+    }
 
-  const handleSave = () => {
     onUpdate?.(formData);
     setIsEditing(false);
     toast.success("Profile updated successfully");
@@ -245,6 +278,43 @@ export function PartyProfileModal({
             )}
           </div>
 
+          {/* Credit Limit (customers only) */}
+          {isCustomer && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4" />
+                Credit Limit & Credit Days
+              </Label>
+              {isEditing ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={credit.limit}
+                    onChange={(e) => setCredit({ ...credit, limit: e.target.value })}
+                    placeholder="No limit"
+                    className="h-12 bg-transparent border-gray-700 text-white focus:border-blue-500"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={credit.days}
+                    onChange={(e) => setCredit({ ...credit, days: e.target.value })}
+                    placeholder="Days"
+                    className="h-12 bg-transparent border-gray-700 text-white focus:border-blue-500"
+                  />
+                </div>
+              ) : (
+                <div className="text-base text-white">
+                  {credit.limit ? formatCurrency(Number(credit.limit)) : "No limit"}
+                  {credit.days ? ` • ${credit.days} days` : ""}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Save Button (when editing) */}
           {isEditing && (
             <div className="flex gap-3 pt-4">
@@ -0,0 +1,170 @@
+/**
+ * Party Statement Modal
+ * Statement of account for a customer or supplier over a date range, with
+ * ageing of the closing balance, downloadable as PDF or Excel.
+ */
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileDown, FileSpreadsheet, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useBusinessContext } from "@/contexts/BusinessContext";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { ledgerService } from "@/services/api/ledgerService";
+import { getFiscalYearRange } from "@/services/api/profitLossService";
+import { buildPartyStatement, statementExportOptions } from "@/lib/partyStatement";
+import { downloadReportPdf, exportReportToXLSX } from "@/lib/reportExport";
+import type { LedgerEntry, LedgerPartyType } from "@/lib/partyLedger";
+
+interface PartyStatementModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  partyType: LedgerPartyType;
+  partyId: string;
+  partyName: string;
+}
+
+export function PartyStatementModal({ open, onOpenChange, partyType, partyId, partyName }: PartyStatementModalProps) {
+  const { format: formatCurrency } = useCurrency();
+  const { businessProfile } = useBusinessContext();
+
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [entries, setEntries] = useState<LedgerEntry[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Financial year to date, and the party's ledger
+  useEffect(() => {
+    if (!open) return;
+
+    setEntries(null);
+    setLoadError(false);
+    setEndDate(format(new Date(), "yyyy-MM-dd"));
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      setStartDate(getFiscalYearRange(data?.fiscal_year_start).startDate);
+    });
+    ledgerService.fetchPartyLedger(partyType, partyId).then(({ data, error }) => {
+      // A statement of a partial ledger would be wrong, so nothing is shown
+      if (error || !data) {
+        toast.error("Failed to load the ledger");
+        setLoadError(true);
+        return;
+      }
+      setEntries(data);
+    });
+  }, [open, partyType, partyId]);
+
+  const statement = useMemo(
+    () =>
+      entries && startDate && endDate && startDate <= endDate
+        ? buildPartyStatement(partyType, partyName, entries, startDate, endDate)
+        : null,
+    [entries, partyType, partyName, startDate, endDate]
+  );
+
+  const formatBalance = (value: number) =>
+    `${formatCurrency(Math.abs(value))} ${value > 0 ? "Dr" : value < 0 ? "Cr" : ""}`.trim();
+
+  const exportOptions = () =>
+    statement ? statementExportOptions(statement, { businessName: businessProfile.businessName, formatCurrency }) : null;
+
+  const handleDownloadPDF = async () => {
+    const options = exportOptions();
+    if (!options) return;
+
+    setIsExporting(true);
+    try {
+      await downloadReportPdf(options);
+    } catch (err) {
+      console.error("Error generating statement PDF:", err);
+      toast.error("Failed to generate the PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownloadExcel = () => {
+    const options = exportOptions();
+    if (options) exportReportToXLSX(options, "Statement");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Statement of Account • {partyName}</DialogTitle>
+          <DialogDescription>
+            Opening balance, every entry in the period with a running balance, and how old the closing balance is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement-from">From</Label>
+              <Input id="statement-from" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-to">To</Label>
+              <Input id="statement-to" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          {loadError ? (
+            <p className="text-sm text-destructive">The ledger could not be loaded. Close and try again.</p>
+          ) : entries === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !statement ? (
+            <p className="text-sm text-muted-foreground">Choose a start date on or before the end date.</p>
+          ) : (
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="text-muted-foreground">Opening balance</div>
+                <div className="text-right font-medium">{formatBalance(statement.openingBalance)}</div>
+                <div className="text-muted-foreground">Debits</div>
+                <div className="text-right">{formatCurrency(statement.totalDebit)}</div>
+                <div className="text-muted-foreground">Credits</div>
+                <div className="text-right">{formatCurrency(statement.totalCredit)}</div>
+                <div className="font-semibold">Closing balance</div>
+                <div className="text-right font-semibold">{formatBalance(statement.closingBalance)}</div>
+              </div>
+              <div className="grid grid-cols-4 gap-2 border-t pt-3">
+                {statement.ageing.map(({ bucket, amount }) => (
+                  <div key={bucket.label} className="rounded-md border p-2 text-center">
+                    <div className="text-xs text-muted-foreground">{bucket.label}</div>
+                    <div className="font-medium">{formatBalance(amount)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleDownloadExcel} disabled={!statement}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+          <Button onClick={handleDownloadPDF} disabled={!statement || isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,6 +35,11 @@ interface ProductSelectionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSelectProducts: (products: SelectedProduct[]) => void;
+  /**
+   * 'sale' (default) prices at selling price and caps quantity at stock.
+   * 'purchase' prices at cost price and allows out-of-stock items.
+   */
+  mode?: 'sale' | 'purchase';
 }
 
 export interface SelectedProduct {
@@ -46,14 +51,18 @@ export interface SelectedProduct {
   price: number;
   discount: number;
   amount: number;
+  taxRate?: number; // Product GST %; exempt and zero-rated goods carry 0
+  taxInclusive?: boolean;
   availableStock: number;
 }
 
 export default function ProductSelectionModal({ 
   open, 
   onOpenChange, 
-  onSelectProducts 
+  onSelectProducts,
+  mode = 'sale'
 }: ProductSelectionModalProps) {
+  const isPurchase = mode === 'purchase';
   const { products, loading } = useInventory();
   const { format: formatCurrency } = useCurrency();
   
@@ -81,8 +90,8 @@ export default function ProductSelectionModal({
   // Filter products
   const filteredProducts = useMemo(() => {
     return products.filter(product => {
-      // Only show products that are for sale
-      if (product.not_for_sale) return false;
+      // Only show products that are for sale (purchases can restock anything)
+      if (product.not_for_sale && !isPurchase) return false;
       
       const matchesSearch =
         product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -94,7 +103,7 @@ export default function ProductSelectionModal({
 
       return matchesSearch && matchesCategory;
     }).sort((a, b) => a.name.localeCompare(b.name));
-  }, [products, searchQuery, categoryFilter]);
+  }, [products, searchQuery, categoryFilter, isPurchase]);
 
   const handleQuantityChange = (productId: string, quantity: number) => {
     const qty = Math.max(1, quantity);
@@ -115,8 +124,8 @@ export default function ProductSelectionModal({
     } else {
       // Add to selection with default quantity
       const quantity = quantities.get(product.id) || 1;
-      const discount = product.discount_percent || 0;
-      const price = product.selling_price;
+      const discount = isPurchase ? 0 : product.discount_percent || 0;
+      const price = isPurchase ? product.cost_price : product.selling_price;
       const amount = quantity * price * (1 - discount / 100);
       
       newSelected.set(product.id, {
@@ -128,6 +137,8 @@ export default function ProductSelectionModal({
         price,
         discount,
         amount,
+        taxRate: product.gst_category === 'exempt' || product.gst_category === 'zero_rated' ? 0 : product.tax_rate,
+        taxInclusive: product.tax_inclusive,
         availableStock: product.quantity
       });
       
@@ -191,7 +202,7 @@ export default function ProductSelectionModal({
                 Select Products from Inventory
               </DialogTitle>
               <p className="text-sm text-muted-foreground mt-1">
-                Choose products to add to your invoice
+                {isPurchase ? 'Choose products to add to this purchase' : 'Choose products to add to your invoice'}
               </p>
             </div>
             {selectedProducts.size > 0 && (
@@ -252,7 +263,8 @@ export default function ProductSelectionModal({
                 const isSelected = selectedProducts.has(product.id);
                 const quantity = quantities.get(product.id) || 1;
                 const stockStatus = getStockStatus(product.quantity, product.min_stock_level);
-                const isOutOfStock = product.quantity === 0;
+                const isOutOfStock = product.quantity === 0 && !isPurchase;
+                const unitPrice = isPurchase ? product.cost_price : product.selling_price;
 
                 return (
                   <div
@@ -309,7 +321,7 @@ export default function ProductSelectionModal({
                           
                           <div className="text-right">
                             <div className="font-semibold text-sm">
-                              {formatCurrency(product.selling_price)}
+                              {formatCurrency(unitPrice)}
                             </div>
                             <Badge 
                               variant="secondary" 
@@ -341,7 +353,7 @@ export default function ProductSelectionModal({
                               <Input
                                 type="number"
                                 min="1"
-                                max={product.quantity}
+                                max={isPurchase ? undefined : product.quantity}
                                 value={quantity}
                                 onChange={(e) => {
                                   e.stopPropagation();
@@ -359,12 +371,12 @@ export default function ProductSelectionModal({
                                   e.stopPropagation();
                                   handleUpdateQuantity(product.id, quantity + 1);
                                 }}
-                                disabled={quantity >= product.quantity}
+                                disabled={!isPurchase && quantity >= product.quantity}
                               >
                                 +
                               </Button>
                               <span className="text-xs text-muted-foreground ml-2">
-                                Total: {formatCurrency(quantity * product.selling_price)}
+                                Total: {formatCurrency(quantity * unitPrice)}
                               </span>
                             </div>
                           </div>
@@ -407,7 +419,7 @@ export default function ProductSelectionModal({
               disabled={selectedProducts.size === 0}
             >
               <ShoppingCart className="h-4 w-4 mr-2" />
-              Add to Invoice ({selectedProducts.size})
+              {isPurchase ? 'Add to Purchase' : 'Add to Invoice'} ({selectedProducts.size})
             </Button>
           </div>
         </div>
@@ -0,0 +1,377 @@
+/**
+ * Profit & Loss Report
+ * Statement for any period (fiscal-year aware) with optional month-over-month columns
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { format, startOfMonth, endOfMonth, subMonths } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, FileSpreadsheet, Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useBusinessContext } from "@/contexts/BusinessContext";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import {
+  profitLossService,
+  getFiscalYearRange,
+  type ProfitLossMonth,
+  type ProfitLossStatement,
+} from "@/services/api/profitLossService";
+import { exportReportToXLSX, sanitizeFileName } from "@/lib/reportExport";
+import { cn } from "@/lib/utils";
+
+type Period = "thisFiscalYear" | "lastFiscalYear" | "thisMonth" | "lastMonth" | "custom";
+
+interface StatementRow {
+  label: string;
+  values: number[];
+  kind: "line" | "expense" | "subtotal" | "total" | "heading";
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Lay out one or more statements side by side as P&L rows
+ */
+function buildStatementRows(statements: ProfitLossStatement[]): StatementRow[] {
+  const categories = Array.from(
+    new Set(statements.flatMap(statement => statement.operatingExpenses.map(line => line.label)))
+  );
+
+  const expenseFor = (statement: ProfitLossStatement, category: string) =>
+    statement.operatingExpenses.find(line => line.label === category)?.amount ?? 0;
+
+  return [
+    { label: "Revenue (net of GST)", values: statements.map(s => s.revenue), kind: "line" },
+    { label: "Cost of Goods Sold", values: statements.map(s => s.costOfGoodsSold), kind: "line" },
+    { label: "Gross Profit", values: statements.map(s => s.grossProfit), kind: "subtotal" },
+    { label: "Operating Expenses", values: [], kind: "heading" },
+    ...categories.map((category): StatementRow => ({
+      label: category,
+      values: statements.map(s => expenseFor(s, category)),
+      kind: "expense",
+    })),
+    { label: "Total Operating Expenses", values: statements.map(s => s.totalOperatingExpenses), kind: "subtotal" },
+    { label: "Net Profit", values: statements.map(s => s.netProfit), kind: "total" },
+  ];
+}
+
+export function ProfitLossReport() {
+  const { format: formatCurrency } = useCurrency();
+  const { businessProfile } = useBusinessContext();
+
+  const [fiscalYearStart, setFiscalYearStart] = useState<string | null>(null);
+  const [period, setPeriod] = useState<Period>("thisFiscalYear");
+  const [startDate, setStartDate] = useState(() => getFiscalYearRange(null).startDate);
+  const [endDate, setEndDate] = useState(() => getFiscalYearRange(null).endDate);
+  const [compareMonthly, setCompareMonthly] = useState(false);
+  const [statement, setStatement] = useState<ProfitLossStatement | null>(null);
+  const [months, setMonths] = useState<ProfitLossMonth[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fiscal year boundaries come from business settings
+  useEffect(() => {
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      const start = data?.fiscal_year_start ?? null;
+      setFiscalYearStart(start);
+      const range = getFiscalYearRange(start);
+      setStartDate(range.startDate);
+      setEndDate(range.endDate);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!startDate || !endDate || startDate > endDate) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    const request = compareMonthly
+      ? profitLossService.generateMonthlyComparison({ startDate, endDate }).then(({ data, error }) => ({
+          statement: data?.total ?? null,
+          months: data?.months ?? [],
+          error,
+        }))
+      : profitLossService.generateStatement({ startDate, endDate }).then(({ data, error }) => ({
+          statement: data,
+          months: [] as ProfitLossMonth[],
+          error,
+        }));
+
+    request.then(result => {
+      if (cancelled) return;
+      if (result.error) {
+        toast.error("Failed to build profit & loss statement");
+      }
+      setStatement(result.statement);
+      setMonths(result.months);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, compareMonthly]);
+
+  const handlePeriodChange = (value: string) => {
+    const next = value as Period;
+    setPeriod(next);
+
+    const today = new Date();
+    let range: { startDate: string; endDate: string } | null = null;
+
+    if (next === "thisFiscalYear") range = getFiscalYearRange(fiscalYearStart, today);
+    if (next === "lastFiscalYear") range = getFiscalYearRange(fiscalYearStart, today, -1);
+    if (next === "thisMonth") {
+      range = { startDate: toDateInput(startOfMonth(today)), endDate: toDateInput(endOfMonth(today)) };
+    }
+    if (next === "lastMonth") {
+      const lastMonth = subMonths(today, 1);
+      range = { startDate: toDateInput(startOfMonth(lastMonth)), endDate: toDateInput(endOfMonth(lastMonth)) };
+    }
+
+    if (range) {
+      setStartDate(range.startDate);
+      setEndDate(range.endDate);
+    }
+  };
+
+  const columns = useMemo(
+    () => (compareMonthly && months.length > 0
+      ? [...months.map(month => month.label), "Total"]
+      : ["Amount"]),
+    [compareMonthly, months]
+  );
+
+  const rows = useMemo(() => {
+    if (!statement) return [];
+    const statements = compareMonthly && months.length > 0
+      ? [...months.map(month => month.statement), statement]
+      : [statement];
+    return buildStatementRows(statements);
+  }, [statement, months, compareMonthly]);
+
+  const handleExport = () => {
+    if (!statement) return;
+
+    const periodLabel = `${format(new Date(startDate), "dd MMM yyyy")} to ${format(new Date(endDate), "dd MMM yyyy")}`;
+
+    exportReportToXLSX(
+      {
+        title: "Profit & Loss Statement",
+        subtitle: periodLabel,
+        businessName: businessProfile.businessName,
+        columns: [
+          { header: "Particulars", value: (row: StatementRow) => (row.kind === "expense" ? `   ${row.label}` : row.label) },
+          ...columns.map((header, index) => ({
+            header,
+            value: (row: StatementRow) => row.values[index] ?? "",
+            align: "right" as const,
+          })),
+        ],
+        rows,
+        summary: [
+          { label: "Gross Margin %", value: statement.grossMargin },
+          { label: "Net Margin %", value: statement.netMargin },
+          { label: "GST Collected (not income)", value: statement.taxCollected },
+          { label: "Invoices", value: statement.invoiceCount },
+        ],
+        fileName: sanitizeFileName(`Profit_and_Loss_${startDate}_to_${endDate}`),
+      },
+      "Profit & Loss"
+    );
+  };
+
+  const renderChange = (value: number | null) => {
+    if (value === null) return <span className="text-muted-foreground">-</span>;
+    const Icon = value >= 0 ? TrendingUp : TrendingDown;
+    return (
+      <span className={cn("inline-flex items-center gap-1", value >= 0 ? "text-green-600" : "text-red-500")}>
+        <Icon className="h-3 w-3" />
+        {Math.abs(value)}%
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className="text-sm text-muted-foreground mb-2 block font-medium">Period</label>
+          <Select value={period} onValueChange={handlePeriodChange}>
+            <SelectTrigger className="bg-background border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="thisFiscalYear">This Financial Year</SelectItem>
+              <SelectItem value="lastFiscalYear">Last Financial Year</SelectItem>
+              <SelectItem value="thisMonth">This Month</SelectItem>
+              <SelectItem value="lastMonth">Last Month</SelectItem>
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm text-muted-foreground mb-2 block font-medium">Start</label>
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                setPeriod("custom");
+              }}
+              className="bg-background border-border pl-10"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="text-sm text-muted-foreground mb-2 block font-medium">End</label>
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              type="date"
+              value={endDate}
+              onChange={(e) => {
+                setEndDate(e.target.value);
+                setPeriod("custom");
+              }}
+              className="bg-background border-border pl-10"
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2 h-10">
+          <Switch id="pl-compare" checked={compareMonthly} onCheckedChange={setCompareMonthly} />
+          <Label htmlFor="pl-compare" className="text-sm">Month-over-month</Label>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={!statement || isLoading}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Download Excel
+        </Button>
+      </div>
+
+      {startDate > endDate && (
+        <p className="text-sm text-destructive">Start date must be before the end date.</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : statement ? (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card className="bg-blue-500/10 border-blue-500/30 p-6">
+              <div className="text-2xl font-bold text-blue-500 mb-1">{formatCurrency(statement.revenue)}</div>
+              <div className="text-blue-500 font-semibold">Revenue</div>
+              <div className="text-xs text-muted-foreground mt-1">{statement.invoiceCount} invoices</div>
+            </Card>
+            <Card className="bg-amber-500/10 border-amber-500/30 p-6">
+              <div className="text-2xl font-bold text-amber-600 mb-1">{formatCurrency(statement.grossProfit)}</div>
+              <div className="text-amber-600 font-semibold">Gross Profit</div>
+              <div className="text-xs text-muted-foreground mt-1">{statement.grossMargin}% margin</div>
+            </Card>
+            <Card
+              className={cn(
+                "p-6",
+                statement.netProfit >= 0 ? "bg-green-500/10 border-green-500/30" : "bg-red-500/10 border-red-500/30"
+              )}
+            >
+              <div className={cn("text-2xl font-bold mb-1", statement.netProfit >= 0 ? "text-green-500" : "text-red-500")}>
+                {formatCurrency(Math.abs(statement.netProfit))}
+              </div>
+              <div className={cn("font-semibold", statement.netProfit >= 0 ? "text-green-500" : "text-red-500")}>
+                {statement.netProfit >= 0 ? "Net Profit" : "Net Loss"}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">{statement.netMargin}% margin</div>
+            </Card>
+          </div>
+
+          {/* Statement */}
+          <div className="border border-border rounded-lg overflow-x-auto bg-card">
+            <table className="w-full">
+              <thead className="bg-muted/30 border-b border-border">
+                <tr>
+                  <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                    Particulars
+                  </th>
+                  {columns.map(column => (
+                    <th
+                      key={column}
+                      className="text-right py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rows.map(row => (
+                  <tr
+                    key={`${row.kind}-${row.label}`}
+                    className={cn(
+                      row.kind === "subtotal" && "bg-muted/20 font-semibold",
+                      row.kind === "total" && "bg-muted/40 font-bold"
+                    )}
+                  >
+                    <td
+                      className={cn(
+                        "py-3 px-6 text-sm text-foreground",
+                        row.kind === "expense" && "pl-10 text-muted-foreground",
+                        row.kind === "heading" && "font-semibold"
+                      )}
+                    >
+                      {row.label}
+                    </td>
+                    {columns.map((column, index) => (
+                      <td key={column} className="py-3 px-6 text-sm text-right whitespace-nowrap">
+                        {row.kind === "heading" ? "" : formatCurrency(row.values[index] ?? 0)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {compareMonthly && months.length > 1 && (
+                  <>
+                    <tr className="text-xs">
+                      <td className="py-2 px-6 text-muted-foreground">Revenue change vs previous month</td>
+                      {months.map(month => (
+                        <td key={month.month} className="py-2 px-6 text-right">{renderChange(month.change.revenue)}</td>
+                      ))}
+                      <td />
+                    </tr>
+                    <tr className="text-xs">
+                      <td className="py-2 px-6 text-muted-foreground">Net profit change vs previous month</td>
+                      {months.map(month => (
+                        <td key={month.month} className="py-2 px-6 text-right">{renderChange(month.change.netProfit)}</td>
+                      ))}
+                      <td />
+                    </tr>
+                  </>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            GST collected on sales ({formatCurrency(statement.taxCollected)}) is a liability and is excluded from revenue.
+            Revenue is net of customer credit notes. Cost of goods sold values stock at its cost when it was sold, less
+            goods customers returned.
+          </p>
+        </>
+      ) : (
+        <div className="py-12 text-center text-muted-foreground">No data for the selected period</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+/**
+ * Record Purchase Modal
+ * Captures a supplier bill, picks items from inventory at cost price and
+ * hands it to purchasesService for stock-in and supplier balance posting
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Package, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import ProductSelectionModal, { SelectedProduct } from "@/components/ProductSelectionModal";
+import { useInventory } from "@/contexts/InventoryContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { suppliersService, type Supplier } from "@/services/api/suppliersService";
+import { purchasesService } from "@/services/api/purchasesService";
+import type { Bill } from "@/services/api/billsService";
+
+interface RecordPurchaseModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPurchaseRecorded?: (bill: Bill) => void;
+}
+
+interface PurchaseLine {
+  key: string;
+  product_id: string;
+  name: string;
+  unit: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+}
+
+const lineTotal = (line: PurchaseLine) => {
+  const taxable = line.quantity * line.unit_price;
+  return Math.round(taxable * (1 + line.tax_rate / 100) * 100) / 100;
+};
+
+export function RecordPurchaseModal({ open, onOpenChange, onPurchaseRecorded }: RecordPurchaseModalProps) {
+  const { getProduct, refreshProducts } = useInventory();
+  const { format: formatCurrency } = useCurrency();
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState("");
+  const [billNumber, setBillNumber] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [dueDate, setDueDate] = useState("");
+  const [paidAmount, setPaidAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PurchaseLine[]>([]);
+  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form and load suppliers when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setSupplierId("");
+    setBillNumber("");
+    setDate(new Date().toISOString().split("T")[0]);
+    setDueDate("");
+    setPaidAmount("");
+    setNotes("");
+    setLines([]);
+
+    let cancelled = false;
+    suppliersService.fetchSuppliers().then(({ data }) => {
+      if (!cancelled && data) setSuppliers(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const totals = useMemo(() => {
+    const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+    const total = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+    return {
+      subtotal: Math.round(subtotal * 100) / 100,
+      tax: Math.round((total - subtotal) * 100) / 100,
+      total: Math.round(total * 100) / 100,
+    };
+  }, [lines]);
+
+  const paid = Math.min(parseFloat(paidAmount) || 0, totals.total);
+
+  const handleProductsSelected = (selected: SelectedProduct[]) => {
+    const newLines: PurchaseLine[] = selected.map(product => {
+      const inventoryProduct = getProduct(product.id);
+      return {
+        key: `${product.id}-${Date.now()}`,
+        product_id: product.id,
+        name: product.name,
+        unit: inventoryProduct?.unit || null,
+        quantity: product.quantity,
+        unit_price: product.price,
+        tax_rate: inventoryProduct?.tax_rate || 0,
+      };
+    });
+
+    setLines(prev => [...prev, ...newLines]);
+  };
+
+  const updateLine = (key: string, field: "quantity" | "unit_price" | "tax_rate", value: string) => {
+    setLines(prev => prev.map(line =>
+      line.key === key ? { ...line, [field]: parseFloat(value) || 0 } : line
+    ));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(prev => prev.filter(line => line.key !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const supplier = suppliers.find(s => s.id === supplierId);
+    if (!supplier) {
+      toast.error("Select a supplier");
+      return;
+    }
+
+    if (lines.length === 0) {
+      toast.error("Add at least one item to the purchase");
+      return;
+    }
+
+    const invalidLine = lines.find(line => line.quantity <= 0 || line.unit_price < 0);
+    if (invalidLine) {
+      toast.error(`Please enter a valid quantity and cost for ${invalidLine.name}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await purchasesService.createPurchase({
+        bill_number: billNumber.trim() || undefined,
+        supplier_id: supplier.id,
+        supplier_name: supplier.name,
+        date: new Date(date).toISOString(),
+        due_date: dueDate ? new Date(dueDate).toISOString() : undefined,
+        items: lines.map(line => ({
+          product_id: line.product_id,
+          name: line.name,
+          description: line.unit,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          tax_rate: line.tax_rate,
+          discount_percentage: 0,
+          total: lineTotal(line),
+        })),
+        paid_amount: paid,
+        notes: notes.trim() || undefined,
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to record purchase");
+      }
+
+      toast.success("Purchase recorded!", {
+        description: `${data.bill_number} from ${supplier.name} for ${formatCurrency(data.total_amount)}`,
+      });
+
+      await refreshProducts();
+      onPurchaseRecorded?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to record purchase:", error);
+      toast.error("Failed to record purchase", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Purchase</DialogTitle>
+            <DialogDescription>
+              Stock is added at cost price. Any unpaid amount is added to what you owe the supplier.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Supplier *</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name} {supplier.phone ? `• ${supplier.phone}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="purchase-bill-number">Bill No.</Label>
+                  <Input
+                    id="purchase-bill-number"
+                    value={billNumber}
+                    onChange={(e) => setBillNumber(e.target.value)}
+                    placeholder="Supplier's bill no."
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchase-date">Date</Label>
+                  <Input
+                    id="purchase-date"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchase-due-date">Due Date</Label>
+                  <Input
+                    id="purchase-due-date"
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Items</Label>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setIsProductModalOpen(true)}>
+                    <Package className="h-4 w-4 mr-2" />
+                    Select Products
+                  </Button>
+                </div>
+
+                {lines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground rounded-lg border border-dashed p-4 text-center">
+                    No items added yet
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {lines.map(line => (
+                      <div key={line.key} className="rounded-lg bg-muted/50 p-3 space-y-2">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="text-sm font-medium">{line.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Total: {formatCurrency(lineTotal(line))}
+                            </p>
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeLine(line.key)}
+                            className="h-7 w-7 p-0 hover:bg-red-50 hover:text-red-600"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.key, "quantity", e.target.value)}
+                            placeholder="Qty"
+                            className="h-8 text-sm bg-card"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(line.key, "unit_price", e.target.value)}
+                            placeholder="Cost"
+                            className="h-8 text-sm bg-card"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.tax_rate}
+                            onChange={(e) => updateLine(line.key, "tax_rate", e.target.value)}
+                            placeholder="Tax%"
+                            className="h-8 text-sm bg-card"
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="purchase-paid">Amount Paid Now</Label>
+                <Input
+                  id="purchase-paid"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={paidAmount}
+                  onChange={(e) => setPaidAmount(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="purchase-notes">Notes (Optional)</Label>
+                <Textarea
+                  id="purchase-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  placeholder="Add any remarks..."
+                />
+              </div>
+
+              {lines.length > 0 && (
+                <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Subtotal</span>
+                    <span>{formatCurrency(totals.subtotal)}</span>
+                  </div>
+                  {totals.tax > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Tax</span>
+                      <span>{formatCurrency(totals.tax)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between pt-2 border-t font-semibold">
+                    <span>Total</span>
+                    <span className="text-primary">{formatCurrency(totals.total)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Balance Due</span>
+                    <span className="font-medium text-orange-600 dark:text-orange-500">
+                      {formatCurrency(totals.total - paid)}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || lines.length === 0}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Record Purchase"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ProductSelectionModal
+        open={isProductModalOpen}
+        onOpenChange={setIsProductModalOpen}
+        onSelectProducts={handleProductsSelected}
+        mode="purchase"
+      />
+    </>
+  );
+}
@@ -0,0 +1,354 @@
+/**
+ * Record Sale Modal
+ * Captures a cash or credit sale, picks items from inventory and
+ * hands the voucher to salesService for stock and ledger posting
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Package, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import ProductSelectionModal, { SelectedProduct } from "@/components/ProductSelectionModal";
+import { useInventory } from "@/contexts/InventoryContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { customersService, type Customer } from "@/services/api/customersService";
+import { salesService, type Sale, type SaleItem, type SalePaymentMode } from "@/services/api/salesService";
+
+interface RecordSaleModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaleRecorded?: (sale: Sale) => void;
+}
+
+type SaleLine = Omit<SaleItem, 'total'> & { key: string; availableStock: number };
+
+export function RecordSaleModal({ open, onOpenChange, onSaleRecorded }: RecordSaleModalProps) {
+  const { getProduct, refreshProducts } = useInventory();
+  const { format: formatCurrency } = useCurrency();
+
+  const [paymentMode, setPaymentMode] = useState<SalePaymentMode>("cash");
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerId, setCustomerId] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<SaleLine[]>([]);
+  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset form and load customers when modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setPaymentMode("cash");
+    setCustomerId("");
+    setDate(new Date().toISOString().split("T")[0]);
+    setNotes("");
+    setLines([]);
+
+    const controller = new AbortController();
+    customersService.fetchCustomers({ signal: controller.signal }).then(({ data }) => {
+      if (data) setCustomers(data);
+    });
+
+    return () => controller.abort();
+  }, [open]);
+
+  const totals = useMemo(() => salesService.calculateTotals(lines), [lines]);
+
+  const handleProductsSelected = (selected: SelectedProduct[]) => {
+    const newLines: SaleLine[] = selected.map(product => {
+      const inventoryProduct = getProduct(product.id);
+      return {
+        key: `${product.id}-${Date.now()}`,
+        product_id: product.id,
+        name: product.name,
+        hsn: product.hsn || null,
+        unit: inventoryProduct?.unit || null,
+        quantity: product.quantity,
+        unit_price: product.price,
+        discount_percentage: product.discount,
+        tax_rate: inventoryProduct?.tax_rate || 0,
+        availableStock: product.availableStock,
+      };
+    });
+
+    setLines(prev => [...prev, ...newLines]);
+  };
+
+  const updateLine = (key: string, field: "quantity" | "unit_price" | "discount_percentage", value: string) => {
+    setLines(prev => prev.map(line =>
+      line.key === key ? { ...line, [field]: parseFloat(value) || 0 } : line
+    ));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(prev => prev.filter(line => line.key !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (lines.length === 0) {
+      toast.error("Add at least one item to the sale");
+      return;
+    }
+
+    const invalidLine = lines.find(line => line.quantity <= 0 || line.unit_price < 0);
+    if (invalidLine) {
+      toast.error(`Please enter a valid quantity and price for ${invalidLine.name}`);
+      return;
+    }
+
+    const overStock = lines.find(line => line.product_id && line.quantity > line.availableStock);
+    if (overStock) {
+      toast.error(`Only ${overStock.availableStock} ${overStock.unit || ""} of ${overStock.name} in stock`);
+      return;
+    }
+
+    if (paymentMode === "credit" && !customerId) {
+      toast.error("Select a customer for a credit sale");
+      return;
+    }
+
+    const customer = customers.find(c => c.id === customerId);
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await salesService.createSale({
+        date: new Date(date).toISOString(),
+        payment_mode: paymentMode,
+        customer_id: customer?.id,
+        customer_name: customer?.name,
+        items: lines.map(line => ({
+          product_id: line.product_id,
+          name: line.name,
+          hsn: line.hsn,
+          unit: line.unit,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          discount_percentage: line.discount_percentage,
+          tax_rate: line.tax_rate,
+        })),
+        notes: notes.trim() || undefined,
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to record sale");
+      }
+
+      toast.success("Sale recorded!", {
+        description: `${data.sale_number} for ${formatCurrency(data.total_amount)}`,
+      });
+
+      await refreshProducts();
+      onSaleRecorded?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to record sale:", error);
+      toast.error("Failed to record sale", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Sale</DialogTitle>
+            <DialogDescription>
+              Stock is deducted automatically. Credit sales are added to the customer's balance.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Payment</Label>
+                  <Select value={paymentMode} onValueChange={(value) => setPaymentMode(value as SalePaymentMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash Sale</SelectItem>
+                      <SelectItem value="credit">Credit Sale</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sale-date">Date</Label>
+                  <Input
+                    id="sale-date"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Customer {paymentMode === "credit" ? "*" : "(Optional)"}</Label>
+                <Select value={customerId} onValueChange={setCustomerId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Walk-in customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers.map(customer => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.name} {customer.phone ? `• ${customer.phone}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Items</Label>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setIsProductModalOpen(true)}>
+                    <Package className="h-4 w-4 mr-2" />
+                    Select Products
+                  </Button>
+                </div>
+
+                {lines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground rounded-lg border border-dashed p-4 text-center">
+                    No items added yet
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {lines.map(line => (
+                      <div key={line.key} className="rounded-lg bg-muted/50 p-3 space-y-2">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="text-sm font-medium">{line.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              In stock: {line.availableStock} {line.unit || ""}
+                            </p>
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeLine(line.key)}
+                            className="h-7 w-7 p-0 hover:bg-red-50 hover:text-red-600"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.key, "quantity", e.target.value)}
+                            placeholder="Qty"
+                            className="h-8 text-sm bg-card"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(line.key, "unit_price", e.target.value)}
+                            placeholder="Price"
+                            className="h-8 text-sm bg-card"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.discount_percentage}
+                            onChange={(e) => updateLine(line.key, "discount_percentage", e.target.value)}
+                            placeholder="Disc%"
+                            className="h-8 text-sm bg-card"
+                          />
+                        </div>
+                        {line.quantity > line.availableStock && (
+                          <p className="text-xs text-destructive">Insufficient stock</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sale-notes">Notes (Optional)</Label>
+                <Textarea
+                  id="sale-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  placeholder="Add any remarks..."
+                />
+              </div>
+
+              {lines.length > 0 && (
+                <div className="rounded-lg border border-border bg-card p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Subtotal</span>
+                    <span>{formatCurrency(totals.subtotal)}</span>
+                  </div>
+                  {totals.discount_amount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Discount</span>
+                      <span>-{formatCurrency(totals.discount_amount)}</span>
+                    </div>
+                  )}
+                  {totals.tax_amount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Tax</span>
+                      <span>{formatCurrency(totals.tax_amount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between pt-2 border-t font-semibold">
+                    <span>Total</span>
+                    <span className="text-primary">{formatCurrency(totals.total_amount)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || lines.length === 0}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Record Sale"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ProductSelectionModal
+        open={isProductModalOpen}
+        onOpenChange={setIsProductModalOpen}
+        onSelectProducts={handleProductsSelected}
+      />
+    </>
+  );
+}
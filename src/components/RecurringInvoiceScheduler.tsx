@@ -0,0 +1,43 @@
+/**
+ * Recurring Invoice Scheduler
+ * Raises recurring invoices that fell due since the last visit, once per
+ * signed-in session. Renders nothing.
+ */
+
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { recurringInvoicesService } from "@/services/api/recurringInvoicesService";
+
+// Give the sync service a moment to pick up the restored session
+const STARTUP_DELAY_MS = 3000;
+
+export function RecurringInvoiceScheduler() {
+  const { user } = useAuth();
+  const processedForRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || processedForRef.current === user.id) return;
+
+    const timer = setTimeout(() => {
+      processedForRef.current = user.id;
+
+      recurringInvoicesService.processDueInvoices().then(({ generated, failed }) => {
+        if (generated.length > 0) {
+          toast.success(`${generated.length} recurring invoice${generated.length !== 1 ? "s" : ""} generated`, {
+            description: generated.map(bill => bill.bill_number).join(", "),
+          });
+        }
+        if (failed.length > 0) {
+          toast.error(`${failed.length} recurring invoice${failed.length !== 1 ? "s" : ""} could not be generated`, {
+            description: "See Recurring Invoices for details",
+          });
+        }
+      });
+    }, STARTUP_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [user]);
+
+  return null;
+}
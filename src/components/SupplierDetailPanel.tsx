@@ -1,9 +1,11 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { X, FileText, MessageSquare, Send, Calendar, Plus, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { format, parseISO, isValid } from "date-fns";
 import { AddTransactionModal } from "@/components/AddTransactionModal";
 import { PartyProfileModal } from "@/components/PartyProfileModal";
+import { PartyStatementModal } from "@/components/PartyStatementModal";
+import { ledgerService } from "@/services/api/ledgerService";
 
 interface Transaction {
   id: string;
@@ -39,12 +41,34 @@ export function SupplierDetailPanel({ supplier, isOpen, onClose, onTransactionAd
   const [isAddTransactionOpen, setIsAddTransactionOpen] = useState(false);
   const [transactionType, setTransactionType] = useState<"gave" | "got" | null>(null);
   const [isPartyProfileOpen, setIsPartyProfileOpen] = useState(false);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [ledgerBalance, setLedgerBalance] = useState<number | null>(null);
+  const [asOfDate, setAsOfDate] = useState("");
+  const [asOfBalance, setAsOfBalance] = useState<number | null>(null);
+
+  // Balance from the supplier's ledger; the stored balance is only a cache
+  useEffect(() => {
+    if (!isOpen || !supplier?.id) return;
+
+    setLedgerBalance(null);
+    ledgerService.getPartyBalance('supplier', supplier.id).then(({ data }) => setLedgerBalance(data));
+  }, [isOpen, supplier?.id, supplier?.openingBalance, supplier?.transactions?.length]);
+
+  // What the supplier owed at the end of a past day
+  useEffect(() => {
+    setAsOfBalance(null);
+    if (!isOpen || !supplier?.id || !asOfDate) return;
+
+    ledgerService.balanceAsOf('supplier', supplier.id, asOfDate).then(({ data }) => setAsOfBalance(data));
+  }, [isOpen, supplier?.id, asOfDate, ledgerBalance]);
 
   if (!supplier) return null;
 
   const transactions = supplier.transactions || [];
-  const balance = parseFloat(supplier.openingBalance || "0");
-  const isCredit = supplier.balanceType === "credit";
+  const storedBalance = parseFloat(supplier.openingBalance || "0") * (supplier.balanceType === "credit" ? 1 : -1);
+  const signedBalance = ledgerBalance ?? storedBalance;
+  const balance = Math.abs(signedBalance);
+  const isCredit = signedBalance >= 0;
 
   // Debug logging
   console.log('📋 SupplierDetailPanel render:', {
@@ -125,10 +149,8 @@ export function SupplierDetailPanel({ supplier, isOpen, onClose, onTransactionAd
     onTransactionAdded?.(transactionData);
   };
 
-  // INDUSTRY-GRADE SOLUTION: Trust the database as single source of truth
-  // The openingBalance field contains the CURRENT net balance, not the initial balance
-  // The database maintains this value through triggers/stored procedures
-  // We should NOT recalculate by looping through transactions (that causes double-counting)
+  // Net balance comes from the ledger (stored balance until it loads); the
+  // per-transaction running balances are not summed again here
   const netBalance = balance;
 
   const handleWhatsAppReminder = () => {
@@ -211,7 +233,7 @@ Best regards!`;
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Button variant="ghost" size="icon" className="text-gray-400 hover:text-white">
+              <Button variant="ghost" size="icon" onClick={() => setIsStatementOpen(true)} title="Statement of account" className="text-gray-400 hover:text-white">
                 <FileText className="h-5 w-5" />
               </Button>
               <Button variant="ghost" size="icon" onClick={() => setIsPartyProfileOpen(true)} className="text-gray-400 hover:text-white">
@@ -236,6 +258,21 @@ Best regards!`;
              ) : (
                <div className="text-2xl font-bold text-gray-500">₹0</div>
              )}
+             <div className="flex items-center justify-end gap-2 mt-2 text-xs text-gray-500">
+               <span>Balance as of</span>
+               <input
+                 type="date"
+                 value={asOfDate}
+                 max={format(new Date(), "yyyy-MM-dd")}
+                 onChange={(e) => setAsOfDate(e.target.value)}
+                 className="bg-transparent border border-gray-700 rounded px-2 py-1 text-gray-300"
+               />
+             </div>
+             {asOfDate && asOfBalance !== null && (
+               <div className={`text-sm font-medium mt-1 ${asOfBalance > 0 ? "text-red-500" : asOfBalance < 0 ? "text-green-500" : "text-gray-500"}`}>
+                 {asOfBalance > 0 ? "You'll Get:" : asOfBalance < 0 ? "You'll Give:" : "Settled:"} ₹{Math.abs(asOfBalance).toFixed(0)}
+               </div>
+             )}
            </div>
           {/* Set Due Date Section */}
           <div className="py-4 border-b border-gray-800">
@@ -454,6 +491,14 @@ Best regards!`;
         onTransactionAdded={handleTransactionAddedInternal}
       />
 
+      <PartyStatementModal
+        open={isStatementOpen}
+        onOpenChange={setIsStatementOpen}
+        partyType="supplier"
+        partyId={supplier.id}
+        partyName={supplier.name}
+      />
+
       <PartyProfileModal
         open={isPartyProfileOpen}
         onOpenChange={setIsPartyProfileOpen}
@@ -0,0 +1,239 @@
+/**
+ * Update E-Way Bill Part-B Modal
+ * Records a vehicle change (or the first vehicle on a Part-A-only e-way
+ * bill) in the register and downloads the Part-B update for the portal.
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { eWayBillsService, type EWayBill } from "@/services/api/eWayBillsService";
+import {
+  downloadEWayBillJSON,
+  PART_B_REASON_LABELS,
+  TRANSPORT_MODE_LABELS,
+  type PartBReason,
+  type TransportMode,
+} from "@/lib/eWayBill";
+import { GST_STATE_CODES } from "@/lib/invoiceUtils";
+
+interface UpdateEWayBillPartBModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ewayBill: EWayBill | null;
+  onUpdated?: (ewayBill: EWayBill) => void;
+}
+
+export function UpdateEWayBillPartBModal({ open, onOpenChange, ewayBill, onUpdated }: UpdateEWayBillPartBModalProps) {
+  const [transMode, setTransMode] = useState<TransportMode>("road");
+  const [vehicleNo, setVehicleNo] = useState("");
+  const [fromPlace, setFromPlace] = useState("");
+  const [fromStateCode, setFromStateCode] = useState("");
+  const [reason, setReason] = useState<PartBReason>("first_time");
+  const [remarks, setRemarks] = useState("");
+  const [transDocNo, setTransDocNo] = useState("");
+  const [transDocDate, setTransDocDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the e-way bill's current route
+  useEffect(() => {
+    if (!open || !ewayBill) return;
+
+    setTransMode(ewayBill.trans_mode);
+    setVehicleNo("");
+    setFromPlace(ewayBill.payload.fromPlace);
+    setFromStateCode(String(ewayBill.payload.fromStateCode).padStart(2, "0"));
+    setReason(ewayBill.valid_until ? "breakdown" : "first_time");
+    setRemarks("");
+    setTransDocNo(ewayBill.trans_doc_no ?? "");
+    setTransDocDate(ewayBill.trans_doc_date ?? "");
+  }, [open, ewayBill]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ewayBill) return;
+
+    setIsSaving(true);
+    try {
+      const { data, partB, error } = await eWayBillsService.updatePartB(ewayBill, {
+        vehicle_no: vehicleNo,
+        from_place: fromPlace,
+        from_state_code: fromStateCode,
+        reason,
+        remarks,
+        trans_mode: transMode,
+        trans_doc_no: transDocNo,
+        trans_doc_date: transDocDate,
+      });
+
+      if (error || !data) {
+        throw error ?? new Error("Failed to update Part-B");
+      }
+
+      if (partB) {
+        downloadEWayBillJSON(partB, `EWB_PARTB_${ewayBill.ewb_no}.json`);
+      }
+
+      toast.success(`Part-B updated for ${data.ewb_no}`, {
+        description: data.valid_until
+          ? `Valid until ${format(new Date(data.valid_until), "dd MMM yyyy, HH:mm")}`
+          : undefined,
+      });
+
+      onUpdated?.(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to update Part-B:", error);
+      toast.error("Failed to update Part-B", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Update Part-B{ewayBill ? ` • ${ewayBill.ewb_no}` : ""}</DialogTitle>
+          <DialogDescription>
+            Change the vehicle carrying the goods. The update is downloaded for upload to the portal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Mode of Transport</Label>
+                <Select value={transMode} onValueChange={(value) => setTransMode(value as TransportMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRANSPORT_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="partb-vehicle">Vehicle Number{transMode === "road" && " *"}</Label>
+                <Input
+                  id="partb-vehicle"
+                  value={vehicleNo}
+                  onChange={(e) => setVehicleNo(e.target.value.toUpperCase())}
+                  placeholder="e.g. KA01AB1234"
+                  required={transMode === "road"}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="partb-from">Moving From *</Label>
+                <Input
+                  id="partb-from"
+                  value={fromPlace}
+                  onChange={(e) => setFromPlace(e.target.value)}
+                  placeholder="City or town"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>State</Label>
+                <Select value={fromStateCode} onValueChange={setFromStateCode}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={(value) => setReason(value as PartBReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PART_B_REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="partb-remarks">Remarks</Label>
+                <Input
+                  id="partb-remarks"
+                  value={remarks}
+                  onChange={(e) => setRemarks(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="partb-doc-no">Transport Doc No{transMode !== "road" && " *"}</Label>
+                <Input
+                  id="partb-doc-no"
+                  value={transDocNo}
+                  onChange={(e) => setTransDocNo(e.target.value)}
+                  required={transMode !== "road"}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="partb-doc-date">Transport Doc Date{transMode !== "road" && " *"}</Label>
+                <Input
+                  id="partb-doc-date"
+                  type="date"
+                  value={transDocDate}
+                  onChange={(e) => setTransDocDate(e.target.value)}
+                  required={transMode !== "road"}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !ewayBill}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Update Part-B"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
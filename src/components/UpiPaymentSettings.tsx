@@ -0,0 +1,102 @@
+/**
+ * UPI Payment Settings
+ * UPI ID payments are collected on, printed as a scan-to-pay QR on
+ * invoices and linked from payment reminders
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { QrCode, Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { isValidUpiId } from "@/lib/upiPayment";
+
+export function UpiPaymentSettings() {
+  const [upiId, setUpiId] = useState("");
+  const [showOnInvoices, setShowOnInvoices] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    businessSettingsService.fetchBusinessSettings().then(({ data }) => {
+      setUpiId(data?.upi_id ?? "");
+      setShowOnInvoices(data?.invoice_upi_qr !== false);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    const trimmed = upiId.trim();
+    if (trimmed && !isValidUpiId(trimmed)) {
+      toast.error("Invalid UPI ID", { description: "Use the form name@bank, e.g. mybusiness@okaxis" });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await businessSettingsService.updateUpiPayments(trimmed, showOnInvoices);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error("Failed to save UPI settings", { description: error.message });
+      return;
+    }
+
+    toast.success("UPI settings saved", {
+      description: trimmed && showOnInvoices ? "Invoices will show a payment QR for the balance due" : undefined,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          UPI Payments
+        </CardTitle>
+        <CardDescription>
+          Let customers pay by scanning a QR on the invoice or tapping the link in a reminder
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="upi-id">UPI ID</Label>
+          <Input
+            id="upi-id"
+            value={upiId}
+            onChange={(e) => setUpiId(e.target.value)}
+            placeholder="e.g. mybusiness@okaxis"
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="flex items-center justify-between max-w-md">
+          <div>
+            <Label htmlFor="upi-qr">Payment QR on invoices</Label>
+            <p className="text-xs text-muted-foreground">Rupee invoices and proformas with a balance due</p>
+          </div>
+          <Switch
+            id="upi-qr"
+            checked={showOnInvoices}
+            onCheckedChange={setShowOnInvoices}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save UPI Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Ageing
+ * Buckets amounts by how many days they have been outstanding
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { LedgerEntry } from './partyLedger';
+
+// ==================== TYPES ====================
+
+export interface AgeingBucket {
+  label: string;
+  from: number; // Days, inclusive
+  to: number | null; // Days, inclusive; null for the open-ended last bucket
+}
+
+export interface AgeingAmount {
+  bucket: AgeingBucket;
+  amount: number;
+}
+
+export const DEFAULT_AGEING_BUCKETS: AgeingBucket[] = [
+  { label: '0-30 days', from: 0, to: 30 },
+  { label: '31-60 days', from: 31, to: 60 },
+  { label: '61-90 days', from: 61, to: 90 },
+  { label: '90+ days', from: 91, to: null },
+];
+
+// Days past due for open bills; a bill due today is not yet overdue
+export const DEFAULT_PAST_DUE_BOUNDARIES = [30, 60, 90];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== BUCKETS ====================
+
+/**
+ * Index of the bucket an age falls in; amounts not yet due go in the first
+ */
+export function bucketIndexFor(days: number, buckets: AgeingBucket[]): number {
+  const index = buckets.findIndex(bucket => days <= (bucket.to ?? Infinity));
+  return index === -1 ? buckets.length - 1 : index;
+}
+
+/**
+ * Days-past-due buckets from their upper bounds, e.g. [30, 60, 90] gives
+ * Not due, 1-30, 31-60, 61-90 and 90+ days
+ */
+export function pastDueBuckets(boundaries: number[] = DEFAULT_PAST_DUE_BOUNDARIES): AgeingBucket[] {
+  const bounds = Array.from(new Set(boundaries.filter(b => Number.isInteger(b) && b > 0))).sort((a, b) => a - b);
+  const buckets: AgeingBucket[] = [{ label: 'Not due', from: Number.NEGATIVE_INFINITY, to: 0 }];
+
+  let from = 1;
+  bounds.forEach(to => {
+    buckets.push({ label: `${from}-${to} days`, from, to });
+    from = to + 1;
+  });
+  buckets.push({ label: from === 1 ? 'Overdue' : `${from - 1}+ days`, from, to: null });
+
+  return buckets;
+}
+
+/**
+ * Bucket boundaries typed as a list, e.g. "30, 60, 90". Null when the
+ * list has no positive whole numbers.
+ */
+export function parseBucketBoundaries(value: string): number[] | null {
+  const bounds = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(b => Number.isInteger(b) && b > 0);
+  return bounds.length > 0 ? bounds : null;
+}
+
+/**
+ * Credit days in free-text payment terms: "Net 30", "45 days" or "30".
+ * Due on receipt is 0; terms without a number of days give null.
+ */
+export function parsePaymentTermsDays(terms: string | null | undefined): number | null {
+  if (!terms?.trim()) return null;
+  if (/receipt|immediate|advance|cash/i.test(terms)) return 0;
+  const days = terms.match(/\d+/);
+  return days ? Number(days[0]) : null;
+}
+
+/**
+ * Whole days between two yyyy-MM-dd dates
+ */
+export const daysBetween = (from: string, to: string): number =>
+  differenceInCalendarDays(parseISO(to), parseISO(from));
+
+// ==================== LEDGER AGEING ====================
+
+/**
+ * What makes up a party's balance at the end of a day, newest first.
+ * Payments settle the oldest charges first, so what is left outstanding is
+ * the most recent charges, the oldest of them possibly part-paid. Works the
+ * same way round when the balance is in the party's favour; amounts keep
+ * the sign of the balance.
+ */
+export function outstandingEntries(entries: LedgerEntry[], asOf: string): { date: string; amount: number }[] {
+  const upToDate = entries.filter(entry => entry.date <= asOf);
+  const balance = round(upToDate.reduce((sum, entry) => sum + entry.amount, 0));
+  if (balance === 0) return [];
+
+  const sign = balance > 0 ? 1 : -1;
+  const parts: { date: string; amount: number }[] = [];
+
+  let remaining = Math.abs(balance);
+  const candidates = upToDate
+    .filter(entry => entry.amount * sign > 0)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  for (const entry of candidates) {
+    if (remaining <= 0) break;
+    const part = Math.min(Math.abs(entry.amount), remaining);
+    parts.push({ date: entry.date, amount: sign * part });
+    remaining = round(remaining - part);
+  }
+
+  return parts;
+}
+
+/**
+ * Age a party's balance at the end of a day, each outstanding charge from
+ * its own date. The bucket amounts add up to the balance as of the date.
+ */
+export function ageLedger(entries: LedgerEntry[], asOf: string, buckets: AgeingBucket[] = DEFAULT_AGEING_BUCKETS): AgeingAmount[] {
+  const amounts = buckets.map(() => 0);
+
+  outstandingEntries(entries, asOf).forEach(part => {
+    amounts[bucketIndexFor(daysBetween(part.date, asOf), buckets)] += part.amount;
+  });
+
+  return buckets.map((bucket, index) => ({ bucket, amount: round(amounts[index]) }));
+}
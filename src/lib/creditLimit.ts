@@ -0,0 +1,92 @@
+/**
+ * Credit Limit
+ * Checks a customer's ledger against their credit limit and credit days
+ */
+
+import { daysBetween, outstandingEntries } from './ageing';
+import { ledgerBalance, type LedgerEntry } from './partyLedger';
+
+// ==================== TYPES ====================
+
+export interface CreditPolicy {
+  credit_limit: number | null; // Most the customer may owe; no limit when null
+  credit_days: number | null; // Days a charge may stay unpaid; no policy when null
+}
+
+export type CreditBreachKind = 'limit' | 'days';
+
+export interface CreditBreach {
+  kind: CreditBreachKind;
+  message: string;
+}
+
+export interface CreditStatus {
+  balance: number;
+  projected_balance: number; // After the new charge
+  credit_limit: number | null;
+  available_credit: number | null; // Left under the limit before the new charge
+  over_limit_by: number; // Projected balance above the limit, 0 when within
+  credit_days: number | null;
+  oldest_unpaid_date: string | null; // Oldest charge still making up the balance
+  oldest_unpaid_days: number | null;
+  breaches: CreditBreach[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== CHECKS ====================
+
+/**
+ * Whether a customer has a credit limit or credit days set
+ */
+export const hasCreditPolicy = (policy: CreditPolicy): boolean =>
+  policy.credit_limit !== null || policy.credit_days !== null;
+
+/**
+ * A customer's credit position on a day (yyyy-MM-dd) if a new charge of
+ * the given amount were added. The limit is breached when the balance
+ * would go above it; credit days are breached when a charge older than the
+ * allowed days is still unpaid.
+ */
+export function evaluateCredit(
+  entries: LedgerEntry[],
+  policy: CreditPolicy,
+  asOf: string,
+  additionalAmount = 0,
+  formatAmount: (amount: number) => string = amount => amount.toFixed(2)
+): CreditStatus {
+  const balance = ledgerBalance(entries);
+  const projected = round(balance + additionalAmount);
+  const limit = policy.credit_limit;
+  const overLimitBy = limit !== null ? Math.max(round(projected - limit), 0) : 0;
+
+  const outstanding = balance > 0 ? outstandingEntries(entries, asOf) : [];
+  const oldest = outstanding.length > 0 ? outstanding[outstanding.length - 1].date : null;
+  const oldestDays = oldest ? daysBetween(oldest, asOf) : null;
+
+  const breaches: CreditBreach[] = [];
+  if (limit !== null && overLimitBy > 0) {
+    breaches.push({
+      kind: 'limit',
+      message: `Balance would be ${formatAmount(projected)}, ${formatAmount(overLimitBy)} over the credit limit of ${formatAmount(limit)}`,
+    });
+  }
+  if (policy.credit_days !== null && oldestDays !== null && oldestDays > policy.credit_days) {
+    breaches.push({
+      kind: 'days',
+      message: `Has dues unpaid for ${oldestDays} days, more than the ${policy.credit_days} credit days allowed`,
+    });
+  }
+
+  return {
+    balance,
+    projected_balance: projected,
+    credit_limit: limit,
+    available_credit: limit !== null ? round(limit - balance) : null,
+    over_limit_by: overLimitBy,
+    credit_days: policy.credit_days,
+    oldest_unpaid_date: oldest,
+    oldest_unpaid_days: oldestDays,
+    breaches,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Custom Invoice Templates
+ * Defaults, labels and validation for user-designed templates. Definitions
+ * are stored as JSON, so everything read back from the database goes
+ * through normalizeTemplateDefinition before it is rendered.
+ */
+
+import type {
+  CustomInvoiceTemplate,
+  CustomTemplateDefinition,
+  InvoiceData,
+  InvoiceTemplate,
+  TemplateBlockType,
+  TemplateColumn,
+  TemplateFont,
+  TemplateLogoPlacement,
+} from '@/types/invoice';
+
+// ==================== LABELS ====================
+
+export const TEMPLATE_BLOCK_LABELS: Record<TemplateBlockType, string> = {
+  header: 'Header',
+  parties: 'Business & customer',
+  items: 'Items table',
+  totals: 'Totals',
+  tax_summary: 'Tax summary',
+  bank: 'Bank & payment details',
+  notes: 'Notes & terms',
+  signature: 'Signature',
+};
+
+export const TEMPLATE_COLUMN_LABELS: Record<TemplateColumn, string> = {
+  hsn: 'HSN/SAC',
+  quantity: 'Quantity',
+  price: 'Rate',
+  discount: 'Discount %',
+  tax_rate: 'GST %',
+};
+
+/** Preview font stacks. PDFs always use the embedded Roboto. */
+export const TEMPLATE_FONTS: Record<TemplateFont, { label: string; css: string }> = {
+  sans: { label: 'Sans-serif', css: 'Inter, Arial, sans-serif' },
+  serif: { label: 'Serif', css: 'Georgia, "Times New Roman", serif' },
+  mono: { label: 'Monospace', css: '"Courier New", monospace' },
+};
+
+export const TEMPLATE_LOGO_PLACEMENTS: Record<TemplateLogoPlacement, string> = {
+  none: 'No logo',
+  left: 'Left',
+  center: 'Centre',
+  right: 'Right',
+};
+
+// ==================== DEFAULTS ====================
+
+const BLOCK_ORDER: TemplateBlockType[] = ['header', 'parties', 'items', 'totals', 'tax_summary', 'bank', 'notes', 'signature'];
+
+export const DEFAULT_TEMPLATE_DEFINITION: CustomTemplateDefinition = {
+  version: 1,
+  blocks: BLOCK_ORDER.map(type => ({ type, visible: true })),
+  columns: { hsn: true, quantity: true, price: true, discount: false, tax_rate: false },
+  colors: {
+    primary: '#00C48C',
+    text: '#111827',
+    tableHeader: '#F3F4F6',
+    tableHeaderText: '#374151',
+  },
+  font: 'sans',
+  fontSize: 9,
+  logo: { image: null, placement: 'left' },
+  customFields: [],
+  footerMessage: 'Thank you for your business!',
+};
+
+// Logos are stored inline in the definition, so keep them small
+export const MAX_LOGO_BYTES = 200 * 1024;
+
+const HEX_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+const MIN_FONT_SIZE = 7;
+const MAX_FONT_SIZE = 12;
+
+// ==================== NORMALISATION ====================
+
+/**
+ * Fill in anything missing or invalid in a stored definition. Known blocks
+ * keep their saved order; blocks added since the template was saved are
+ * appended hidden.
+ */
+export function normalizeTemplateDefinition(raw: any): CustomTemplateDefinition {
+  const defaults = DEFAULT_TEMPLATE_DEFINITION;
+  const source = raw && typeof raw === 'object' ? raw : {};
+
+  const seen = new Set<TemplateBlockType>();
+  const blocks: CustomTemplateDefinition['blocks'] = [];
+  (Array.isArray(source.blocks) ? source.blocks : defaults.blocks).forEach((block: any) => {
+    if (!BLOCK_ORDER.includes(block?.type) || seen.has(block.type)) return;
+    seen.add(block.type);
+    blocks.push({ type: block.type, visible: block.visible !== false });
+  });
+  BLOCK_ORDER.filter(type => !seen.has(type)).forEach(type => blocks.push({ type, visible: false }));
+
+  const color = (key: keyof CustomTemplateDefinition['colors']) =>
+    HEX_COLOR_REGEX.test(source.colors?.[key] ?? '') ? source.colors[key] : defaults.colors[key];
+
+  const columns = { ...defaults.columns };
+  (Object.keys(columns) as TemplateColumn[]).forEach(key => {
+    if (typeof source.columns?.[key] === 'boolean') columns[key] = source.columns[key];
+  });
+
+  const fontSize = Number(source.fontSize);
+  const placement = source.logo?.placement;
+
+  return {
+    version: 1,
+    blocks,
+    columns,
+    colors: {
+      primary: color('primary'),
+      text: color('text'),
+      tableHeader: color('tableHeader'),
+      tableHeaderText: color('tableHeaderText'),
+    },
+    font: source.font in TEMPLATE_FONTS ? source.font : defaults.font,
+    fontSize: Number.isFinite(fontSize) ? Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.round(fontSize))) : defaults.fontSize,
+    logo: {
+      image: typeof source.logo?.image === 'string' && source.logo.image.startsWith('data:image/') ? source.logo.image : null,
+      placement: placement in TEMPLATE_LOGO_PLACEMENTS ? placement : defaults.logo.placement,
+    },
+    customFields: (Array.isArray(source.customFields) ? source.customFields : [])
+      .map((field: any) => ({ label: String(field?.label ?? '').trim(), value: String(field?.value ?? '').trim() }))
+      .filter(field => field.label),
+    footerMessage: typeof source.footerMessage === 'string' ? source.footerMessage : defaults.footerMessage,
+  };
+}
+
+/**
+ * Visible blocks in print order
+ */
+export const visibleBlocks = (definition: CustomTemplateDefinition): TemplateBlockType[] =>
+  definition.blocks.filter(block => block.visible).map(block => block.type);
+
+// ==================== LOOKUP ====================
+
+export function findCustomTemplate(
+  templateId: string,
+  customTemplates: CustomInvoiceTemplate[] = []
+): CustomInvoiceTemplate | undefined {
+  return customTemplates.find(template => template.id === templateId);
+}
+
+/**
+ * Template picker entry for a custom template
+ */
+export function toInvoiceTemplate(template: CustomInvoiceTemplate): InvoiceTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description ?? 'Custom template',
+    category: 'custom',
+    color: template.definition.colors.primary,
+    previewColor: template.definition.colors.primary,
+    features: visibleBlocks(template.definition).map(type => TEMPLATE_BLOCK_LABELS[type]),
+    bestFor: 'Your own layout',
+  };
+}
+
+// ==================== PREVIEW DATA ====================
+
+/** Invoice the designer previews templates with */
+export const SAMPLE_INVOICE_DATA: InvoiceData = {
+  documentType: 'invoice',
+  billNumber: 'INV-2026-0042',
+  billDate: '2026-10-18',
+  dueDate: '2026-11-17',
+  businessName: 'Sharma Traders',
+  businessAddress: '12 MG Road, Bengaluru, Karnataka 560001',
+  businessPhone: '+91 98450 12345',
+  businessEmail: 'accounts@sharmatraders.in',
+  businessGST: '29AABCU9603R1ZM',
+  businessState: 'Karnataka',
+  customerName: 'Acme Retail Pvt Ltd',
+  customerAddress: '4th Floor, Residency Road, Bengaluru, Karnataka 560025',
+  customerPhone: '+91 80 4123 4567',
+  customerEmail: 'purchase@acmeretail.in',
+  customerGST: '29AAPFU0939F1ZV',
+  customerState: 'Karnataka',
+  items: [
+    { id: 'sample-1', name: 'Wireless Keyboard', description: 'Bluetooth, 2 year warranty', hsn: '8471', quantity: '2', price: '1500', discount: '0', amount: '3000', taxRate: '18' },
+    { id: 'sample-2', name: 'Notebook A5', description: '', hsn: '4820', quantity: '5', price: '200', discount: '10', amount: '900', taxRate: '18' },
+  ],
+  subtotal: 3900,
+  discountAmount: 0,
+  gstAmount: 702,
+  cgst: 351,
+  sgst: 351,
+  igst: 0,
+  cess: 0,
+  taxBreakup: [{ rate: 18, taxableValue: 3900, cgst: 351, sgst: 351, igst: 0, cess: 0, totalTax: 702 }],
+  roundOff: 0,
+  roundOffMode: 'none',
+  total: 4602,
+  gstType: 'cgst_sgst',
+  gstRate: 18,
+  includeGST: true,
+  notes: 'Goods once sold will not be taken back.',
+  termsAndConditions: 'Payment due within 30 days.',
+  paymentInstructions: 'Quote the invoice number as reference.',
+  bankDetails: 'HDFC Bank • A/c 50200012345678 • IFSC HDFC0001234',
+  templateId: 'custom',
+  currencyCode: 'INR',
+  currencySymbol: '₹',
+};
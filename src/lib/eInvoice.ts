@@ -0,0 +1,270 @@
+/**
+ * E-Invoice (INV-01) Payload Builder
+ * Converts a saved bill into the JSON schema the Invoice Registration Portal
+ * (IRP) accepts for IRN generation, version 1.1. Only B2B tax invoices are
+ * covered; the buyer must be GST registered.
+ */
+
+import type { Bill } from '@/services/api/billsService';
+import type { BusinessSettings } from '@/services/api/businessSettingsService';
+import { billItemToTaxableLine } from './invoiceMapping';
+import {
+  BASE_CURRENCY,
+  calculateTaxTotals,
+  getStateCodeFromGSTIN,
+  toUqc,
+  validateGSTIN,
+  validateHSNSAC,
+  GST_STATE_CODES,
+} from './invoiceUtils';
+
+// ==================== SCHEMA TYPES ====================
+
+export interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  Addr1: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  CesRt: number;
+  CesAmt: number;
+  TotItemVal: number;
+}
+
+export interface EInvoicePayload {
+  Version: '1.1';
+  TranDtls: { TaxSch: 'GST'; SupTyp: 'B2B'; RegRev: 'N' };
+  DocDtls: { Typ: 'INV'; No: string; Dt: string };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty & { Pos: string };
+  ItemList: EInvoiceItem[];
+  ValDtls: {
+    AssVal: number;
+    CgstVal: number;
+    SgstVal: number;
+    IgstVal: number;
+    CesVal: number;
+    Discount: number;
+    OthChrg: number;
+    RndOffAmt: number;
+    TotInvVal: number;
+  };
+}
+
+export interface EInvoiceBuildResult {
+  payload: EInvoicePayload | null;
+  errors: string[];
+}
+
+// ==================== HELPERS ====================
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// IRP document numbers: up to 16 characters, cannot start with 0, / or -
+const DOC_NUMBER_REGEX = /^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/;
+const PIN_REGEX = /\b[1-9][0-9]{5}\b/;
+
+/** yyyy-MM-dd → dd/mm/yyyy as the IRP expects */
+const toIrpDate = (date: string) => String(date).slice(0, 10).split('-').reverse().join('/');
+
+/**
+ * Split a free-text address into its street line, locality and PIN code.
+ * The locality is the last comma-separated part that is not the PIN or the
+ * state name.
+ */
+export function parseAddress(address: string, stateCode: string) {
+  const pinMatch = address.match(PIN_REGEX);
+  const stateName = (GST_STATE_CODES[stateCode] ?? '').toLowerCase();
+  const parts = address
+    .replace(PIN_REGEX, '')
+    .split(/[,\n]/)
+    .map(part => part.replace(/[\s-]+$/, '').trim())
+    .filter(part => part && part.toLowerCase() !== stateName);
+
+  return {
+    addr1: parts.length > 1 ? parts.slice(0, -1).join(', ') : parts[0] ?? '',
+    loc: parts.length > 1 ? parts[parts.length - 1] : GST_STATE_CODES[stateCode] ?? '',
+    pin: pinMatch ? Number(pinMatch[0]) : 0,
+  };
+}
+
+// ==================== PAYLOAD ====================
+
+/**
+ * Build the INV-01 payload for a bill. Returns every problem found so the
+ * user can fix them in one pass; the payload is null unless it is valid.
+ * productUnits holds the inventory unit of each product on the bill, keyed
+ * by product id, for the lines' unit quantity codes.
+ */
+export function buildEInvoicePayload(
+  bill: Bill,
+  settings: BusinessSettings,
+  customerGstin: string = bill.party_gstin ?? '',
+  productUnits: Map<string, string | null> = new Map()
+): EInvoiceBuildResult {
+  const errors: string[] = [];
+  const sellerGstin = (settings.gst_number ?? '').trim().toUpperCase();
+  const buyerGstin = customerGstin.trim().toUpperCase();
+
+  // Mandatory document and party fields
+  if (bill.party_type !== 'customer') errors.push('Only sales invoices can be e-invoiced');
+  if (bill.status === 'cancelled') errors.push('Cancelled invoices cannot be e-invoiced');
+  if (!DOC_NUMBER_REGEX.test(bill.bill_number)) {
+    errors.push(`Invoice number "${bill.bill_number}" must be 1-16 letters, digits, / or - and cannot start with 0, / or -`);
+  }
+  if (!bill.date) errors.push('Invoice date is required');
+  // The IRP takes rupee amounts only; B2B tax invoices are not raised in foreign currency
+  const currencyCode = bill.currency_code ?? BASE_CURRENCY;
+  if (currencyCode !== BASE_CURRENCY) {
+    errors.push(`Invoice is in ${currencyCode}; only ${BASE_CURRENCY} invoices can be e-invoiced`);
+  }
+
+  if (!sellerGstin) errors.push('Business GSTIN is required (Settings → Business)');
+  else if (!validateGSTIN(sellerGstin)) errors.push(`Business GSTIN ${sellerGstin} is invalid`);
+  if (!settings.business_name?.trim()) errors.push('Business name is required');
+  if (!settings.address?.trim()) errors.push('Business address is required');
+  if (!settings.city?.trim()) errors.push('Business city is required');
+  if (!/^[1-9][0-9]{5}$/.test(settings.pincode ?? '')) errors.push('Business PIN code must be 6 digits');
+
+  if (!buyerGstin) errors.push(`${bill.party_name || 'Customer'} has no GSTIN; e-invoices are only for registered buyers`);
+  else if (!validateGSTIN(buyerGstin)) errors.push(`Customer GSTIN ${buyerGstin} is invalid`);
+  else if (buyerGstin === sellerGstin) errors.push('Customer GSTIN cannot be the same as the business GSTIN');
+
+  const sellerState = getStateCodeFromGSTIN(sellerGstin);
+  const buyerState = getStateCodeFromGSTIN(buyerGstin);
+  if (sellerGstin && !GST_STATE_CODES[sellerState]) errors.push(`Business GSTIN has unknown state code ${sellerState}`);
+  if (buyerGstin && !GST_STATE_CODES[buyerState]) errors.push(`Customer GSTIN has unknown state code ${buyerState}`);
+
+  const buyerAddress = parseAddress(bill.party_address ?? '', buyerState);
+  if (!buyerAddress.addr1) errors.push('Customer address is required');
+  if (!buyerAddress.pin) errors.push('Customer address must include a 6-digit PIN code');
+
+  // Items: HSN/SAC is mandatory on every line
+  if (bill.items.length === 0) errors.push('At least one item is required');
+  bill.items.forEach((item, index) => {
+    const hsn = (item.hsn ?? '').trim();
+    if (!hsn) errors.push(`Item ${index + 1} (${item.name}): HSN/SAC code is required`);
+    else if (!validateHSNSAC(hsn)) errors.push(`Item ${index + 1} (${item.name}): HSN/SAC "${hsn}" must be 4-8 digits`);
+    if (!(Number(item.quantity) > 0)) errors.push(`Item ${index + 1} (${item.name}): Quantity must be greater than 0`);
+  });
+
+  if (errors.length > 0) return { payload: null, errors };
+
+  const interState = bill.gst_type ? bill.gst_type === 'igst' : sellerState !== buyerState;
+  const totals = calculateTaxTotals(bill.items.map(billItemToTaxableLine), bill.discount_amount ?? 0);
+
+  const items: EInvoiceItem[] = bill.items.map((item, index) => {
+    const line = totals.lines[index];
+    const hsn = (item.hsn ?? '').trim();
+    const isService = hsn.startsWith('99');
+    const inclusiveFactor = line.taxInclusive ? 1 + (line.taxRate + (line.cessRate || 0)) / 100 : 1;
+    const unitPrice = round2(line.unitPrice / inclusiveFactor);
+    const totAmt = round2(line.quantity * unitPrice);
+    const halfTax = round2(line.tax / 2);
+
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: item.name,
+      IsServc: isService ? 'Y' : 'N',
+      HsnCd: hsn,
+      Qty: line.quantity,
+      Unit: toUqc(item.product_id ? productUnits.get(item.product_id) : null),
+      UnitPrice: unitPrice,
+      TotAmt: totAmt,
+      Discount: round2(totAmt - line.taxableValue),
+      AssAmt: line.taxableValue,
+      GstRt: line.taxRate,
+      IgstAmt: interState ? line.tax : 0,
+      CgstAmt: interState ? 0 : halfTax,
+      SgstAmt: interState ? 0 : halfTax,
+      CesRt: line.cessRate || 0,
+      CesAmt: line.cess,
+      TotItemVal: round2(line.taxableValue + (interState ? line.tax : halfTax * 2) + line.cess),
+    };
+  });
+
+  const sum = (pick: (item: EInvoiceItem) => number) => round2(items.reduce((total, item) => total + pick(item), 0));
+  const itemsValue = sum(item => item.TotItemVal);
+  const roundOff = Number(bill.round_off ?? 0);
+  const totalValue = Number(bill.total_amount ?? 0);
+  // Bill-level tax outside the line items is reported as other charges
+  const otherCharges = Math.max(0, round2(totalValue - itemsValue - roundOff));
+
+  return {
+    errors,
+    payload: {
+      Version: '1.1',
+      TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N' },
+      DocDtls: { Typ: 'INV', No: bill.bill_number, Dt: toIrpDate(bill.date) },
+      SellerDtls: {
+        Gstin: sellerGstin,
+        LglNm: settings.business_name.trim(),
+        Addr1: settings.address.trim(),
+        Loc: settings.city.trim(),
+        Pin: Number(settings.pincode),
+        Stcd: sellerState,
+        ...(settings.phone ? { Ph: settings.phone.replace(/\D/g, '') } : {}),
+        ...(settings.email ? { Em: settings.email } : {}),
+      },
+      BuyerDtls: {
+        Gstin: buyerGstin,
+        LglNm: bill.party_name,
+        Pos: buyerState,
+        Addr1: buyerAddress.addr1,
+        Loc: buyerAddress.loc,
+        Pin: buyerAddress.pin,
+        Stcd: buyerState,
+        ...(bill.party_phone ? { Ph: bill.party_phone.replace(/\D/g, '') } : {}),
+        ...(bill.party_email ? { Em: bill.party_email } : {}),
+      },
+      ItemList: items,
+      ValDtls: {
+        AssVal: sum(item => item.AssAmt),
+        CgstVal: sum(item => item.CgstAmt),
+        SgstVal: sum(item => item.SgstAmt),
+        IgstVal: sum(item => item.IgstAmt),
+        CesVal: sum(item => item.CesAmt),
+        Discount: 0, // The invoice discount is already spread over the items
+        OthChrg: otherCharges,
+        RndOffAmt: roundOff,
+        TotInvVal: round2(itemsValue + otherCharges + roundOff),
+      },
+    },
+  };
+}
+
+/**
+ * Download the payload as JSON, e.g. for upload through the IRP's offline tool
+ */
+export function downloadEInvoiceJSON(payload: EInvoicePayload): void {
+  const json = JSON.stringify(payload, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `EINV_${payload.SellerDtls.Gstin}_${payload.DocDtls.No.replace(/\//g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
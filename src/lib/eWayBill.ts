@@ -0,0 +1,417 @@
+/**
+ * E-Way Bill Data
+ * Builds the JSON the e-way bill portal accepts for bulk generation from a
+ * goods invoice, Part-B (vehicle) updates, and the validity the portal
+ * assigns for the distance travelled.
+ */
+
+import type { Bill } from '@/services/api/billsService';
+import type { BusinessSettings } from '@/services/api/businessSettingsService';
+import { billItemToTaxableLine } from './invoiceMapping';
+import { parseAddress } from './eInvoice';
+import {
+  calculateTaxTotals,
+  getStateCodeFromGSTIN,
+  getStateCodeFromName,
+  validateGSTIN,
+  validateHSNSAC,
+  GST_STATE_CODES,
+} from './invoiceUtils';
+
+// ==================== TYPES ====================
+
+export type TransportMode = 'road' | 'rail' | 'air' | 'ship';
+
+export type VehicleType = 'regular' | 'odc'; // Over-dimensional cargo moves slower
+
+/** Transport details entered when the e-way bill is raised */
+export interface EWayBillTransport {
+  transMode: TransportMode;
+  distanceKm: number;
+  transporterId?: string; // Transporter GSTIN or TRANSIN
+  transporterName?: string;
+  vehicleNo?: string;
+  vehicleType?: VehicleType;
+  transDocNo?: string; // LR, RR, airway bill or bill of lading number
+  transDocDate?: string; // yyyy-MM-dd
+}
+
+export interface EWayBillItem {
+  itemNo: number;
+  productName: string;
+  productDesc: string;
+  hsnCode: number;
+  quantity: number;
+  qtyUnit: string;
+  taxableAmount: number;
+  sgstRate: number;
+  cgstRate: number;
+  igstRate: number;
+  cessRate: number;
+  cessNonAdvol: number;
+}
+
+export interface EWayBillPayload {
+  userGstin: string;
+  supplyType: 'O';
+  subSupplyType: 1; // Supply
+  subSupplyDesc: string;
+  docType: 'INV';
+  docNo: string;
+  docDate: string;
+  transType: 1; // Regular
+  fromGstin: string;
+  fromTrdName: string;
+  fromAddr1: string;
+  fromAddr2: string;
+  fromPlace: string;
+  fromPincode: number;
+  fromStateCode: number;
+  actFromStateCode: number;
+  toGstin: string; // URP for unregistered buyers
+  toTrdName: string;
+  toAddr1: string;
+  toAddr2: string;
+  toPlace: string;
+  toPincode: number;
+  toStateCode: number;
+  actToStateCode: number;
+  totalValue: number;
+  cgstValue: number;
+  sgstValue: number;
+  igstValue: number;
+  cessValue: number;
+  cessNonAdvolValue: number;
+  otherValue: number;
+  totInvValue: number;
+  transMode: string;
+  transDistance: string;
+  transporterId: string;
+  transporterName: string;
+  transDocNo: string;
+  transDocDate: string;
+  vehicleNo: string;
+  vehicleType: 'R' | 'O' | '';
+  mainHsnCode: number;
+  itemList: EWayBillItem[];
+}
+
+/** Bulk upload file accepted by the portal */
+export interface EWayBillJSON {
+  version: string;
+  billLists: EWayBillPayload[];
+}
+
+export type PartBReason = 'first_time' | 'breakdown' | 'transhipment' | 'others';
+
+/** Vehicle change after the e-way bill is generated */
+export interface EWayBillPartBUpdate {
+  ewbNo: number;
+  vehicleNo: string;
+  fromPlace: string;
+  fromState: number;
+  reasonCode: string;
+  reasonRem: string;
+  transDocNo: string;
+  transDocDate: string;
+  transMode: string;
+}
+
+export interface EWayBillBuildResult {
+  payload: EWayBillPayload | null;
+  errors: string[];
+}
+
+// ==================== CONSTANTS ====================
+
+/** Consignments above this value (₹) need an e-way bill */
+export const EWAY_BILL_THRESHOLD = 50000;
+
+export const EWAY_BILL_JSON_VERSION = '1.0.0621';
+
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  road: 'Road',
+  rail: 'Rail',
+  air: 'Air',
+  ship: 'Ship',
+};
+
+export const PART_B_REASON_LABELS: Record<PartBReason, string> = {
+  first_time: 'First time (Part-B pending)',
+  breakdown: 'Vehicle breakdown',
+  transhipment: 'Transhipment',
+  others: 'Others',
+};
+
+const TRANSPORT_MODE_CODES: Record<TransportMode, string> = { road: '1', rail: '2', air: '3', ship: '4' };
+const PART_B_REASON_CODES: Record<PartBReason, string> = { breakdown: '1', transhipment: '2', others: '3', first_time: '4' };
+
+// Kilometres covered per day of validity
+const KM_PER_DAY: Record<VehicleType, number> = { regular: 200, odc: 20 };
+
+const MAX_DISTANCE_KM = 4000;
+const EWB_NUMBER_REGEX = /^[0-9]{12}$/;
+// e.g. KA01AB1234, DL3C1234, or TR/TM temporary registrations
+const VEHICLE_NUMBER_REGEX = /^([A-Z]{2}[0-9]{1,2}[A-Z]{0,3}[0-9]{4}|T[RM][A-Z0-9]{6,13})$/;
+
+// ==================== HELPERS ====================
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** yyyy-MM-dd → dd/mm/yyyy as the portal expects */
+const toPortalDate = (date: string) => String(date).slice(0, 10).split('-').reverse().join('/');
+
+export const normalizeVehicleNumber = (vehicleNo: string) => vehicleNo.replace(/[\s-]/g, '').toUpperCase();
+
+export const isValidVehicleNumber = (vehicleNo: string) => VEHICLE_NUMBER_REGEX.test(normalizeVehicleNumber(vehicleNo));
+
+export const isValidEWayBillNumber = (ewbNo: string) => EWB_NUMBER_REGEX.test(ewbNo.trim());
+
+const isServiceLine = (hsn: string | null | undefined) => (hsn ?? '').trim().startsWith('99');
+
+/**
+ * State code of an unregistered party, from a state named in their address
+ */
+function stateCodeFromAddress(address: string): string {
+  const lower = address.toLowerCase();
+  const match = Object.values(GST_STATE_CODES).find(name => lower.includes(name.toLowerCase()));
+  return match ? getStateCodeFromName(match) : '';
+}
+
+/**
+ * Goods invoices at or above the threshold need an e-way bill before the
+ * goods move. Service lines (SAC 99xx) don't count towards it.
+ */
+export function isEWayBillRequired(bill: Bill): boolean {
+  return bill.party_type === 'customer'
+    && bill.items.some(item => !isServiceLine(item.hsn))
+    && Number(bill.total_amount) >= EWAY_BILL_THRESHOLD;
+}
+
+/**
+ * Whether the transport details include Part-B (vehicle or transport
+ * document). Without it only Part-A is filed and the bill is not yet valid.
+ */
+export function hasPartB(transport: Pick<EWayBillTransport, 'transMode' | 'vehicleNo' | 'transDocNo'>): boolean {
+  return transport.transMode === 'road' ? Boolean(transport.vehicleNo?.trim()) : Boolean(transport.transDocNo?.trim());
+}
+
+/**
+ * Validity for the distance: one day per 200 km (20 km for over-dimensional
+ * cargo), counted from when Part-B is filed and ending at midnight
+ */
+export function calculateEWayBillValidity(
+  from: Date,
+  distanceKm: number,
+  vehicleType: VehicleType = 'regular'
+): Date {
+  const days = Math.max(1, Math.ceil(distanceKm / KM_PER_DAY[vehicleType]));
+  const validUntil = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  validUntil.setHours(23, 59, 59, 0);
+  return validUntil;
+}
+
+// ==================== PAYLOAD ====================
+
+/**
+ * Validate transport details on their own, e.g. for a Part-B update
+ */
+export function validateTransport(transport: EWayBillTransport): string[] {
+  const errors: string[] = [];
+  const distance = Number(transport.distanceKm);
+
+  if (!Number.isInteger(distance) || distance < 0 || distance > MAX_DISTANCE_KM) {
+    errors.push(`Distance must be a whole number of kilometres up to ${MAX_DISTANCE_KM}`);
+  }
+  if (transport.transporterId && !validateGSTIN(transport.transporterId.trim().toUpperCase())) {
+    errors.push('Transporter ID must be a 15-character GSTIN or TRANSIN');
+  }
+  if (transport.transMode === 'road') {
+    if (transport.vehicleNo && !isValidVehicleNumber(transport.vehicleNo)) {
+      errors.push(`Vehicle number ${transport.vehicleNo} is invalid, e.g. KA01AB1234`);
+    }
+    if (!transport.vehicleNo?.trim() && !transport.transporterId?.trim()) {
+      errors.push('Enter the vehicle number, or a transporter ID to let the transporter fill Part-B');
+    }
+  } else if (!transport.transDocNo?.trim() || !transport.transDocDate) {
+    errors.push(`${TRANSPORT_MODE_LABELS[transport.transMode]} transport needs the transport document number and date`);
+  }
+  if (transport.transDocDate && transport.transDocDate > new Date().toISOString().slice(0, 10)) {
+    errors.push('Transport document date cannot be in the future');
+  }
+
+  return errors;
+}
+
+/**
+ * Build the e-way bill for a goods invoice. Service lines are left out;
+ * they travel on the invoice as other value.
+ */
+export function buildEWayBillPayload(
+  bill: Bill,
+  settings: BusinessSettings,
+  transport: EWayBillTransport
+): EWayBillBuildResult {
+  const errors: string[] = [];
+  const sellerGstin = (settings.gst_number ?? '').trim().toUpperCase();
+  const buyerGstin = (bill.party_gstin ?? '').trim().toUpperCase();
+
+  if (bill.party_type !== 'customer') errors.push('E-way bills are raised on sales invoices');
+  if (bill.status === 'cancelled') errors.push('Cancelled invoices cannot have an e-way bill');
+  if (!bill.bill_number || bill.bill_number.length > 16) errors.push('Invoice number must be 1-16 characters');
+
+  if (!sellerGstin) errors.push('Business GSTIN is required (Settings → Business)');
+  else if (!validateGSTIN(sellerGstin)) errors.push(`Business GSTIN ${sellerGstin} is invalid`);
+  if (!settings.address?.trim()) errors.push('Business address is required');
+  if (!settings.city?.trim()) errors.push('Business city is required');
+  if (!/^[1-9][0-9]{5}$/.test(settings.pincode ?? '')) errors.push('Business PIN code must be 6 digits');
+
+  if (buyerGstin && !validateGSTIN(buyerGstin)) errors.push(`Customer GSTIN ${buyerGstin} is invalid`);
+  const fromState = getStateCodeFromGSTIN(sellerGstin);
+  const toState = buyerGstin ? getStateCodeFromGSTIN(buyerGstin) : stateCodeFromAddress(bill.party_address ?? '');
+  if (!GST_STATE_CODES[toState]) errors.push('Customer state is unknown; add a GSTIN or the state name to their address');
+
+  const buyerAddress = parseAddress(bill.party_address ?? '', toState);
+  if (!buyerAddress.addr1) errors.push('Customer address is required');
+  if (!buyerAddress.pin) errors.push('Customer address must include a 6-digit PIN code');
+
+  const goodsItems = bill.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !isServiceLine(item.hsn));
+  if (goodsItems.length === 0) errors.push('The invoice has no goods; services do not need an e-way bill');
+  goodsItems.forEach(({ item, index }) => {
+    const hsn = (item.hsn ?? '').trim();
+    if (!hsn) errors.push(`Item ${index + 1} (${item.name}): HSN code is required`);
+    else if (!validateHSNSAC(hsn)) errors.push(`Item ${index + 1} (${item.name}): HSN "${hsn}" must be 4-8 digits`);
+  });
+
+  errors.push(...validateTransport(transport));
+
+  if (errors.length > 0) return { payload: null, errors };
+
+  const interState = bill.gst_type ? bill.gst_type === 'igst' : fromState !== toState;
+  const totals = calculateTaxTotals(bill.items.map(billItemToTaxableLine), bill.discount_amount ?? 0);
+  const goodsLines = goodsItems.map(({ index }) => totals.lines[index]);
+
+  const taxableValue = round2(goodsLines.reduce((sum, line) => sum + line.taxableValue, 0));
+  const tax = round2(goodsLines.reduce((sum, line) => sum + line.tax, 0));
+  const cess = round2(goodsLines.reduce((sum, line) => sum + line.cess, 0));
+  const halfTax = round2(tax / 2);
+  const totInvValue = Number(bill.total_amount ?? 0);
+
+  // The main HSN is the one carrying the most value
+  const mainLine = goodsItems.reduce((best, current) =>
+    totals.lines[current.index].taxableValue > totals.lines[best.index].taxableValue ? current : best
+  );
+
+  const vehicleNo = transport.vehicleNo ? normalizeVehicleNumber(transport.vehicleNo) : '';
+
+  return {
+    errors,
+    payload: {
+      userGstin: sellerGstin,
+      supplyType: 'O',
+      subSupplyType: 1,
+      subSupplyDesc: '',
+      docType: 'INV',
+      docNo: bill.bill_number,
+      docDate: toPortalDate(bill.date),
+      transType: 1,
+      fromGstin: sellerGstin,
+      fromTrdName: settings.business_name.trim(),
+      fromAddr1: settings.address.trim(),
+      fromAddr2: '',
+      fromPlace: settings.city.trim(),
+      fromPincode: Number(settings.pincode),
+      fromStateCode: Number(fromState),
+      actFromStateCode: Number(fromState),
+      toGstin: buyerGstin || 'URP',
+      toTrdName: bill.party_name,
+      toAddr1: buyerAddress.addr1,
+      toAddr2: '',
+      toPlace: buyerAddress.loc,
+      toPincode: buyerAddress.pin,
+      toStateCode: Number(toState),
+      actToStateCode: Number(toState),
+      totalValue: taxableValue,
+      cgstValue: interState ? 0 : halfTax,
+      sgstValue: interState ? 0 : halfTax,
+      igstValue: interState ? tax : 0,
+      cessValue: cess,
+      cessNonAdvolValue: 0,
+      otherValue: round2(totInvValue - taxableValue - (interState ? tax : halfTax * 2) - cess),
+      totInvValue,
+      transMode: TRANSPORT_MODE_CODES[transport.transMode],
+      transDistance: String(transport.distanceKm),
+      transporterId: transport.transporterId?.trim().toUpperCase() ?? '',
+      transporterName: transport.transporterName?.trim() ?? '',
+      transDocNo: transport.transDocNo?.trim() ?? '',
+      transDocDate: transport.transDocDate ? toPortalDate(transport.transDocDate) : '',
+      vehicleNo,
+      vehicleType: vehicleNo ? (transport.vehicleType === 'odc' ? 'O' : 'R') : '',
+      mainHsnCode: Number((mainLine.item.hsn ?? '').trim()),
+      itemList: goodsItems.map(({ item, index }, position) => {
+        const line = totals.lines[index];
+        return {
+          itemNo: position + 1,
+          productName: item.name,
+          productDesc: item.description ?? item.name,
+          hsnCode: Number((item.hsn ?? '').trim()),
+          quantity: line.quantity,
+          qtyUnit: 'NOS',
+          taxableAmount: line.taxableValue,
+          sgstRate: interState ? 0 : line.taxRate / 2,
+          cgstRate: interState ? 0 : line.taxRate / 2,
+          igstRate: interState ? line.taxRate : 0,
+          cessRate: line.cessRate || 0,
+          cessNonAdvol: 0,
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Build a Part-B (vehicle) update for a generated e-way bill
+ */
+export function buildPartBUpdate(
+  ewbNo: string,
+  update: {
+    vehicleNo: string;
+    fromPlace: string;
+    fromStateCode: string;
+    reason: PartBReason;
+    remarks?: string;
+    transMode: TransportMode;
+    transDocNo?: string;
+    transDocDate?: string;
+  }
+): EWayBillPartBUpdate {
+  return {
+    ewbNo: Number(ewbNo),
+    vehicleNo: normalizeVehicleNumber(update.vehicleNo),
+    fromPlace: update.fromPlace.trim(),
+    fromState: Number(update.fromStateCode),
+    reasonCode: PART_B_REASON_CODES[update.reason],
+    reasonRem: update.remarks?.trim() || PART_B_REASON_LABELS[update.reason],
+    transDocNo: update.transDocNo?.trim() ?? '',
+    transDocDate: update.transDocDate ? toPortalDate(update.transDocDate) : '',
+    transMode: TRANSPORT_MODE_CODES[update.transMode],
+  };
+}
+
+/**
+ * Download data for upload to the e-way bill portal
+ */
+export function downloadEWayBillJSON(data: EWayBillJSON | EWayBillPartBUpdate, filename: string): void {
+  const json = JSON.stringify(data, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
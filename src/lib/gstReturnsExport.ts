@@ -0,0 +1,257 @@
+/**
+ * GST Returns Export
+ * GSTR-1 JSON in the GST portal offline tool format, and an XLSX workbook
+ * with one sheet per GSTR-1 section (including credit/debit notes) plus the
+ * GSTR-3B summary
+ */
+
+import * as XLSX from 'xlsx';
+import type {
+  GstInvoice,
+  GstLine,
+  GstNote,
+  GstReturns,
+  GSTR1Report,
+} from '@/services/api/gstReturnsService';
+import { GST_STATE_CODES } from './invoiceUtils';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** yyyy-MM-dd → dd-mm-yyyy as the portal expects */
+const toPortalDate = (date: string) => date.split('-').reverse().join('-');
+
+/** yyyy-MM → MMyyyy return period */
+const toReturnPeriod = (period: string) => {
+  const [year, month] = period.split('-');
+  return `${month}${year}`;
+};
+
+const placeLabel = (code: string) => (code ? `${code}-${GST_STATE_CODES[code] ?? 'Unknown'}` : '');
+
+/**
+ * Collapse an invoice's lines into one item per tax rate
+ */
+function itemsByRate(lines: GstLine[], intraState: boolean) {
+  const byRate = new Map<number, { txval: number; iamt: number; camt: number; samt: number; csamt: number }>();
+
+  lines.forEach(line => {
+    const item = byRate.get(line.rate) ?? { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+    item.txval = round(item.txval + line.taxableValue);
+    item.iamt = round(item.iamt + line.igst);
+    item.camt = round(item.camt + line.cgst);
+    item.samt = round(item.samt + line.sgst);
+    item.csamt = round(item.csamt + line.cess);
+    byRate.set(line.rate, item);
+  });
+
+  return Array.from(byRate, ([rt, item], index) => ({
+    num: index + 1,
+    itm_det: intraState
+      ? { rt, txval: item.txval, camt: item.camt, samt: item.samt, csamt: item.csamt }
+      : { rt, txval: item.txval, iamt: item.iamt, csamt: item.csamt },
+  }));
+}
+
+/**
+ * Build the GSTR-1 JSON payload accepted by the GST portal
+ */
+export function buildGSTR1JSON(report: GSTR1Report) {
+  const b2bByGstin = new Map<string, GstInvoice[]>();
+  report.b2b.forEach(invoice => {
+    const key = invoice.gstin ?? '';
+    b2bByGstin.set(key, [...(b2bByGstin.get(key) ?? []), invoice]);
+  });
+
+  const b2clByPlace = new Map<string, GstInvoice[]>();
+  report.b2cl.forEach(invoice => {
+    b2clByPlace.set(invoice.placeOfSupply, [...(b2clByPlace.get(invoice.placeOfSupply) ?? []), invoice]);
+  });
+
+  const cdnrByGstin = new Map<string, GstNote[]>();
+  report.cdnr.forEach(note => {
+    const key = note.gstin ?? '';
+    cdnrByGstin.set(key, [...(cdnrByGstin.get(key) ?? []), note]);
+  });
+
+  return {
+    gstin: report.gstin,
+    fp: toReturnPeriod(report.period),
+    version: 'GST3.1.6',
+    hash: 'hash',
+    b2b: Array.from(b2bByGstin, ([ctin, invoices]) => ({
+      ctin,
+      inv: invoices.map(invoice => ({
+        inum: invoice.invoiceNumber,
+        idt: toPortalDate(invoice.date),
+        val: invoice.invoiceValue,
+        pos: invoice.placeOfSupply,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: itemsByRate(invoice.lines, !invoice.interState),
+      })),
+    })),
+    b2cl: Array.from(b2clByPlace, ([pos, invoices]) => ({
+      pos,
+      inv: invoices.map(invoice => ({
+        inum: invoice.invoiceNumber,
+        idt: toPortalDate(invoice.date),
+        val: invoice.invoiceValue,
+        itms: itemsByRate(invoice.lines, false),
+      })),
+    })),
+    cdnr: Array.from(cdnrByGstin, ([ctin, notes]) => ({
+      ctin,
+      nt: notes.map(note => ({
+        ntty: note.noteType,
+        nt_num: note.noteNumber,
+        nt_dt: toPortalDate(note.date),
+        val: note.noteValue,
+        pos: note.placeOfSupply,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: itemsByRate(note.lines, !note.interState),
+      })),
+    })),
+    cdnur: report.cdnur.map(note => ({
+      typ: 'B2CL',
+      ntty: note.noteType,
+      nt_num: note.noteNumber,
+      nt_dt: toPortalDate(note.date),
+      val: note.noteValue,
+      pos: note.placeOfSupply,
+      itms: itemsByRate(note.lines, false),
+    })),
+    b2cs: report.b2cs.map(row => ({
+      sply_ty: row.interState ? 'INTER' : 'INTRA',
+      pos: row.placeOfSupply,
+      typ: 'OE',
+      rt: row.rate,
+      txval: row.taxableValue,
+      ...(row.interState ? { iamt: row.igst } : { camt: row.cgst, samt: row.sgst }),
+      csamt: row.cess,
+    })),
+    hsn: {
+      data: report.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsn,
+        desc: row.description.slice(0, 30),
+        uqc: row.uqc,
+        qty: row.quantity,
+        rt: row.rate,
+        txval: row.taxableValue,
+        iamt: row.igst,
+        camt: row.cgst,
+        samt: row.sgst,
+        csamt: row.cess,
+      })),
+    },
+  };
+}
+
+/**
+ * Download GSTR-1 as a JSON file for upload to the GST portal
+ */
+export function exportGSTR1JSON(report: GSTR1Report): void {
+  const json = JSON.stringify(buildGSTR1JSON(report), null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `GSTR1_${report.gstin || 'NOGSTIN'}_${toReturnPeriod(report.period)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download GSTR-1 sections and the GSTR-3B summary as an XLSX workbook
+ */
+export function exportGSTReturnsXLSX(returns: GstReturns): void {
+  const { gstr1, gstr3b } = returns;
+  const workbook = XLSX.utils.book_new();
+
+  const addSheet = (name: string, rows: (string | number)[][]) => {
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    worksheet['!cols'] = (rows[0] ?? []).map(() => ({ wch: 18 }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+  };
+
+  addSheet('b2b', [
+    ['GSTIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice Date', 'Invoice Value', 'Place Of Supply',
+      'Reverse Charge', 'Invoice Type', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'],
+    ...gstr1.b2b.flatMap(invoice => itemsByRate(invoice.lines, !invoice.interState).map(item => {
+      const line = item.itm_det as Record<string, number>;
+      return [
+        invoice.gstin ?? '', invoice.partyName, invoice.invoiceNumber, toPortalDate(invoice.date),
+        invoice.invoiceValue, placeLabel(invoice.placeOfSupply), 'N', 'Regular', line.rt, line.txval,
+        line.iamt ?? 0, line.camt ?? 0, line.samt ?? 0, line.csamt ?? 0,
+      ];
+    })),
+  ]);
+
+  addSheet('b2cl', [
+    ['Invoice Number', 'Invoice Date', 'Invoice Value', 'Place Of Supply', 'Rate', 'Taxable Value', 'IGST', 'Cess'],
+    ...gstr1.b2cl.flatMap(invoice => itemsByRate(invoice.lines, false).map(item => {
+      const line = item.itm_det as Record<string, number>;
+      return [
+        invoice.invoiceNumber, toPortalDate(invoice.date), invoice.invoiceValue,
+        placeLabel(invoice.placeOfSupply), line.rt, line.txval, line.iamt ?? 0, line.csamt ?? 0,
+      ];
+    })),
+  ]);
+
+  addSheet('b2cs', [
+    ['Type', 'Place Of Supply', 'Supply Type', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'],
+    ...gstr1.b2cs.map(row => [
+      'OE', placeLabel(row.placeOfSupply), row.interState ? 'Inter State' : 'Intra State', row.rate,
+      row.taxableValue, row.igst, row.cgst, row.sgst, row.cess,
+    ]),
+  ]);
+
+  const noteRows = (notes: GstNote[], withGstin: boolean) =>
+    notes.flatMap(note => itemsByRate(note.lines, !note.interState).map(item => {
+      const line = item.itm_det as Record<string, number>;
+      return [
+        ...(withGstin ? [note.gstin ?? '', note.partyName] : []),
+        note.noteNumber, toPortalDate(note.date), note.noteType, note.originalInvoiceNumber, note.noteValue,
+        placeLabel(note.placeOfSupply), line.rt, line.txval, line.iamt ?? 0, line.camt ?? 0, line.samt ?? 0, line.csamt ?? 0,
+      ];
+    }));
+  const noteHeaders = ['Note Number', 'Note Date', 'Note Type', 'Original Invoice', 'Note Value', 'Place Of Supply',
+    'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'];
+
+  addSheet('cdnr', [['GSTIN of Recipient', 'Receiver Name', ...noteHeaders], ...noteRows(gstr1.cdnr, true)]);
+  addSheet('cdnur', [noteHeaders, ...noteRows(gstr1.cdnur, false)]);
+
+  addSheet('hsn', [
+    ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value',
+      'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+    ...gstr1.hsn.map(row => [
+      row.hsn, row.description, row.uqc, row.quantity, row.totalValue, row.rate, row.taxableValue,
+      row.igst, row.cgst, row.sgst, row.cess,
+    ]),
+  ]);
+
+  const taxRow = (label: string, totals: { taxableValue?: number; igst: number; cgst: number; sgst: number; cess: number }) =>
+    [label, totals.taxableValue ?? '', totals.igst, totals.cgst, totals.sgst, totals.cess];
+
+  addSheet('GSTR-3B', [
+    ['Particulars', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'],
+    taxRow('3.1(a) Outward taxable supplies', gstr3b.outwardTaxable),
+    ['3.1(c) Nil rated / exempted supplies', gstr3b.outwardNilRated, 0, 0, 0, 0],
+    [],
+    taxRow('4(A)(5) ITC - purchase bills', gstr3b.itcFromPurchases),
+    taxRow('4(A)(5) ITC - expenses', gstr3b.itcFromExpenses),
+    taxRow('Total eligible ITC', gstr3b.itcTotal),
+    [],
+    taxRow('Net tax payable', gstr3b.netPayable),
+    taxRow('Credit carried forward', gstr3b.creditCarriedForward),
+  ]);
+
+  if (returns.warnings.length > 0) {
+    addSheet('Warnings', [['Warning'], ...returns.warnings.map(warning => [warning])]);
+  }
+
+  XLSX.writeFile(workbook, `GST_Returns_${toReturnPeriod(gstr1.period)}.xlsx`);
+}
@@ -0,0 +1,483 @@
+/**
+ * Invoice Mapping
+ * Converts between the canonical Bill model (billsService), the template
+ * InvoiceData used by the invoice builder, and legacy invoice builder rows
+ * that were written straight to the bills table. Quotations, delivery
+ * challans and proforma invoices share the bill's shape and map through
+ * the same helpers.
+ */
+
+import { format } from 'date-fns';
+import type { Bill, BillItem, CreateBillInput } from '@/services/api/billsService';
+import type { CreateQuotationInput, Quotation } from '@/services/api/quotationsService';
+import type { CreateSalesDocumentInput, SalesDocument, SalesDocumentType } from '@/services/api/salesDocumentsService';
+import type { InvoiceData } from '@/types/invoice';
+import {
+  calculateDueDate,
+  calculateInvoiceTotals,
+  createCurrencyContext,
+  BASE_CURRENCY,
+  type TaxableLine,
+} from './invoiceUtils';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Legacy invoice builder rows have no party_type and keep the customer,
+ * dates and totals in their own columns (customer_name, bill_date, total…)
+ */
+export function isLegacyInvoiceRow(row: any): boolean {
+  return !row?.party_type;
+}
+
+/**
+ * Legacy line: { description, hsn, quantity, rate, amount } where amount is
+ * already net of any line discount
+ */
+function normalizeLegacyItem(item: any, index: number, taxRate: number): BillItem {
+  const quantity = Number(item.quantity ?? 0);
+  const unitPrice = Number(item.rate ?? item.price ?? 0);
+  const gross = quantity * unitPrice;
+  const total = Number(item.amount ?? gross);
+
+  return {
+    id: item.id ?? `item-${index}`,
+    product_id: item.product_id ?? null,
+    name: item.name ?? item.description ?? '',
+    description: item.name ? item.description ?? null : null,
+    hsn: item.hsn ?? null,
+    quantity,
+    unit_price: unitPrice,
+    tax_rate: taxRate,
+    discount_percentage: gross > 0 ? round((1 - total / gross) * 100) : 0,
+    total: round(total),
+  };
+}
+
+/**
+ * Bill line as input to the shared tax calculation
+ */
+export function billItemToTaxableLine(item: Omit<BillItem, 'id'>): TaxableLine {
+  return {
+    quantity: Number(item.quantity ?? 0),
+    unitPrice: Number(item.unit_price ?? 0),
+    discountPercentage: Number(item.discount_percentage ?? 0),
+    taxRate: Number(item.tax_rate ?? 0),
+    cessRate: Number(item.cess_rate ?? 0),
+    taxInclusive: Boolean(item.tax_inclusive),
+  };
+}
+
+/**
+ * Normalise any bills row into the canonical Bill shape.
+ * Canonical rows pass through with defaults filled in.
+ */
+export function normalizeBillRow(row: any): Bill {
+  const legacy = isLegacyInvoiceRow(row);
+  const gstRate = row.gst_rate !== null && row.gst_rate !== undefined ? Number(row.gst_rate) : null;
+  const legacyTaxRate = row.include_gst && row.gst_type !== 'none' ? gstRate ?? 0 : 0;
+
+  const items: BillItem[] = (row.items ?? []).map((item: any, index: number) =>
+    legacy ? normalizeLegacyItem(item, index, legacyTaxRate) : { hsn: null, ...item }
+  );
+
+  const totalAmount = Number(row.total_amount ?? row.total ?? 0);
+  const taxAmount = Number(row.tax_amount ?? row.gst_amount ?? 0);
+  const status: Bill['status'] = legacy
+    ? row.status === 'paid' || row.status === 'overdue' || row.status === 'cancelled' ? row.status : 'pending'
+    : row.status;
+  const paidAmount = Number(row.paid_amount ?? (status === 'paid' ? totalAmount : 0));
+
+  return {
+    ...row,
+    party_id: row.party_id ?? null,
+    party_type: row.party_type ?? 'customer',
+    party_name: row.party_name ?? row.customer_name ?? '',
+    party_gstin: row.party_gstin ?? row.customer_gst ?? null,
+    party_phone: row.party_phone ?? row.customer_phone ?? null,
+    party_email: row.party_email ?? row.customer_email ?? null,
+    party_address: row.party_address ?? row.customer_address ?? null,
+    date: row.date ?? row.bill_date,
+    due_date: row.due_date ?? null,
+    items,
+    subtotal: Number(row.subtotal ?? round(totalAmount - taxAmount)),
+    tax_amount: taxAmount,
+    cess_amount: Number(row.cess_amount ?? 0),
+    round_off: Number(row.round_off ?? 0),
+    total_amount: totalAmount,
+    paid_amount: paidAmount,
+    balance_amount: Number(row.balance_amount ?? round(totalAmount - paidAmount)),
+    status,
+    notes: row.notes ?? null,
+    terms: row.terms ?? row.terms_and_conditions ?? null,
+    payment_instructions: row.payment_instructions ?? null,
+    template: row.template ?? null,
+    gst_type: row.gst_type ?? null,
+    gst_rate: gstRate,
+    include_gst: row.include_gst ?? taxAmount > 0,
+    discount_amount: Number(row.discount_amount ?? 0),
+    exchange_rate: row.exchange_rate !== null && row.exchange_rate !== undefined ? Number(row.exchange_rate) : null,
+  };
+}
+
+/**
+ * Build a createBill/updateBill payload from the invoice builder form
+ */
+export function invoiceDataToBillInput(
+  data: InvoiceData,
+  party: { id: string | null; name: string }
+): CreateBillInput {
+  const totals = calculateInvoiceTotals(data.items, data.gstRate, data.gstType, data.includeGST, data.discountAmount);
+
+  return {
+    bill_number: data.billNumber,
+    party_id: party.id,
+    party_type: 'customer',
+    party_name: party.name,
+    party_gstin: data.customerGST || null,
+    party_phone: data.customerPhone || null,
+    party_email: data.customerEmail || null,
+    party_address: data.customerAddress || null,
+    date: data.billDate,
+    due_date: data.dueDate || undefined,
+    items: data.items.map((item, index) => {
+      const taxRate = data.includeGST ? parseFloat(item.taxRate ?? '') : 0;
+      const cessRate = data.includeGST ? parseFloat(item.cessRate ?? '') || 0 : 0;
+
+      return {
+        product_id: item.productId ?? null,
+        name: item.name,
+        description: item.description || null,
+        hsn: item.hsn || null,
+        quantity: parseFloat(item.quantity) || 0,
+        unit_price: parseFloat(item.price) || 0,
+        tax_rate: isNaN(taxRate) ? data.gstRate : taxRate,
+        ...(cessRate > 0 && { cess_rate: cessRate }),
+        ...(data.includeGST && item.taxInclusive && { tax_inclusive: true }),
+        discount_percentage: parseFloat(item.discount) || 0,
+        total: totals.lineAmounts[index],
+      };
+    }),
+    discount_amount: totals.discountAmount || undefined,
+    notes: data.notes || undefined,
+    terms: data.termsAndConditions || undefined,
+    payment_instructions: data.paymentInstructions || null,
+    template: data.templateId,
+    gst_type: data.gstType,
+    gst_rate: data.gstRate,
+    include_gst: data.includeGST,
+    business_name: data.businessName || null,
+    business_address: data.businessAddress || null,
+    business_phone: data.businessPhone || null,
+    business_email: data.businessEmail || null,
+    business_gst: data.businessGST || null,
+    round_off_mode: data.roundOffMode ?? 'none',
+    currency_code: data.currencyCode || BASE_CURRENCY,
+    exchange_rate: data.currencyCode && data.currencyCode !== BASE_CURRENCY ? data.exchangeRate ?? null : null,
+  };
+}
+
+/**
+ * Map a bill back to template data for preview, editing and PDF export
+ */
+export function billToInvoiceData(bill: Bill, currencySymbol: string = '₹'): InvoiceData {
+  const taxAmount = Number(bill.tax_amount ?? 0);
+  const gstType: InvoiceData['gstType'] =
+    bill.gst_type === 'igst' || bill.gst_type === 'cgst_sgst' ? bill.gst_type : 'none';
+  const gstRate = bill.gst_rate ?? Math.max(0, ...bill.items.map(item => Number(item.tax_rate ?? 0)));
+  const includeGST = Boolean(bill.include_gst) && taxAmount > 0;
+  const items: InvoiceData['items'] = bill.items.map((item, index) => ({
+    id: item.id ?? `item-${index}`,
+    productId: item.product_id ?? undefined,
+    name: item.name ?? '',
+    description: item.description ?? '',
+    hsn: item.hsn ?? '',
+    quantity: String(item.quantity ?? 0),
+    price: String(item.unit_price ?? 0),
+    discount: String(item.discount_percentage ?? 0),
+    amount: String(item.total ?? 0),
+    taxRate: String(item.tax_rate ?? 0),
+    cessRate: item.cess_rate ? String(item.cess_rate) : '',
+    taxInclusive: Boolean(item.tax_inclusive),
+  }));
+  const discountAmount = Number(bill.discount_amount ?? 0);
+  const { taxBreakup, cgst, sgst, igst } = calculateInvoiceTotals(items, gstRate, gstType, includeGST, discountAmount);
+  const currencyCode = bill.currency_code || BASE_CURRENCY;
+
+  return {
+    billNumber: bill.bill_number,
+    billDate: String(bill.date ?? '').slice(0, 10),
+    dueDate: bill.due_date ? String(bill.due_date).slice(0, 10) : '',
+    businessName: bill.business_name ?? '',
+    businessAddress: bill.business_address ?? '',
+    businessPhone: bill.business_phone ?? '',
+    businessEmail: bill.business_email ?? '',
+    businessGST: bill.business_gst ?? '',
+    businessState: '',
+    customerName: bill.party_name ?? '',
+    customerAddress: bill.party_address ?? '',
+    customerPhone: bill.party_phone ?? '',
+    customerEmail: bill.party_email ?? '',
+    customerGST: bill.party_gstin ?? '',
+    customerState: '',
+    items,
+    subtotal: Number(bill.subtotal ?? round(bill.total_amount - taxAmount)),
+    discountAmount,
+    gstAmount: taxAmount,
+    cgst,
+    sgst,
+    igst,
+    cess: Number(bill.cess_amount ?? 0),
+    taxBreakup,
+    roundOff: Number(bill.round_off ?? 0),
+    roundOffMode: bill.round_off_mode ?? 'none',
+    total: Number(bill.total_amount ?? 0),
+    gstType,
+    gstRate,
+    includeGST,
+    notes: bill.notes ?? '',
+    termsAndConditions: bill.terms ?? '',
+    paymentInstructions: bill.payment_instructions ?? '',
+    bankDetails: '',
+    templateId: bill.template ?? 'modern',
+    currencyCode,
+    currencySymbol: bill.currency_code ? createCurrencyContext(currencyCode).symbol : currencySymbol,
+    exchangeRate: bill.exchange_rate ?? undefined,
+    eInvoice: bill.einvoice_irn
+      ? {
+        irn: bill.einvoice_irn,
+        ackNo: bill.einvoice_ack_no ?? '',
+        ackDate: bill.einvoice_ack_date ?? '',
+        signedQr: bill.einvoice_signed_qr ?? '',
+      }
+      : undefined,
+    eWayBill: bill.eway_bill_no
+      ? { number: bill.eway_bill_no, validUntil: bill.eway_bill_valid_until ?? null }
+      : undefined,
+    amountDue: Number(bill.balance_amount ?? bill.total_amount ?? 0),
+  };
+}
+
+// ==================== QUOTATIONS ====================
+
+/**
+ * Whether a quotation's validity date (yyyy-MM-dd) has passed. Compared
+ * in local time, so a quotation is good to the end of its last day.
+ */
+export const isQuotationLapsed = (validUntil: string | null): boolean =>
+  validUntil !== null && validUntil.slice(0, 10) < format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * Normalise a quotations row. Open quotations past their validity date
+ * are reported as expired.
+ */
+export function normalizeQuotationRow(row: any): Quotation {
+  const validUntil = row.valid_until ? String(row.valid_until).slice(0, 10) : null;
+  const lapsed = isQuotationLapsed(validUntil);
+
+  return {
+    ...row,
+    items: (row.items ?? []).map((item: any) => ({ hsn: null, product_id: null, ...item })),
+    subtotal: Number(row.subtotal ?? 0),
+    tax_amount: Number(row.tax_amount ?? 0),
+    cess_amount: Number(row.cess_amount ?? 0),
+    round_off: Number(row.round_off ?? 0),
+    discount_amount: Number(row.discount_amount ?? 0),
+    total_amount: Number(row.total_amount ?? 0),
+    gst_rate: row.gst_rate !== null && row.gst_rate !== undefined ? Number(row.gst_rate) : null,
+    exchange_rate: row.exchange_rate !== null && row.exchange_rate !== undefined ? Number(row.exchange_rate) : null,
+    valid_until: validUntil,
+    status: lapsed && (row.status === 'draft' || row.status === 'sent') ? 'expired' : row.status,
+  };
+}
+
+/**
+ * Build a createQuotation/updateQuotation payload from the invoice builder
+ * form; the due date doubles as the validity date
+ */
+export function invoiceDataToQuotationInput(
+  data: InvoiceData,
+  party: { id: string | null; name: string }
+): CreateQuotationInput {
+  const { bill_number, due_date, ...input } = invoiceDataToBillInput(data, party);
+
+  return {
+    ...input,
+    quotation_number: bill_number,
+    valid_until: due_date,
+  };
+}
+
+/**
+ * Map a quotation to template data for preview, editing and PDF export
+ */
+export function quotationToInvoiceData(quotation: Quotation, currencySymbol: string = '₹'): InvoiceData {
+  const data = billToInvoiceData({
+    ...quotation,
+    bill_number: quotation.quotation_number,
+    party_type: 'customer',
+    due_date: quotation.valid_until,
+    paid_amount: 0,
+    balance_amount: quotation.total_amount,
+    status: 'draft',
+    discount: 0,
+    discount_type: null,
+    discount_value: null,
+  }, currencySymbol);
+
+  return { ...data, documentType: 'quotation' };
+}
+
+/**
+ * Invoice payload carrying over a document's party, taxes and the given
+ * lines. The invoice is dated today with the usual 30 day payment terms.
+ */
+function carryOverToBillInput(
+  source: Quotation | SalesDocument | Bill,
+  items: BillItem[],
+  billNumber: string
+): CreateBillInput {
+  const today = new Date();
+  const dueDate = calculateDueDate(today, 30);
+
+  return {
+    bill_number: billNumber,
+    party_id: source.party_id,
+    party_type: 'customer',
+    party_name: source.party_name,
+    party_gstin: source.party_gstin ?? null,
+    party_phone: source.party_phone ?? null,
+    party_email: source.party_email ?? null,
+    party_address: source.party_address ?? null,
+    date: format(today, 'yyyy-MM-dd'),
+    due_date: format(dueDate, 'yyyy-MM-dd'),
+    items: items.map(item => ({
+      product_id: item.product_id ?? null,
+      name: item.name,
+      description: item.description,
+      hsn: item.hsn ?? null,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_rate: item.tax_rate,
+      ...(item.cess_rate && { cess_rate: item.cess_rate }),
+      ...(item.tax_inclusive && { tax_inclusive: true }),
+      discount_percentage: item.discount_percentage,
+      total: item.total,
+    })),
+    notes: source.notes ?? undefined,
+    terms: source.terms ?? undefined,
+    discount_amount: source.discount_amount,
+    payment_instructions: source.payment_instructions ?? null,
+    template: source.template ?? null,
+    gst_type: source.gst_type ?? null,
+    gst_rate: source.gst_rate ?? null,
+    include_gst: source.include_gst,
+    business_name: source.business_name ?? null,
+    business_address: source.business_address ?? null,
+    business_phone: source.business_phone ?? null,
+    business_email: source.business_email ?? null,
+    business_gst: source.business_gst ?? null,
+    round_off_mode: source.round_off_mode ?? null,
+    currency_code: source.currency_code ?? null,
+    exchange_rate: source.exchange_rate ?? null,
+  };
+}
+
+/**
+ * Invoice payload carrying over a quotation's party, items and taxes
+ */
+export function quotationToBillInput(quotation: Quotation, billNumber: string): CreateBillInput {
+  return carryOverToBillInput(quotation, quotation.items, billNumber);
+}
+
+// ==================== CHALLANS & PROFORMA INVOICES ====================
+
+/**
+ * Normalise a sales_documents row
+ */
+export function normalizeSalesDocumentRow(row: any): SalesDocument {
+  return {
+    ...row,
+    items: (row.items ?? []).map((item: any) => ({ hsn: null, product_id: null, ...item })),
+    subtotal: Number(row.subtotal ?? 0),
+    tax_amount: Number(row.tax_amount ?? 0),
+    cess_amount: Number(row.cess_amount ?? 0),
+    round_off: Number(row.round_off ?? 0),
+    discount_amount: Number(row.discount_amount ?? 0),
+    total_amount: Number(row.total_amount ?? 0),
+    gst_rate: row.gst_rate !== null && row.gst_rate !== undefined ? Number(row.gst_rate) : null,
+    exchange_rate: row.exchange_rate !== null && row.exchange_rate !== undefined ? Number(row.exchange_rate) : null,
+    due_date: row.due_date ? String(row.due_date).slice(0, 10) : null,
+    stock_deducted: Boolean(row.stock_deducted),
+  };
+}
+
+/**
+ * Build a createDocument/updateDocument payload from the invoice builder form
+ */
+export function invoiceDataToSalesDocumentInput(
+  data: InvoiceData,
+  party: { id: string | null; name: string },
+  documentType: SalesDocumentType
+): CreateSalesDocumentInput {
+  const { bill_number, ...input } = invoiceDataToBillInput(data, party);
+
+  return {
+    ...input,
+    document_type: documentType,
+    document_number: bill_number,
+  };
+}
+
+/**
+ * Map a challan or proforma to template data for preview, editing and PDF export
+ */
+export function salesDocumentToInvoiceData(document: SalesDocument, currencySymbol: string = '₹'): InvoiceData {
+  const data = billToInvoiceData({
+    ...document,
+    bill_number: document.document_number,
+    party_type: 'customer',
+    paid_amount: 0,
+    balance_amount: document.total_amount,
+    status: 'draft',
+    discount: 0,
+    discount_type: null,
+    discount_value: null,
+  }, currencySymbol);
+
+  return { ...data, documentType: document.document_type };
+}
+
+/**
+ * Tax invoice payload for one proforma or several challans of the same
+ * customer. Lines are carried over as issued and the invoice references
+ * the documents it bills.
+ */
+export function salesDocumentsToBillInput(documents: SalesDocument[], billNumber: string): CreateBillInput {
+  const [first] = documents;
+  const references = documents.map(document => document.document_number).join(', ');
+  const label = first.document_type === 'delivery_challan'
+    ? `Against delivery challan${documents.length > 1 ? 's' : ''}`
+    : 'Against proforma invoice';
+
+  return {
+    ...carryOverToBillInput(first, documents.flatMap(document => document.items), billNumber),
+    discount_amount: round(documents.reduce((sum, document) => sum + document.discount_amount, 0)),
+    notes: [`${label} ${references}`, first.notes].filter(Boolean).join('\n'),
+    template: first.template === 'delivery-challan' || first.template === 'proforma' ? 'gst-compliant' : first.template ?? null,
+  };
+}
+
+// ==================== RECURRING INVOICES ====================
+
+/**
+ * Reusable payload for a recurring profile. Number and dates are left for
+ * the scheduler to fill in on every run.
+ */
+export function billToRecurringTemplate(bill: Bill): CreateBillInput {
+  return {
+    ...carryOverToBillInput(bill, bill.items, ''),
+    bill_number: undefined,
+    due_date: undefined,
+  };
+}
@@ -0,0 +1,761 @@
+/**
+ * Invoice PDF Generation
+ * Renders invoice templates to a real A4 PDF in the browser with pdfmake:
+ * selectable text, embedded Roboto (includes the ₹ glyph) and item tables
+ * whose header row repeats on every page.
+ */
+
+import type { Column, Content, ContentStack, CustomTableLayout, TableCell, TDocumentDefinitions } from 'pdfmake/interfaces';
+import type { CustomInvoiceTemplate, CustomTemplateDefinition, InvoiceData, TemplateBlockType, TemplateColumn } from '@/types/invoice';
+import {
+  BASE_CURRENCY,
+  DOCUMENT_LABELS,
+  formatAmount,
+  formatDate,
+  generatePDFFilename,
+  getTaxBreakup,
+  numberToWords,
+  taxRateSuffix,
+  toBaseCurrency,
+} from './invoiceUtils';
+import { loadPdfMake } from './pdfMake';
+import { getInvoiceUpiLink } from './upiPayment';
+import { findCustomTemplate, visibleBlocks } from './customTemplates';
+
+// ==================== TEMPLATE THEMES ====================
+
+interface InvoicePdfTheme {
+  accent: string;
+  title: string;
+  /** band: coloured title block; split: business left, invoice box right; centered: title centred above boxed sections */
+  header: 'band' | 'split' | 'centered';
+  tableHeaderFill: string;
+  tableHeaderColor: string;
+  zebraFill: string | null;
+  gridLines: boolean;
+  fontSize: number;
+  footerMessage: string | null;
+  declaration: boolean;
+  /** Narrow centred column for receipt-style templates */
+  narrow: boolean;
+}
+
+const BASE_THEME: InvoicePdfTheme = {
+  accent: '#00C48C',
+  title: 'INVOICE',
+  header: 'band',
+  tableHeaderFill: '#F3F4F6',
+  tableHeaderColor: '#374151',
+  zebraFill: null,
+  gridLines: false,
+  fontSize: 9,
+  footerMessage: 'Thank you for your business!',
+  declaration: false,
+  narrow: false,
+};
+
+/**
+ * One theme per template in invoiceTemplates.tsx; unknown ids fall back to
+ * Modern the same way renderInvoiceTemplate does
+ */
+export const INVOICE_PDF_THEMES: Record<string, InvoicePdfTheme> = {
+  modern: BASE_THEME,
+  classic: {
+    ...BASE_THEME,
+    accent: '#5B37B7',
+    header: 'split',
+    tableHeaderFill: '#5B37B7',
+    tableHeaderColor: '#FFFFFF',
+    zebraFill: '#F9FAFB',
+  },
+  minimal: {
+    ...BASE_THEME,
+    accent: '#000000',
+    header: 'split',
+    tableHeaderFill: '#FFFFFF',
+    tableHeaderColor: '#000000',
+    footerMessage: null,
+  },
+  stripe: {
+    ...BASE_THEME,
+    accent: '#635BFF',
+    title: 'Invoice',
+    header: 'split',
+    tableHeaderFill: '#F6F9FC',
+    tableHeaderColor: '#697386',
+    footerMessage: null,
+  },
+  quickbooks: {
+    ...BASE_THEME,
+    accent: '#2CA01C',
+    header: 'split',
+    tableHeaderFill: '#2CA01C',
+    tableHeaderColor: '#FFFFFF',
+    zebraFill: '#F8F9FA',
+  },
+  'gst-compliant': {
+    ...BASE_THEME,
+    accent: '#000000',
+    title: 'TAX INVOICE',
+    header: 'centered',
+    tableHeaderFill: '#F3F4F6',
+    tableHeaderColor: '#000000',
+    gridLines: true,
+    footerMessage: null,
+    declaration: true,
+  },
+  retail: {
+    ...BASE_THEME,
+    accent: '#FF6B6B',
+    header: 'centered',
+    tableHeaderFill: '#FFFFFF',
+    tableHeaderColor: '#000000',
+    fontSize: 8,
+    narrow: true,
+  },
+  'delivery-challan': {
+    ...BASE_THEME,
+    accent: '#0F766E',
+    title: 'DELIVERY CHALLAN',
+    header: 'centered',
+    tableHeaderFill: '#F0FDFA',
+    tableHeaderColor: '#0F766E',
+    gridLines: true,
+    footerMessage: 'Received the above goods in good condition',
+  },
+  proforma: {
+    ...BASE_THEME,
+    accent: '#7C3AED',
+    title: 'PROFORMA INVOICE',
+    tableHeaderFill: '#7C3AED',
+    tableHeaderColor: '#FFFFFF',
+    zebraFill: '#FAF5FF',
+    footerMessage: 'This is a proforma invoice, not a tax invoice',
+  },
+};
+
+export function getInvoicePdfTheme(templateId: string): InvoicePdfTheme {
+  return INVOICE_PDF_THEMES[templateId] ?? BASE_THEME;
+}
+
+/**
+ * Theme for a custom template. Its font choice only applies on screen;
+ * PDFs always use the embedded Roboto.
+ */
+function customTemplateTheme(definition: CustomTemplateDefinition): InvoicePdfTheme {
+  return {
+    ...BASE_THEME,
+    accent: definition.colors.primary,
+    header: 'band', // Custom templates draw their own header; band keeps FROM and TO side by side
+    tableHeaderFill: definition.colors.tableHeader,
+    tableHeaderColor: definition.colors.tableHeaderText,
+    fontSize: definition.fontSize,
+    footerMessage: definition.footerMessage.trim() || null,
+  };
+}
+
+// ==================== DOCUMENT BUILDER ====================
+
+const MUTED = '#6B7280';
+const BORDER = '#E5E7EB';
+
+const lines = (...values: (string | null | undefined)[]) => values.filter(Boolean).join('\n');
+
+function partyBlock(
+  label: string,
+  name: string,
+  details: string,
+  theme: InvoicePdfTheme,
+  margin: [number, number, number, number] = [0, 0, 0, 0]
+): ContentStack {
+  return {
+    margin,
+    stack: [
+      { text: label, fontSize: theme.fontSize - 1, bold: true, color: theme.header === 'centered' ? '#000000' : MUTED, margin: [0, 0, 0, 3] },
+      { text: name || '-', fontSize: theme.fontSize + 2, bold: true, margin: [0, 0, 0, 2] },
+      { text: details, color: '#4B5563', lineHeight: 1.3 },
+    ],
+  };
+}
+
+const documentLabels = (data: InvoiceData) => DOCUMENT_LABELS[data.documentType ?? 'invoice'];
+
+/**
+ * The document's heading in the theme's casing, e.g. INVOICE, Quotation
+ */
+function documentTitle(data: InvoiceData, theme: InvoicePdfTheme): string {
+  const labels = documentLabels(data);
+  const title = theme.declaration ? labels.gstTitle : labels.title;
+  return theme.title === theme.title.toUpperCase() ? title.toUpperCase() : title;
+}
+
+function buildHeader(data: InvoiceData, theme: InvoicePdfTheme): Content[] {
+  const labels = documentLabels(data);
+  const title = documentTitle(data, theme);
+  const meta = lines(
+    `${theme.title === 'Invoice' ? `${labels.title} number` : `${labels.title} #`}: ${data.billNumber}`,
+    `Date: ${formatDate(data.billDate, 'long')}`,
+    data.dueDate ? `${labels.due}: ${formatDate(data.dueDate, 'long')}` : null
+  );
+
+  if (theme.header === 'band') {
+    return [{
+      table: {
+        widths: ['*', 'auto'],
+        body: [[
+          { text: title, fontSize: 22, bold: true, color: '#FFFFFF', margin: [12, 12, 0, 12] },
+          { text: meta, color: '#FFFFFF', alignment: 'right', margin: [0, 10, 12, 10] },
+        ]],
+      },
+      layout: { fillColor: () => theme.accent, hLineWidth: () => 0, vLineWidth: () => 0 },
+      margin: [0, 0, 0, 16],
+    }];
+  }
+
+  if (theme.header === 'split') {
+    return [{
+      columns: [
+        {
+          width: '*',
+          stack: [
+            { text: data.businessName, fontSize: 16, bold: true },
+            {
+              text: lines(data.businessAddress, data.businessPhone, data.businessEmail, data.businessGST ? `GSTIN: ${data.businessGST}` : null),
+              color: MUTED,
+              lineHeight: 1.3,
+              margin: [0, 3, 0, 0],
+            },
+          ],
+        },
+        {
+          width: 'auto',
+          table: {
+            body: [[{
+              stack: [
+                { text: title, fontSize: 18, bold: true },
+                { text: meta, margin: [0, 4, 0, 0] },
+              ],
+              alignment: 'right',
+              margin: [10, 8, 10, 8],
+            }]],
+          },
+          layout: {
+            fillColor: () => (theme.tableHeaderColor === '#FFFFFF' ? theme.accent : null),
+            hLineWidth: () => 0,
+            vLineWidth: () => 0,
+            defaultBorder: false,
+          } as CustomTableLayout,
+          color: theme.tableHeaderColor === '#FFFFFF' ? '#FFFFFF' : '#111827',
+        },
+      ],
+      margin: [0, 0, 0, 12],
+    }, {
+      canvas: [{ type: 'line', x1: 0, y1: 0, x2: theme.narrow ? 300 : 515, y2: 0, lineWidth: 2, lineColor: theme.accent }],
+      margin: [0, 0, 0, 12],
+    }];
+  }
+
+  // centered
+  return [{
+    stack: [
+      { text: theme.narrow ? data.businessName : title, fontSize: 18, bold: true, color: theme.accent, alignment: 'center' },
+      theme.narrow
+        ? { text: lines(data.businessAddress, data.businessPhone ? `Tel: ${data.businessPhone}` : null, data.businessGST ? `GSTIN: ${data.businessGST}` : null), alignment: 'center', color: MUTED, margin: [0, 3, 0, 0] }
+        : { text: '' },
+      { text: theme.narrow ? meta.replace(/\n/g, '   ') : '', alignment: 'center', margin: [0, 6, 0, 0] },
+    ],
+    margin: [0, 0, 0, 10],
+  }, {
+    canvas: [{ type: 'line', x1: 0, y1: 0, x2: theme.narrow ? 300 : 515, y2: 0, lineWidth: 1.5, lineColor: theme.accent, dash: theme.narrow ? { length: 4 } : undefined }],
+    margin: [0, 0, 0, 10],
+  }];
+}
+
+/**
+ * IRN, acknowledgement and signed QR of a registered e-invoice
+ */
+function buildEInvoiceBlock(data: InvoiceData, theme: InvoicePdfTheme): Content[] {
+  if (!data.eInvoice) return [];
+
+  const { irn, ackNo, ackDate, signedQr } = data.eInvoice;
+  return [{
+    columns: [
+      {
+        width: '*',
+        text: lines(`IRN: ${irn}`, `Ack No: ${ackNo}`, ackDate ? `Ack Date: ${formatDate(ackDate, 'long')}` : null),
+        fontSize: theme.fontSize - 1,
+        lineHeight: 1.4,
+      },
+      signedQr ? { width: 'auto', qr: signedQr, fit: 90, eccLevel: 'M' } : { width: 'auto', text: '' },
+    ],
+    columnGap: 12,
+    unbreakable: true,
+    margin: [0, 0, 0, 12],
+  }];
+}
+
+function buildEWayBillNote(data: InvoiceData, theme: InvoicePdfTheme): Content[] {
+  if (!data.eWayBill) return [];
+
+  const { number, validUntil } = data.eWayBill;
+  return [{
+    text: `E-way Bill No: ${number}${validUntil ? ` • Valid until: ${formatDate(validUntil, 'long')}` : ''}`,
+    fontSize: theme.fontSize - 1,
+    margin: [0, 0, 0, 10],
+  }];
+}
+
+function buildUpiPaymentBlock(data: InvoiceData, theme: InvoicePdfTheme): Content[] {
+  const link = getInvoiceUpiLink(data);
+  if (!link || !data.upiPayee) return [];
+
+  return [{
+    columns: [
+      { width: 'auto', qr: link, fit: 80, eccLevel: 'M' },
+      {
+        width: '*',
+        stack: [
+          { text: `Scan to pay ${data.currencySymbol}${formatAmount(data.amountDue ?? data.total)}`, bold: true },
+          { text: `Any UPI app • ${data.upiPayee.upiId}`, color: MUTED, margin: [0, 3, 0, 0] },
+        ],
+        fontSize: theme.fontSize - 1,
+        margin: [0, 24, 0, 0],
+      },
+    ],
+    columnGap: 10,
+    unbreakable: true,
+    margin: [0, 0, 0, 12],
+  }];
+}
+
+function buildParties(data: InvoiceData, theme: InvoicePdfTheme): Content {
+  const customerDetails = lines(
+    data.customerAddress,
+    theme.declaration ? `State: ${data.customerState || 'N/A'}` : null,
+    data.customerPhone,
+    data.customerEmail,
+    data.customerGST ? `GSTIN: ${data.customerGST}` : theme.declaration ? 'GSTIN: Unregistered' : null
+  );
+
+  if (theme.narrow) {
+    return partyBlock('CUSTOMER', data.customerName, customerDetails, theme, [0, 0, 0, 10]);
+  }
+
+  if (theme.header === 'split') {
+    return partyBlock('BILL TO', data.customerName, customerDetails, theme, [0, 0, 0, 16]);
+  }
+
+  const businessDetails = lines(
+    data.businessAddress,
+    theme.declaration ? `State: ${data.businessState || 'N/A'}` : null,
+    data.businessPhone,
+    data.businessEmail,
+    data.businessGST ? `GSTIN: ${data.businessGST}` : null
+  );
+
+  const cellMargin: [number, number, number, number] = theme.declaration ? [6, 6, 6, 6] : [0, 0, 0, 0];
+  const columns: ContentStack[] = [
+    partyBlock(theme.declaration ? 'SELLER DETAILS' : 'FROM', data.businessName, businessDetails, theme, cellMargin),
+    partyBlock(theme.declaration ? 'BUYER DETAILS' : 'TO', data.customerName, customerDetails, theme, cellMargin),
+  ];
+
+  if (theme.declaration) {
+    const labels = documentLabels(data);
+    columns.push({
+      margin: cellMargin,
+      stack: [
+        { text: `${labels.title.toUpperCase()} DETAILS`, fontSize: theme.fontSize - 1, bold: true, margin: [0, 0, 0, 3] },
+        {
+          text: lines(
+            `${labels.title} No: ${data.billNumber}`,
+            `${labels.title} Date: ${formatDate(data.billDate, 'long')}`,
+            data.dueDate ? `${labels.dueDate}: ${formatDate(data.dueDate, 'long')}` : null,
+            `Place of Supply: ${data.customerState || 'N/A'}`
+          ),
+          lineHeight: 1.3,
+        },
+      ],
+    });
+
+    return {
+      table: { widths: columns.map(() => '*'), body: [columns] },
+      margin: [0, 0, 0, 14],
+    };
+  }
+
+  return { columns, columnGap: 20, margin: [0, 0, 0, 16] };
+}
+
+/**
+ * Items table. Built-in themes pick their columns; custom templates pass
+ * the columns they chose.
+ */
+function buildItemsTable(data: InvoiceData, theme: InvoicePdfTheme, columns?: Record<TemplateColumn, boolean>): Content {
+  const symbol = data.currencySymbol;
+  const header = (text: string, alignment: 'left' | 'right' | 'center' = 'left'): TableCell => ({
+    text, bold: true, fontSize: theme.fontSize - 1, color: theme.tableHeaderColor, alignment,
+  });
+
+  const showHsn = columns ? columns.hsn : !theme.narrow;
+  const showQuantity = columns ? columns.quantity : true;
+  const showPrice = columns ? columns.price : true;
+  const showDiscount = columns ? columns.discount : !theme.narrow && data.items.some(item => parseFloat(item.discount) > 0);
+  const showTaxRate = columns ? columns.tax_rate : !theme.narrow && data.includeGST && getTaxBreakup(data).length > 1;
+
+  const headerRow: TableCell[] = [
+    header('#'),
+    header('ITEM'),
+    ...(showHsn ? [header('HSN/SAC', 'center')] : []),
+    ...(showQuantity ? [header('QTY', 'right')] : []),
+    ...(showPrice ? [header('RATE', 'right')] : []),
+    ...(showDiscount ? [header('DISC %', 'right')] : []),
+    ...(showTaxRate ? [header('GST %', 'right')] : []),
+    header('AMOUNT', 'right'),
+  ];
+
+  const body: TableCell[][] = data.items.map((item, index) => [
+    { text: String(index + 1), color: MUTED },
+    {
+      stack: [
+        { text: item.name || '-', bold: true },
+        ...(item.description ? [{ text: item.description, color: MUTED, fontSize: theme.fontSize - 1 }] : []),
+      ],
+    },
+    ...(showHsn ? [{ text: item.hsn || '-', alignment: 'center', color: MUTED } as TableCell] : []),
+    ...(showQuantity ? [{ text: item.quantity, alignment: 'right' } as TableCell] : []),
+    ...(showPrice ? [{ text: `${symbol}${formatAmount(parseFloat(item.price) || 0)}`, alignment: 'right' } as TableCell] : []),
+    ...(showDiscount ? [{ text: `${item.discount || 0}%`, alignment: 'right' } as TableCell] : []),
+    ...(showTaxRate ? [{ text: `${item.taxRate || data.gstRate}%`, alignment: 'right' } as TableCell] : []),
+    { text: `${symbol}${formatAmount(parseFloat(item.amount) || 0)}`, alignment: 'right', bold: true },
+  ]);
+
+  const layout: CustomTableLayout = {
+    fillColor: (rowIndex: number) => {
+      if (rowIndex === 0) return theme.tableHeaderFill;
+      return theme.zebraFill && rowIndex % 2 === 0 ? theme.zebraFill : null;
+    },
+    hLineWidth: (i: number, node: any) => (theme.gridLines || i <= 1 || i === node.table.body.length ? 1 : 0.5),
+    vLineWidth: () => (theme.gridLines ? 1 : 0),
+    hLineColor: (i: number) => (i === 1 ? theme.accent : theme.gridLines ? '#000000' : BORDER),
+    vLineColor: () => (theme.gridLines ? '#000000' : BORDER),
+    paddingTop: () => 5,
+    paddingBottom: () => 5,
+  };
+
+  return {
+    table: {
+      headerRows: 1,
+      dontBreakRows: true,
+      widths: headerRow.map((_, index) => (index === 1 ? '*' : 'auto')),
+      body: [headerRow, ...body],
+    },
+    layout,
+    margin: [0, 0, 0, 12],
+  };
+}
+
+function buildTotals(data: InvoiceData, theme: InvoicePdfTheme): Content {
+  const symbol = data.currencySymbol;
+  const row = (label: string, value: number, emphasise = false): TableCell[] => [
+    { text: label, color: emphasise ? '#FFFFFF' : MUTED, bold: emphasise, fontSize: emphasise ? theme.fontSize + 2 : theme.fontSize },
+    { text: `${symbol}${formatAmount(value)}`, alignment: 'right', bold: true, color: emphasise ? '#FFFFFF' : '#111827', fontSize: emphasise ? theme.fontSize + 2 : theme.fontSize },
+  ];
+
+  const rows: TableCell[][] = [row('Subtotal', data.subtotal)];
+  if ((data.discountAmount ?? 0) > 0) {
+    rows.push(row('Discount', -(data.discountAmount ?? 0)));
+  }
+  if (data.includeGST && data.gstType === 'cgst_sgst') {
+    rows.push(row(`CGST${taxRateSuffix(data, 2)}`, data.cgst || 0));
+    rows.push(row(`SGST${taxRateSuffix(data, 2)}`, data.sgst || 0));
+  } else if (data.includeGST && data.gstType === 'igst') {
+    rows.push(row(`IGST${taxRateSuffix(data)}`, data.igst || 0));
+  }
+  if ((data.cess ?? 0) > 0) {
+    rows.push(row('Cess', data.cess ?? 0));
+  }
+  if ((data.roundOff ?? 0) !== 0) {
+    rows.push(row('Round off', data.roundOff ?? 0));
+  }
+  rows.push(row('TOTAL', data.total, true));
+
+  const totalsIndex = rows.length - 1;
+
+  return {
+    columns: [
+      {
+        width: '*',
+        stack: [
+          { text: 'Amount in words', fontSize: theme.fontSize - 1, color: MUTED, margin: [0, 0, 0, 2] },
+          { text: numberToWords(data.total, data.currencyCode), italics: true },
+          ...(data.exchangeRate && data.currencyCode !== BASE_CURRENCY
+            ? [{
+              text: `1 ${data.currencyCode} = ₹${formatAmount(data.exchangeRate, 4)} • Total in INR: ₹${formatAmount(toBaseCurrency(data.total, data.currencyCode, data.exchangeRate))}`,
+              fontSize: theme.fontSize - 1,
+              color: MUTED,
+              margin: [0, 6, 0, 0] as [number, number, number, number],
+            }]
+            : []),
+        ],
+        margin: [0, 4, 12, 0],
+      },
+      {
+        width: theme.narrow ? 160 : 220,
+        table: { widths: ['*', 'auto'], body: rows },
+        layout: {
+          fillColor: (rowIndex: number) => (rowIndex === totalsIndex ? theme.accent : null),
+          hLineWidth: () => 0,
+          vLineWidth: () => 0,
+          paddingTop: () => 4,
+          paddingBottom: () => 4,
+        },
+      },
+    ],
+    unbreakable: true,
+    margin: [0, 0, 0, 16],
+  };
+}
+
+function footerSection(title: string, text: string, theme: InvoicePdfTheme): Content {
+  return {
+    stack: [
+      { text: title, bold: true, fontSize: theme.fontSize - 1, color: MUTED, margin: [0, 0, 0, 3] },
+      { text, color: '#4B5563', lineHeight: 1.3 },
+    ],
+    margin: [0, 0, 0, 10],
+  };
+}
+
+const signatureBlock = (data: InvoiceData): Content => ({
+  width: 180,
+  stack: [
+    { text: `For ${data.businessName}`, bold: true, alignment: 'right' },
+    { text: 'Authorised Signatory', alignment: 'right', margin: [0, 36, 0, 0], color: MUTED },
+  ],
+});
+
+function buildFooterSections(data: InvoiceData, theme: InvoicePdfTheme): Content[] {
+  const section = (title: string, text: string) => footerSection(title, text, theme);
+
+  const content: Content[] = [];
+  if (data.bankDetails) content.push(section('BANK DETAILS', data.bankDetails));
+  if (data.paymentInstructions) content.push(section('PAYMENT INSTRUCTIONS', data.paymentInstructions));
+  if (data.notes) content.push(section('NOTES', data.notes));
+  if (data.termsAndConditions) content.push(section('TERMS & CONDITIONS', data.termsAndConditions));
+
+  if (theme.declaration) {
+    content.push({
+      columns: [
+        {
+          width: '*',
+          stack: [
+            { text: 'Declaration', bold: true, margin: [0, 0, 0, 3] },
+            { text: `We declare that this ${documentLabels(data).title.toLowerCase()} shows the actual price of the goods described and that all particulars are true and correct.`, color: '#4B5563' },
+          ],
+        },
+        signatureBlock(data),
+      ],
+      unbreakable: true,
+      margin: [0, 10, 0, 0],
+    });
+  }
+
+  if (theme.footerMessage) {
+    content.push({ text: theme.footerMessage, alignment: 'center', bold: true, color: theme.accent, margin: [0, 16, 0, 0] });
+  }
+
+  return content;
+}
+
+// ==================== CUSTOM TEMPLATES ====================
+
+function buildCustomHeader(data: InvoiceData, definition: CustomTemplateDefinition, theme: InvoicePdfTheme): Content[] {
+  const labels = documentLabels(data);
+  const placement = definition.logo.placement;
+  const logo = placement !== 'none' ? definition.logo.image ?? data.businessLogo : undefined;
+  // pdfmake only embeds data URLs; a remote business logo is left out
+  const logoImage: Content[] = logo?.startsWith('data:image/') ? [{ image: logo, fit: [140, 50] }] : [];
+  const alignment = placement === 'center' ? 'center' : placement === 'right' ? 'left' : 'right';
+
+  const business: ContentStack = {
+    stack: [
+      { text: data.businessName, fontSize: theme.fontSize + 7, bold: true },
+      ...definition.customFields.map(field => ({ text: `${field.label}: ${field.value}`, fontSize: theme.fontSize - 1, color: MUTED })),
+    ],
+  };
+  const meta: ContentStack = {
+    stack: [
+      { text: (data.includeGST ? labels.gstTitle : labels.title).toUpperCase(), fontSize: theme.fontSize + 9, bold: true, color: theme.accent },
+      {
+        text: lines(
+          `${labels.title} #: ${data.billNumber}`,
+          `Date: ${formatDate(data.billDate, 'long')}`,
+          data.dueDate ? `${labels.due}: ${formatDate(data.dueDate, 'long')}` : null
+        ),
+        lineHeight: 1.3,
+        margin: [0, 4, 0, 0],
+      },
+    ],
+    alignment,
+  };
+  const rule: Content = {
+    canvas: [{ type: 'line', x1: 0, y1: 0, x2: 515, y2: 0, lineWidth: 2, lineColor: theme.accent }],
+    margin: [0, 0, 0, 14],
+  };
+
+  if (placement === 'center') {
+    return [{ stack: [...logoImage, business, meta], alignment: 'center', margin: [0, 0, 0, 10] }, rule];
+  }
+
+  const brand: Column = {
+    width: '*',
+    columns: [...logoImage.map(image => ({ width: 'auto', stack: [image] })), { width: '*', ...business }],
+    columnGap: 10,
+  };
+  const metaColumn: Column = { width: 'auto', ...meta };
+
+  return [
+    { columns: placement === 'right' ? [metaColumn, brand] : [brand, metaColumn], columnGap: 16, margin: [0, 0, 0, 10] },
+    rule,
+  ];
+}
+
+/**
+ * Rate-wise GST breakup for custom templates
+ */
+function buildTaxSummary(data: InvoiceData, theme: InvoicePdfTheme): Content[] {
+  const rows = getTaxBreakup(data);
+  if (!data.includeGST || rows.length === 0) return [];
+
+  const money = (value: number) => `${data.currencySymbol}${formatAmount(value)}`;
+  const header = (text: string): TableCell => ({
+    text, bold: true, fontSize: theme.fontSize - 1, color: theme.tableHeaderColor, alignment: 'right',
+  });
+
+  return [{
+    stack: [
+      { text: 'TAX SUMMARY', bold: true, fontSize: theme.fontSize - 1, color: theme.accent, margin: [0, 0, 0, 4] },
+      {
+        table: {
+          headerRows: 1,
+          widths: ['auto', '*', '*', '*', '*'],
+          body: [
+            [header('GST RATE'), header('TAXABLE VALUE'), header(data.gstType === 'cgst_sgst' ? 'CGST + SGST' : 'IGST'), header('CESS'), header('TOTAL TAX')],
+            ...rows.map(row => [
+              { text: `${row.rate}%`, alignment: 'right' },
+              { text: money(row.taxableValue), alignment: 'right' },
+              { text: money(row.cgst + row.sgst + row.igst), alignment: 'right' },
+              { text: money(row.cess), alignment: 'right' },
+              { text: money(row.totalTax), alignment: 'right', bold: true },
+            ] as TableCell[]),
+          ],
+        },
+        layout: {
+          fillColor: (rowIndex: number) => (rowIndex === 0 ? theme.tableHeaderFill : null),
+          hLineWidth: () => 0.5,
+          vLineWidth: () => 0,
+          hLineColor: () => BORDER,
+        },
+      },
+    ],
+    unbreakable: true,
+    margin: [0, 0, 0, 14],
+  }];
+}
+
+/**
+ * Content of a custom template, block by block in the saved order. IRN and
+ * e-way bill details follow the header, or lead the page without one.
+ */
+function buildCustomContent(data: InvoiceData, definition: CustomTemplateDefinition, theme: InvoicePdfTheme): Content[] {
+  const registration = [...buildEInvoiceBlock(data, theme), ...buildEWayBillNote(data, theme)];
+  const section = (title: string, text: string) => (text ? [footerSection(title, text, theme)] : []);
+
+  const blocks: Record<TemplateBlockType, () => Content[]> = {
+    header: () => [...buildCustomHeader(data, definition, theme), ...registration],
+    parties: () => [buildParties(data, theme)],
+    items: () => [buildItemsTable(data, theme, definition.columns)],
+    totals: () => [buildTotals(data, theme), ...buildUpiPaymentBlock(data, theme)],
+    tax_summary: () => buildTaxSummary(data, theme),
+    bank: () => [...section('BANK DETAILS', data.bankDetails), ...section('PAYMENT INSTRUCTIONS', data.paymentInstructions)],
+    notes: () => [...section('NOTES', data.notes), ...section('TERMS & CONDITIONS', data.termsAndConditions)],
+    signature: () => [{ columns: [{ width: '*', text: '' }, signatureBlock(data)], unbreakable: true, margin: [0, 16, 0, 0] }],
+  };
+
+  const types = visibleBlocks(definition);
+  const content = types.flatMap(type => blocks[type]());
+  if (!types.includes('header')) content.unshift(...registration);
+
+  if (theme.footerMessage) {
+    content.push({ text: theme.footerMessage, alignment: 'center', color: MUTED, margin: [0, 16, 0, 0] });
+  }
+
+  return content;
+}
+
+/**
+ * Build the pdfmake document definition for an invoice, in its custom
+ * template's layout when one is given
+ */
+export function buildInvoicePdfDefinition(data: InvoiceData, customTemplate?: CustomInvoiceTemplate): TDocumentDefinitions {
+  const definition = customTemplate?.definition;
+  const theme = definition ? customTemplateTheme(definition) : getInvoicePdfTheme(data.templateId);
+  // A4 is 595pt wide; receipt-style templates print as a centred 300pt column
+  const sideMargin = theme.narrow ? 147 : 40;
+
+  return {
+    pageSize: 'A4',
+    pageMargins: [sideMargin, 40, sideMargin, 50],
+    info: {
+      title: `${documentLabels(data).title} ${data.billNumber}`,
+      subject: `${documentLabels(data).title} for ${data.customerName}`,
+      author: data.businessName,
+    },
+    defaultStyle: {
+      font: 'Roboto',
+      fontSize: theme.fontSize,
+      color: definition?.colors.text ?? '#111827',
+    },
+    content: definition ? buildCustomContent(data, definition, theme) : [
+      ...buildHeader(data, theme),
+      ...buildEInvoiceBlock(data, theme),
+      ...buildEWayBillNote(data, theme),
+      buildParties(data, theme),
+      buildItemsTable(data, theme),
+      buildTotals(data, theme),
+      ...buildUpiPaymentBlock(data, theme),
+      ...buildFooterSections(data, theme),
+    ],
+    footer: (currentPage: number, pageCount: number) => ({
+      columns: [
+        { text: `${data.businessName} • ${data.billNumber}`, color: MUTED },
+        { text: `Page ${currentPage} of ${pageCount}`, alignment: 'right', color: MUTED },
+      ],
+      fontSize: 7,
+      margin: [sideMargin, 20, sideMargin, 0],
+    }),
+  };
+}
+
+// ==================== RENDERING ====================
+
+/**
+ * Render an invoice to a PDF blob (e.g. for attachments). Pass the user's
+ * custom templates so a custom templateId prints in its own layout.
+ */
+export async function generateInvoicePdf(data: InvoiceData, customTemplates: CustomInvoiceTemplate[] = []): Promise<Blob> {
+  const createPdf = await loadPdfMake();
+  return new Promise(resolve => {
+    createPdf(buildInvoicePdfDefinition(data, findCustomTemplate(data.templateId, customTemplates))).getBlob(resolve);
+  });
+}
+
+/**
+ * Render an invoice and download it as a PDF file
+ */
+export async function downloadInvoicePdf(data: InvoiceData, customTemplates: CustomInvoiceTemplate[] = []): Promise<void> {
+  const createPdf = await loadPdfMake();
+  createPdf(buildInvoicePdfDefinition(data, findCustomTemplate(data.templateId, customTemplates))).download(
+    generatePDFFilename(data.billNumber || 'draft', data.customerName || 'customer', documentLabels(data).title)
+  );
+}
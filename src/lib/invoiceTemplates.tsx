@@ -2,8 +2,28 @@
 // 15+ Production-Ready Invoice Templates with GST Compliance
 
 import React from "react";
-import { InvoiceData, InvoiceTemplate } from "@/types/invoice";
-import { formatDate, formatAmount, numberToWords } from "./invoiceUtils";
+import {
+  CustomInvoiceTemplate,
+  CustomTemplateDefinition,
+  DocumentType,
+  InvoiceData,
+  InvoiceTemplate,
+  TemplateBlockType,
+} from "@/types/invoice";
+import {
+  formatDate,
+  formatAmount,
+  numberToWords,
+  getTaxBreakup,
+  taxRateSuffix,
+  toBaseCurrency,
+  BASE_CURRENCY,
+  DOCUMENT_LABELS,
+  type DocumentLabels,
+} from "./invoiceUtils";
+import { buildQrCodePath } from "./qrCode";
+import { getInvoiceUpiLink } from "./upiPayment";
+import { findCustomTemplate, visibleBlocks, TEMPLATE_FONTS } from "./customTemplates";
 
 // ==================== TEMPLATE METADATA ====================
 
@@ -157,11 +177,115 @@ export const INVOICE_TEMPLATES: InvoiceTemplate[] = [
     previewColor: "#F59E0B",
     features: ["Dual addresses", "Orange accent", "Grid layout", "E-commerce"],
     bestFor: "E-commerce with delivery"
+  },
+  {
+    id: "delivery-challan",
+    name: "Delivery Challan",
+    description: "Goods dispatch note without tax",
+    category: "documents",
+    color: "#0F766E",
+    previewColor: "#0F766E",
+    features: ["Quantities first", "Transport reason", "Receiver signature", "Not a tax invoice"],
+    bestFor: "Dispatch before invoicing",
+    documentTypes: ["delivery_challan"]
+  },
+  {
+    id: "proforma",
+    name: "Proforma Invoice",
+    description: "Advance invoice for approval or payment",
+    category: "documents",
+    color: "#7C3AED",
+    previewColor: "#7C3AED",
+    features: ["Tax breakdown", "Validity date", "Payment instructions", "Not a tax invoice"],
+    bestFor: "Advance payments, approvals",
+    documentTypes: ["proforma"]
   }
 ];
 
+/**
+ * Templates offered for a document: its dedicated templates first, then
+ * the general-purpose ones
+ */
+export function getTemplatesForDocument(documentType: DocumentType = "invoice"): InvoiceTemplate[] {
+  return [
+    ...INVOICE_TEMPLATES.filter(t => t.documentTypes?.includes(documentType)),
+    ...INVOICE_TEMPLATES.filter(t => !t.documentTypes),
+  ];
+}
+
 // ==================== TEMPLATE COMPONENTS ====================
 
+// INR value of an export invoice, shown under the total
+const ExchangeRateNote: React.FC<{ data: InvoiceData }> = ({ data }) => {
+  if (!data.exchangeRate || data.currencyCode === BASE_CURRENCY) return null;
+
+  return (
+    <div style={{ padding: "6px 15px", fontSize: "11px", color: "#6B7280", textAlign: "right" }}>
+      1 {data.currencyCode} = ₹{formatAmount(data.exchangeRate, 4)} • Total in INR: ₹
+      {formatAmount(toBaseCurrency(data.total, data.currencyCode, data.exchangeRate))}
+    </div>
+  );
+};
+
+// IRN, acknowledgement and signed QR of a registered e-invoice
+const EInvoiceDetails: React.FC<{ data: InvoiceData }> = ({ data }) => {
+  if (!data.eInvoice) return null;
+
+  const { irn, ackNo, ackDate, signedQr } = data.eInvoice;
+  const qr = signedQr ? buildQrCodePath(signedQr) : null;
+
+  return (
+    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "15px", padding: "10px 15px", margin: "10px 0", border: "1px solid #E5E7EB", fontSize: "11px", color: "#374151" }}>
+      <div style={{ lineHeight: "1.7", wordBreak: "break-all" }}>
+        <strong>IRN:</strong> {irn}<br />
+        <strong>Ack No:</strong> {ackNo}<br />
+        <strong>Ack Date:</strong> {ackDate ? formatDate(ackDate, "long") : "-"}
+      </div>
+      {qr && (
+        <svg viewBox={`0 0 ${qr.size} ${qr.size}`} width="110" height="110" shapeRendering="crispEdges" style={{ flexShrink: 0 }}>
+          <rect width={qr.size} height={qr.size} fill="#fff" />
+          <path d={qr.path} fill="#000" />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+// E-way bill the goods travel under
+const EWayBillNote: React.FC<{ data: InvoiceData }> = ({ data }) => {
+  if (!data.eWayBill) return null;
+
+  return (
+    <div style={{ padding: "6px 15px", fontSize: "11px", color: "#374151" }}>
+      <strong>E-way Bill No:</strong> {data.eWayBill.number}
+      {data.eWayBill.validUntil && <> • <strong>Valid until:</strong> {formatDate(data.eWayBill.validUntil, "long")}</>}
+    </div>
+  );
+};
+
+// Scan-to-pay QR for the balance due
+const UpiPaymentQr: React.FC<{ data: InvoiceData }> = ({ data }) => {
+  const link = getInvoiceUpiLink(data);
+  if (!link || !data.upiPayee) return null;
+
+  const qr = buildQrCodePath(link);
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: "12px", padding: "10px 15px", margin: "10px 0", border: "1px dashed #D1D5DB", fontSize: "11px", color: "#374151" }}>
+      <svg viewBox={`0 0 ${qr.size} ${qr.size}`} width="96" height="96" shapeRendering="crispEdges" style={{ flexShrink: 0 }}>
+        <rect width={qr.size} height={qr.size} fill="#fff" />
+        <path d={qr.path} fill="#000" />
+      </svg>
+      <div style={{ lineHeight: "1.7", wordBreak: "break-all" }}>
+        <strong style={{ fontSize: "12px" }}>Scan to pay {data.currencySymbol}{formatAmount(data.amountDue ?? data.total)}</strong><br />
+        Any UPI app • {data.upiPayee.upiId}
+      </div>
+    </div>
+  );
+};
+
+const labelsFor = (data: InvoiceData): DocumentLabels => DOCUMENT_LABELS[data.documentType ?? "invoice"];
+
 // Modern Template
 export const ModernTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
   <div style={{ fontFamily: "Inter, sans-serif", maxWidth: "850px", margin: "0 auto", padding: "40px", backgroundColor: "#fff" }}>
@@ -170,12 +294,12 @@ export const ModernTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
       <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", color: "white" }}>
         <div>
           {data.businessLogo && <img src={data.businessLogo} alt="Logo" style={{ height: "50px", marginBottom: "10px" }} />}
-          <h1 style={{ margin: "0", fontSize: "32px", fontWeight: "700" }}>INVOICE</h1>
+          <h1 style={{ margin: "0", fontSize: "32px", fontWeight: "700" }}>{labelsFor(data).title.toUpperCase()}</h1>
         </div>
         <div style={{ textAlign: "right" }}>
           <div style={{ fontSize: "18px", fontWeight: "600" }}>#{data.billNumber}</div>
           <div style={{ fontSize: "14px", marginTop: "5px" }}>Date: {formatDate(data.billDate, "long")}</div>
-          <div style={{ fontSize: "14px" }}>Due: {formatDate(data.dueDate, "long")}</div>
+          <div style={{ fontSize: "14px" }}>{labelsFor(data).due}: {formatDate(data.dueDate, "long")}</div>
         </div>
       </div>
     </div>
@@ -243,31 +367,53 @@ export const ModernTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
           <span style={{ color: "#6B7280" }}>Subtotal:</span>
           <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
         </div>
+        {(data.discountAmount ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px" }}>
+            <span style={{ color: "#6B7280" }}>Discount:</span>
+            <span style={{ fontWeight: "600" }}>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+          </div>
+        )}
         {data.includeGST && (
           <>
             {data.gstType === "cgst_sgst" ? (
               <>
                 <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px", borderTop: "1px solid #E5E7EB" }}>
-                  <span style={{ color: "#6B7280" }}>CGST ({data.gstRate / 2}%):</span>
+                  <span style={{ color: "#6B7280" }}>CGST{taxRateSuffix(data, 2)}:</span>
                   <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cgst || 0)}</span>
                 </div>
                 <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px" }}>
-                  <span style={{ color: "#6B7280" }}>SGST ({data.gstRate / 2}%):</span>
+                  <span style={{ color: "#6B7280" }}>SGST{taxRateSuffix(data, 2)}:</span>
                   <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.sgst || 0)}</span>
                 </div>
               </>
             ) : data.gstType === "igst" ? (
               <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px", borderTop: "1px solid #E5E7EB" }}>
-                <span style={{ color: "#6B7280" }}>IGST ({data.gstRate}%):</span>
+                <span style={{ color: "#6B7280" }}>IGST{taxRateSuffix(data)}:</span>
                 <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.igst || 0)}</span>
               </div>
             ) : null}
           </>
         )}
+        {(data.cess ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px" }}>
+            <span style={{ color: "#6B7280" }}>Cess:</span>
+            <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+          </div>
+        )}
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px" }}>
+            <span style={{ color: "#6B7280" }}>Round off:</span>
+            <span style={{ fontWeight: "600" }}>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
         <div style={{ display: "flex", justifyContent: "space-between", padding: "15px 20px", fontSize: "18px", backgroundColor: "#00C48C", color: "white", borderRadius: "8px", marginTop: "10px" }}>
           <span style={{ fontWeight: "700" }}>TOTAL:</span>
           <span style={{ fontWeight: "700" }}>{data.currencySymbol}{formatAmount(data.total)}</span>
         </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
       </div>
     </div>
 
@@ -311,10 +457,10 @@ export const ClassicTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
         </p>
       </div>
       <div style={{ backgroundColor: "#5B37B7", color: "white", padding: "20px 30px", borderRadius: "8px", textAlign: "right" }}>
-        <div style={{ fontSize: "24px", fontWeight: "700", marginBottom: "5px" }}>INVOICE</div>
+        <div style={{ fontSize: "24px", fontWeight: "700", marginBottom: "5px" }}>{labelsFor(data).title.toUpperCase()}</div>
         <div style={{ fontSize: "16px", marginBottom: "3px" }}>#{data.billNumber}</div>
         <div style={{ fontSize: "13px", opacity: 0.9 }}>Date: {formatDate(data.billDate)}</div>
-        <div style={{ fontSize: "13px", opacity: 0.9 }}>Due: {formatDate(data.dueDate)}</div>
+        <div style={{ fontSize: "13px", opacity: 0.9 }}>{labelsFor(data).due}: {formatDate(data.dueDate)}</div>
       </div>
     </div>
 
@@ -362,28 +508,50 @@ export const ClassicTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
           <span>Subtotal:</span>
           <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
         </div>
+        {(data.discountAmount ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#4B5563" }}>
+            <span>Discount:</span>
+            <span style={{ fontWeight: "600" }}>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+          </div>
+        )}
         {data.includeGST && data.gstType === "cgst_sgst" && (
           <>
             <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#4B5563" }}>
-              <span>CGST ({data.gstRate / 2}%):</span>
+              <span>CGST{taxRateSuffix(data, 2)}:</span>
               <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cgst || 0)}</span>
             </div>
             <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#4B5563" }}>
-              <span>SGST ({data.gstRate / 2}%):</span>
+              <span>SGST{taxRateSuffix(data, 2)}:</span>
               <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.sgst || 0)}</span>
             </div>
           </>
         )}
         {data.includeGST && data.gstType === "igst" && (
           <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#4B5563" }}>
-            <span>IGST ({data.gstRate}%):</span>
+            <span>IGST{taxRateSuffix(data)}:</span>
             <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.igst || 0)}</span>
           </div>
         )}
+        {(data.cess ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#4B5563" }}>
+            <span>Cess:</span>
+            <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+          </div>
+        )}
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#4B5563" }}>
+            <span>Round off:</span>
+            <span style={{ fontWeight: "600" }}>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
         <div style={{ display: "flex", justifyContent: "space-between", padding: "15px 0", fontSize: "18px", fontWeight: "700", color: "#5B37B7", borderTop: "2px solid #5B37B7", marginTop: "10px" }}>
           <span>TOTAL:</span>
           <span>{data.currencySymbol}{formatAmount(data.total)}</span>
         </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
       </div>
     </div>
 
@@ -400,12 +568,78 @@ export const ClassicTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
   </div>
 );
 
+// Rate-wise GST breakup for the GST-compliant template
+const GSTTaxBreakupTable: React.FC<{ data: InvoiceData }> = ({ data }) => {
+  const rows = getTaxBreakup(data);
+  const split = data.gstType === "cgst_sgst";
+  const hasCess = rows.some(row => row.cess > 0);
+  const sum = (key: "taxableValue" | "cgst" | "sgst" | "igst" | "cess" | "totalTax") =>
+    rows.reduce((total, row) => total + row[key], 0);
+  const money = (value: number) => `${data.currencySymbol}${formatAmount(value)}`;
+
+  return (
+    <div style={{ marginBottom: "15px", border: "1px solid #000" }}>
+      <div style={{ backgroundColor: "#F59E0B", padding: "8px", fontSize: "12px", fontWeight: "700", borderBottom: "1px solid #000" }}>TAX SUMMARY:</div>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ backgroundColor: "#FEF3C7" }}>
+            <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>GST RATE</th>
+            <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>TAXABLE VALUE</th>
+            {split ? (
+              <>
+                <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>CGST</th>
+                <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>SGST</th>
+              </>
+            ) : (
+              <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>IGST</th>
+            )}
+            {hasCess && <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>CESS</th>}
+            <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>TOTAL TAX</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.rate}>
+              <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{row.rate}%</td>
+              <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(row.taxableValue)}</td>
+              {split ? (
+                <>
+                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(row.cgst)}</td>
+                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(row.sgst)}</td>
+                </>
+              ) : (
+                <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(row.igst)}</td>
+              )}
+              {hasCess && <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(row.cess)}</td>}
+              <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right", fontWeight: "600" }}>{money(row.totalTax)}</td>
+            </tr>
+          ))}
+          <tr style={{ backgroundColor: "#FEF3C7", fontWeight: "700" }}>
+            <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>TOTAL</td>
+            <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(sum("taxableValue"))}</td>
+            {split ? (
+              <>
+                <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(sum("cgst"))}</td>
+                <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(sum("sgst"))}</td>
+              </>
+            ) : (
+              <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(sum("igst"))}</td>
+            )}
+            {hasCess && <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(sum("cess"))}</td>}
+            <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{money(sum("totalTax"))}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
 // GST Compliant Template (Full Indian GST Compliance)
 export const GSTCompliantTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
   <div style={{ fontFamily: "Arial, sans-serif", maxWidth: "900px", margin: "0 auto", padding: "30px", backgroundColor: "#fff", border: "2px solid #000" }}>
     {/* Tax Invoice Header */}
     <div style={{ textAlign: "center", borderBottom: "2px solid #000", paddingBottom: "15px", marginBottom: "20px" }}>
-      <h1 style={{ margin: "0", fontSize: "32px", fontWeight: "700", color: "#000" }}>TAX INVOICE</h1>
+      <h1 style={{ margin: "0", fontSize: "32px", fontWeight: "700", color: "#000" }}>{labelsFor(data).gstTitle.toUpperCase()}</h1>
       {data.businessLogo && <img src={data.businessLogo} alt="Logo" style={{ height: "50px", marginTop: "10px" }} />}
     </div>
 
@@ -424,11 +658,11 @@ export const GSTCompliantTemplate: React.FC<{ data: InvoiceData }> = ({ data })
     {/* Invoice Details & Buyer Details */}
     <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "15px", marginBottom: "20px" }}>
       <div style={{ border: "1px solid #000", padding: "15px" }}>
-        <div style={{ fontSize: "12px", fontWeight: "700", marginBottom: "8px" }}>INVOICE DETAILS:</div>
+        <div style={{ fontSize: "12px", fontWeight: "700", marginBottom: "8px" }}>{labelsFor(data).title.toUpperCase()} DETAILS:</div>
         <div style={{ fontSize: "13px", lineHeight: "1.8" }}>
-          <strong>Invoice No:</strong> {data.billNumber}<br />
-          <strong>Invoice Date:</strong> {formatDate(data.billDate, "long")}<br />
-          <strong>Due Date:</strong> {formatDate(data.dueDate, "long")}<br />
+          <strong>{labelsFor(data).title} No:</strong> {data.billNumber}<br />
+          <strong>{labelsFor(data).title} Date:</strong> {formatDate(data.billDate, "long")}<br />
+          <strong>{labelsFor(data).dueDate}:</strong> {formatDate(data.dueDate, "long")}<br />
           <strong>Place of Supply:</strong> {data.customerState || "N/A"}
         </div>
       </div>
@@ -455,6 +689,9 @@ export const GSTCompliantTemplate: React.FC<{ data: InvoiceData }> = ({ data })
           <th style={{ padding: "10px", textAlign: "right", fontSize: "11px", fontWeight: "700", border: "1px solid #000" }}>QTY</th>
           <th style={{ padding: "10px", textAlign: "right", fontSize: "11px", fontWeight: "700", border: "1px solid #000" }}>RATE</th>
           <th style={{ padding: "10px", textAlign: "right", fontSize: "11px", fontWeight: "700", border: "1px solid #000" }}>DISC%</th>
+          {data.includeGST && (
+            <th style={{ padding: "10px", textAlign: "right", fontSize: "11px", fontWeight: "700", border: "1px solid #000" }}>GST%</th>
+          )}
           <th style={{ padding: "10px", textAlign: "right", fontSize: "11px", fontWeight: "700", border: "1px solid #000" }}>TAXABLE VALUE</th>
         </tr>
       </thead>
@@ -470,68 +707,58 @@ export const GSTCompliantTemplate: React.FC<{ data: InvoiceData }> = ({ data })
             <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>{item.quantity}</td>
             <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>{data.currencySymbol}{formatAmount(parseFloat(item.price))}</td>
             <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>{item.discount}%</td>
+            {data.includeGST && (
+              <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>{item.taxRate || data.gstRate}%</td>
+            )}
             <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", fontWeight: "600", border: "1px solid #000" }}>{data.currencySymbol}{formatAmount(parseFloat(item.amount))}</td>
           </tr>
         ))}
+        {(data.discountAmount ?? 0) > 0 && (
+          <>
+            <tr>
+              <td colSpan={data.includeGST ? 7 : 6} style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>TOTAL:</td>
+              <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</td>
+            </tr>
+            <tr>
+              <td colSpan={data.includeGST ? 7 : 6} style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>LESS: DISCOUNT:</td>
+              <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", border: "1px solid #000" }}>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</td>
+            </tr>
+          </>
+        )}
         <tr style={{ backgroundColor: "#FEF3C7" }}>
-          <td colSpan={6} style={{ padding: "10px", textAlign: "right", fontSize: "13px", fontWeight: "700", border: "1px solid #000" }}>TAXABLE AMOUNT:</td>
-          <td style={{ padding: "10px", textAlign: "right", fontSize: "14px", fontWeight: "700", border: "1px solid #000" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</td>
+          <td colSpan={data.includeGST ? 7 : 6} style={{ padding: "10px", textAlign: "right", fontSize: "13px", fontWeight: "700", border: "1px solid #000" }}>TAXABLE AMOUNT:</td>
+          <td style={{ padding: "10px", textAlign: "right", fontSize: "14px", fontWeight: "700", border: "1px solid #000" }}>{data.currencySymbol}{formatAmount(data.subtotal - (data.discountAmount ?? 0))}</td>
         </tr>
       </tbody>
     </table>
 
-    {/* Tax Breakdown */}
-    {data.includeGST && (
-      <div style={{ marginBottom: "15px", border: "1px solid #000" }}>
-        <div style={{ backgroundColor: "#F59E0B", padding: "8px", fontSize: "12px", fontWeight: "700", borderBottom: "1px solid #000" }}>TAX SUMMARY:</div>
-        <table style={{ width: "100%", borderCollapse: "collapse" }}>
-          <thead>
-            <tr style={{ backgroundColor: "#FEF3C7" }}>
-              <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "left" }}>TAX TYPE</th>
-              <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>RATE</th>
-              <th style={{ padding: "8px", fontSize: "11px", fontWeight: "700", border: "1px solid #000", textAlign: "right" }}>AMOUNT</th>
-            </tr>
-          </thead>
-          <tbody>
-            {data.gstType === "cgst_sgst" ? (
-              <>
-                <tr>
-                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000" }}>CGST</td>
-                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{data.gstRate / 2}%</td>
-                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right", fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cgst || 0)}</td>
-                </tr>
-                <tr>
-                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000" }}>SGST</td>
-                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{data.gstRate / 2}%</td>
-                  <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right", fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.sgst || 0)}</td>
-                </tr>
-              </>
-            ) : (
-              <tr>
-                <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000" }}>IGST</td>
-                <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right" }}>{data.gstRate}%</td>
-                <td style={{ padding: "8px", fontSize: "12px", border: "1px solid #000", textAlign: "right", fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.igst || 0)}</td>
-              </tr>
-            )}
-          </tbody>
-        </table>
-      </div>
-    )}
+    {/* Rate-wise Tax Breakup */}
+    {data.includeGST && <GSTTaxBreakupTable data={data} />}
 
     {/* Grand Total */}
     <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: "20px" }}>
       <div style={{ width: "400px", border: "2px solid #000", backgroundColor: "#FEF3C7" }}>
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 15px", fontSize: "13px", borderBottom: "1px solid #000" }}>
+            <span>ROUND OFF:</span>
+            <span>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
         <div style={{ display: "flex", justifyContent: "space-between", padding: "15px", fontSize: "20px", fontWeight: "700" }}>
           <span>GRAND TOTAL:</span>
           <span>{data.currencySymbol}{formatAmount(data.total)}</span>
         </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
       </div>
     </div>
 
     {/* Amount in Words */}
     <div style={{ marginBottom: "20px", padding: "12px", border: "1px solid #000", backgroundColor: "#FFFBEB" }}>
       <div style={{ fontSize: "11px", fontWeight: "700", marginBottom: "5px" }}>AMOUNT IN WORDS:</div>
-      <div style={{ fontSize: "14px", fontWeight: "600", fontStyle: "italic" }}>{numberToWords(data.total)}</div>
+      <div style={{ fontSize: "14px", fontWeight: "600", fontStyle: "italic" }}>{numberToWords(data.total, data.currencyCode)}</div>
     </div>
 
     {/* Bank Details */}
@@ -573,12 +800,12 @@ export const MinimalTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
   <div style={{ fontFamily: "'Helvetica Neue', Arial, sans-serif", maxWidth: "750px", margin: "0 auto", padding: "50px 40px", backgroundColor: "#fff" }}>
     <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "50px", paddingBottom: "20px", borderBottom: "1px solid #000" }}>
       <div>
-        <h1 style={{ margin: "0", fontSize: "36px", fontWeight: "300", letterSpacing: "2px", color: "#000" }}>INVOICE</h1>
+        <h1 style={{ margin: "0", fontSize: "36px", fontWeight: "300", letterSpacing: "2px", color: "#000" }}>{labelsFor(data).title.toUpperCase()}</h1>
         <div style={{ marginTop: "10px", fontSize: "14px", color: "#666" }}>#{data.billNumber}</div>
       </div>
       <div style={{ textAlign: "right", fontSize: "13px", color: "#666", lineHeight: "1.8" }}>
         <div>Date: {formatDate(data.billDate, "long")}</div>
-        <div>Due: {formatDate(data.dueDate, "long")}</div>
+        <div>{labelsFor(data).due}: {formatDate(data.dueDate, "long")}</div>
       </div>
     </div>
 
@@ -631,16 +858,38 @@ export const MinimalTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
           <span>Subtotal</span>
           <span>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
         </div>
+        {(data.discountAmount ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px", color: "#666" }}>
+            <span>Discount</span>
+            <span>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+          </div>
+        )}
         {data.includeGST && (
           <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px", color: "#666" }}>
-            <span>Tax ({data.gstRate}%)</span>
+            <span>Tax{taxRateSuffix(data)}</span>
             <span>{data.currencySymbol}{formatAmount(data.gstAmount)}</span>
           </div>
         )}
+        {(data.cess ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px", color: "#666" }}>
+            <span>Cess</span>
+            <span>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+          </div>
+        )}
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "14px", color: "#666" }}>
+            <span>Round off</span>
+            <span>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
         <div style={{ display: "flex", justifyContent: "space-between", padding: "15px 0", fontSize: "20px", fontWeight: "600", color: "#000", borderTop: "2px solid #000", marginTop: "10px" }}>
           <span>Total</span>
           <span>{data.currencySymbol}{formatAmount(data.total)}</span>
         </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
       </div>
     </div>
 
@@ -664,7 +913,7 @@ export const RetailTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
     </div>
 
     <div style={{ textAlign: "center", marginBottom: "15px", fontSize: "11px", color: "#666" }}>
-      <div>INVOICE: {data.billNumber}</div>
+      <div>{labelsFor(data).title.toUpperCase()}: {data.billNumber}</div>
       <div>DATE: {formatDate(data.billDate)}</div>
       <div>TIME: {new Date().toLocaleTimeString()}</div>
     </div>
@@ -700,16 +949,38 @@ export const RetailTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
         <span>SUBTOTAL:</span>
         <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
       </div>
+      {(data.discountAmount ?? 0) > 0 && (
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "5px 0" }}>
+          <span>DISCOUNT:</span>
+          <span style={{ fontWeight: "600" }}>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+        </div>
+      )}
       {data.includeGST && (
         <div style={{ display: "flex", justifyContent: "space-between", padding: "5px 0" }}>
-          <span>TAX ({data.gstRate}%):</span>
+          <span>TAX{taxRateSuffix(data)}:</span>
           <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.gstAmount)}</span>
         </div>
       )}
+      {(data.cess ?? 0) > 0 && (
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "5px 0" }}>
+          <span>CESS:</span>
+          <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+        </div>
+      )}
+      {(data.roundOff ?? 0) !== 0 && (
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "5px 0" }}>
+          <span>ROUND OFF:</span>
+          <span style={{ fontWeight: "600" }}>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+        </div>
+      )}
       <div style={{ display: "flex", justifyContent: "space-between", padding: "10px 0", fontSize: "16px", fontWeight: "700", borderTop: "2px dashed #FF6B6B", marginTop: "5px" }}>
         <span>TOTAL:</span>
         <span>{data.currencySymbol}{formatAmount(data.total)}</span>
       </div>
+      <ExchangeRateNote data={data} />
+      <EInvoiceDetails data={data} />
+      <EWayBillNote data={data} />
+      <UpiPaymentQr data={data} />
     </div>
 
     <div style={{ textAlign: "center", fontSize: "11px", color: "#666", paddingTop: "15px", borderTop: "2px dashed #FF6B6B" }}>
@@ -726,10 +997,10 @@ export const StripeTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
     <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "50px" }}>
       <div>
         {data.businessLogo && <img src={data.businessLogo} alt="Logo" style={{ height: "40px", marginBottom: "20px" }} />}
-        <h1 style={{ margin: "0", fontSize: "32px", fontWeight: "600", color: "#1A1A1A" }}>Invoice</h1>
+        <h1 style={{ margin: "0", fontSize: "32px", fontWeight: "600", color: "#1A1A1A" }}>{labelsFor(data).title}</h1>
       </div>
       <div style={{ textAlign: "right" }}>
-        <div style={{ fontSize: "14px", color: "#697386", marginBottom: "4px" }}>Invoice number</div>
+        <div style={{ fontSize: "14px", color: "#697386", marginBottom: "4px" }}>{labelsFor(data).title} number</div>
         <div style={{ fontSize: "18px", fontWeight: "600", color: "#1A1A1A", marginBottom: "16px" }}>{data.billNumber}</div>
         <div style={{ display: "inline-block", padding: "4px 12px", backgroundColor: "#F6F9FC", border: "1px solid #E3E8EE", borderRadius: "4px", fontSize: "13px", color: "#697386" }}>
           {data.status || "Draft"}
@@ -760,12 +1031,12 @@ export const StripeTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
       </div>
 
       <div>
-        <div style={{ fontSize: "12px", fontWeight: "600", color: "#697386", textTransform: "uppercase", letterSpacing: "0.5px", marginBottom: "8px" }}>Invoice Date</div>
+        <div style={{ fontSize: "12px", fontWeight: "600", color: "#697386", textTransform: "uppercase", letterSpacing: "0.5px", marginBottom: "8px" }}>{labelsFor(data).title} Date</div>
         <div style={{ fontSize: "14px", color: "#1A1A1A" }}>{formatDate(data.billDate, "long")}</div>
       </div>
 
       <div>
-        <div style={{ fontSize: "12px", fontWeight: "600", color: "#697386", textTransform: "uppercase", letterSpacing: "0.5px", marginBottom: "8px" }}>Due Date</div>
+        <div style={{ fontSize: "12px", fontWeight: "600", color: "#697386", textTransform: "uppercase", letterSpacing: "0.5px", marginBottom: "8px" }}>{labelsFor(data).dueDate}</div>
         <div style={{ fontSize: "14px", color: "#1A1A1A" }}>{formatDate(data.dueDate, "long")}</div>
       </div>
     </div>
@@ -802,16 +1073,38 @@ export const StripeTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
           <span>Subtotal</span>
           <span>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
         </div>
+        {(data.discountAmount ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "12px 0", fontSize: "15px", color: "#697386" }}>
+            <span>Discount</span>
+            <span>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+          </div>
+        )}
         {data.includeGST && (
           <div style={{ display: "flex", justifyContent: "space-between", padding: "12px 0", fontSize: "15px", color: "#697386" }}>
-            <span>Tax ({data.gstRate}%)</span>
+            <span>Tax{taxRateSuffix(data)}</span>
             <span>{data.currencySymbol}{formatAmount(data.gstAmount)}</span>
           </div>
         )}
+        {(data.cess ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "12px 0", fontSize: "15px", color: "#697386" }}>
+            <span>Cess</span>
+            <span>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+          </div>
+        )}
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "12px 0", fontSize: "15px", color: "#697386" }}>
+            <span>Round off</span>
+            <span>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
         <div style={{ display: "flex", justifyContent: "space-between", padding: "16px 0", fontSize: "18px", fontWeight: "600", color: "#1A1A1A", borderTop: "2px solid #E3E8EE" }}>
           <span>Amount due</span>
           <span>{data.currencySymbol}{formatAmount(data.total)}</span>
         </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
       </div>
     </div>
 
@@ -833,16 +1126,16 @@ export const QuickBooksTemplate: React.FC<{ data: InvoiceData }> = ({ data }) =>
       <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start" }}>
         <div>
           {data.businessLogo && <img src={data.businessLogo} alt="Logo" style={{ height: "50px", marginBottom: "15px" }} />}
-          <h1 style={{ margin: "0", fontSize: "36px", fontWeight: "700", color: "#393A3D" }}>INVOICE</h1>
+          <h1 style={{ margin: "0", fontSize: "36px", fontWeight: "700", color: "#393A3D" }}>{labelsFor(data).title.toUpperCase()}</h1>
         </div>
         <div style={{ textAlign: "right" }}>
           <div style={{ backgroundColor: "#2CA01C", color: "white", padding: "8px 16px", borderRadius: "4px", marginBottom: "10px" }}>
-            <div style={{ fontSize: "12px", opacity: 0.9 }}>Invoice #</div>
+            <div style={{ fontSize: "12px", opacity: 0.9 }}>{labelsFor(data).title} #</div>
             <div style={{ fontSize: "18px", fontWeight: "700" }}>{data.billNumber}</div>
           </div>
           <div style={{ fontSize: "13px", color: "#5F6368" }}>
             <div>Date: {formatDate(data.billDate)}</div>
-            <div>Due: {formatDate(data.dueDate)}</div>
+            <div>{labelsFor(data).due}: {formatDate(data.dueDate)}</div>
           </div>
         </div>
       </div>
@@ -912,28 +1205,50 @@ export const QuickBooksTemplate: React.FC<{ data: InvoiceData }> = ({ data }) =>
           <span>Subtotal:</span>
           <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
         </div>
+        {(data.discountAmount ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#5F6368" }}>
+            <span>Discount:</span>
+            <span style={{ fontWeight: "600" }}>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+          </div>
+        )}
         {data.includeGST && gstType === "cgst_sgst" && (
           <>
             <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#5F6368" }}>
-              <span>CGST ({data.gstRate / 2}%):</span>
+              <span>CGST{taxRateSuffix(data, 2)}:</span>
               <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cgst || 0)}</span>
             </div>
             <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#5F6368" }}>
-              <span>SGST ({data.gstRate / 2}%):</span>
+              <span>SGST{taxRateSuffix(data, 2)}:</span>
               <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.sgst || 0)}</span>
             </div>
           </>
         )}
         {data.includeGST && data.gstType === "igst" && (
           <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#5F6368" }}>
-            <span>Tax ({data.gstRate}%):</span>
+            <span>Tax{taxRateSuffix(data)}:</span>
             <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.gstAmount)}</span>
           </div>
         )}
+        {(data.cess ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#5F6368" }}>
+            <span>Cess:</span>
+            <span style={{ fontWeight: "600" }}>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+          </div>
+        )}
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", fontSize: "14px", color: "#5F6368" }}>
+            <span>Round off:</span>
+            <span style={{ fontWeight: "600" }}>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
         <div style={{ display: "flex", justifyContent: "space-between", padding: "16px 0", fontSize: "20px", fontWeight: "700", color: "#2CA01C", borderTop: "2px solid #2CA01C", marginTop: "10px" }}>
           <span>TOTAL:</span>
           <span>{data.currencySymbol}{formatAmount(data.total)}</span>
         </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
       </div>
     </div>
 
@@ -955,8 +1270,443 @@ export const QuickBooksTemplate: React.FC<{ data: InvoiceData }> = ({ data }) =>
   </div>
 );
 
-// Template Renderer Function
-export function renderInvoiceTemplate(templateId: string, data: InvoiceData): React.ReactNode {
+// Delivery Challan Template
+export const DeliveryChallanTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
+  <div style={{ fontFamily: "Arial, sans-serif", maxWidth: "850px", margin: "0 auto", padding: "30px", backgroundColor: "#fff", border: "2px solid #0F766E" }}>
+    <div style={{ textAlign: "center", borderBottom: "2px solid #0F766E", paddingBottom: "12px", marginBottom: "20px" }}>
+      <h1 style={{ margin: "0", fontSize: "28px", fontWeight: "700", color: "#0F766E" }}>{labelsFor(data).title.toUpperCase()}</h1>
+      <div style={{ fontSize: "12px", color: "#6B7280", marginTop: "4px" }}>Goods sent for delivery • Not a tax invoice</div>
+    </div>
+
+    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: "0", border: "1px solid #0F766E", marginBottom: "20px" }}>
+      <div style={{ padding: "12px", borderRight: "1px solid #0F766E" }}>
+        <div style={{ fontSize: "11px", fontWeight: "700", color: "#0F766E", marginBottom: "6px" }}>CONSIGNOR</div>
+        <div style={{ fontSize: "15px", fontWeight: "700", color: "#111827" }}>{data.businessName}</div>
+        <div style={{ fontSize: "12px", lineHeight: "1.6", color: "#374151" }}>
+          {data.businessAddress}<br />
+          {data.businessPhone}<br />
+          {data.businessGST && <>GSTIN: {data.businessGST}</>}
+        </div>
+      </div>
+      <div style={{ padding: "12px", borderRight: "1px solid #0F766E" }}>
+        <div style={{ fontSize: "11px", fontWeight: "700", color: "#0F766E", marginBottom: "6px" }}>CONSIGNEE</div>
+        <div style={{ fontSize: "15px", fontWeight: "700", color: "#111827" }}>{data.customerName}</div>
+        <div style={{ fontSize: "12px", lineHeight: "1.6", color: "#374151" }}>
+          {data.customerAddress}<br />
+          {data.customerPhone}<br />
+          {data.customerGST && <>GSTIN: {data.customerGST}</>}
+        </div>
+      </div>
+      <div style={{ padding: "12px" }}>
+        <div style={{ fontSize: "11px", fontWeight: "700", color: "#0F766E", marginBottom: "6px" }}>CHALLAN DETAILS</div>
+        <div style={{ fontSize: "12px", lineHeight: "1.8", color: "#111827" }}>
+          <strong>Challan No:</strong> {data.billNumber}<br />
+          <strong>Date:</strong> {formatDate(data.billDate, "long")}<br />
+          {data.dueDate && <><strong>{labelsFor(data).dueDate}:</strong> {formatDate(data.dueDate, "long")}</>}
+        </div>
+      </div>
+    </div>
+
+    <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "20px", border: "1px solid #0F766E" }}>
+      <thead>
+        <tr style={{ backgroundColor: "#F0FDFA" }}>
+          <th style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "11px", textAlign: "center" }}>S.No</th>
+          <th style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "11px", textAlign: "left" }}>Description of Goods</th>
+          <th style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "11px", textAlign: "center" }}>HSN</th>
+          <th style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "11px", textAlign: "right" }}>Quantity</th>
+          <th style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "11px", textAlign: "right" }}>Approx. Value</th>
+        </tr>
+      </thead>
+      <tbody>
+        {data.items.map((item, index) => (
+          <tr key={item.id}>
+            <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "12px", textAlign: "center" }}>{index + 1}</td>
+            <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "12px" }}>
+              <div style={{ fontWeight: "600" }}>{item.name}</div>
+              {item.description && <div style={{ fontSize: "11px", color: "#6B7280" }}>{item.description}</div>}
+            </td>
+            <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "12px", textAlign: "center" }}>{item.hsn || "-"}</td>
+            <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "13px", textAlign: "right", fontWeight: "700" }}>{item.quantity}</td>
+            <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "12px", textAlign: "right" }}>{data.currencySymbol}{formatAmount(parseFloat(item.amount))}</td>
+          </tr>
+        ))}
+        <tr style={{ backgroundColor: "#F0FDFA", fontWeight: "700" }}>
+          <td colSpan={3} style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "12px", textAlign: "right" }}>Total</td>
+          <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "13px", textAlign: "right" }}>
+            {formatAmount(data.items.reduce((sum, item) => sum + (parseFloat(item.quantity) || 0), 0))}
+          </td>
+          <td style={{ padding: "10px", border: "1px solid #0F766E", fontSize: "12px", textAlign: "right" }}>{data.currencySymbol}{formatAmount(data.subtotal)}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    {data.notes && (
+      <div style={{ fontSize: "12px", color: "#374151", marginBottom: "20px", whiteSpace: "pre-wrap" }}>
+        <strong>Remarks:</strong> {data.notes}
+      </div>
+    )}
+
+    <div style={{ display: "flex", justifyContent: "space-between", marginTop: "50px", fontSize: "12px", color: "#111827" }}>
+      <div style={{ textAlign: "center" }}>
+        <div style={{ borderTop: "1px solid #111827", paddingTop: "6px", width: "200px" }}>Received in good condition</div>
+        <div style={{ color: "#6B7280", marginTop: "2px" }}>Receiver's signature</div>
+      </div>
+      <div style={{ textAlign: "center" }}>
+        <div style={{ fontWeight: "700", marginBottom: "36px" }}>For {data.businessName}</div>
+        <div style={{ borderTop: "1px solid #111827", paddingTop: "6px", width: "200px" }}>Authorised Signatory</div>
+      </div>
+    </div>
+  </div>
+);
+
+// Proforma Invoice Template
+export const ProformaTemplate: React.FC<{ data: InvoiceData }> = ({ data }) => (
+  <div style={{ fontFamily: "Inter, sans-serif", maxWidth: "850px", margin: "0 auto", padding: "40px", backgroundColor: "#fff" }}>
+    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "30px", paddingBottom: "20px", borderBottom: "3px solid #7C3AED" }}>
+      <div>
+        <h2 style={{ margin: "0", fontSize: "24px", color: "#111827" }}>{data.businessName}</h2>
+        <p style={{ margin: "6px 0 0", fontSize: "13px", color: "#6B7280", lineHeight: "1.6" }}>
+          {data.businessAddress}<br />
+          {data.businessPhone} {data.businessEmail && <>| {data.businessEmail}</>}<br />
+          {data.businessGST && <>GSTIN: {data.businessGST}</>}
+        </p>
+      </div>
+      <div style={{ textAlign: "right" }}>
+        <h1 style={{ margin: "0", fontSize: "28px", fontWeight: "700", color: "#7C3AED" }}>{labelsFor(data).title.toUpperCase()}</h1>
+        <div style={{ fontSize: "14px", color: "#111827", marginTop: "6px" }}>#{data.billNumber}</div>
+        <div style={{ fontSize: "13px", color: "#6B7280" }}>Date: {formatDate(data.billDate, "long")}</div>
+        {data.dueDate && <div style={{ fontSize: "13px", color: "#6B7280" }}>{labelsFor(data).due}: {formatDate(data.dueDate, "long")}</div>}
+      </div>
+    </div>
+
+    <div style={{ backgroundColor: "#F5F3FF", padding: "16px 20px", borderRadius: "8px", marginBottom: "24px" }}>
+      <div style={{ fontSize: "11px", fontWeight: "700", color: "#7C3AED", marginBottom: "6px" }}>PREPARED FOR</div>
+      <div style={{ fontSize: "16px", fontWeight: "700", color: "#111827" }}>{data.customerName}</div>
+      <div style={{ fontSize: "13px", color: "#4B5563", lineHeight: "1.6" }}>
+        {data.customerAddress}<br />
+        {data.customerPhone} {data.customerEmail && <>| {data.customerEmail}</>}<br />
+        {data.customerGST && <>GSTIN: {data.customerGST}</>}
+      </div>
+    </div>
+
+    <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "24px" }}>
+      <thead>
+        <tr style={{ backgroundColor: "#7C3AED", color: "white" }}>
+          <th style={{ padding: "10px", textAlign: "left", fontSize: "12px" }}>ITEM</th>
+          <th style={{ padding: "10px", textAlign: "center", fontSize: "12px" }}>HSN</th>
+          <th style={{ padding: "10px", textAlign: "right", fontSize: "12px" }}>QTY</th>
+          <th style={{ padding: "10px", textAlign: "right", fontSize: "12px" }}>RATE</th>
+          <th style={{ padding: "10px", textAlign: "right", fontSize: "12px" }}>DISC%</th>
+          <th style={{ padding: "10px", textAlign: "right", fontSize: "12px" }}>AMOUNT</th>
+        </tr>
+      </thead>
+      <tbody>
+        {data.items.map((item, index) => (
+          <tr key={item.id} style={{ backgroundColor: index % 2 === 0 ? "#FFFFFF" : "#FAF5FF", borderBottom: "1px solid #E5E7EB" }}>
+            <td style={{ padding: "10px", fontSize: "13px" }}>
+              <div style={{ fontWeight: "500" }}>{item.name}</div>
+              {item.description && <div style={{ fontSize: "11px", color: "#6B7280" }}>{item.description}</div>}
+            </td>
+            <td style={{ padding: "10px", textAlign: "center", fontSize: "12px", color: "#6B7280" }}>{item.hsn || "-"}</td>
+            <td style={{ padding: "10px", textAlign: "right", fontSize: "13px" }}>{item.quantity}</td>
+            <td style={{ padding: "10px", textAlign: "right", fontSize: "13px" }}>{data.currencySymbol}{formatAmount(parseFloat(item.price))}</td>
+            <td style={{ padding: "10px", textAlign: "right", fontSize: "13px" }}>{item.discount}%</td>
+            <td style={{ padding: "10px", textAlign: "right", fontSize: "13px", fontWeight: "600" }}>{data.currencySymbol}{formatAmount(parseFloat(item.amount))}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: "24px" }}>
+      <div style={{ width: "300px", fontSize: "14px", color: "#4B5563" }}>
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+          <span>Subtotal</span>
+          <span>{data.currencySymbol}{formatAmount(data.subtotal)}</span>
+        </div>
+        {(data.discountAmount ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+            <span>Discount</span>
+            <span>-{data.currencySymbol}{formatAmount(data.discountAmount ?? 0)}</span>
+          </div>
+        )}
+        {data.includeGST && data.gstType === "cgst_sgst" && (
+          <>
+            <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+              <span>CGST{taxRateSuffix(data, 2)}</span>
+              <span>{data.currencySymbol}{formatAmount(data.cgst || 0)}</span>
+            </div>
+            <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+              <span>SGST{taxRateSuffix(data, 2)}</span>
+              <span>{data.currencySymbol}{formatAmount(data.sgst || 0)}</span>
+            </div>
+          </>
+        )}
+        {data.includeGST && data.gstType === "igst" && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+            <span>IGST{taxRateSuffix(data)}</span>
+            <span>{data.currencySymbol}{formatAmount(data.igst || 0)}</span>
+          </div>
+        )}
+        {(data.cess ?? 0) > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+            <span>Cess</span>
+            <span>{data.currencySymbol}{formatAmount(data.cess ?? 0)}</span>
+          </div>
+        )}
+        {(data.roundOff ?? 0) !== 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "6px 0" }}>
+            <span>Round off</span>
+            <span>{(data.roundOff ?? 0) > 0 ? "+" : "-"}{data.currencySymbol}{formatAmount(Math.abs(data.roundOff ?? 0))}</span>
+          </div>
+        )}
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "12px 0", marginTop: "6px", borderTop: "2px solid #7C3AED", fontSize: "18px", fontWeight: "700", color: "#7C3AED" }}>
+          <span>Amount Payable</span>
+          <span>{data.currencySymbol}{formatAmount(data.total)}</span>
+        </div>
+        <ExchangeRateNote data={data} />
+        <EInvoiceDetails data={data} />
+        <EWayBillNote data={data} />
+        <UpiPaymentQr data={data} />
+        <div style={{ fontSize: "11px", fontStyle: "italic", textAlign: "right" }}>{numberToWords(data.total, data.currencyCode)}</div>
+      </div>
+    </div>
+
+    {data.paymentInstructions && (
+      <div style={{ padding: "14px", backgroundColor: "#F5F3FF", borderLeft: "4px solid #7C3AED", marginBottom: "16px" }}>
+        <div style={{ fontSize: "12px", fontWeight: "700", color: "#7C3AED", marginBottom: "6px" }}>PAYMENT INSTRUCTIONS</div>
+        <div style={{ fontSize: "12px", color: "#4B5563", whiteSpace: "pre-wrap" }}>{data.paymentInstructions}</div>
+      </div>
+    )}
+
+    {data.termsAndConditions && (
+      <div style={{ fontSize: "11px", color: "#6B7280", lineHeight: "1.6", whiteSpace: "pre-wrap", marginBottom: "16px" }}>
+        <strong>Terms & Conditions:</strong><br />
+        {data.termsAndConditions}
+      </div>
+    )}
+
+    <div style={{ textAlign: "center", fontSize: "11px", color: "#6B7280", borderTop: "1px solid #E5E7EB", paddingTop: "12px" }}>
+      This is a proforma invoice and not a demand for payment under GST. A tax invoice will be issued on supply.
+    </div>
+  </div>
+);
+
+// ==================== CUSTOM TEMPLATES ====================
+
+// Renders a user-designed template block by block, in the saved order
+export const CustomTemplate: React.FC<{ data: InvoiceData; definition: CustomTemplateDefinition }> = ({ data, definition }) => {
+  const { colors, columns, customFields } = definition;
+  const labels = labelsFor(data);
+  const base = definition.fontSize;
+  const money = (value: number) => `${data.currencySymbol}${formatAmount(value)}`;
+  const logo = definition.logo.placement !== "none" ? definition.logo.image ?? data.businessLogo : undefined;
+  const muted = { color: "#6B7280" };
+  const sectionTitle: React.CSSProperties = { fontSize: `${base - 1}pt`, fontWeight: 700, color: colors.primary, textTransform: "uppercase", marginBottom: "4px" };
+  const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #E5E7EB" };
+  const headCell: React.CSSProperties = { ...cell, backgroundColor: colors.tableHeader, color: colors.tableHeaderText, fontSize: `${base - 1}pt`, fontWeight: 700, borderBottom: `2px solid ${colors.primary}` };
+  const taxRows = getTaxBreakup(data);
+
+  const blocks: Record<TemplateBlockType, () => React.ReactNode> = {
+    header: () => {
+      const logoImage = logo ? <img src={logo} alt="Logo" style={{ maxHeight: "60px", maxWidth: "180px" }} /> : null;
+      const centered = definition.logo.placement === "center";
+
+      return (
+        <div style={{ display: "flex", flexDirection: centered ? "column" : definition.logo.placement === "right" ? "row-reverse" : "row", alignItems: centered ? "center" : "flex-start", justifyContent: "space-between", gap: "16px", paddingBottom: "14px", marginBottom: "18px", borderBottom: `2px solid ${colors.primary}`, textAlign: centered ? "center" : undefined }}>
+          <div style={{ display: "flex", flexDirection: centered ? "column" : "row", alignItems: "center", gap: "12px" }}>
+            {logoImage}
+            <div>
+              <div style={{ fontSize: `${base + 7}pt`, fontWeight: 700 }}>{data.businessName}</div>
+              {customFields.map(field => (
+                <div key={field.label} style={{ fontSize: `${base - 1}pt`, ...muted }}>{field.label}: {field.value}</div>
+              ))}
+            </div>
+          </div>
+          <div style={{ textAlign: centered ? "center" : definition.logo.placement === "right" ? "left" : "right" }}>
+            <div style={{ fontSize: `${base + 9}pt`, fontWeight: 700, color: colors.primary }}>
+              {(data.includeGST ? labels.gstTitle : labels.title).toUpperCase()}
+            </div>
+            <div style={{ marginTop: "4px", lineHeight: 1.6 }}>
+              <div><span style={muted}>{labels.title} #:</span> {data.billNumber}</div>
+              <div><span style={muted}>Date:</span> {formatDate(data.billDate, "long")}</div>
+              {data.dueDate && <div><span style={muted}>{labels.due}:</span> {formatDate(data.dueDate, "long")}</div>}
+            </div>
+          </div>
+        </div>
+      );
+    },
+    parties: () => (
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "24px", marginBottom: "18px" }}>
+        <div>
+          <div style={sectionTitle}>From</div>
+          <div style={{ fontWeight: 700 }}>{data.businessName}</div>
+          <div style={{ ...muted, lineHeight: 1.5, whiteSpace: "pre-wrap" }}>
+            {[data.businessAddress, data.businessPhone, data.businessEmail, data.businessGST && `GSTIN: ${data.businessGST}`].filter(Boolean).join("\n")}
+          </div>
+        </div>
+        <div>
+          <div style={sectionTitle}>Bill To</div>
+          <div style={{ fontWeight: 700 }}>{data.customerName || "-"}</div>
+          <div style={{ ...muted, lineHeight: 1.5, whiteSpace: "pre-wrap" }}>
+            {[data.customerAddress, data.customerPhone, data.customerEmail, data.customerGST && `GSTIN: ${data.customerGST}`].filter(Boolean).join("\n")}
+          </div>
+        </div>
+      </div>
+    ),
+    items: () => (
+      <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "14px" }}>
+        <thead>
+          <tr>
+            <th style={{ ...headCell, textAlign: "left" }}>#</th>
+            <th style={{ ...headCell, textAlign: "left" }}>ITEM</th>
+            {columns.hsn && <th style={{ ...headCell, textAlign: "center" }}>HSN/SAC</th>}
+            {columns.quantity && <th style={{ ...headCell, textAlign: "right" }}>QTY</th>}
+            {columns.price && <th style={{ ...headCell, textAlign: "right" }}>RATE</th>}
+            {columns.discount && <th style={{ ...headCell, textAlign: "right" }}>DISC %</th>}
+            {columns.tax_rate && <th style={{ ...headCell, textAlign: "right" }}>GST %</th>}
+            <th style={{ ...headCell, textAlign: "right" }}>AMOUNT</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.items.map((item, index) => (
+            <tr key={item.id}>
+              <td style={{ ...cell, ...muted }}>{index + 1}</td>
+              <td style={cell}>
+                <div style={{ fontWeight: 600 }}>{item.name || "-"}</div>
+                {item.description && <div style={{ fontSize: `${base - 1}pt`, ...muted }}>{item.description}</div>}
+              </td>
+              {columns.hsn && <td style={{ ...cell, textAlign: "center", ...muted }}>{item.hsn || "-"}</td>}
+              {columns.quantity && <td style={{ ...cell, textAlign: "right" }}>{item.quantity}</td>}
+              {columns.price && <td style={{ ...cell, textAlign: "right" }}>{money(parseFloat(item.price) || 0)}</td>}
+              {columns.discount && <td style={{ ...cell, textAlign: "right" }}>{item.discount || 0}%</td>}
+              {columns.tax_rate && <td style={{ ...cell, textAlign: "right" }}>{item.taxRate || data.gstRate}%</td>}
+              <td style={{ ...cell, textAlign: "right", fontWeight: 600 }}>{money(parseFloat(item.amount) || 0)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ),
+    totals: () => (
+      <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: "18px" }}>
+        <div style={{ width: "320px" }}>
+          {[
+            ["Subtotal", data.subtotal, true],
+            ["Discount", -(data.discountAmount ?? 0), (data.discountAmount ?? 0) > 0],
+            [`CGST${taxRateSuffix(data, 2)}`, data.cgst || 0, data.includeGST && data.gstType === "cgst_sgst"],
+            [`SGST${taxRateSuffix(data, 2)}`, data.sgst || 0, data.includeGST && data.gstType === "cgst_sgst"],
+            [`IGST${taxRateSuffix(data)}`, data.igst || 0, data.includeGST && data.gstType === "igst"],
+            ["Cess", data.cess ?? 0, (data.cess ?? 0) > 0],
+            ["Round off", data.roundOff ?? 0, (data.roundOff ?? 0) !== 0],
+          ].filter(([, , show]) => show).map(([label, value]) => (
+            <div key={label as string} style={{ display: "flex", justifyContent: "space-between", padding: "4px 0" }}>
+              <span style={muted}>{label}</span>
+              <span style={{ fontWeight: 600 }}>{money(value as number)}</span>
+            </div>
+          ))}
+          <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 10px", marginTop: "6px", backgroundColor: colors.primary, color: "#fff", fontSize: `${base + 3}pt`, fontWeight: 700 }}>
+            <span>TOTAL</span>
+            <span>{money(data.total)}</span>
+          </div>
+          <div style={{ fontSize: `${base - 1}pt`, fontStyle: "italic", textAlign: "right", marginTop: "4px", ...muted }}>
+            {numberToWords(data.total, data.currencyCode)}
+          </div>
+          <ExchangeRateNote data={data} />
+          <EInvoiceDetails data={data} />
+          <EWayBillNote data={data} />
+          <UpiPaymentQr data={data} />
+        </div>
+      </div>
+    ),
+    tax_summary: () => data.includeGST && taxRows.length > 0 && (
+      <div style={{ marginBottom: "18px" }}>
+        <div style={sectionTitle}>Tax Summary</div>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...headCell, textAlign: "right" }}>GST RATE</th>
+              <th style={{ ...headCell, textAlign: "right" }}>TAXABLE VALUE</th>
+              <th style={{ ...headCell, textAlign: "right" }}>{data.gstType === "cgst_sgst" ? "CGST + SGST" : "IGST"}</th>
+              <th style={{ ...headCell, textAlign: "right" }}>CESS</th>
+              <th style={{ ...headCell, textAlign: "right" }}>TOTAL TAX</th>
+            </tr>
+          </thead>
+          <tbody>
+            {taxRows.map(row => (
+              <tr key={row.rate}>
+                <td style={{ ...cell, textAlign: "right" }}>{row.rate}%</td>
+                <td style={{ ...cell, textAlign: "right" }}>{money(row.taxableValue)}</td>
+                <td style={{ ...cell, textAlign: "right" }}>{money(row.cgst + row.sgst + row.igst)}</td>
+                <td style={{ ...cell, textAlign: "right" }}>{money(row.cess)}</td>
+                <td style={{ ...cell, textAlign: "right", fontWeight: 600 }}>{money(row.totalTax)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ),
+    bank: () => (data.bankDetails || data.paymentInstructions) && (
+      <div style={{ display: "grid", gridTemplateColumns: data.bankDetails && data.paymentInstructions ? "1fr 1fr" : "1fr", gap: "24px", marginBottom: "14px" }}>
+        {data.bankDetails && (
+          <div>
+            <div style={sectionTitle}>Bank Details</div>
+            <div style={{ whiteSpace: "pre-wrap", lineHeight: 1.5 }}>{data.bankDetails}</div>
+          </div>
+        )}
+        {data.paymentInstructions && (
+          <div>
+            <div style={sectionTitle}>Payment Instructions</div>
+            <div style={{ whiteSpace: "pre-wrap", lineHeight: 1.5, ...muted }}>{data.paymentInstructions}</div>
+          </div>
+        )}
+      </div>
+    ),
+    notes: () => (data.notes || data.termsAndConditions) && (
+      <div style={{ marginBottom: "14px" }}>
+        {data.notes && (
+          <div style={{ marginBottom: "10px" }}>
+            <div style={sectionTitle}>Notes</div>
+            <div style={{ whiteSpace: "pre-wrap", lineHeight: 1.5, ...muted }}>{data.notes}</div>
+          </div>
+        )}
+        {data.termsAndConditions && (
+          <div>
+            <div style={sectionTitle}>Terms & Conditions</div>
+            <div style={{ whiteSpace: "pre-wrap", lineHeight: 1.5, ...muted }}>{data.termsAndConditions}</div>
+          </div>
+        )}
+      </div>
+    ),
+    signature: () => (
+      <div style={{ display: "flex", justifyContent: "flex-end", marginTop: "24px" }}>
+        <div style={{ textAlign: "right" }}>
+          <div style={{ fontWeight: 700 }}>For {data.businessName}</div>
+          <div style={{ marginTop: "40px", paddingTop: "4px", borderTop: "1px solid #9CA3AF", ...muted }}>Authorised Signatory</div>
+        </div>
+      </div>
+    ),
+  };
+
+  return (
+    <div style={{ fontFamily: TEMPLATE_FONTS[definition.font].css, fontSize: `${base}pt`, color: colors.text, maxWidth: "850px", margin: "0 auto", padding: "40px", backgroundColor: "#fff" }}>
+      {visibleBlocks(definition).map(type => (
+        <React.Fragment key={type}>{blocks[type]()}</React.Fragment>
+      ))}
+      {definition.footerMessage && (
+        <div style={{ marginTop: "24px", textAlign: "center", fontSize: `${base - 1}pt`, ...muted }}>{definition.footerMessage}</div>
+      )}
+    </div>
+  );
+};
+
+// Template Renderer Function. Custom templates are looked up by id first.
+export function renderInvoiceTemplate(
+  templateId: string,
+  data: InvoiceData,
+  customTemplates: CustomInvoiceTemplate[] = []
+): React.ReactNode {
+  const custom = findCustomTemplate(templateId, customTemplates);
+  if (custom) return <CustomTemplate data={data} definition={custom.definition} />;
+
   const templates: Record<string, React.ComponentType<{ data: InvoiceData }>> = {
     modern: ModernTemplate,
     classic: ClassicTemplate,
@@ -965,6 +1715,8 @@ export function renderInvoiceTemplate(templateId: string, data: InvoiceData): Re
     quickbooks: QuickBooksTemplate,
     "gst-compliant": GSTCompliantTemplate,
     retail: RetailTemplate,
+    "delivery-challan": DeliveryChallanTemplate,
+    proforma: ProformaTemplate,
     // Add more templates as needed
   };
 
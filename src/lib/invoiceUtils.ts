@@ -1,26 +1,159 @@
 // Invoice System - Utility Functions
 // Comprehensive calculations, validations, and helper functions
 
-import { InvoiceData, InvoiceItem, InvoiceCalculation, CurrencyContext } from "@/types/invoice";
+import { InvoiceData, InvoiceItem, InvoiceCalculation, CurrencyContext, DocumentType, RoundOffMode, TaxBreakupRow } from "@/types/invoice";
+
+/** A priced line, as both InvoiceItem and BillItem can describe it */
+export interface TaxableLine {
+  quantity: number;
+  unitPrice: number;
+  discountPercentage: number;
+  taxRate: number;
+  cessRate?: number;
+  taxInclusive?: boolean; // unitPrice already includes GST and cess
+}
+
+export interface CalculatedLine extends TaxableLine {
+  amount: number; // Net of the line discount, tax backed out if inclusive
+  taxableValue: number; // After the invoice discount share
+  tax: number;
+  cess: number;
+}
+
+export interface TaxTotals {
+  lines: CalculatedLine[];
+  subtotal: number;
+  discountAmount: number;
+  taxableValue: number;
+  taxAmount: number;
+  cessAmount: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Line value net of its discount and of tax when the price is tax-inclusive
+ */
+function lineNetAmount(line: TaxableLine): number {
+  const gross = line.quantity * line.unitPrice * (1 - line.discountPercentage / 100);
+  if (!line.taxInclusive) return gross;
+  return gross / (1 + (line.taxRate + (line.cessRate || 0)) / 100);
+}
+
+/**
+ * Tax each line at its own rate. The invoice-level discount is taken off
+ * before tax, shared across lines in proportion to their value.
+ */
+export function calculateTaxTotals(lines: TaxableLine[], invoiceDiscount: number = 0): TaxTotals {
+  const amounts = lines.map(lineNetAmount);
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  const discountAmount = Math.min(Math.max(invoiceDiscount, 0), subtotal);
+  const discountShare = subtotal > 0 ? discountAmount / subtotal : 0;
+
+  const calculated = lines.map((line, index) => {
+    const taxableValue = amounts[index] * (1 - discountShare);
+    return {
+      ...line,
+      amount: round2(amounts[index]),
+      taxableValue: round2(taxableValue),
+      tax: round2((taxableValue * line.taxRate) / 100),
+      cess: round2((taxableValue * (line.cessRate || 0)) / 100),
+    };
+  });
+
+  const taxableValue = subtotal - discountAmount;
+  const taxAmount = calculated.reduce((sum, line) => sum + line.tax, 0);
+  const cessAmount = calculated.reduce((sum, line) => sum + line.cess, 0);
+
+  return {
+    lines: calculated,
+    subtotal: round2(subtotal),
+    discountAmount: round2(discountAmount),
+    taxableValue: round2(taxableValue),
+    taxAmount: round2(taxAmount),
+    cessAmount: round2(cessAmount),
+    total: round2(taxableValue + taxAmount + cessAmount),
+  };
+}
+
+/**
+ * Group calculated lines by GST rate for the rate-wise tax breakup
+ */
+export function buildTaxBreakup(
+  lines: CalculatedLine[],
+  gstType: "none" | "igst" | "cgst_sgst"
+): TaxBreakupRow[] {
+  const byRate = new Map<number, TaxBreakupRow>();
+
+  lines.forEach(line => {
+    const row = byRate.get(line.taxRate) ?? {
+      rate: line.taxRate,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      cess: 0,
+      totalTax: 0,
+    };
+    row.taxableValue = round2(row.taxableValue + line.taxableValue);
+    row.cess = round2(row.cess + line.cess);
+    if (gstType === "igst") {
+      row.igst = round2(row.igst + line.tax);
+    } else if (gstType === "cgst_sgst") {
+      row.cgst = round2(row.cgst + line.tax / 2);
+      row.sgst = round2(row.sgst + line.tax / 2);
+    }
+    row.totalTax = round2(row.totalTax + line.tax + line.cess);
+    byRate.set(line.taxRate, row);
+  });
+
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+}
 
 /**
  * Calculate line item amount
- * Formula: (Quantity × Price) - (Discount%)
+ * Formula: (Quantity × Price) - (Discount%), with GST and cess backed out
+ * of tax-inclusive prices
  */
 export function calculateLineItemAmount(
   quantity: string,
   price: string,
-  discount: string
+  discount: string,
+  taxRate: number = 0,
+  cessRate: number = 0,
+  taxInclusive: boolean = false
 ): number {
-  const qty = parseFloat(quantity) || 0;
-  const prc = parseFloat(price) || 0;
-  const disc = parseFloat(discount) || 0;
-  
-  const amount = qty * prc;
-  const discountAmount = amount * (disc / 100);
-  const finalAmount = amount - discountAmount;
-  
-  return Math.round(finalAmount * 100) / 100; // Round to 2 decimals
+  const amount = lineNetAmount({
+    quantity: parseFloat(quantity) || 0,
+    unitPrice: parseFloat(price) || 0,
+    discountPercentage: parseFloat(discount) || 0,
+    taxRate,
+    cessRate,
+    taxInclusive,
+  });
+
+  return round2(amount); // Round to 2 decimals
+}
+
+/**
+ * Resolve an invoice item to a taxable line. Items without their own rate
+ * use the invoice rate; nothing is taxed when GST is off.
+ */
+export function invoiceItemToTaxableLine(
+  item: InvoiceItem,
+  gstRate: number,
+  includeGST: boolean
+): TaxableLine {
+  const lineRate = parseFloat(item.taxRate ?? "");
+  return {
+    quantity: parseFloat(item.quantity) || 0,
+    unitPrice: parseFloat(item.price) || 0,
+    discountPercentage: parseFloat(item.discount) || 0,
+    taxRate: includeGST ? (isNaN(lineRate) ? gstRate : lineRate) : 0,
+    cessRate: includeGST ? parseFloat(item.cessRate ?? "") || 0 : 0,
+    taxInclusive: includeGST && Boolean(item.taxInclusive),
+  };
 }
 
 /**
@@ -30,43 +163,58 @@ export function calculateInvoiceTotals(
   items: InvoiceItem[],
   gstRate: number,
   gstType: "none" | "igst" | "cgst_sgst",
-  includeGST: boolean
+  includeGST: boolean,
+  invoiceDiscount: number = 0,
+  roundOffMode: RoundOffMode = "none"
 ): InvoiceCalculation {
-  // Calculate subtotal
-  const subtotal = items.reduce((sum, item) => {
-    const amount = parseFloat(item.amount) || 0;
-    return sum + amount;
-  }, 0);
-
-  let gstAmount = 0;
-  let cgst = 0;
-  let sgst = 0;
-  let igst = 0;
-
-  if (includeGST && gstRate > 0) {
-    gstAmount = (subtotal * gstRate) / 100;
-
-    if (gstType === "cgst_sgst") {
-      cgst = gstAmount / 2;
-      sgst = gstAmount / 2;
-    } else if (gstType === "igst") {
-      igst = gstAmount;
-    }
-  }
+  const totals = calculateTaxTotals(
+    items.map(item => invoiceItemToTaxableLine(item, gstRate, includeGST)),
+    invoiceDiscount
+  );
 
-  const total = subtotal + gstAmount;
+  const taxBreakup = includeGST ? buildTaxBreakup(totals.lines, gstType) : [];
+  const cgst = taxBreakup.reduce((sum, row) => sum + row.cgst, 0);
+  const sgst = taxBreakup.reduce((sum, row) => sum + row.sgst, 0);
+  const igst = taxBreakup.reduce((sum, row) => sum + row.igst, 0);
+  const { total, roundOff } = applyRoundOff(totals.total, roundOffMode);
 
   return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    gstAmount: Math.round(gstAmount * 100) / 100,
-    cgst: Math.round(cgst * 100) / 100,
-    sgst: Math.round(sgst * 100) / 100,
-    igst: Math.round(igst * 100) / 100,
-    total: Math.round(total * 100) / 100,
-    amountInWords: numberToWords(total)
+    subtotal: totals.subtotal,
+    discountAmount: totals.discountAmount,
+    taxableValue: totals.taxableValue,
+    gstAmount: totals.taxAmount,
+    cgst: round2(cgst),
+    sgst: round2(sgst),
+    igst: round2(igst),
+    cess: totals.cessAmount,
+    roundOff,
+    total,
+    amountInWords: numberToWords(total),
+    lineAmounts: totals.lines.map(line => line.amount),
+    taxBreakup,
   };
 }
 
+/**
+ * Rate-wise tax breakup for a saved invoice, rebuilt from its items when
+ * the document predates per-line rates
+ */
+export function getTaxBreakup(data: InvoiceData): TaxBreakupRow[] {
+  if (data.taxBreakup && data.taxBreakup.length > 0) return data.taxBreakup;
+  return calculateInvoiceTotals(data.items, data.gstRate, data.gstType, data.includeGST, data.discountAmount).taxBreakup;
+}
+
+/**
+ * Rate shown beside a tax label, e.g. " (9%)". Blank when lines are taxed
+ * at different rates.
+ */
+export function taxRateSuffix(data: InvoiceData, divisor: number = 1): string {
+  const rates = getTaxBreakup(data).map(row => row.rate);
+  if (rates.length > 1) return "";
+  const rate = rates.length === 1 ? rates[0] : data.gstRate;
+  return ` (${rate / divisor}%)`;
+}
+
 /**
  * Validate GSTIN format
  * Format: 22AAAAA0000A1Z5 (15 characters)
@@ -130,6 +278,21 @@ export function validateHSNSAC(code: string): boolean {
   return hsnRegex.test(code.trim());
 }
 
+/** Inventory units mapped to GST unit quantity codes */
+const UQC_BY_UNIT: Record<string, string> = {
+  pcs: "NOS", pc: "NOS", piece: "NOS", pieces: "NOS", nos: "NOS", unit: "UNT", units: "UNT",
+  kg: "KGS", kgs: "KGS", g: "GMS", gm: "GMS", gms: "GMS", ton: "TON",
+  l: "LTR", ltr: "LTR", litre: "LTR", liter: "LTR", ml: "MLT",
+  m: "MTR", mtr: "MTR", meter: "MTR", metre: "MTR", cm: "CMS", ft: "FTS",
+  box: "BOX", boxes: "BOX", pack: "PAC", packet: "PAC", dozen: "DOZ", doz: "DOZ",
+  bag: "BAG", bags: "BAG", bottle: "BTL", bottles: "BTL", set: "SET", sets: "SET", pair: "PRS",
+};
+
+/**
+ * GST unit quantity code (UQC) for an inventory unit; OTH when unknown
+ */
+export const toUqc = (unit?: string | null): string => UQC_BY_UNIT[(unit ?? "").trim().toLowerCase()] ?? "OTH";
+
 /**
  * Generate auto invoice number
  * Format: INV-YYYY-0001
@@ -144,12 +307,25 @@ export function generateInvoiceNumber(
   return `${prefix}-${currentYear}-${nextNumber}`;
 }
 
+/**
+ * Currency names used when writing an amount in words. Foreign currencies
+ * are written with millions and billions rather than lakhs and crores.
+ */
+const CURRENCY_WORDS: Record<string, { major: string; minor: string; international: boolean }> = {
+  INR: { major: "Rupees", minor: "Paise", international: false },
+  USD: { major: "US Dollars", minor: "Cents", international: true },
+  GBP: { major: "Pounds Sterling", minor: "Pence", international: true },
+  EUR: { major: "Euros", minor: "Cents", international: true },
+};
+
 /**
  * Convert number to words (for amount in words)
- * Supports Indian numbering system
+ * Supports Indian numbering system. With a currency code the currency is
+ * named, e.g. "Rupees One Hundred Only" or "One Hundred US Dollars Only".
  */
-export function numberToWords(num: number): string {
-  if (num === 0) return "Zero";
+export function numberToWords(num: number, currencyCode?: string): string {
+  const currencyWords = currencyCode ? CURRENCY_WORDS[currencyCode] : undefined;
+  if (num === 0) return currencyWords ? `Zero ${currencyWords.major} Only` : "Zero";
 
   const ones = [
     "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine"
@@ -181,6 +357,16 @@ export function numberToWords(num: number): string {
 
     let result = "";
 
+    if (currencyWords?.international) {
+      ([[1000000000, "Billion"], [1000000, "Million"], [1000, "Thousand"]] as const).forEach(([size, name]) => {
+        if (n >= size) {
+          result += convertLessThanThousand(Math.floor(n / size)) + ` ${name} `;
+          n %= size;
+        }
+      });
+      return (result + convertLessThanThousand(n)).trim();
+    }
+
     // Crores
     if (n >= 10000000) {
       result += convertLessThanThousand(Math.floor(n / 10000000)) + " Crore ";
@@ -210,6 +396,14 @@ export function numberToWords(num: number): string {
   const integerPart = Math.floor(num);
   const decimalPart = Math.round((num - integerPart) * 100);
 
+  if (currencyWords) {
+    const major = currencyCode === "INR"
+      ? `${currencyWords.major} ${convertToWords(integerPart)}`
+      : `${convertToWords(integerPart)} ${currencyWords.major}`;
+    const minor = decimalPart > 0 ? ` and ${convertToWords(decimalPart)} ${currencyWords.minor}` : "";
+    return `${major}${minor} Only`;
+  }
+
   let words = convertToWords(integerPart);
 
   if (decimalPart > 0) {
@@ -219,6 +413,37 @@ export function numberToWords(num: number): string {
   return words + " Only";
 }
 
+/**
+ * Round a total to the nearest rupee or 50 paise.
+ * Returns the rounded total and the adjustment shown as "Round off".
+ */
+export function applyRoundOff(total: number, mode: RoundOffMode = "none"): { total: number; roundOff: number } {
+  if (mode === "none") return { total, roundOff: 0 };
+
+  const step = Number(mode);
+  const rounded = Math.round(total / step) * step;
+  return { total: round2(rounded), roundOff: round2(rounded - total) };
+}
+
+/**
+ * Amount in the business's own currency for an invoice raised in a
+ * foreign currency at the given exchange rate
+ */
+export function toBaseCurrency(amount: number, currencyCode: string, exchangeRate?: number | null): number {
+  if (currencyCode === BASE_CURRENCY || !exchangeRate) return amount;
+  return round2(amount * exchangeRate);
+}
+
+/**
+ * A bill amount in the business's own currency, converted at the rate the
+ * bill was raised at. Ledgers, returns and reports add these up; the
+ * foreign amount is only for display and the PDF.
+ */
+export const billAmountInBase = (
+  amount: number,
+  bill: { currency_code?: string | null; exchange_rate?: number | null }
+): number => toBaseCurrency(amount, bill.currency_code ?? BASE_CURRENCY, bill.exchange_rate);
+
 /**
  * Currency formatting utility
  */
@@ -418,12 +643,12 @@ export function validateInvoiceData(data: Partial<InvoiceData>): {
 /**
  * Generate PDF filename
  */
-export function generatePDFFilename(invoiceNumber: string, customerName: string): string {
+export function generatePDFFilename(invoiceNumber: string, customerName: string, prefix: string = "Invoice"): string {
   const sanitizedInvoice = invoiceNumber.replace(/[^a-zA-Z0-9-]/g, "_");
   const sanitizedCustomer = customerName.replace(/[^a-zA-Z0-9-]/g, "_");
   const timestamp = new Date().getTime();
   
-  return `Invoice_${sanitizedInvoice}_${sanitizedCustomer}_${timestamp}.pdf`;
+  return `${prefix}_${sanitizedInvoice}_${sanitizedCustomer}_${timestamp}.pdf`;
 }
 
 /**
@@ -440,6 +665,33 @@ export const INDIAN_STATES = [
   "Delhi", "Jammu and Kashmir", "Ladakh", "Lakshadweep", "Puducherry"
 ];
 
+/**
+ * GST state codes (first two digits of a GSTIN) used as place of supply in returns
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir", "02": "Himachal Pradesh", "03": "Punjab", "04": "Chandigarh",
+  "05": "Uttarakhand", "06": "Haryana", "07": "Delhi", "08": "Rajasthan",
+  "09": "Uttar Pradesh", "10": "Bihar", "11": "Sikkim", "12": "Arunachal Pradesh",
+  "13": "Nagaland", "14": "Manipur", "15": "Mizoram", "16": "Tripura",
+  "17": "Meghalaya", "18": "Assam", "19": "West Bengal", "20": "Jharkhand",
+  "21": "Odisha", "22": "Chhattisgarh", "23": "Madhya Pradesh", "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu", "27": "Maharashtra", "29": "Karnataka",
+  "30": "Goa", "31": "Lakshadweep", "32": "Kerala", "33": "Tamil Nadu",
+  "34": "Puducherry", "35": "Andaman and Nicobar Islands", "36": "Telangana",
+  "37": "Andhra Pradesh", "38": "Ladakh", "97": "Other Territory"
+};
+
+/**
+ * Look up the GST state code for a state name
+ */
+export function getStateCodeFromName(state: string): string {
+  if (!state) return "";
+  const match = Object.entries(GST_STATE_CODES).find(
+    ([, name]) => name.toLowerCase() === state.trim().toLowerCase()
+  );
+  return match ? match[0] : "";
+}
+
 /**
  * GST rates dropdown options
  */
@@ -451,6 +703,20 @@ export const GST_RATES = [
   { value: 28, label: "28%" }
 ];
 
+/**
+ * Round-off options for invoice totals
+ */
+export const ROUND_OFF_OPTIONS: { value: RoundOffMode; label: string }[] = [
+  { value: "none", label: "No rounding" },
+  { value: "1", label: "Nearest ₹1" },
+  { value: "0.5", label: "Nearest ₹0.50" },
+];
+
+/**
+ * Currency the books are kept in; export invoices carry an exchange rate to it
+ */
+export const BASE_CURRENCY = "INR";
+
 /**
  * Payment terms options
  */
@@ -464,6 +730,24 @@ export const PAYMENT_TERMS = [
   { value: 90, label: "Net 90 days" }
 ];
 
+/**
+ * Headings and date labels for each document type rendered through the
+ * invoice templates
+ */
+export interface DocumentLabels {
+  title: string; // "Invoice"
+  gstTitle: string; // Heading on the GST template
+  due: string; // Short label next to dueDate
+  dueDate: string; // Long label next to dueDate
+}
+
+export const DOCUMENT_LABELS: Record<DocumentType, DocumentLabels> = {
+  invoice: { title: "Invoice", gstTitle: "Tax Invoice", due: "Due", dueDate: "Due Date" },
+  quotation: { title: "Quotation", gstTitle: "Quotation", due: "Valid until", dueDate: "Valid Until" },
+  delivery_challan: { title: "Delivery Challan", gstTitle: "Delivery Challan", due: "Delivery", dueDate: "Delivery Date" },
+  proforma: { title: "Proforma Invoice", gstTitle: "Proforma Invoice", due: "Valid until", dueDate: "Valid Until" },
+};
+
 /**
  * Default terms and conditions
  */
@@ -0,0 +1,190 @@
+/**
+ * Numbering Series
+ * Token templates for document numbers, e.g. {PREFIX}/{FY}/{SEQ:0000} gives
+ * INV/2026-27/0001, and the missing/duplicate number check run over a
+ * series' documents.
+ */
+
+// ==================== TOKENS ====================
+
+export const DEFAULT_SERIES_FORMAT = '{PREFIX}/{FY}/{SEQ:0000}';
+
+/** Period key of series that never reset */
+export const ALL_PERIODS = 'all';
+
+export const NUMBERING_TOKENS: { token: string; description: string }[] = [
+  { token: '{PREFIX}', description: "The series' prefix" },
+  { token: '{FY}', description: 'Financial year, e.g. 2026-27' },
+  { token: '{YYYY}', description: 'Year of the document date' },
+  { token: '{YY}', description: 'Two-digit year' },
+  { token: '{MM}', description: 'Two-digit month' },
+  { token: '{SEQ:0000}', description: 'Running number, padded to the number of zeros' },
+];
+
+const TOKEN_REGEX = /\{([A-Z]+)(?::(0+))?\}/g;
+const KNOWN_TOKENS = ['PREFIX', 'FY', 'YYYY', 'YY', 'MM', 'SEQ'];
+
+// Numbers end up in file names and GST returns; keep to safe characters
+const LITERAL_REGEX = /^[A-Za-z0-9/_-]*$/;
+
+export interface SeriesNumberContext {
+  prefix: string;
+  sequence: number;
+  date: Date;
+  fiscalYear: string; // e.g. 2026-27
+}
+
+/**
+ * Check a format string. Returns an error message, or null when valid.
+ */
+export function validateSeriesFormat(format: string): string | null {
+  const tokens = [...format.matchAll(TOKEN_REGEX)];
+  const unknown = tokens.find(match => !KNOWN_TOKENS.includes(match[1]));
+  if (unknown) return `Unknown token ${unknown[0]}`;
+
+  const sequences = tokens.filter(match => match[1] === 'SEQ').length;
+  if (sequences !== 1) return 'The format needs exactly one {SEQ} token';
+
+  if (!LITERAL_REGEX.test(format.replace(TOKEN_REGEX, ''))) {
+    return 'Only letters, numbers, "/", "-" and "_" are allowed outside tokens';
+  }
+  if (format.length > 40) return 'The format is too long';
+  return null;
+}
+
+/**
+ * Running number as it appears in the format, e.g. 42 -> 0042
+ */
+export function formatSequence(format: string, sequence: number): string {
+  const width = [...format.matchAll(TOKEN_REGEX)].find(match => match[1] === 'SEQ')?.[2]?.length ?? 1;
+  return String(sequence).padStart(width, '0');
+}
+
+export function formatSeriesNumber(format: string, { prefix, sequence, date, fiscalYear }: SeriesNumberContext): string {
+  return format.replace(TOKEN_REGEX, (token, name: string) => {
+    switch (name) {
+      case 'PREFIX': return prefix;
+      case 'FY': return fiscalYear;
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MM': return String(date.getMonth() + 1).padStart(2, '0');
+      case 'SEQ': return formatSequence(format, sequence);
+      default: return token;
+    }
+  });
+}
+
+/**
+ * {FY} value for a financial year: 2026-27, or 2026 for calendar years
+ */
+export function fiscalYearToken(startDate: string, endDate: string): string {
+  const startYear = startDate.slice(0, 4);
+  const endYear = endDate.slice(0, 4);
+  return startYear === endYear ? startYear : `${startYear}-${endYear.slice(-2)}`;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+
+/**
+ * Regex matching numbers of a series; the running number is group 1
+ */
+export function seriesNumberPattern(format: string, prefix: string): RegExp {
+  let pattern = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(TOKEN_REGEX)) {
+    pattern += escapeRegex(format.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    switch (match[1]) {
+      case 'PREFIX': pattern += escapeRegex(prefix); break;
+      case 'FY': pattern += '\\d{4}(?:-\\d{2})?'; break;
+      case 'YYYY': pattern += '\\d{4}'; break;
+      case 'YY':
+      case 'MM': pattern += '\\d{2}'; break;
+      case 'SEQ': pattern += '(\\d+)'; break;
+    }
+  }
+
+  return new RegExp(`^${pattern}${escapeRegex(format.slice(lastIndex))}$`);
+}
+
+// ==================== GAP DETECTION ====================
+
+export interface SeriesNumberEntry {
+  number: string;
+  period: string; // Financial year of the document, or ALL_PERIODS
+  deleted: boolean;
+}
+
+export interface NumberingGapReport {
+  period: string;
+  first: number;
+  last: number;
+  issued: number; // Distinct numbers in use, deleted documents included
+  missing: number[]; // Running numbers never issued between the start and the last number
+  duplicates: { number: string; count: number }[];
+  cancelled: string[]; // Numbers that only appear on deleted documents
+}
+
+/**
+ * Missing and duplicate numbers of a series, per period. Numbers on
+ * deleted documents count as issued, so a deleted invoice is reported as
+ * cancelled rather than missing.
+ */
+export function findNumberingGaps(
+  entries: SeriesNumberEntry[],
+  format: string,
+  prefix: string,
+  startNumber: number
+): NumberingGapReport[] {
+  const pattern = seriesNumberPattern(format, prefix);
+  const byPeriod = new Map<string, { number: string; sequence: number; deleted: boolean }[]>();
+
+  entries.forEach(entry => {
+    const match = entry.number.trim().match(pattern);
+    if (!match) return;
+    const rows = byPeriod.get(entry.period) ?? [];
+    rows.push({ number: entry.number.trim(), sequence: parseInt(match[1], 10), deleted: entry.deleted });
+    byPeriod.set(entry.period, rows);
+  });
+
+  return [...byPeriod.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([period, rows]) => {
+      const sequences = new Set(rows.map(row => row.sequence));
+      const last = Math.max(...sequences);
+      const first = Math.min(startNumber, ...sequences);
+
+      const missing: number[] = [];
+      for (let sequence = first; sequence <= last; sequence++) {
+        if (!sequences.has(sequence)) missing.push(sequence);
+      }
+
+      const activeCounts = new Map<string, number>();
+      rows.filter(row => !row.deleted).forEach(row => activeCounts.set(row.number, (activeCounts.get(row.number) ?? 0) + 1));
+
+      const duplicates = [...activeCounts.entries()]
+        .filter(([, count]) => count > 1)
+        .map(([number, count]) => ({ number, count }));
+      const cancelled = [...new Set(rows.filter(row => row.deleted && !activeCounts.has(row.number)).map(row => row.number))];
+
+      return { period, first, last, issued: sequences.size, missing, duplicates, cancelled };
+    });
+}
+
+/**
+ * Collapse running numbers into ranges for display, e.g. [3, 4, 5, 9] ->
+ * [[3, 5], [9, 9]]
+ */
+export function collapseSequences(sequences: number[]): [number, number][] {
+  return [...sequences].sort((a, b) => a - b).reduce<[number, number][]>((ranges, sequence) => {
+    const current = ranges[ranges.length - 1];
+    if (current && sequence === current[1] + 1) {
+      current[1] = sequence;
+    } else {
+      ranges.push([sequence, sequence]);
+    }
+    return ranges;
+  }, []);
+}
@@ -0,0 +1,245 @@
+/**
+ * Party Ledger
+ * Builds a customer's or supplier's ledger from the documents that move
+ * their balance. Amounts carry the sign of the stored balance: positive
+ * when the party owes us, negative when we owe them.
+ */
+
+import { billAmountInBase } from './invoiceUtils';
+
+// ==================== TYPES ====================
+
+export type LedgerPartyType = 'customer' | 'supplier';
+
+export type LedgerSource =
+  | 'transaction'
+  | 'invoice'
+  | 'purchase'
+  | 'bill_payment'
+  | 'receipt'
+  | 'credit_note'
+  | 'debit_note'
+  | 'opening'
+  | 'adjustment';
+
+export interface LedgerEntry {
+  id: string; // Source row id, prefixed with the source for bill payments
+  date: string; // yyyy-MM-dd
+  source: LedgerSource;
+  reference: string | null;
+  description: string;
+  amount: number;
+  balance: number; // Running balance after this entry
+}
+
+export interface LedgerTransactionRow {
+  id: string;
+  date: string;
+  type: 'gave' | 'got';
+  amount: number;
+  description: string | null;
+}
+
+export interface LedgerBillRow {
+  id: string;
+  bill_number: string;
+  date: string;
+  total_amount: number;
+  paid_amount: number;
+  status: string;
+  currency_code: string | null;
+  exchange_rate: number | null;
+}
+
+export interface LedgerReceiptRow {
+  id: string;
+  receipt_number: string;
+  date: string;
+  amount: number;
+  allocations: { bill_id: string; amount: number }[];
+  transaction_id: string | null;
+  deleted: boolean;
+}
+
+export interface LedgerNoteRow {
+  id: string;
+  note_number: string;
+  note_type: 'credit' | 'debit';
+  date: string;
+  total_amount: number;
+}
+
+// A party_ledger_entries row
+export interface LedgerAdjustmentRow {
+  id: string;
+  entry_type: 'opening' | 'adjustment';
+  date: string;
+  amount: number;
+  description: string | null;
+}
+
+export interface LedgerSources {
+  transactions: LedgerTransactionRow[];
+  bills: LedgerBillRow[];
+  receipts: LedgerReceiptRow[];
+  notes: LedgerNoteRow[];
+  adjustments: LedgerAdjustmentRow[];
+}
+
+export const EMPTY_LEDGER_SOURCES: LedgerSources = {
+  transactions: [],
+  bills: [],
+  receipts: [],
+  notes: [],
+  adjustments: [],
+};
+
+export const LEDGER_SOURCE_LABELS: Record<LedgerSource, string> = {
+  transaction: 'Entry',
+  invoice: 'Invoice',
+  purchase: 'Purchase',
+  bill_payment: 'Paid on bill',
+  receipt: 'Receipt',
+  credit_note: 'Credit note',
+  debit_note: 'Debit note',
+  opening: 'Opening balance',
+  adjustment: 'Adjustment',
+};
+
+// Differences below a paisa are rounding, not drift
+export const BALANCE_TOLERANCE = 0.01;
+
+// Bills that were never issued do not move the balance
+const UNPOSTED_BILL_STATUSES = ['draft', 'cancelled'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDay = (value: string) => (value ?? '').slice(0, 10);
+
+// ==================== LEDGER ====================
+
+/**
+ * Ledger entries for one party, oldest first, with a running balance.
+ *
+ * Receipts post through their ledger transaction; only receipts whose
+ * transaction was never recorded appear on their own. Bills post their
+ * total, and whatever was paid on the bill outside of receipts is posted as
+ * a separate payment.
+ */
+export function buildPartyLedger(partyType: LedgerPartyType, sources: LedgerSources): LedgerEntry[] {
+  const isCustomer = partyType === 'customer';
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+
+  sources.transactions.forEach(transaction => {
+    entries.push({
+      id: transaction.id,
+      date: toDay(transaction.date),
+      source: 'transaction',
+      reference: null,
+      description: transaction.description ?? (transaction.type === 'gave' ? 'You gave' : 'You got'),
+      amount: transaction.type === 'gave' ? transaction.amount : -transaction.amount,
+    });
+  });
+
+  // Receipt allocations stay on bills even after the receipt is deleted
+  const allocatedByReceipts = new Map<string, number>();
+  sources.receipts.forEach(receipt => {
+    receipt.allocations.forEach(allocation => {
+      allocatedByReceipts.set(allocation.bill_id, (allocatedByReceipts.get(allocation.bill_id) ?? 0) + Number(allocation.amount));
+    });
+  });
+
+  sources.bills
+    .filter(bill => !UNPOSTED_BILL_STATUSES.includes(bill.status))
+    .forEach(bill => {
+      const sign = isCustomer ? 1 : -1;
+      entries.push({
+        id: bill.id,
+        date: toDay(bill.date),
+        source: isCustomer ? 'invoice' : 'purchase',
+        reference: bill.bill_number,
+        description: `${isCustomer ? 'Invoice' : 'Purchase'} ${bill.bill_number}`,
+        amount: sign * billAmountInBase(bill.total_amount, bill),
+      });
+
+      const paidOnBill = billAmountInBase(round(bill.paid_amount - (allocatedByReceipts.get(bill.id) ?? 0)), bill);
+      if (paidOnBill > 0) {
+        entries.push({
+          id: `bill_payment:${bill.id}`,
+          date: toDay(bill.date),
+          source: 'bill_payment',
+          reference: bill.bill_number,
+          description: `Paid on ${bill.bill_number}`,
+          amount: -sign * paidOnBill,
+        });
+      }
+    });
+
+  sources.receipts
+    .filter(receipt => !receipt.deleted && !receipt.transaction_id)
+    .forEach(receipt => {
+      entries.push({
+        id: receipt.id,
+        date: toDay(receipt.date),
+        source: 'receipt',
+        reference: receipt.receipt_number,
+        description: `Receipt ${receipt.receipt_number}`,
+        amount: -receipt.amount,
+      });
+    });
+
+  sources.notes.forEach(note => {
+    // Credit notes reduce what the customer owes us, and what we owe a supplier
+    const sign = (note.note_type === 'credit' ? -1 : 1) * (isCustomer ? 1 : -1);
+    entries.push({
+      id: note.id,
+      date: toDay(note.date),
+      source: note.note_type === 'credit' ? 'credit_note' : 'debit_note',
+      reference: note.note_number,
+      description: `${note.note_type === 'credit' ? 'Credit' : 'Debit'} note ${note.note_number}`,
+      amount: sign * note.total_amount,
+    });
+  });
+
+  sources.adjustments.forEach(adjustment => {
+    const isOpening = adjustment.entry_type === 'opening';
+    entries.push({
+      id: adjustment.id,
+      date: toDay(adjustment.date),
+      source: isOpening ? 'opening' : 'adjustment',
+      reference: null,
+      description: adjustment.description ?? (isOpening ? 'Opening balance' : 'Balance adjustment'),
+      amount: adjustment.amount,
+    });
+  });
+
+  // Opening balances come before anything else posted on the same day
+  let balance = 0;
+  return entries
+    .sort((a, b) => a.date.localeCompare(b.date) || Number(b.source === 'opening') - Number(a.source === 'opening'))
+    .map(entry => {
+      balance = round(balance + entry.amount);
+      return { ...entry, amount: round(entry.amount), balance };
+    });
+}
+
+/**
+ * Closing balance of a ledger
+ */
+export const ledgerBalance = (entries: LedgerEntry[]): number =>
+  entries.length > 0 ? entries[entries.length - 1].balance : 0;
+
+/**
+ * Balance at the end of a day (yyyy-MM-dd), from a ledger sorted oldest first
+ */
+export function balanceAsOf(entries: LedgerEntry[], date: string): number {
+  let balance = 0;
+  for (const entry of entries) {
+    if (entry.date > date) break;
+    balance = entry.balance;
+  }
+  return balance;
+}
+
+export const hasDrift = (stored: number, ledger: number): boolean =>
+  Math.abs(round(stored - ledger)) >= BALANCE_TOLERANCE;
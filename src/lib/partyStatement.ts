@@ -0,0 +1,125 @@
+/**
+ * Party Statement of Account
+ * Opening balance, every ledger entry in a date range with a running
+ * balance, the closing balance and how old that balance is
+ */
+
+import { format, parseISO, subDays } from 'date-fns';
+import { ageLedger, DEFAULT_AGEING_BUCKETS, type AgeingAmount, type AgeingBucket } from './ageing';
+import { balanceAsOf, LEDGER_SOURCE_LABELS, type LedgerEntry, type LedgerPartyType } from './partyLedger';
+import { sanitizeFileName, type ReportExportOptions } from './reportExport';
+
+// ==================== TYPES ====================
+
+export interface StatementRow {
+  date: string; // yyyy-MM-dd
+  type: string;
+  reference: string;
+  description: string;
+  debit: number; // Raises what the party owes us
+  credit: number; // Lowers what the party owes us
+  balance: number;
+}
+
+export interface PartyStatement {
+  partyType: LedgerPartyType;
+  partyName: string;
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  rows: StatementRow[]; // Opening balance first
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  ageing: AgeingAmount[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== STATEMENT ====================
+
+/**
+ * Statement for one party from its ledger (oldest first) between two
+ * yyyy-MM-dd dates, both inclusive
+ */
+export function buildPartyStatement(
+  partyType: LedgerPartyType,
+  partyName: string,
+  entries: LedgerEntry[],
+  startDate: string,
+  endDate: string,
+  buckets: AgeingBucket[] = DEFAULT_AGEING_BUCKETS
+): PartyStatement {
+  const openingBalance = balanceAsOf(entries, format(subDays(parseISO(startDate), 1), 'yyyy-MM-dd'));
+  const inRange = entries.filter(entry => entry.date >= startDate && entry.date <= endDate);
+
+  const rows: StatementRow[] = [
+    {
+      date: startDate,
+      type: '',
+      reference: '',
+      description: 'Opening balance',
+      debit: 0,
+      credit: 0,
+      balance: openingBalance,
+    },
+    ...inRange.map(entry => ({
+      date: entry.date,
+      type: LEDGER_SOURCE_LABELS[entry.source],
+      reference: entry.reference ?? '',
+      description: entry.description,
+      debit: entry.amount > 0 ? entry.amount : 0,
+      credit: entry.amount < 0 ? -entry.amount : 0,
+      balance: entry.balance,
+    })),
+  ];
+
+  return {
+    partyType,
+    partyName,
+    startDate,
+    endDate,
+    openingBalance,
+    rows,
+    totalDebit: round(inRange.reduce((sum, entry) => sum + Math.max(entry.amount, 0), 0)),
+    totalCredit: round(inRange.reduce((sum, entry) => sum + Math.max(-entry.amount, 0), 0)),
+    closingBalance: balanceAsOf(entries, endDate),
+    ageing: ageLedger(entries, endDate, buckets),
+  };
+}
+
+/**
+ * Statement laid out for the shared PDF/XLSX report export
+ */
+export function statementExportOptions(
+  statement: PartyStatement,
+  options: { businessName?: string; formatCurrency: (amount: number) => string }
+): ReportExportOptions<StatementRow> {
+  const { formatCurrency } = options;
+  const formatDate = (value: string) => format(parseISO(value), 'dd MMM yyyy');
+  const formatBalance = (value: number) =>
+    `${formatCurrency(Math.abs(value))} ${value > 0 ? 'Dr' : value < 0 ? 'Cr' : ''}`.trim();
+
+  return {
+    title: `Statement of Account - ${statement.partyName}`,
+    subtitle: `${statement.partyType === 'customer' ? 'Customer' : 'Supplier'} • ${formatDate(statement.startDate)} to ${formatDate(statement.endDate)}`,
+    businessName: options.businessName,
+    columns: [
+      { header: 'Date', value: row => formatDate(row.date) },
+      { header: 'Type', value: row => row.type },
+      { header: 'Reference', value: row => row.reference },
+      { header: 'Description', value: row => row.description },
+      { header: 'Debit', value: row => row.debit || '', align: 'right' },
+      { header: 'Credit', value: row => row.credit || '', align: 'right' },
+      { header: 'Balance', value: row => formatBalance(row.balance), align: 'right' },
+    ],
+    rows: statement.rows,
+    footerRows: [['', '', '', 'Closing balance', statement.totalDebit, statement.totalCredit, formatBalance(statement.closingBalance)]],
+    summary: [
+      { label: 'Opening Balance', value: formatBalance(statement.openingBalance) },
+      { label: 'Closing Balance', value: formatBalance(statement.closingBalance) },
+      ...statement.ageing.map(({ bucket, amount }) => ({ label: bucket.label, value: formatBalance(amount) })),
+    ],
+    fileName: sanitizeFileName(`Statement_${statement.partyName}_${statement.startDate}_to_${statement.endDate}`),
+  };
+}
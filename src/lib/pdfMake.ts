@@ -0,0 +1,31 @@
+/**
+ * pdfmake Loader
+ * Shared by the invoice and report PDFs: Roboto (includes the ₹ glyph) is
+ * embedded, and pdfmake is only loaded when a PDF is first made.
+ */
+
+import type { TDocumentDefinitions } from 'pdfmake/interfaces';
+
+const PDF_FONTS = {
+  Roboto: {
+    normal: 'Roboto-Regular.ttf',
+    bold: 'Roboto-Medium.ttf',
+    italics: 'Roboto-Italic.ttf',
+    bolditalics: 'Roboto-MediumItalic.ttf',
+  },
+};
+
+/**
+ * Load pdfmake and its embedded fonts on first use so they stay out of the main bundle
+ */
+export async function loadPdfMake() {
+  const [pdfMakeModule, vfsModule]: any[] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    import('pdfmake/build/vfs_fonts'),
+  ]);
+
+  const pdfMake: typeof import('pdfmake/build/pdfmake') = pdfMakeModule.default ?? pdfMakeModule;
+  const vfs: Record<string, string> = vfsModule.default ?? vfsModule;
+
+  return (definition: TDocumentDefinitions) => pdfMake.createPdf(definition, undefined, PDF_FONTS, vfs);
+}
@@ -0,0 +1,34 @@
+/**
+ * QR Codes
+ * Encodes text as an SVG path for invoice templates. The PDF draws its own
+ * with pdfmake's qr node; both follow the QR standard, so they scan the same.
+ */
+
+import qrcode from 'qrcode-generator';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCodePath {
+  size: number; // Modules per side; use as the SVG viewBox
+  path: string; // One unit square per dark module
+}
+
+/**
+ * Build an SVG path for a QR code, e.g.
+ * <svg viewBox={`0 0 ${size} ${size}`}><path d={path} /></svg>
+ */
+export function buildQrCodePath(text: string, eccLevel: QrErrorCorrection = 'M'): QrCodePath {
+  const qr = qrcode(0, eccLevel); // Smallest version that fits the text
+  qr.addData(text);
+  qr.make();
+
+  const size = qr.getModuleCount();
+  const squares: string[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (qr.isDark(row, col)) squares.push(`M${col} ${row}h1v1h-1z`);
+    }
+  }
+
+  return { size, path: squares.join('') };
+}
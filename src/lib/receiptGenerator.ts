@@ -0,0 +1,304 @@
+/**
+ * Payment Receipt Generation
+ * Printable HTML receipt voucher with the amount written in words
+ */
+
+import type { Receipt } from '@/services/api/receiptsService';
+import { formatAmount, formatDate, numberToWords } from './invoiceUtils';
+
+export interface ReceiptBusinessInfo {
+  businessName?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+  phone?: string;
+  email?: string;
+  gstNumber?: string;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  bank: 'Bank Transfer',
+  card: 'Card',
+  cheque: 'Cheque',
+  other: 'Other',
+};
+
+/**
+ * Escape user-entered text before it goes into the HTML document
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Generate printable receipt HTML
+ */
+export function generateReceiptHTML(
+  receipt: Receipt,
+  business: ReceiptBusinessInfo,
+  currencySymbol: string = '₹'
+): string {
+  const businessName = escapeHtml(business.businessName || 'Your Company Name');
+  const businessAddress = escapeHtml(
+    [business.address, business.city, business.state, business.pincode].filter(Boolean).join(', ')
+  );
+  const amount = Number(receipt.amount);
+  const paymentMethod = PAYMENT_METHOD_LABELS[receipt.payment_method] ?? receipt.payment_method;
+
+  const allocationRows = receipt.allocations.map(allocation => `
+          <tr>
+            <td>${escapeHtml(allocation.bill_number)}</td>
+            <td class="amount">${currencySymbol}${formatAmount(Number(allocation.amount))}</td>
+          </tr>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Receipt ${escapeHtml(receipt.receipt_number)}</title>
+  <style>
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: 'Arial', 'Helvetica', sans-serif;
+      font-size: 12px;
+      line-height: 1.5;
+      color: #1f2937;
+      padding: 15px;
+      background: #ffffff;
+    }
+
+    .receipt-container {
+      max-width: 720px;
+      margin: 0 auto;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      overflow: hidden;
+    }
+
+    .header {
+      background: #00C48C;
+      color: white;
+      padding: 20px 25px;
+      text-align: center;
+    }
+
+    .company-name {
+      font-size: 22px;
+      font-weight: 700;
+    }
+
+    .company-info {
+      font-size: 11px;
+      opacity: 0.95;
+    }
+
+    .title {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 14px 25px;
+      border-bottom: 2px solid #e5e7eb;
+      background: #f9fafb;
+    }
+
+    .title h2 {
+      font-size: 16px;
+      letter-spacing: 2px;
+    }
+
+    .content {
+      padding: 20px 25px;
+    }
+
+    .row {
+      display: flex;
+      justify-content: space-between;
+      padding: 6px 0;
+      border-bottom: 1px dashed #e5e7eb;
+    }
+
+    .label {
+      color: #6b7280;
+    }
+
+    .value {
+      font-weight: 600;
+    }
+
+    .amount-box {
+      margin: 20px 0;
+      padding: 14px;
+      background: #ecfdf5;
+      border: 1px solid #a7f3d0;
+      border-radius: 6px;
+      text-align: center;
+    }
+
+    .amount-box .figure {
+      font-size: 24px;
+      font-weight: 700;
+      color: #047857;
+    }
+
+    .amount-words {
+      font-style: italic;
+      margin-top: 4px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      margin-top: 10px;
+    }
+
+    th, td {
+      padding: 8px;
+      border-bottom: 1px solid #e5e7eb;
+      text-align: left;
+    }
+
+    th {
+      background: #f3f4f6;
+      font-size: 11px;
+      text-transform: uppercase;
+    }
+
+    .amount {
+      text-align: right;
+    }
+
+    .signature {
+      margin-top: 50px;
+      display: flex;
+      justify-content: flex-end;
+    }
+
+    .signature div {
+      border-top: 1px solid #1f2937;
+      padding-top: 4px;
+      min-width: 200px;
+      text-align: center;
+    }
+
+    .footer {
+      background: #f9fafb;
+      padding: 12px 25px;
+      text-align: center;
+      border-top: 2px solid #e5e7eb;
+      font-size: 10px;
+      color: #6b7280;
+    }
+
+    @media print {
+      body {
+        padding: 0;
+      }
+
+      .receipt-container {
+        border: none;
+        border-radius: 0;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="receipt-container">
+    <div class="header">
+      <div class="company-name">${businessName}</div>
+      <div class="company-info">
+        ${businessAddress ? `<div>${businessAddress}</div>` : ''}
+        ${business.phone ? `<div>Phone: ${escapeHtml(business.phone)}</div>` : ''}
+        ${business.email ? `<div>Email: ${escapeHtml(business.email)}</div>` : ''}
+        ${business.gstNumber ? `<div>GSTIN: ${escapeHtml(business.gstNumber)}</div>` : ''}
+      </div>
+    </div>
+
+    <div class="title">
+      <h2>PAYMENT RECEIPT</h2>
+      <div>
+        <div><strong>No:</strong> ${escapeHtml(receipt.receipt_number)}</div>
+        <div><strong>Date:</strong> ${formatDate(receipt.date)}</div>
+      </div>
+    </div>
+
+    <div class="content">
+      <div class="row">
+        <span class="label">Received from</span>
+        <span class="value">${escapeHtml(receipt.customer_name)}</span>
+      </div>
+      <div class="row">
+        <span class="label">Payment mode</span>
+        <span class="value">${escapeHtml(paymentMethod)}</span>
+      </div>
+      ${receipt.reference_number ? `
+      <div class="row">
+        <span class="label">Reference</span>
+        <span class="value">${escapeHtml(receipt.reference_number)}</span>
+      </div>` : ''}
+
+      <div class="amount-box">
+        <div class="figure">${currencySymbol}${formatAmount(amount)}</div>
+        <div class="amount-words">${numberToWords(amount)}</div>
+      </div>
+
+      ${receipt.allocations.length > 0 ? `
+      <div><strong>Against bills</strong></div>
+      <table>
+        <thead>
+          <tr>
+            <th>Bill No.</th>
+            <th class="amount">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${allocationRows}
+          ${Number(receipt.unallocated_amount) > 0 ? `
+          <tr>
+            <td>On account (advance)</td>
+            <td class="amount">${currencySymbol}${formatAmount(Number(receipt.unallocated_amount))}</td>
+          </tr>` : ''}
+        </tbody>
+      </table>` : ''}
+
+      ${receipt.notes ? `<p style="margin-top: 16px;"><span class="label">Notes:</span> ${escapeHtml(receipt.notes)}</p>` : ''}
+
+      <div class="signature">
+        <div>For ${businessName}</div>
+      </div>
+    </div>
+
+    <div class="footer">
+      This is a computer-generated receipt.
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Print receipt (opens browser print dialog)
+ */
+export function printReceipt(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
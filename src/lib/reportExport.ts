@@ -0,0 +1,246 @@
+/**
+ * Report Export Utilities
+ * Shared PDF (print-ready HTML, or a pdfmake file download) and XLSX export
+ * for tabular reports
+ */
+
+import * as XLSX from 'xlsx';
+import type { Content, CustomTableLayout, TableCell, TDocumentDefinitions } from 'pdfmake/interfaces';
+import { loadPdfMake } from './pdfMake';
+
+export interface ReportColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+  align?: 'left' | 'right';
+}
+
+export interface ReportExportOptions<T> {
+  title: string;
+  subtitle?: string;
+  businessName?: string;
+  columns: ReportColumn<T>[];
+  rows: T[];
+  /** Label/value pairs shown above the table (PDF) or below it (XLSX) */
+  summary?: { label: string; value: string | number }[];
+  /** Optional rows appended after the data, e.g. totals */
+  footerRows?: (string | number)[][];
+  fileName: string;
+}
+
+/**
+ * Escape user-entered text before it goes into the HTML document
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Make a value safe for use in a file name
+ */
+export function sanitizeFileName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9-]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Export report rows to an XLSX workbook and download it
+ */
+export function exportReportToXLSX<T>(options: ReportExportOptions<T>, sheetName: string = 'Report'): void {
+  const header = options.columns.map(column => column.header);
+  const body = options.rows.map(row => options.columns.map(column => column.value(row)));
+
+  const sheetRows: (string | number)[][] = [
+    [options.title],
+    ...(options.subtitle ? [[options.subtitle]] : []),
+    [],
+    header,
+    ...body,
+    ...(options.footerRows ?? []),
+  ];
+
+  if (options.summary?.length) {
+    sheetRows.push([]);
+    options.summary.forEach(item => sheetRows.push([item.label, item.value]));
+  }
+
+  const worksheet = XLSX.utils.aoa_to_sheet(sheetRows);
+  worksheet['!cols'] = header.map((title, index) => ({
+    wch: Math.max(title.length, ...body.map(row => String(row[index] ?? '').length), 10) + 2,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName.slice(0, 31));
+  XLSX.writeFile(workbook, `${options.fileName}.xlsx`);
+}
+
+/**
+ * Build print-ready HTML for a report; the table header repeats on every page
+ */
+export function generateReportHTML<T>(options: ReportExportOptions<T>): string {
+  const headerCells = options.columns
+    .map(column => `<th class="${column.align === 'right' ? 'num' : ''}">${escapeHtml(column.header)}</th>`)
+    .join('');
+
+  const bodyRows = options.rows
+    .map(row => `<tr>${options.columns
+      .map(column => `<td class="${column.align === 'right' ? 'num' : ''}">${escapeHtml(String(column.value(row)))}</td>`)
+      .join('')}</tr>`)
+    .join('');
+
+  const footerRows = (options.footerRows ?? [])
+    .map(row => `<tr class="total">${row
+      .map((cell, index) => `<td class="${options.columns[index]?.align === 'right' ? 'num' : ''}">${escapeHtml(String(cell))}</td>`)
+      .join('')}</tr>`)
+    .join('');
+
+  const summary = (options.summary ?? [])
+    .map(item => `<div class="summary-item"><div class="label">${escapeHtml(item.label)}</div><div class="value">${escapeHtml(String(item.value))}</div></div>`)
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(options.fileName)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Arial', 'Helvetica', sans-serif; font-size: 11px; color: #1f2937; padding: 20px; }
+    h1 { font-size: 18px; margin-bottom: 2px; }
+    .business { font-size: 12px; color: #6b7280; margin-bottom: 2px; }
+    .subtitle { font-size: 11px; color: #6b7280; margin-bottom: 14px; }
+    .summary { display: flex; gap: 12px; margin-bottom: 14px; flex-wrap: wrap; }
+    .summary-item { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px 12px; min-width: 120px; }
+    .summary-item .label { color: #6b7280; font-size: 10px; text-transform: uppercase; }
+    .summary-item .value { font-size: 14px; font-weight: 700; }
+    table { width: 100%; border-collapse: collapse; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+    th { background: #f3f4f6; text-align: left; font-size: 10px; text-transform: uppercase; padding: 6px 8px; border-bottom: 2px solid #d1d5db; }
+    td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    .num { text-align: right; white-space: nowrap; }
+    tr.total td { font-weight: 700; border-top: 2px solid #1f2937; }
+    .footer { margin-top: 16px; font-size: 9px; color: #9ca3af; text-align: center; }
+    @page { size: A4; margin: 12mm; }
+    @media print { body { padding: 0; } }
+  </style>
+</head>
+<body>
+  ${options.businessName ? `<div class="business">${escapeHtml(options.businessName)}</div>` : ''}
+  <h1>${escapeHtml(options.title)}</h1>
+  ${options.subtitle ? `<div class="subtitle">${escapeHtml(options.subtitle)}</div>` : ''}
+  ${summary ? `<div class="summary">${summary}</div>` : ''}
+  <table>
+    <thead><tr>${headerCells}</tr></thead>
+    <tbody>${bodyRows}${footerRows}</tbody>
+  </table>
+  <div class="footer">Generated on ${new Date().toLocaleString('en-IN')}</div>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Open the report in a print window so it can be saved as PDF
+ */
+export function exportReportToPDF<T>(options: ReportExportOptions<T>): void {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(generateReportHTML(options));
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
+
+// ==================== PDFMAKE ====================
+
+const PDF_MUTED = '#6B7280';
+const PDF_BORDER = '#E5E7EB';
+
+/**
+ * A4 pdfmake document for a report; the table header repeats on every page
+ */
+export function buildReportPdfDefinition<T>(options: ReportExportOptions<T>): TDocumentDefinitions {
+  const alignOf = (index: number) => options.columns[index]?.align ?? 'left';
+
+  const headerRow: TableCell[] = options.columns.map(column => ({
+    text: column.header.toUpperCase(),
+    bold: true,
+    fontSize: 7,
+    color: '#374151',
+    alignment: column.align ?? 'left',
+  }));
+  const bodyRows: TableCell[][] = options.rows.map(row =>
+    options.columns.map(column => ({ text: String(column.value(row)), alignment: column.align ?? 'left' }))
+  );
+  const footerRows: TableCell[][] = (options.footerRows ?? []).map(row =>
+    options.columns.map((_, index) => ({ text: String(row[index] ?? ''), bold: true, alignment: alignOf(index) }))
+  );
+  const footerStart = 1 + bodyRows.length;
+
+  const layout: CustomTableLayout = {
+    fillColor: (rowIndex: number) => (rowIndex === 0 ? '#F3F4F6' : null),
+    hLineWidth: (i: number) => (i === 1 || (footerRows.length > 0 && i === footerStart) ? 1.5 : 0.5),
+    vLineWidth: () => 0,
+    hLineColor: (i: number) => (i === 1 ? '#D1D5DB' : i === footerStart ? '#1F2937' : PDF_BORDER),
+    paddingTop: () => 4,
+    paddingBottom: () => 4,
+  };
+
+  const summary: Content[] = options.summary?.length
+    ? [{
+        columns: options.summary.map(item => ({
+          width: 'auto',
+          stack: [
+            { text: item.label.toUpperCase(), fontSize: 7, color: PDF_MUTED },
+            { text: String(item.value), bold: true, fontSize: 10 },
+          ],
+        })),
+        columnGap: 16,
+        margin: [0, 0, 0, 12],
+      }]
+    : [];
+
+  return {
+    pageSize: 'A4',
+    pageMargins: [34, 34, 34, 44],
+    info: { title: options.title, author: options.businessName },
+    defaultStyle: { font: 'Roboto', fontSize: 8, color: '#1F2937' },
+    content: [
+      ...(options.businessName ? [{ text: options.businessName, fontSize: 9, color: PDF_MUTED }] : []),
+      { text: options.title, bold: true, fontSize: 14, margin: [0, 2, 0, 2] },
+      ...(options.subtitle ? [{ text: options.subtitle, color: PDF_MUTED, margin: [0, 0, 0, 12] } as Content] : []),
+      ...summary,
+      {
+        table: {
+          headerRows: 1,
+          dontBreakRows: true,
+          widths: options.columns.map(column => (column.align === 'right' ? 'auto' : '*')),
+          body: [headerRow, ...bodyRows, ...footerRows],
+        },
+        layout,
+      },
+    ],
+    footer: (currentPage: number, pageCount: number) => ({
+      columns: [
+        { text: `Generated on ${new Date().toLocaleString('en-IN')}`, color: PDF_MUTED },
+        { text: `Page ${currentPage} of ${pageCount}`, alignment: 'right', color: PDF_MUTED },
+      ],
+      fontSize: 7,
+      margin: [34, 16, 34, 0],
+    }),
+  };
+}
+
+/**
+ * Render the report with pdfmake and download it as a PDF file
+ */
+export async function downloadReportPdf<T>(options: ReportExportOptions<T>): Promise<void> {
+  const createPdf = await loadPdfMake();
+  createPdf(buildReportPdfDefinition(options)).download(`${options.fileName}.pdf`);
+}
@@ -0,0 +1,79 @@
+/**
+ * UPI Payments
+ * Builds upi://pay deep links that any UPI app can open or scan, for the
+ * payment QR on invoices and the link in payment reminders.
+ */
+
+import type { BusinessSettings } from '@/services/api/businessSettingsService';
+import type { InvoiceData, UpiPayee } from '@/types/invoice';
+import { BASE_CURRENCY } from './invoiceUtils';
+
+// ==================== TYPES ====================
+
+export interface UpiPaymentRequest {
+  upiId: string;
+  payeeName?: string;
+  amount: number;
+  note?: string; // Shown to the payer and on the payee's statement
+}
+
+// ==================== VALIDATION ====================
+
+const UPI_ID_REGEX = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,63}$/;
+
+// Longer transaction notes are truncated or rejected by some UPI apps
+const MAX_NOTE_LENGTH = 50;
+
+export const isValidUpiId = (upiId: string) => UPI_ID_REGEX.test(upiId.trim());
+
+// ==================== LINKS ====================
+
+/**
+ * Build a upi://pay link for a rupee amount. Returns null when the UPI ID
+ * is invalid or nothing is due.
+ */
+export function buildUpiPaymentLink({ upiId, payeeName, amount, note }: UpiPaymentRequest): string | null {
+  if (!isValidUpiId(upiId) || !(amount > 0)) return null;
+
+  const params: [string, string | undefined][] = [
+    ['pa', upiId.trim()],
+    ['pn', payeeName?.trim()],
+    ['am', amount.toFixed(2)],
+    ['cu', BASE_CURRENCY],
+    ['tn', note?.trim().slice(0, MAX_NOTE_LENGTH)],
+  ];
+
+  // Some UPI apps do not decode %40 in the payee address
+  return `upi://pay?${params
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`)
+    .join('&')}`;
+}
+
+/**
+ * Payee for invoice QR codes, when a valid UPI ID is set and the QR is
+ * switched on in settings
+ */
+export function getUpiPayee(settings: BusinessSettings | null): UpiPayee | undefined {
+  const upiId = settings?.upi_id?.trim();
+  if (!upiId || settings.invoice_upi_qr === false || !isValidUpiId(upiId)) return undefined;
+
+  return { upiId, payeeName: settings.business_name ?? '' };
+}
+
+/**
+ * Payment link for an invoice's balance due, noted with the bill number.
+ * UPI settles in rupees only, so export invoices get none; neither do
+ * quotations and delivery challans, which are not payable.
+ */
+export function getInvoiceUpiLink(data: InvoiceData): string | null {
+  const documentType = data.documentType ?? 'invoice';
+  if (!data.upiPayee || (documentType !== 'invoice' && documentType !== 'proforma')) return null;
+  if ((data.currencyCode || BASE_CURRENCY) !== BASE_CURRENCY) return null;
+
+  return buildUpiPaymentLink({
+    ...data.upiPayee,
+    amount: data.amountDue ?? data.total,
+    note: data.billNumber,
+  });
+}
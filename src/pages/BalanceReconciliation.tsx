@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Scale, Loader2, RefreshCw, CheckCircle2 } from "lucide-react";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import {
+  ledgerService,
+  type BalanceRepairMode,
+  type PartyBalanceDrift,
+} from "@/services/api/ledgerService";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const driftKey = (drift: PartyBalanceDrift) => `${drift.party_type}:${drift.party_id}`;
+
+export default function BalanceReconciliation() {
+  const { format: formatCurrency } = useCurrency();
+
+  const [drifts, setDrifts] = useState<PartyBalanceDrift[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [repairing, setRepairing] = useState<string | null>(null);
+
+  const handleRecompute = async () => {
+    setIsChecking(true);
+    const { data, error } = await ledgerService.reconcileBalances();
+    setIsChecking(false);
+
+    if (error || !data) {
+      toast.error("Failed to recompute balances", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    setDrifts(data);
+    if (data.length === 0) {
+      toast.success("Every balance matches its ledger");
+    }
+  };
+
+  const repair = async (drift: PartyBalanceDrift, mode: BalanceRepairMode): Promise<boolean> => {
+    const { success, error } = await ledgerService.repairBalance(drift, mode);
+    if (!success) {
+      toast.error(`Failed to repair ${drift.party_name}'s balance`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return false;
+    }
+
+    setDrifts(prev => (prev ?? []).filter(d => driftKey(d) !== driftKey(drift)));
+    return true;
+  };
+
+  const handleRepair = async (drift: PartyBalanceDrift, mode: BalanceRepairMode) => {
+    setRepairing(driftKey(drift));
+    const repaired = await repair(drift, mode);
+    setRepairing(null);
+
+    if (repaired) {
+      toast.success(
+        mode === "use_ledger"
+          ? `${drift.party_name}'s balance set to ${formatCurrency(drift.ledger)}`
+          : `Adjustment of ${formatCurrency(drift.drift)} posted to ${drift.party_name}'s ledger`
+      );
+    }
+  };
+
+  const handleRepairAll = async () => {
+    if (!drifts || drifts.length === 0) return;
+    if (!confirm(`Set ${drifts.length} stored balances to their ledger balance?`)) return;
+
+    setRepairing("all");
+    let repaired = 0;
+    for (const drift of drifts) {
+      if (await repair(drift, "use_ledger")) repaired++;
+    }
+    setRepairing(null);
+
+    toast.success(`${repaired} of ${drifts.length} balances repaired`);
+  };
+
+  const partyLabel = (drift: PartyBalanceDrift) => (drift.party_type === "customer" ? "Customer" : "Supplier");
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">Balance Reconciliation</h1>
+            <p className="text-sm text-muted-foreground">
+              Recompute every customer and supplier balance from their ledger and repair stored balances that drifted
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {drifts && drifts.length > 0 && (
+              <Button variant="outline" onClick={handleRepairAll} disabled={repairing !== null}>
+                Use ledger for all
+              </Button>
+            )}
+            <Button onClick={handleRecompute} disabled={isChecking || repairing !== null}>
+              {isChecking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Recompute balances
+            </Button>
+          </div>
+        </div>
+
+        {isChecking ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Recomputing balances...</h3>
+            <p className="text-sm text-muted-foreground">Reading every party's ledger</p>
+          </div>
+        ) : drifts === null ? (
+          <EmptyState
+            icon={Scale}
+            title="Check stored balances"
+            description="Balances shown in lists are stored alongside each party. Recompute them from transactions, invoices, receipts and notes to find any that drifted."
+            actionLabel="Recompute balances"
+            onAction={handleRecompute}
+          />
+        ) : drifts.length === 0 ? (
+          <EmptyState
+            icon={CheckCircle2}
+            title="All balances match"
+            description="Every stored customer and supplier balance equals its ledger balance."
+            actionLabel="Recompute again"
+            onAction={handleRecompute}
+          />
+        ) : (
+          <div className="grid gap-3">
+            {drifts.map(drift => {
+              const key = driftKey(drift);
+              const isBusy = repairing === key || repairing === "all";
+
+              return (
+                <Card key={key} className={cn("p-4 transition-all", isBusy && "opacity-70")}>
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-semibold truncate">{drift.party_name}</h3>
+                        <Badge variant="outline">{partyLabel(drift)}</Badge>
+                      </div>
+                      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                        <span>Stored: {formatCurrency(drift.stored)}</span>
+                        <span>Ledger: {formatCurrency(drift.ledger)}</span>
+                        <span className={drift.drift > 0 ? "text-red-500" : "text-green-600"}>
+                          Drift: {drift.drift > 0 ? "+" : ""}{formatCurrency(drift.drift)}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isBusy}
+                        onClick={() => handleRepair(drift, "keep_stored")}
+                        title="Keep the stored balance and post the difference to the ledger as an adjustment"
+                      >
+                        Keep stored
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => handleRepair(drift, "use_ledger")}
+                        title="Overwrite the stored balance with the ledger balance"
+                      >
+                        Use ledger
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
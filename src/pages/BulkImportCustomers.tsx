@@ -7,6 +7,8 @@ import { toast } from "sonner";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import * as XLSX from 'xlsx';
+import { format, isValid } from "date-fns";
+import { customersService } from "@/services/api/customersService";
 
 interface CustomerRow {
   name: string;
@@ -16,6 +18,7 @@ interface CustomerRow {
   gstNumber?: string;
   openingBalance?: number;
   balanceType: "credit" | "debit";
+  openingBalanceDate?: string; // yyyy-MM-dd
 }
 
 interface ValidationResult {
@@ -46,7 +49,8 @@ export default function BulkImportCustomers() {
         Address: "123 Main Street, City",
         "GST Number": "22AAAAA0000A1Z5",
         "Opening Balance": 5000,
-        "Balance Type": "credit"
+        "Balance Type": "credit",
+        "Opening Balance Date": "2026-04-01"
       },
       {
         Name: "Jane Smith",
@@ -55,7 +59,8 @@ export default function BulkImportCustomers() {
         Address: "456 Park Avenue, City",
         "GST Number": "",
         "Opening Balance": 0,
-        "Balance Type": "credit"
+        "Balance Type": "credit",
+        "Opening Balance Date": ""
       }
     ];
 
@@ -71,7 +76,8 @@ export default function BulkImportCustomers() {
       { wch: 30 }, // Address
       { wch: 20 }, // GST Number
       { wch: 15 }, // Opening Balance
-      { wch: 15 }  // Balance Type
+      { wch: 15 }, // Balance Type
+      { wch: 20 }  // Opening Balance Date
     ];
 
     XLSX.writeFile(workbook, "customer_import_template.xlsx");
@@ -117,6 +123,24 @@ export default function BulkImportCustomers() {
         return;
       }
 
+      // Opening balance date validation (if provided); Excel dates arrive as Date objects
+      const rawDate = row["Opening Balance Date"];
+      let openingBalanceDate: string | undefined;
+      if (rawDate instanceof Date) {
+        if (!isValid(rawDate)) {
+          errors.push(`Row ${rowNumber}: Invalid Opening Balance Date`);
+          return;
+        }
+        openingBalanceDate = format(rawDate, "yyyy-MM-dd");
+      } else if (rawDate && rawDate.toString().trim() !== "") {
+        const text = rawDate.toString().trim();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || !isValid(new Date(text))) {
+          errors.push(`Row ${rowNumber}: Opening Balance Date must be in YYYY-MM-DD format`);
+          return;
+        }
+        openingBalanceDate = text;
+      }
+
       // Email validation (if provided)
       if (row.Email && row.Email.trim() !== "") {
         const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -134,7 +158,8 @@ export default function BulkImportCustomers() {
         address: row.Address?.trim() || undefined,
         gstNumber: row["GST Number"]?.trim() || undefined,
         openingBalance: parseFloat(row["Opening Balance"] || 0),
-        balanceType: (balanceType || "credit") as "credit" | "debit"
+        balanceType: (balanceType || "credit") as "credit" | "debit",
+        openingBalanceDate
       };
 
       validatedData.push(customer);
@@ -155,7 +180,7 @@ export default function BulkImportCustomers() {
 
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+      const workbook = XLSX.read(arrayBuffer, { type: 'array', cellDates: true });
       
       // Get first sheet
       const firstSheetName = workbook.SheetNames[0];
@@ -182,9 +207,7 @@ export default function BulkImportCustomers() {
       setUploadProgress(50);
       setUploadStatus('uploading');
 
-      // Simulate uploading to database
-      // TODO: Replace with actual Supabase insertion
-      await simulateBulkUpload(validation.data!);
+      await uploadCustomers(validation.data!);
 
       setUploadProgress(100);
       setUploadStatus('success');
@@ -207,24 +230,32 @@ export default function BulkImportCustomers() {
     }
   };
 
-  // Simulate bulk upload (replace with actual Supabase code)
-  const simulateBulkUpload = async (customers: CustomerRow[]) => {
-    // Simulate progress
-    for (let i = 0; i < customers.length; i++) {
-      await new Promise(resolve => setTimeout(resolve, 50));
-      const progress = 50 + ((i + 1) / customers.length) * 50;
-      setUploadProgress(progress);
-      
-      // TODO: Insert into Supabase
-      // const { error } = await supabase.from('customers').insert({
-      //   name: customers[i].name,
-      //   phone: customers[i].phone,
-      //   email: customers[i].email,
-      //   address: customers[i].address,
-      //   gst_number: customers[i].gstNumber,
-      //   opening_balance: customers[i].openingBalance,
-      //   balance_type: customers[i].balanceType
-      // });
+  // Insert customers in batches; each opening balance is posted to the
+  // customer's ledger on its date (today when the column is blank)
+  const uploadCustomers = async (customers: CustomerRow[]) => {
+    const batchSize = 50;
+    for (let i = 0; i < customers.length; i += batchSize) {
+      const batch = customers.slice(i, i + batchSize);
+      const { error } = await customersService.batchCreateCustomers(
+        batch.map(customer => {
+          const amount = customer.openingBalance || 0;
+          return {
+            name: customer.name,
+            phone: customer.phone,
+            email: customer.email,
+            address: customer.address,
+            gst_number: customer.gstNumber,
+            amount: customer.balanceType === "credit" ? amount : -amount,
+            opening_balance_date: customer.openingBalanceDate,
+          };
+        })
+      );
+
+      if (error) {
+        throw new Error(`${i} of ${customers.length} customers imported before the error: ${error.message ?? error}`);
+      }
+
+      setUploadProgress(50 + (Math.min(i + batchSize, customers.length) / customers.length) * 50);
     }
   };
 
@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, FileMinus, Search, Calendar, User, Loader2, X, FileText, Trash2 } from "lucide-react";
+import { CreateCreditNoteModal } from "@/components/CreateCreditNoteModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { creditNotesService, type CreditNote, type NoteType } from "@/services/api/creditNotesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { numberToWords } from "@/lib/invoiceUtils";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type NoteFilter = "all" | NoteType;
+
+export default function CreditNotes() {
+  const { format: formatCurrency } = useCurrency();
+
+  const [notes, setNotes] = useState<CreditNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [filter, setFilter] = useState<NoteFilter>("all");
+  const [selectedNote, setSelectedNote] = useState<CreditNote | null>(null);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const loadNotes = useCallback(async () => {
+    const { data, error } = await creditNotesService.fetchNotes();
+    if (error) {
+      toast.error("Failed to load credit notes");
+    } else if (data) {
+      setNotes(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadNotes();
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({
+      table: "credit_notes",
+      onChange: () => {
+        loadNotes();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadNotes]);
+
+  const filteredNotes = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return notes.filter(note =>
+      (filter === "all" || note.note_type === filter) &&
+      (!query ||
+        note.note_number.toLowerCase().includes(query) ||
+        note.party_name.toLowerCase().includes(query) ||
+        note.original_bill_number.toLowerCase().includes(query) ||
+        note.reason.toLowerCase().includes(query))
+    );
+  }, [notes, searchQuery, filter]);
+
+  const handleNoteCreated = (note: CreditNote) => {
+    setNotes(prev => [note, ...prev.filter(n => n.id !== note.id)]);
+  };
+
+  const handleNoteClick = (note: CreditNote) => {
+    setSelectedNote(note);
+    setIsPanelOpen(true);
+  };
+
+  const handleClosePanel = () => {
+    setIsPanelOpen(false);
+    setTimeout(() => setSelectedNote(null), 300);
+  };
+
+  const handleDelete = async (note: CreditNote) => {
+    if (!confirm(`Delete ${note.note_number}? Balance and stock adjustments it posted are not reversed.`)) return;
+
+    const { success, error } = await creditNotesService.deleteNote(note.id);
+    if (!success) {
+      toast.error("Failed to delete note", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    setNotes(prev => prev.filter(n => n.id !== note.id));
+    handleClosePanel();
+    toast.success(`${note.note_number} deleted`);
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+  const filters: Array<{ value: NoteFilter; label: string }> = [
+    { value: "all", label: "All" },
+    { value: "credit", label: "Credit Notes" },
+    { value: "debit", label: "Debit Notes" },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">Credit & Debit Notes</h1>
+            <p className="text-sm text-muted-foreground">Returns and price corrections against issued bills</p>
+          </div>
+          <Button
+            onClick={() => setIsAddModalOpen(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Note
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder="Search notes..."
+              className="search-bar pl-11"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            {filters.map(option => (
+              <Button
+                key={option.value}
+                variant={filter === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setFilter(option.value)}
+                className="rounded-xl"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading notes...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : notes.length === 0 ? (
+          <EmptyState
+            icon={FileMinus}
+            title="No credit or debit notes"
+            description="Record sales returns, post-sale discounts and price corrections against invoices and purchase bills."
+            actionLabel="Create Your First Note"
+            onAction={() => setIsAddModalOpen(true)}
+          />
+        ) : filteredNotes.length === 0 ? (
+          <Card className="p-12 text-center">
+            <FileMinus className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No notes found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search or filter</p>
+          </Card>
+        ) : (
+          <div className="grid gap-3">
+            {filteredNotes.map(note => (
+              <Card
+                key={note.id}
+                className={cn(
+                  "p-4 hover:shadow-md hover:border-primary/50 transition-all cursor-pointer",
+                  selectedNote?.id === note.id && "border-primary bg-primary/5"
+                )}
+                onClick={() => handleNoteClick(note)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div
+                      className={cn(
+                        "w-12 h-12 rounded-lg flex items-center justify-center flex-shrink-0",
+                        note.note_type === "credit" ? "bg-orange-500/10" : "bg-blue-500/10"
+                      )}
+                    >
+                      <FileMinus
+                        className={cn(
+                          "h-6 w-6",
+                          note.note_type === "credit" ? "text-orange-600 dark:text-orange-500" : "text-blue-600 dark:text-blue-500"
+                        )}
+                      />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{note.note_number}</h3>
+                        <Badge variant="secondary" className="text-xs">{note.reason}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{note.party_name}</span>
+                        <span className="text-muted-foreground/50">•</span>
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>{formatDate(note.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div
+                      className={cn(
+                        "text-lg font-bold",
+                        note.note_type === "credit" ? "text-orange-600 dark:text-orange-500" : "text-blue-600 dark:text-blue-500"
+                      )}
+                    >
+                      {note.note_type === "credit" ? "-" : "+"}{formatCurrency(Number(note.total_amount))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">against {note.original_bill_number}</div>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Side Detail Panel */}
+      <div
+        className={cn(
+          "fixed top-0 right-0 h-full w-full sm:w-[480px] bg-background border-l border-border shadow-2xl transform transition-transform duration-300 ease-in-out z-50 overflow-y-auto",
+          isPanelOpen ? "translate-x-0" : "translate-x-full"
+        )}
+      >
+        {selectedNote && (
+          <div className="h-full flex flex-col">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm border-b border-border px-6 py-4 z-10">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-bold text-foreground">
+                    {selectedNote.note_type === "credit" ? "Credit Note" : "Debit Note"}
+                  </h2>
+                  <p className="text-sm text-muted-foreground">{selectedNote.note_number}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleClosePanel}
+                  className="rounded-full hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-6 space-y-6">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-foreground">
+                  {formatCurrency(Number(selectedNote.total_amount))}
+                </div>
+                <p className="text-xs text-muted-foreground italic mt-1">
+                  {numberToWords(Number(selectedNote.total_amount))}
+                </p>
+              </div>
+
+              <Card className="p-4 bg-muted/50 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    {selectedNote.party_type === "customer" ? "Customer" : "Supplier"}
+                  </span>
+                  <span className="font-medium">{selectedNote.party_name}</span>
+                </div>
+                {selectedNote.party_gstin && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">GSTIN</span>
+                    <span className="font-medium">{selectedNote.party_gstin}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Original bill</span>
+                  <span className="font-medium">{selectedNote.original_bill_number}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span className="font-medium">{formatDate(selectedNote.date)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Reason</span>
+                  <span className="font-medium">{selectedNote.reason}</span>
+                </div>
+                {selectedNote.restock && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Stock</span>
+                    <span className="font-medium">
+                      {selectedNote.party_type === "customer" ? "Returned to inventory" : "Removed from inventory"}
+                    </span>
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  Lines
+                </h3>
+                <div className="space-y-2 text-sm">
+                  {selectedNote.items.map((item, index) => (
+                    <div key={item.bill_item_id ?? index} className="flex justify-between gap-4">
+                      <span className="truncate">
+                        {item.name}
+                        <span className="text-muted-foreground"> • {item.quantity} × {formatCurrency(Number(item.unit_price))}</span>
+                      </span>
+                      <span className="font-medium">{formatCurrency(Number(item.total))}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between pt-2 border-t text-muted-foreground">
+                    <span>Taxable value</span>
+                    <span>{formatCurrency(Number(selectedNote.subtotal))}</span>
+                  </div>
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>GST</span>
+                    <span>{formatCurrency(Number(selectedNote.tax_amount))}</span>
+                  </div>
+                </div>
+              </Card>
+
+              {selectedNote.notes && (
+                <Card className="p-4">
+                  <h3 className="text-sm font-semibold mb-2">Notes</h3>
+                  <p className="text-sm text-muted-foreground leading-relaxed">{selectedNote.notes}</p>
+                </Card>
+              )}
+
+              <Button
+                className="w-full text-destructive hover:text-destructive"
+                variant="outline"
+                onClick={() => handleDelete(selectedNote)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Note
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isPanelOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity duration-300"
+          onClick={handleClosePanel}
+        />
+      )}
+
+      <CreateCreditNoteModal
+        open={isAddModalOpen}
+        onOpenChange={setIsAddModalOpen}
+        onNoteCreated={handleNoteCreated}
+      />
+    </DashboardLayout>
+  );
+}
@@ -3,6 +3,7 @@ import { Search, Sparkles, TrendingUp, FileText, Users, Building2 } from "lucide
 import { useBusinessContext } from "@/contexts/BusinessContext";
 import { getGreetingWithName } from "@/utils/greetings";
 import { AnimatedGreeting } from "@/components/AnimatedGreeting";
+import { CustomersOverLimit } from "@/components/CustomersOverLimit";
 
 export default function Dashboard() {
   const { businessProfile } = useBusinessContext();
@@ -76,6 +77,9 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Customers over their credit limit */}
+        <CustomersOverLimit />
+
         {/* Quick Actions */}
         <div className="space-y-4">
           <h2 className="section-label">Quick Actions</h2>
@@ -0,0 +1,614 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  Plus,
+  Truck,
+  FileText,
+  Search,
+  Calendar,
+  User,
+  Loader2,
+  X,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  Download,
+  Ban,
+  ArrowRightLeft,
+  PackageMinus,
+} from "lucide-react";
+import CreateInvoiceModal from "@/components/CreateInvoiceModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import {
+  salesDocumentsService,
+  type SalesDocument,
+  type SalesDocumentStatus,
+  type SalesDocumentType,
+} from "@/services/api/salesDocumentsService";
+import { invoiceTemplatesService } from "@/services/api/invoiceTemplatesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { downloadInvoicePdf } from "@/lib/invoicePdf";
+import { salesDocumentToInvoiceData } from "@/lib/invoiceMapping";
+import { DOCUMENT_LABELS } from "@/lib/invoiceUtils";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type StatusFilter = "all" | SalesDocumentStatus;
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "open", label: "Open" },
+  { value: "invoiced", label: "Invoiced" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+const getStatusColor = (status: SalesDocumentStatus) => {
+  switch (status) {
+    case "open":
+      return "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-400";
+    case "invoiced":
+      return "bg-primary/10 text-primary";
+    default:
+      return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400";
+  }
+};
+
+const statusLabel = (status: SalesDocumentStatus) => status.charAt(0).toUpperCase() + status.slice(1);
+
+export default function DeliveryChallans() {
+  const navigate = useNavigate();
+  const { format: formatCurrency, getSymbol } = useCurrency();
+
+  const [documentType, setDocumentType] = useState<SalesDocumentType>("delivery_challan");
+  const [documents, setDocuments] = useState<SalesDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingDocument, setEditingDocument] = useState<SalesDocument | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [selectedDocument, setSelectedDocument] = useState<SalesDocument | null>(null);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const isChallan = documentType === "delivery_challan";
+  const labels = DOCUMENT_LABELS[documentType];
+
+  const loadDocuments = useCallback(async () => {
+    const { data, error } = await salesDocumentsService.fetchDocuments();
+    if (error) {
+      toast.error("Failed to load documents");
+    } else if (data) {
+      setDocuments(data);
+      setSelectedDocument(prev => (prev ? data.find(d => d.id === prev.id) ?? prev : prev));
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({
+      table: "sales_documents",
+      onChange: () => {
+        loadDocuments();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadDocuments]);
+
+  const typeDocuments = useMemo(
+    () => documents.filter(document => document.document_type === documentType),
+    [documents, documentType]
+  );
+
+  const filteredDocuments = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return typeDocuments.filter(document =>
+      (statusFilter === "all" || document.status === statusFilter) &&
+      (!query ||
+        document.document_number.toLowerCase().includes(query) ||
+        document.party_name.toLowerCase().includes(query))
+    );
+  }, [typeDocuments, searchQuery, statusFilter]);
+
+  const mergeSelection = useMemo(
+    () => documents.filter(document => mergeIds.includes(document.id)),
+    [documents, mergeIds]
+  );
+
+  const replaceDocument = (document: SalesDocument) => {
+    setDocuments(prev => [document, ...prev.filter(d => d.id !== document.id)]);
+    if (selectedDocument?.id === document.id) {
+      setSelectedDocument(document);
+    }
+  };
+
+  const handleTypeChange = (value: string) => {
+    setDocumentType(value as SalesDocumentType);
+    setMergeIds([]);
+    setStatusFilter("all");
+  };
+
+  const handleSaved = (document: SalesDocument | null) => {
+    if (document) replaceDocument(document);
+    setEditingDocument(null);
+  };
+
+  const handleEdit = (document: SalesDocument) => {
+    setEditingDocument(document);
+    setIsModalOpen(true);
+  };
+
+  const handleDocumentClick = (document: SalesDocument) => {
+    setSelectedDocument(document);
+    setIsPanelOpen(true);
+  };
+
+  const handleClosePanel = () => {
+    setIsPanelOpen(false);
+    setTimeout(() => setSelectedDocument(null), 300);
+  };
+
+  // Challans can only be merged with open challans of the same customer
+  const canMergeWith = (document: SalesDocument) => {
+    if (document.status !== "open") return false;
+    const [first] = mergeSelection;
+    if (!first) return true;
+    return (first.party_id ?? first.party_name) === (document.party_id ?? document.party_name);
+  };
+
+  const toggleMerge = (document: SalesDocument) => {
+    setMergeIds(prev =>
+      prev.includes(document.id) ? prev.filter(id => id !== document.id) : [...prev, document.id]
+    );
+  };
+
+  const handleConvert = async (selection: SalesDocument[]) => {
+    const [first] = selection;
+    if (!first) return;
+
+    setIsMerging(true);
+    setBusyId(selection.length === 1 ? first.id : null);
+    try {
+      const { data: bill, error } = await salesDocumentsService.convertToInvoice(selection);
+      if (error || !bill) {
+        toast.error("Failed to create invoice", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+        return;
+      }
+
+      selection.forEach(document => replaceDocument({ ...document, status: "invoiced", invoiced_bill_id: bill.id }));
+      setMergeIds([]);
+      toast.success(`Invoice ${bill.bill_number} created`, {
+        description: `From ${selection.map(d => d.document_number).join(", ")} for ${formatCurrency(Number(bill.total_amount))}`,
+        action: { label: "View invoices", onClick: () => navigate("/invoices") },
+      });
+    } finally {
+      setIsMerging(false);
+      setBusyId(null);
+    }
+  };
+
+  const handleDownloadPdf = async (document: SalesDocument) => {
+    setBusyId(document.id);
+    try {
+      const { data: customTemplates } = await invoiceTemplatesService.fetchTemplates();
+      await downloadInvoicePdf(salesDocumentToInvoiceData(document, getSymbol()), customTemplates ?? []);
+    } catch (error) {
+      console.error('❌ Error generating document PDF:', error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (document: SalesDocument) => {
+    const message = document.stock_deducted
+      ? `Cancel ${document.document_number}? Its items will be returned to stock.`
+      : `Cancel ${document.document_number}?`;
+    if (!confirm(message)) return;
+
+    const { data, error } = await salesDocumentsService.cancelDocument(document);
+    if (error || !data) {
+      toast.error("Failed to cancel document", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    replaceDocument(data);
+    setMergeIds(prev => prev.filter(id => id !== document.id));
+    toast.success(`${document.document_number} cancelled`);
+  };
+
+  const handleDelete = async (document: SalesDocument) => {
+    const { success, error } = await salesDocumentsService.deleteDocument(document);
+    if (!success) {
+      toast.error("Failed to delete document", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    setDocuments(prev => prev.filter(d => d.id !== document.id));
+    setMergeIds(prev => prev.filter(id => id !== document.id));
+    if (selectedDocument?.id === document.id) {
+      handleClosePanel();
+    }
+    toast.success(`${document.document_number} deleted`);
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" }) : "—";
+
+  const DocumentIcon = isChallan ? Truck : FileText;
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">Challans & Proforma</h1>
+            <p className="text-sm text-muted-foreground">
+              {isChallan
+                ? "Ship goods ahead of billing and merge challans into one tax invoice"
+                : "Share proforma invoices for approval or advance payment"} • {typeDocuments.length} total
+            </p>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingDocument(null);
+              setIsModalOpen(true);
+            }}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create {labels.title}
+          </Button>
+        </div>
+
+        <Tabs value={documentType} onValueChange={handleTypeChange}>
+          <TabsList>
+            <TabsTrigger value="delivery_challan">Delivery Challans</TabsTrigger>
+            <TabsTrigger value="proforma">Proforma Invoices</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder={isChallan ? "Search challans..." : "Search proforma invoices..."}
+              className="search-bar pl-11"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map(option => (
+              <Button
+                key={option.value}
+                variant={statusFilter === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setStatusFilter(option.value)}
+                className="rounded-xl"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isChallan && mergeSelection.length > 0 && (
+          <Card className="p-4 flex items-center justify-between gap-4 border-primary/50 bg-primary/5">
+            <div className="text-sm">
+              <span className="font-semibold">{mergeSelection.length} challan{mergeSelection.length !== 1 ? "s" : ""}</span>
+              <span className="text-muted-foreground"> for {mergeSelection[0].party_name} • </span>
+              <span className="font-semibold">
+                {formatCurrency(mergeSelection.reduce((sum, document) => sum + document.total_amount, 0))}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="rounded-xl" onClick={() => setMergeIds([])}>
+                Clear
+              </Button>
+              <Button size="sm" className="rounded-xl" onClick={() => handleConvert(mergeSelection)} disabled={isMerging}>
+                {isMerging ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                )}
+                Create Invoice
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading documents...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : typeDocuments.length === 0 ? (
+          <EmptyState
+            icon={DocumentIcon}
+            title={isChallan ? "No delivery challans created" : "No proforma invoices created"}
+            description={isChallan
+              ? "Send goods with a delivery challan and bill several deliveries together on one invoice."
+              : "Quote the final amount up front and turn the proforma into a tax invoice once supplied."}
+            actionLabel={`Create Your First ${labels.title}`}
+            onAction={() => setIsModalOpen(true)}
+          />
+        ) : filteredDocuments.length === 0 ? (
+          <Card className="p-12 text-center">
+            <DocumentIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No documents found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search or filter</p>
+          </Card>
+        ) : (
+          <div className="grid gap-3">
+            {filteredDocuments.map(document => (
+              <Card
+                key={document.id}
+                className={cn(
+                  "p-4 hover:shadow-md hover:border-primary/50 transition-all cursor-pointer group",
+                  (selectedDocument?.id === document.id || mergeIds.includes(document.id)) && "border-primary bg-primary/5"
+                )}
+                onClick={() => handleDocumentClick(document)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    {isChallan && (
+                      <Checkbox
+                        checked={mergeIds.includes(document.id)}
+                        disabled={!mergeIds.includes(document.id) && !canMergeWith(document)}
+                        onCheckedChange={() => toggleMerge(document)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label={`Select ${document.document_number} for invoicing`}
+                      />
+                    )}
+                    <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0 group-hover:bg-primary/20 transition-colors">
+                      <DocumentIcon className="h-6 w-6 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{document.document_number}</h3>
+                        <Badge className={cn("text-xs", getStatusColor(document.status))}>
+                          {statusLabel(document.status)}
+                        </Badge>
+                        {document.stock_deducted && (
+                          <Badge variant="outline" className="text-xs">
+                            <PackageMinus className="h-3 w-3 mr-1" />
+                            Stock out
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{document.party_name}</span>
+                        <span className="text-muted-foreground/50">•</span>
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>{formatDate(document.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <div className="text-right">
+                      <div className="text-lg font-bold text-primary">
+                        {formatCurrency(document.total_amount)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {document.items.length} item{document.items.length !== 1 ? "s" : ""}
+                      </div>
+                    </div>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={busyId === document.id}>
+                          {busyId === document.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <MoreVertical className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem onClick={() => handleDownloadPdf(document)}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Download PDF
+                        </DropdownMenuItem>
+                        {document.status === "open" && (
+                          <>
+                            <DropdownMenuItem onClick={() => handleConvert([document])}>
+                              <ArrowRightLeft className="h-4 w-4 mr-2" />
+                              Convert to Invoice
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleEdit(document)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleCancel(document)}>
+                              <Ban className="h-4 w-4 mr-2" />
+                              Cancel
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(document)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Side Detail Panel */}
+      <div
+        className={cn(
+          "fixed top-0 right-0 h-full w-full sm:w-[480px] bg-background border-l border-border shadow-2xl transform transition-transform duration-300 ease-in-out z-50 overflow-y-auto",
+          isPanelOpen ? "translate-x-0" : "translate-x-full"
+        )}
+      >
+        {selectedDocument && (
+          <div className="h-full flex flex-col">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm border-b border-border px-6 py-4 z-10">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-bold text-foreground">
+                    {DOCUMENT_LABELS[selectedDocument.document_type].title} Details
+                  </h2>
+                  <p className="text-sm text-muted-foreground">{selectedDocument.document_number}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleClosePanel}
+                  className="rounded-full hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-6 space-y-6">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-primary">
+                  {formatCurrency(selectedDocument.total_amount)}
+                </div>
+                <Badge className={cn("mt-2 text-xs", getStatusColor(selectedDocument.status))}>
+                  {statusLabel(selectedDocument.status)}
+                </Badge>
+              </div>
+
+              <Card className="p-4 bg-muted/50 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Customer</span>
+                  <span className="font-medium">{selectedDocument.party_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span className="font-medium">{formatDate(selectedDocument.date)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{DOCUMENT_LABELS[selectedDocument.document_type].dueDate}</span>
+                  <span className="font-medium">{formatDate(selectedDocument.due_date)}</span>
+                </div>
+                {selectedDocument.document_type === "delivery_challan" && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Stock</span>
+                    <span className="font-medium">
+                      {selectedDocument.stock_deducted ? "Deducted at dispatch" : "Not deducted"}
+                    </span>
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3">Items</h3>
+                <div className="space-y-2 text-sm">
+                  {selectedDocument.items.map(item => (
+                    <div key={item.id} className="flex justify-between gap-4">
+                      <span className="truncate">
+                        {item.name}
+                        <span className="text-muted-foreground"> • {item.quantity} × {formatCurrency(Number(item.unit_price))}</span>
+                      </span>
+                      <span className="font-medium">{formatCurrency(Number(item.total))}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between pt-2 border-t text-muted-foreground">
+                    <span>Subtotal</span>
+                    <span>{formatCurrency(selectedDocument.subtotal)}</span>
+                  </div>
+                  {selectedDocument.tax_amount > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>GST</span>
+                      <span>{formatCurrency(selectedDocument.tax_amount)}</span>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {selectedDocument.notes && (
+                <Card className="p-4">
+                  <h3 className="text-sm font-semibold mb-2">Notes</h3>
+                  <p className="text-sm text-muted-foreground leading-relaxed">{selectedDocument.notes}</p>
+                </Card>
+              )}
+
+              <div className="grid gap-2">
+                {selectedDocument.status === "open" && (
+                  <Button
+                    className="w-full"
+                    onClick={() => handleConvert([selectedDocument])}
+                    disabled={isMerging}
+                  >
+                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                    Convert to Invoice
+                  </Button>
+                )}
+                {selectedDocument.status === "invoiced" && (
+                  <Button className="w-full" variant="outline" onClick={() => navigate("/invoices")}>
+                    View Invoices
+                  </Button>
+                )}
+                <Button
+                  className="w-full"
+                  variant="outline"
+                  onClick={() => handleDownloadPdf(selectedDocument)}
+                  disabled={busyId === selectedDocument.id}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isPanelOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity duration-300"
+          onClick={handleClosePanel}
+        />
+      )}
+
+      <CreateInvoiceModal
+        key={`${documentType}-${editingDocument?.id ?? "new"}`}
+        open={isModalOpen}
+        onOpenChange={(open) => {
+          setIsModalOpen(open);
+          if (!open) setEditingDocument(null);
+        }}
+        onSuccess={handleSaved}
+        documentType={editingDocument?.document_type ?? documentType}
+        salesDocument={editingDocument}
+      />
+    </DashboardLayout>
+  );
+}
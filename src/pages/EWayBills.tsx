@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { UpdateEWayBillPartBModal } from "@/components/UpdateEWayBillPartBModal";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Route, Truck, Calendar, User, Loader2, Download, XCircle } from "lucide-react";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import {
+  eWayBillsService,
+  getEWayBillState,
+  EWAY_BILL_STATE_LABELS,
+  type EWayBill,
+  type EWayBillState,
+} from "@/services/api/eWayBillsService";
+import { downloadEWayBillJSON, EWAY_BILL_JSON_VERSION, TRANSPORT_MODE_LABELS } from "@/lib/eWayBill";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const STATE_STYLES: Record<EWayBillState, string> = {
+  active: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-400",
+  part_a_only: "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400",
+  expired: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-400",
+  cancelled: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400",
+};
+
+export default function EWayBills() {
+  const navigate = useNavigate();
+  const { format: formatCurrency } = useCurrency();
+
+  const [ewayBills, setEWayBills] = useState<EWayBill[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [partBEWayBill, setPartBEWayBill] = useState<EWayBill | null>(null);
+
+  const loadData = useCallback(async () => {
+    const { data, error } = await eWayBillsService.fetchEWayBills();
+    if (error) {
+      toast.error("Failed to load e-way bills");
+    } else if (data) {
+      setEWayBills(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+
+    // Keep the register in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({ table: "eway_bills", onChange: () => loadData() });
+    return () => unsubscribe();
+  }, [loadData]);
+
+  const replaceEWayBill = (updated: EWayBill) => {
+    setEWayBills(prev => prev.map(e => (e.id === updated.id ? { ...e, ...updated } : e)));
+  };
+
+  const handleCancel = async (ewayBill: EWayBill) => {
+    if (!confirm(`Cancel e-way bill ${ewayBill.ewb_no}? Cancel it on the e-way bill portal as well.`)) return;
+
+    const { data, error } = await eWayBillsService.cancelEWayBill(ewayBill);
+    if (error || !data) {
+      toast.error(`Failed to cancel ${ewayBill.ewb_no}`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    replaceEWayBill(data);
+    toast.success(`E-way bill ${ewayBill.ewb_no} cancelled`);
+  };
+
+  const handleDownload = (ewayBill: EWayBill) => {
+    downloadEWayBillJSON(
+      { version: EWAY_BILL_JSON_VERSION, billLists: [ewayBill.payload] },
+      `EWB_${ewayBill.ewb_no}.json`
+    );
+  };
+
+  const formatDateTime = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleString("en-IN", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" })
+      : "—";
+
+  const activeCount = ewayBills.filter(e => getEWayBillState(e) === "active").length;
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground mb-1">E-Way Bills</h1>
+          <p className="text-sm text-muted-foreground">
+            E-way bill register • {activeCount} active • Raise new e-way bills from an invoice's menu
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading e-way bills...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : ewayBills.length === 0 ? (
+          <EmptyState
+            icon={Route}
+            title="No e-way bills"
+            description="Goods invoices above ₹50,000 need an e-way bill before the goods move. Open an invoice's menu and choose E-Way Bill to raise one."
+            actionLabel="Go to Invoices"
+            onAction={() => navigate("/invoices")}
+          />
+        ) : (
+          <div className="grid gap-3">
+            {ewayBills.map(ewayBill => {
+              const state = getEWayBillState(ewayBill);
+              const isOpen = state === "active" || state === "part_a_only";
+
+              return (
+                <Card key={ewayBill.id} className={cn("p-4 transition-all", !isOpen && "opacity-70")}>
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                        <Route className="h-6 w-6 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="text-sm font-semibold text-foreground truncate">{ewayBill.ewb_no}</h3>
+                          <Badge className={cn("text-xs", STATE_STYLES[state])}>{EWAY_BILL_STATE_LABELS[state]}</Badge>
+                          <span className="text-xs text-muted-foreground">{ewayBill.bill_number}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                          <User className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">{ewayBill.party_name}</span>
+                          <span className="text-muted-foreground/50">•</span>
+                          <Truck className="h-3 w-3 flex-shrink-0" />
+                          <span>
+                            {TRANSPORT_MODE_LABELS[ewayBill.trans_mode]}
+                            {ewayBill.vehicle_no && ` ${ewayBill.vehicle_no}`} • {ewayBill.distance_km} km
+                            {ewayBill.part_b_updates.length > 0 && ` • ${ewayBill.part_b_updates.length} Part-B update${ewayBill.part_b_updates.length !== 1 ? "s" : ""}`}
+                          </span>
+                          <span className="text-muted-foreground/50">•</span>
+                          <Calendar className="h-3 w-3 flex-shrink-0" />
+                          <span>
+                            {ewayBill.valid_until ? `Valid until ${formatDateTime(ewayBill.valid_until)}` : `Generated ${formatDateTime(ewayBill.ewb_date)}`}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <div className="text-lg font-bold text-primary mr-3">
+                        {formatCurrency(ewayBill.total_value)}
+                      </div>
+                      {isOpen && (
+                        <Button variant="outline" size="sm" onClick={() => setPartBEWayBill(ewayBill)}>
+                          <Truck className="h-4 w-4 mr-2" />
+                          Part-B
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleDownload(ewayBill)}
+                        title="Download JSON"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {ewayBill.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                          onClick={() => handleCancel(ewayBill)}
+                          title="Cancel e-way bill"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <UpdateEWayBillPartBModal
+        open={Boolean(partBEWayBill)}
+        onOpenChange={(open) => !open && setPartBEWayBill(null)}
+        ewayBill={partBEWayBill}
+        onUpdated={replaceEWayBill}
+      />
+    </DashboardLayout>
+  );
+}
@@ -1,11 +1,167 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { EmptyState } from "@/components/EmptyState";
 import { Button } from "@/components/ui/button";
-import { Plus, TrendingUp, Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, TrendingUp, Search, Calendar, Loader2, Repeat, Paperclip, Trash2, Pause, Play } from "lucide-react";
+import { AddExpenseModal } from "@/components/AddExpenseModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { expensesService, type Expense, type RecurringExpense } from "@/services/api/expensesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { toast } from "sonner";
+
+const ALL_CATEGORIES = "all";
 
 export default function Expenses() {
-  const [expenses] = useState([]);
+  const { format: formatCurrency } = useCurrency();
+
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [schedules, setSchedules] = useState<RecurringExpense[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState(ALL_CATEGORIES);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<
+    { kind: "expense"; expense: Expense } | { kind: "schedule"; schedule: RecurringExpense } | null
+  >(null);
+
+  const loadExpenses = useCallback(async () => {
+    const [expensesResult, schedulesResult] = await Promise.all([
+      expensesService.fetchExpenses(),
+      expensesService.fetchRecurringExpenses(),
+    ]);
+
+    if (expensesResult.error) {
+      toast.error("Failed to load expenses");
+    } else if (expensesResult.data) {
+      setExpenses(expensesResult.data);
+    }
+    if (schedulesResult.data) {
+      setSchedules(schedulesResult.data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    // Post any recurring expenses that fell due since the last visit
+    expensesService.processDueRecurringExpenses().then(({ created }) => {
+      if (created.length > 0) {
+        toast.success(`${created.length} recurring expense${created.length !== 1 ? "s" : ""} posted`);
+      }
+      loadExpenses();
+    });
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribeToTables([
+      { table: "expenses", onChange: () => loadExpenses() },
+      { table: "recurring_expenses", onChange: () => loadExpenses() },
+    ]);
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadExpenses]);
+
+  const categoryNames = useMemo(
+    () => Array.from(new Set(expenses.map(expense => expense.category_name))).sort(),
+    [expenses]
+  );
+
+  const filteredExpenses = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return expenses.filter(expense => {
+      const expenseDate = expense.date.split("T")[0];
+      if (startDate && expenseDate < startDate) return false;
+      if (endDate && expenseDate > endDate) return false;
+      if (categoryFilter !== ALL_CATEGORIES && expense.category_name !== categoryFilter) return false;
+
+      if (!query) return true;
+      return (
+        expense.expense_number.toLowerCase().includes(query) ||
+        expense.category_name.toLowerCase().includes(query) ||
+        (expense.vendor_name || "").toLowerCase().includes(query) ||
+        (expense.description || "").toLowerCase().includes(query)
+      );
+    });
+  }, [expenses, searchQuery, categoryFilter, startDate, endDate]);
+
+  const categoryTotals = useMemo(
+    () => expensesService.getCategoryTotals(filteredExpenses),
+    [filteredExpenses]
+  );
+
+  const summary = useMemo(() => {
+    return filteredExpenses.reduce(
+      (acc, expense) => {
+        acc.total += Number(expense.total_amount);
+        if (expense.itc_eligible) acc.itc += Number(expense.gst_amount);
+        return acc;
+      },
+      { total: 0, itc: 0 }
+    );
+  }, [filteredExpenses]);
+
+  const handleExpensesAdded = (added: Expense[]) => {
+    setExpenses(prev => [...added, ...prev.filter(e => !added.some(a => a.id === e.id))]);
+    loadExpenses();
+  };
+
+  const handleDeleteExpense = async (expense: Expense) => {
+    const { success } = await expensesService.deleteExpense(expense);
+    if (success) {
+      setExpenses(prev => prev.filter(e => e.id !== expense.id));
+      toast.success("Expense deleted");
+    } else {
+      toast.error("Failed to delete expense");
+    }
+  };
+
+  const handleToggleSchedule = async (schedule: RecurringExpense) => {
+    const { data, error } = await expensesService.setRecurringExpenseActive(schedule.id, !schedule.is_active);
+    if (error || !data) {
+      toast.error("Failed to update schedule");
+      return;
+    }
+    setSchedules(prev => prev.map(s => (s.id === schedule.id ? { ...s, is_active: !schedule.is_active } : s)));
+  };
+
+  const handleDeleteSchedule = async (schedule: RecurringExpense) => {
+    const { success } = await expensesService.deleteRecurringExpense(schedule.id);
+    if (success) {
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } else {
+      toast.error("Failed to delete schedule");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    if (pendingDelete.kind === "expense") {
+      await handleDeleteExpense(pendingDelete.expense);
+    } else {
+      await handleDeleteSchedule(pendingDelete.schedule);
+    }
+    setPendingDelete(null);
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
 
   return (
     <DashboardLayout>
@@ -15,33 +171,263 @@ export default function Expenses() {
             <h1 className="text-2xl font-bold text-foreground mb-1">Expenses</h1>
             <p className="text-sm text-muted-foreground">Track business expenses</p>
           </div>
-          <Button className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl">
+          <Button
+            onClick={() => setIsAddModalOpen(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
             <Plus className="h-4 w-4 mr-2" />
             Add Expense
           </Button>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <input
-            type="text"
-            placeholder="Search expenses..."
-            className="search-bar pl-11"
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_180px_auto_auto] gap-3">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder="Search expenses..."
+              className="search-bar pl-11"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All Categories</SelectItem>
+              {categoryNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            aria-label="To date"
           />
         </div>
 
-        {expenses.length === 0 ? (
+        {expenses.length > 0 && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <Card className="p-4">
+                <p className="text-xs text-muted-foreground mb-1">Total Expenses</p>
+                <p className="text-lg font-bold text-red-600 dark:text-red-500">{formatCurrency(summary.total)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-muted-foreground mb-1">GST Input Credit</p>
+                <p className="text-lg font-bold text-green-600 dark:text-green-500">{formatCurrency(summary.itc)}</p>
+              </Card>
+            </div>
+
+            {categoryTotals.length > 0 && (
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3">By Category</h3>
+                <div className="space-y-2">
+                  {categoryTotals.map(total => (
+                    <button
+                      key={total.category}
+                      type="button"
+                      onClick={() => setCategoryFilter(
+                        categoryFilter === total.category ? ALL_CATEGORIES : total.category
+                      )}
+                      className="w-full text-left"
+                    >
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="font-medium">
+                          {total.category}
+                          <span className="text-xs text-muted-foreground ml-2">({total.count})</span>
+                        </span>
+                        <span className="font-semibold">{formatCurrency(total.total_amount)}</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-primary"
+                          style={{ width: `${summary.total > 0 ? (total.total_amount / summary.total) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+
+        {schedules.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+              <Repeat className="h-4 w-4" />
+              Recurring Expenses
+            </h3>
+            <div className="space-y-2">
+              {schedules.map(schedule => (
+                <div key={schedule.id} className="flex items-center justify-between gap-3 text-sm rounded-lg bg-muted/50 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{schedule.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {schedule.category_name} • <span className="capitalize">{schedule.frequency}</span>
+                      {schedule.is_active ? ` • Next ${formatDate(schedule.next_due_date)}` : " • Paused"}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className="font-semibold mr-2">{formatCurrency(Number(schedule.amount))}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleToggleSchedule(schedule)}
+                      title={schedule.is_active ? "Pause" : "Resume"}
+                    >
+                      {schedule.is_active ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 hover:bg-red-50 hover:text-red-600"
+                      onClick={() => setPendingDelete({ kind: "schedule", schedule })}
+                      title="Delete schedule"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading expenses...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : expenses.length === 0 ? (
           <EmptyState
             icon={TrendingUp}
             title="No expenses recorded"
             description="Keep track of all business expenses. Categorize costs, attach receipts, and maintain accurate financial records."
             actionLabel="Add Your First Expense"
-            onAction={() => console.log("Add expense")}
+            onAction={() => setIsAddModalOpen(true)}
           />
+        ) : filteredExpenses.length === 0 ? (
+          <Card className="p-12 text-center">
+            <TrendingUp className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No expenses found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search, category or date range</p>
+          </Card>
         ) : (
-          <div>Expense list will appear here</div>
+          <div className="grid gap-3">
+            {filteredExpenses.map(expense => (
+              <Card key={expense.id} className="p-4 hover:shadow-md transition-all">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-12 h-12 rounded-lg bg-red-500/10 flex items-center justify-center flex-shrink-0">
+                      <TrendingUp className="h-6 w-6 text-red-600 dark:text-red-500" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
+                        <h3 className="text-sm font-semibold text-foreground truncate">
+                          {expense.description || expense.category_name}
+                        </h3>
+                        <Badge variant="secondary" className="text-xs">{expense.category_name}</Badge>
+                        {expense.recurring_expense_id && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Recurring
+                          </Badge>
+                        )}
+                        {expense.itc_eligible && (
+                          <Badge variant="outline" className="text-xs text-green-600 border-green-500/20 bg-green-500/10">
+                            ITC
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>{formatDate(expense.date)}</span>
+                        {expense.vendor_name && (
+                          <>
+                            <span className="text-muted-foreground/50">•</span>
+                            <span className="truncate">{expense.vendor_name}</span>
+                          </>
+                        )}
+                        {expense.attachments?.length > 0 && (
+                          <>
+                            <span className="text-muted-foreground/50">•</span>
+                            <Paperclip className="h-3 w-3 flex-shrink-0" />
+                            <span>{expense.attachments.length}</span>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <div className="text-right">
+                      <div className="text-lg font-bold text-red-600 dark:text-red-500">
+                        {formatCurrency(Number(expense.total_amount))}
+                      </div>
+                      {Number(expense.gst_amount) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          incl. GST {formatCurrency(Number(expense.gst_amount))}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                      onClick={() => setPendingDelete({ kind: "expense", expense })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
         )}
       </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === "schedule" ? "Stop recurring expense?" : "Delete expense?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === "schedule"
+                ? <>No more expenses will be posted for <strong>{pendingDelete.schedule.name}</strong>. Expenses already posted are kept.</>
+                : <>This will delete <strong>{pendingDelete?.expense.expense_number}</strong> and its cash book entry.</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AddExpenseModal
+        open={isAddModalOpen}
+        onOpenChange={setIsAddModalOpen}
+        onExpensesAdded={handleExpensesAdded}
+      />
     </DashboardLayout>
   );
 }
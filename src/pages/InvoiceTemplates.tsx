@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { InvoiceTemplateDesignerModal } from "@/components/InvoiceTemplateDesignerModal";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Palette, Loader2, Pencil, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { invoiceTemplatesService } from "@/services/api/invoiceTemplatesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { INVOICE_TEMPLATES } from "@/lib/invoiceTemplates";
+import { TEMPLATE_BLOCK_LABELS, visibleBlocks } from "@/lib/customTemplates";
+import type { CustomInvoiceTemplate } from "@/types/invoice";
+import { toast } from "sonner";
+
+export default function InvoiceTemplates() {
+  const [templates, setTemplates] = useState<CustomInvoiceTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDesignerOpen, setIsDesignerOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<CustomInvoiceTemplate | null>(null);
+
+  const loadData = useCallback(async () => {
+    const { data, error } = await invoiceTemplatesService.fetchTemplates();
+    if (error) {
+      toast.error("Failed to load templates");
+    } else if (data) {
+      setTemplates(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+
+    // Keep templates in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({ table: "invoice_templates", onChange: () => loadData() });
+    return () => unsubscribe();
+  }, [loadData]);
+
+  const openDesigner = (template: CustomInvoiceTemplate | null) => {
+    setEditingTemplate(template);
+    setIsDesignerOpen(true);
+  };
+
+  const handleDelete = async (template: CustomInvoiceTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Invoices using it will print with the Modern template.`)) return;
+
+    const { error } = await invoiceTemplatesService.deleteTemplate(template.id);
+    if (error) {
+      toast.error(`Failed to delete ${template.name}`);
+      return;
+    }
+
+    setTemplates(prev => prev.filter(t => t.id !== template.id));
+    toast.success(`Template "${template.name}" deleted`);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">Invoice Templates</h1>
+            <p className="text-sm text-muted-foreground">
+              {templates.length} custom • {INVOICE_TEMPLATES.length} built-in • Custom templates appear in the invoice template picker
+            </p>
+          </div>
+          <Button onClick={() => openDesigner(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading templates...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : templates.length === 0 ? (
+          <EmptyState
+            icon={Palette}
+            title="No custom templates"
+            description="Design your own invoice layout: choose the blocks, columns, colours and logo, then pick it when creating an invoice."
+            actionLabel="Design a Template"
+            onAction={() => openDesigner(null)}
+          />
+        ) : (
+          <div className="grid gap-3">
+            {templates.map(template => (
+              <Card key={template.id} className="p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div
+                      className="w-12 h-12 rounded-lg flex-shrink-0 border"
+                      style={{ background: template.definition.colors.primary }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{template.name}</h3>
+                        <Badge variant="outline" className="text-xs">Custom</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {template.description ? `${template.description} • ` : ""}
+                        {visibleBlocks(template.definition).map(type => TEMPLATE_BLOCK_LABELS[type]).join(", ")}
+                        {template.updated_at && ` • Updated ${format(new Date(template.updated_at), "dd MMM yyyy")}`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openDesigner(template)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                      onClick={() => handleDelete(template)}
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <InvoiceTemplateDesignerModal
+        open={isDesignerOpen}
+        onOpenChange={setIsDesignerOpen}
+        template={editingTemplate}
+        onSaved={() => loadData()}
+      />
+    </DashboardLayout>
+  );
+}
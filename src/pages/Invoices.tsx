@@ -2,8 +2,11 @@ import { useState, useMemo } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { EmptyState } from "@/components/EmptyState";
 import { Button } from "@/components/ui/button";
-import { Plus, FileText, Search, MoreVertical, Pencil, Trash2, Eye, Calendar, User, Loader2, X, Mail, Phone, MapPin, Hash, DollarSign } from "lucide-react";
+import { Plus, FileText, Search, MoreVertical, Pencil, Trash2, Eye, Calendar, User, Loader2, X, Mail, Phone, MapPin, Hash, DollarSign, Download, CheckCircle2, FileMinus, Repeat, ShieldCheck, FileJson, Route } from "lucide-react";
 import CreateInvoiceModal from "@/components/CreateInvoiceModal";
+import { CreateCreditNoteModal } from "@/components/CreateCreditNoteModal";
+import { CreateRecurringInvoiceModal } from "@/components/CreateRecurringInvoiceModal";
+import { CreateEWayBillModal } from "@/components/CreateEWayBillModal";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -11,6 +14,15 @@ import { toast } from "sonner";
 import { useInvoices } from "@/hooks/useUserData";
 import type { Invoice as SupabaseInvoice } from "@/services/api/userDataService";
 import { cn } from "@/lib/utils";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { downloadInvoicePdf } from "@/lib/invoicePdf";
+import { billToInvoiceData } from "@/lib/invoiceMapping";
+import { billsService } from "@/services/api/billsService";
+import { businessSettingsService } from "@/services/api/businessSettingsService";
+import { invoiceTemplatesService } from "@/services/api/invoiceTemplatesService";
+import { getUpiPayee } from "@/lib/upiPayment";
+import { eInvoiceService } from "@/services/api/eInvoiceService";
+import { downloadEInvoiceJSON } from "@/lib/eInvoice";
 
 interface InvoiceItem {
   id: string;
@@ -32,39 +44,64 @@ interface Invoice {
   subtotal: number;
   tax: number;
   total: number;
+  paidAmount: number;
+  balance: number;
   createdAt: Date;
-  status: "draft" | "sent" | "paid" | "overdue";
+  status: SupabaseInvoice["status"];
+  irn?: string;
+  eWayBillNo?: string;
 }
 
+const toInvoiceView = (si: SupabaseInvoice): Invoice => ({
+  id: si.id,
+  customerName: si.party_name,
+  invoiceNumber: si.bill_number,
+  invoiceDate: si.date,
+  dueDate: si.due_date ?? undefined,
+  taxRate: si.gst_rate?.toString() ?? "0",
+  notes: si.notes ?? undefined,
+  items: si.items.map(item => ({
+    id: item.id,
+    description: item.name,
+    quantity: String(item.quantity),
+    rate: String(item.unit_price),
+    amount: Number(item.total),
+  })),
+  subtotal: Number(si.subtotal),
+  tax: Number(si.tax_amount),
+  total: Number(si.total_amount),
+  paidAmount: Number(si.paid_amount),
+  balance: Number(si.balance_amount),
+  createdAt: new Date(si.created_at),
+  status: si.status,
+  irn: si.einvoice_irn ?? undefined,
+  eWayBillNo: si.eway_bill_no ?? undefined,
+});
+
 export default function Invoices() {
   // Fetch invoices from Supabase
   const { data: supabaseInvoices, isLoading, refetch } = useInvoices();
+  const { getSymbol } = useCurrency();
   
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [localInvoices, setLocalInvoices] = useState<Invoice[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [editingInvoice, setEditingInvoice] = useState<SupabaseInvoice | null>(null);
+  const [noteInvoice, setNoteInvoice] = useState<SupabaseInvoice | null>(null);
+  const [recurringInvoice, setRecurringInvoice] = useState<SupabaseInvoice | null>(null);
+  const [eWayBillInvoice, setEWayBillInvoice] = useState<SupabaseInvoice | null>(null);
 
   // Transform Supabase invoices to local format
   const invoices = useMemo(() => {
     if (!supabaseInvoices) return localInvoices;
     
-    const transformed = supabaseInvoices.map((si: SupabaseInvoice): Invoice => ({
-      id: si.id,
-      customerName: si.customer_name,
-      invoiceNumber: si.bill_number,
-      invoiceDate: si.bill_date,
-      dueDate: si.due_date,
-      taxRate: si.gst_rate?.toString() || "0",
-      notes: si.notes || undefined,
-      items: si.items || [],
-      subtotal: Number(si.subtotal),
-      tax: Number(si.gst_amount),
-      total: Number(si.total),
-      createdAt: new Date(si.created_at),
-      status: si.status as "draft" | "sent" | "paid" | "overdue",
-    }));
+    // Supplier bills live under Purchases
+    const transformed = (supabaseInvoices as SupabaseInvoice[])
+      .filter(si => si.party_type === 'customer')
+      .map(toInvoiceView);
     
     // Update local state when server data changes
     setLocalInvoices(transformed);
@@ -75,25 +112,18 @@ export default function Invoices() {
     console.log('⚡ Invoice created, updating UI instantly...', invoiceData);
     
     // Create optimistic invoice entry
-    const newInvoice: Invoice = {
-      id: invoiceData.id || `temp-${Date.now()}`,
-      customerName: invoiceData.customer_name,
-      invoiceNumber: invoiceData.bill_number,
-      invoiceDate: invoiceData.bill_date,
-      dueDate: invoiceData.due_date,
-      taxRate: invoiceData.gst_rate?.toString() || "0",
-      notes: invoiceData.notes,
-      items: invoiceData.items || [],
-      subtotal: Number(invoiceData.subtotal),
-      tax: Number(invoiceData.gst_amount),
-      total: Number(invoiceData.total),
-      createdAt: new Date(invoiceData.created_at || Date.now()),
-      status: invoiceData.status || 'draft',
-    };
+    const newInvoice = toInvoiceView(invoiceData);
     
     // INSTANT UI update
-    setLocalInvoices(prevInvoices => [newInvoice, ...prevInvoices]);
+    setLocalInvoices(prevInvoices => [
+      newInvoice,
+      ...prevInvoices.filter(invoice => invoice.id !== newInvoice.id),
+    ]);
+    if (selectedInvoice?.id === newInvoice.id) {
+      setSelectedInvoice(newInvoice);
+    }
     setIsAddModalOpen(false);
+    setEditingInvoice(null);
     
     console.log('✅ UI updated instantly with new invoice');
     
@@ -105,7 +135,140 @@ export default function Invoices() {
     }, 500);
   };
 
+  const handleDownloadPdf = async (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    setDownloadingId(id);
+    try {
+      const [{ data: settings }, { data: customTemplates }] = await Promise.all([
+        businessSettingsService.fetchBusinessSettings(),
+        invoiceTemplatesService.fetchTemplates(),
+      ]);
+      await downloadInvoicePdf(
+        { ...billToInvoiceData(savedInvoice, getSymbol()), upiPayee: getUpiPayee(settings) },
+        customTemplates ?? []
+      );
+    } catch (error) {
+      console.error('❌ Error generating invoice PDF:', error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleEditInvoice = (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    setEditingInvoice(savedInvoice);
+    setIsAddModalOpen(true);
+  };
+
+  const handleCreateNote = (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    setNoteInvoice(savedInvoice);
+  };
+
+  const handleMakeRecurring = (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    setRecurringInvoice(savedInvoice);
+  };
+
+  const handleCreateEWayBill = (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    setEWayBillInvoice(savedInvoice);
+  };
+
+  const handleGenerateEInvoice = async (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    const { data, errors, error } = await eInvoiceService.generateEInvoice(savedInvoice);
+    if (errors.length > 0) {
+      toast.error(`${savedInvoice.bill_number} cannot be e-invoiced`, { description: errors.join("\n") });
+      return;
+    }
+    if (error || !data) {
+      toast.error("Failed to generate e-invoice", { description: error?.message });
+      return;
+    }
+
+    setLocalInvoices(prev => prev.map(i => (i.id === id ? { ...i, irn: data.einvoice_irn ?? undefined } : i)));
+    toast.success(`IRN generated for ${savedInvoice.bill_number}`, { description: `Ack No ${data.einvoice_ack_no}` });
+    refetch();
+  };
+
+  const handleDownloadEInvoiceJson = async (id: string) => {
+    const savedInvoice = (supabaseInvoices as SupabaseInvoice[] | null)?.find(si => si.id === id);
+    if (!savedInvoice) {
+      toast.error("Invoice not found");
+      return;
+    }
+
+    const { payload, errors, error } = await eInvoiceService.buildPayload(savedInvoice);
+    if (error || !payload) {
+      toast.error(`${savedInvoice.bill_number} cannot be e-invoiced`, {
+        description: errors.length > 0 ? errors.join("\n") : error?.message,
+      });
+      return;
+    }
+
+    downloadEInvoiceJSON(payload);
+  };
+
+  const handleMarkAsPaid = async (invoice: Invoice) => {
+    // Pay off what is left; credit notes may have already reduced the balance
+    const { error } = await billsService.markAsPaid(invoice.id, invoice.paidAmount + invoice.balance);
+    if (error) {
+      toast.error("Failed to update invoice", { description: error.message });
+      return;
+    }
+
+    const paid = { ...invoice, status: "paid" as const, paidAmount: invoice.paidAmount + invoice.balance, balance: 0 };
+    setLocalInvoices(prev => prev.map(i => (i.id === invoice.id ? paid : i)));
+    if (selectedInvoice?.id === invoice.id) {
+      setSelectedInvoice(paid);
+    }
+    toast.success(`${invoice.invoiceNumber} marked as paid`);
+    refetch();
+  };
+
   const handleDeleteInvoice = async (id: string) => {
+    const { error } = await billsService.deleteBill(id);
+    if (error) {
+      toast.error("Failed to delete invoice", { description: error.message });
+      return;
+    }
+
+    setLocalInvoices(prev => prev.filter(invoice => invoice.id !== id));
+    if (selectedInvoice?.id === id) {
+      handleClosePanel();
+    }
     // Refetch invoices after deletion
     await refetch();
     toast.success("Invoice deleted successfully");
@@ -120,8 +283,10 @@ export default function Invoices() {
     switch (status) {
       case "paid":
         return "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-400";
-      case "sent":
+      case "pending":
         return "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-400";
+      case "partial":
+        return "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400";
       case "overdue":
         return "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-400";
       default:
@@ -229,6 +394,16 @@ export default function Invoices() {
                             <Badge className={cn("text-xs", getStatusColor(invoice.status))}>
                               {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
                             </Badge>
+                            {invoice.irn && (
+                              <Badge variant="outline" className="text-xs" title={`IRN ${invoice.irn}`}>
+                                e-Invoice
+                              </Badge>
+                            )}
+                            {invoice.eWayBillNo && (
+                              <Badge variant="outline" className="text-xs" title={`E-way bill ${invoice.eWayBillNo}`}>
+                                EWB
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-2 text-xs text-muted-foreground">
                             <User className="h-3 w-3 flex-shrink-0" />
@@ -265,7 +440,71 @@ export default function Invoices() {
                               <Eye className="h-4 w-4 mr-2" />
                               View Details
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={(e) => e.stopPropagation()}>
+                            <DropdownMenuItem onClick={(e) => {
+                              e.stopPropagation();
+                              handleDownloadPdf(invoice.id);
+                            }}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Download PDF
+                            </DropdownMenuItem>
+                            {invoice.balance > 0 && invoice.status !== "cancelled" && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                handleMarkAsPaid(invoice);
+                              }}>
+                                <CheckCircle2 className="h-4 w-4 mr-2" />
+                                Mark as Paid
+                              </DropdownMenuItem>
+                            )}
+                            {invoice.status !== "cancelled" && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                handleCreateNote(invoice.id);
+                              }}>
+                                <FileMinus className="h-4 w-4 mr-2" />
+                                Credit / Debit Note
+                              </DropdownMenuItem>
+                            )}
+                            {invoice.status !== "cancelled" && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                handleMakeRecurring(invoice.id);
+                              }}>
+                                <Repeat className="h-4 w-4 mr-2" />
+                                Make Recurring
+                              </DropdownMenuItem>
+                            )}
+                            {invoice.status !== "cancelled" && !invoice.irn && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                handleGenerateEInvoice(invoice.id);
+                              }}>
+                                <ShieldCheck className="h-4 w-4 mr-2" />
+                                Generate e-Invoice
+                              </DropdownMenuItem>
+                            )}
+                            {invoice.status !== "cancelled" && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                handleDownloadEInvoiceJson(invoice.id);
+                              }}>
+                                <FileJson className="h-4 w-4 mr-2" />
+                                e-Invoice JSON
+                              </DropdownMenuItem>
+                            )}
+                            {invoice.status !== "cancelled" && !invoice.eWayBillNo && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                handleCreateEWayBill(invoice.id);
+                              }}>
+                                <Route className="h-4 w-4 mr-2" />
+                                E-Way Bill
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem onClick={(e) => {
+                              e.stopPropagation();
+                              handleEditInvoice(invoice.id);
+                            }}>
                               <Pencil className="h-4 w-4 mr-2" />
                               Edit
                             </DropdownMenuItem>
@@ -331,6 +570,16 @@ export default function Invoices() {
                   </div>
                 </div>
 
+                {selectedInvoice.irn && (
+                  <Card className="p-4">
+                    <h3 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                      <ShieldCheck className="h-4 w-4" />
+                      e-Invoice
+                    </h3>
+                    <div className="text-xs text-muted-foreground break-all">IRN {selectedInvoice.irn}</div>
+                  </Card>
+                )}
+
                 {/* Customer Info */}
                 <Card className="p-4 bg-muted/50">
                   <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
@@ -451,13 +700,22 @@ export default function Invoices() {
               {/* Footer Actions */}
               <div className="sticky bottom-0 bg-background/95 backdrop-blur-sm border-t border-border px-6 py-4">
                 <div className="flex gap-2">
-                  <Button className="flex-1" variant="outline">
+                  <Button className="flex-1" variant="outline" onClick={() => handleEditInvoice(selectedInvoice.id)}>
                     <Pencil className="h-4 w-4 mr-2" />
                     Edit Invoice
                   </Button>
-                  <Button className="flex-1" variant="default">
-                    <Eye className="h-4 w-4 mr-2" />
-                    Print / Download
+                  <Button
+                    className="flex-1"
+                    variant="default"
+                    onClick={() => handleDownloadPdf(selectedInvoice.id)}
+                    disabled={downloadingId === selectedInvoice.id}
+                  >
+                    {downloadingId === selectedInvoice.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    Download PDF
                   </Button>
                 </div>
               </div>
@@ -475,9 +733,39 @@ export default function Invoices() {
       </div>
 
       <CreateInvoiceModal
+        key={editingInvoice?.id ?? "new"}
         open={isAddModalOpen}
-        onOpenChange={setIsAddModalOpen}
+        onOpenChange={(open) => {
+          setIsAddModalOpen(open);
+          if (!open) setEditingInvoice(null);
+        }}
         onSuccess={handleInvoiceAdded}
+        invoice={editingInvoice}
+      />
+
+      <CreateCreditNoteModal
+        open={Boolean(noteInvoice)}
+        onOpenChange={(open) => {
+          if (!open) setNoteInvoice(null);
+        }}
+        bill={noteInvoice}
+      />
+
+      <CreateRecurringInvoiceModal
+        open={Boolean(recurringInvoice)}
+        onOpenChange={(open) => {
+          if (!open) setRecurringInvoice(null);
+        }}
+        bill={recurringInvoice}
+      />
+
+      <CreateEWayBillModal
+        open={Boolean(eWayBillInvoice)}
+        onOpenChange={(open) => {
+          if (!open) setEWayBillInvoice(null);
+        }}
+        bill={eWayBillInvoice}
+        onEWayBillCreated={() => refetch()}
       />
     </DashboardLayout>
   );
@@ -1,11 +1,121 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { EmptyState } from "@/components/EmptyState";
 import { Button } from "@/components/ui/button";
-import { Plus, Package, Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Package, Search, Calendar, Building2, Loader2, X, Hash, IndianRupee } from "lucide-react";
+import { RecordPurchaseModal } from "@/components/RecordPurchaseModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { purchasesService, type PurchasePaymentState } from "@/services/api/purchasesService";
+import type { Bill } from "@/services/api/billsService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type StatusFilter = "all" | PurchasePaymentState;
+
+const STATUS_LABELS: Record<PurchasePaymentState, string> = {
+  paid: "Paid",
+  partial: "Partial",
+  pending: "Pending",
+};
+
+const getStatusColor = (state: PurchasePaymentState) => {
+  switch (state) {
+    case "paid":
+      return "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20";
+    case "partial":
+      return "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20";
+    default:
+      return "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20";
+  }
+};
 
 export default function Purchases() {
-  const [purchases] = useState([]);
+  const { format: formatCurrency } = useCurrency();
+
+  const [purchases, setPurchases] = useState<Bill[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [selectedPurchase, setSelectedPurchase] = useState<Bill | null>(null);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const loadPurchases = useCallback(async () => {
+    const { data, error } = await purchasesService.fetchPurchases();
+    if (error) {
+      toast.error("Failed to load purchases");
+    } else if (data) {
+      setPurchases(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadPurchases();
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({
+      table: "bills",
+      onChange: () => {
+        loadPurchases();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadPurchases]);
+
+  const filteredPurchases = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return purchases.filter(bill => {
+      if (statusFilter !== "all" && purchasesService.getPaymentState(bill) !== statusFilter) {
+        return false;
+      }
+
+      if (!query) return true;
+      return (
+        bill.bill_number.toLowerCase().includes(query) ||
+        (bill.party_name || "").toLowerCase().includes(query) ||
+        (bill.items || []).some(item => item.name.toLowerCase().includes(query))
+      );
+    });
+  }, [purchases, searchQuery, statusFilter]);
+
+  const totals = useMemo(() => {
+    return purchases.reduce(
+      (acc, bill) => {
+        acc.total += Number(bill.total_amount);
+        acc.paid += Number(bill.paid_amount || 0);
+        acc.due += Number(bill.balance_amount || 0);
+        return acc;
+      },
+      { total: 0, paid: 0, due: 0 }
+    );
+  }, [purchases]);
+
+  const handlePurchaseRecorded = (bill: Bill) => {
+    setPurchases(prev => [bill, ...prev.filter(p => p.id !== bill.id)]);
+  };
+
+  const handlePurchaseClick = (bill: Bill) => {
+    setSelectedPurchase(bill);
+    setIsPanelOpen(true);
+  };
+
+  const handleClosePanel = () => {
+    setIsPanelOpen(false);
+    setTimeout(() => setSelectedPurchase(null), 300);
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+  const selectedState = selectedPurchase ? purchasesService.getPaymentState(selectedPurchase) : "pending";
 
   return (
     <DashboardLayout>
@@ -15,7 +125,10 @@ export default function Purchases() {
             <h1 className="text-2xl font-bold text-foreground mb-1">Purchases</h1>
             <p className="text-sm text-muted-foreground">Manage purchase orders and inventory</p>
           </div>
-          <Button className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl">
+          <Button
+            onClick={() => setIsAddModalOpen(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
             <Plus className="h-4 w-4 mr-2" />
             Record Purchase
           </Button>
@@ -27,21 +140,239 @@ export default function Purchases() {
             type="text"
             placeholder="Search purchases..."
             className="search-bar pl-11"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
           />
         </div>
 
-        {purchases.length === 0 ? (
+        {purchases.length > 0 && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <Card className="p-4">
+                <p className="text-xs text-muted-foreground mb-1">Total Purchases</p>
+                <p className="text-lg font-bold">{formatCurrency(totals.total)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-muted-foreground mb-1">Paid</p>
+                <p className="text-lg font-bold text-green-600 dark:text-green-500">{formatCurrency(totals.paid)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-muted-foreground mb-1">Payable</p>
+                <p className="text-lg font-bold text-orange-600 dark:text-orange-500">{formatCurrency(totals.due)}</p>
+              </Card>
+            </div>
+
+            <div className="flex gap-2">
+              {(["all", "paid", "partial", "pending"] as StatusFilter[]).map(filter => (
+                <Button
+                  key={filter}
+                  size="sm"
+                  variant={statusFilter === filter ? "default" : "outline"}
+                  onClick={() => setStatusFilter(filter)}
+                  className="rounded-full"
+                >
+                  {filter === "all" ? "All" : STATUS_LABELS[filter]}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading purchases...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : purchases.length === 0 ? (
           <EmptyState
             icon={Package}
             title="No purchases recorded"
             description="Record your purchase transactions from suppliers. Keep track of inventory, costs, and supplier payments."
             actionLabel="Record Your First Purchase"
-            onAction={() => console.log("Record purchase")}
+            onAction={() => setIsAddModalOpen(true)}
           />
+        ) : filteredPurchases.length === 0 ? (
+          <Card className="p-12 text-center">
+            <Package className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No purchases found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search or filter</p>
+          </Card>
         ) : (
-          <div>Purchase list will appear here</div>
+          <div className="grid gap-3">
+            {filteredPurchases.map(bill => {
+              const state = purchasesService.getPaymentState(bill);
+              return (
+                <Card
+                  key={bill.id}
+                  className={cn(
+                    "p-4 hover:shadow-md hover:border-primary/50 transition-all cursor-pointer",
+                    selectedPurchase?.id === bill.id && "border-primary bg-primary/5"
+                  )}
+                  onClick={() => handlePurchaseClick(bill)}
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                        <Package className="h-6 w-6 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="text-sm font-semibold text-foreground truncate">{bill.bill_number}</h3>
+                          <Badge variant="outline" className={cn("text-xs", getStatusColor(state))}>
+                            {STATUS_LABELS[state]}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Building2 className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">{bill.party_name}</span>
+                          <span className="text-muted-foreground/50">•</span>
+                          <Calendar className="h-3 w-3 flex-shrink-0" />
+                          <span>{formatDate(bill.date)}</span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-lg font-bold text-primary">{formatCurrency(Number(bill.total_amount))}</div>
+                      {state !== "paid" && (
+                        <div className="text-xs text-orange-600 dark:text-orange-500">
+                          Due {formatCurrency(Number(bill.balance_amount))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
         )}
       </div>
+
+      {/* Side Detail Panel */}
+      <div
+        className={cn(
+          "fixed top-0 right-0 h-full w-full sm:w-[480px] bg-background border-l border-border shadow-2xl transform transition-transform duration-300 ease-in-out z-50 overflow-y-auto",
+          isPanelOpen ? "translate-x-0" : "translate-x-full"
+        )}
+      >
+        {selectedPurchase && (
+          <div className="h-full flex flex-col">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm border-b border-border px-6 py-4 z-10">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-bold text-foreground">Purchase Details</h2>
+                  <p className="text-sm text-muted-foreground">{selectedPurchase.bill_number}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleClosePanel}
+                  className="rounded-full hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <Badge variant="outline" className={cn("text-sm px-4 py-1", getStatusColor(selectedState))}>
+                  {STATUS_LABELS[selectedState]}
+                </Badge>
+                <div className="text-3xl font-bold text-primary">
+                  {formatCurrency(Number(selectedPurchase.total_amount))}
+                </div>
+              </div>
+
+              <Card className="p-4 bg-muted/50 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Supplier</span>
+                  <span className="font-medium">{selectedPurchase.party_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span className="font-medium">{formatDate(selectedPurchase.date)}</span>
+                </div>
+                {selectedPurchase.due_date && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Due Date</span>
+                    <span className="font-medium">{formatDate(selectedPurchase.due_date)}</span>
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                  <Hash className="h-4 w-4" />
+                  Items ({(selectedPurchase.items || []).length})
+                </h3>
+                <div className="space-y-3">
+                  {(selectedPurchase.items || []).map((item, index) => (
+                    <div key={item.id || index} className="pb-3 border-b border-border last:border-0 last:pb-0">
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <div className="font-medium text-sm">{item.name}</div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Qty: {item.quantity} × {formatCurrency(Number(item.unit_price))}
+                            {item.tax_rate > 0 && ` • ${item.tax_rate}% tax`}
+                          </div>
+                        </div>
+                        <div className="text-sm font-semibold">{formatCurrency(Number(item.total))}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+
+              <Card className="p-4 bg-primary/5">
+                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                  <IndianRupee className="h-4 w-4" />
+                  Payment
+                </h3>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Total Amount:</span>
+                    <span className="font-medium">{formatCurrency(Number(selectedPurchase.total_amount))}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Paid:</span>
+                    <span className="font-medium text-green-600 dark:text-green-500">
+                      {formatCurrency(Number(selectedPurchase.paid_amount || 0))}
+                    </span>
+                  </div>
+                  <div className="h-px bg-border my-2"></div>
+                  <div className="flex justify-between text-base font-bold">
+                    <span>Balance Due:</span>
+                    <span className="text-orange-600 dark:text-orange-500">
+                      {formatCurrency(Number(selectedPurchase.balance_amount || 0))}
+                    </span>
+                  </div>
+                </div>
+              </Card>
+
+              {selectedPurchase.notes && (
+                <Card className="p-4">
+                  <h3 className="text-sm font-semibold mb-2">Notes</h3>
+                  <p className="text-sm text-muted-foreground leading-relaxed">{selectedPurchase.notes}</p>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isPanelOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity duration-300"
+          onClick={handleClosePanel}
+        />
+      )}
+
+      <RecordPurchaseModal
+        open={isAddModalOpen}
+        onOpenChange={setIsAddModalOpen}
+        onPurchaseRecorded={handlePurchaseRecorded}
+      />
     </DashboardLayout>
   );
 }
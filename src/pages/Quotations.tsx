@@ -0,0 +1,531 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  Plus,
+  FileSignature,
+  Search,
+  Calendar,
+  User,
+  Loader2,
+  X,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  Download,
+  Send,
+  CheckCircle2,
+  XCircle,
+  ArrowRightLeft,
+} from "lucide-react";
+import CreateInvoiceModal from "@/components/CreateInvoiceModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import {
+  quotationsService,
+  OPEN_QUOTATION_STATUSES,
+  type Quotation,
+  type QuotationStatus,
+} from "@/services/api/quotationsService";
+import { invoiceTemplatesService } from "@/services/api/invoiceTemplatesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { downloadInvoicePdf } from "@/lib/invoicePdf";
+import { quotationToInvoiceData } from "@/lib/invoiceMapping";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type StatusFilter = "all" | QuotationStatus;
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "draft", label: "Draft" },
+  { value: "sent", label: "Sent" },
+  { value: "accepted", label: "Accepted" },
+  { value: "converted", label: "Invoiced" },
+  { value: "rejected", label: "Rejected" },
+  { value: "expired", label: "Expired" },
+];
+
+const getStatusColor = (status: QuotationStatus) => {
+  switch (status) {
+    case "sent":
+      return "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-400";
+    case "accepted":
+      return "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-400";
+    case "converted":
+      return "bg-primary/10 text-primary";
+    case "rejected":
+      return "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-400";
+    case "expired":
+      return "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400";
+    default:
+      return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400";
+  }
+};
+
+const statusLabel = (status: QuotationStatus) =>
+  status === "converted" ? "Invoiced" : status.charAt(0).toUpperCase() + status.slice(1);
+
+export default function Quotations() {
+  const navigate = useNavigate();
+  const { format: formatCurrency, getSymbol } = useCurrency();
+
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingQuotation, setEditingQuotation] = useState<Quotation | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [selectedQuotation, setSelectedQuotation] = useState<Quotation | null>(null);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadQuotations = useCallback(async () => {
+    const { data, error } = await quotationsService.fetchQuotations();
+    if (error) {
+      toast.error("Failed to load quotations");
+    } else if (data) {
+      setQuotations(data);
+      setSelectedQuotation(prev => (prev ? data.find(q => q.id === prev.id) ?? prev : prev));
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadQuotations();
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({
+      table: "quotations",
+      onChange: () => {
+        loadQuotations();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadQuotations]);
+
+  const filteredQuotations = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return quotations.filter(quotation =>
+      (statusFilter === "all" || quotation.status === statusFilter) &&
+      (!query ||
+        quotation.quotation_number.toLowerCase().includes(query) ||
+        quotation.party_name.toLowerCase().includes(query))
+    );
+  }, [quotations, searchQuery, statusFilter]);
+
+  const replaceQuotation = (quotation: Quotation) => {
+    setQuotations(prev => [quotation, ...prev.filter(q => q.id !== quotation.id)]);
+    if (selectedQuotation?.id === quotation.id) {
+      setSelectedQuotation(quotation);
+    }
+  };
+
+  const handleSaved = (quotation: Quotation | null) => {
+    if (quotation) replaceQuotation(quotation);
+    setEditingQuotation(null);
+  };
+
+  const handleEdit = (quotation: Quotation) => {
+    setEditingQuotation(quotation);
+    setIsModalOpen(true);
+  };
+
+  const handleQuotationClick = (quotation: Quotation) => {
+    setSelectedQuotation(quotation);
+    setIsPanelOpen(true);
+  };
+
+  const handleClosePanel = () => {
+    setIsPanelOpen(false);
+    setTimeout(() => setSelectedQuotation(null), 300);
+  };
+
+  const handleStatusChange = async (quotation: Quotation, status: Exclude<QuotationStatus, "converted">) => {
+    const { data, error } = await quotationsService.updateStatus(quotation, status);
+    if (error || !data) {
+      toast.error("Failed to update quotation", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    replaceQuotation(data);
+    toast.success(`${quotation.quotation_number} marked as ${statusLabel(data.status).toLowerCase()}`);
+  };
+
+  const handleConvert = async (quotation: Quotation) => {
+    const expired = quotation.status === "expired";
+    if (expired && !confirm(`${quotation.quotation_number} has expired. Invoice it anyway?`)) {
+      return;
+    }
+
+    setBusyId(quotation.id);
+    try {
+      const { data: bill, error } = await quotationsService.convertToInvoice(quotation, { allowExpired: expired });
+      if (error || !bill) {
+        toast.error("Failed to convert quotation", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+        return;
+      }
+
+      replaceQuotation({ ...quotation, status: "converted", converted_bill_id: bill.id });
+      toast.success(`Invoice ${bill.bill_number} created`, {
+        description: `From ${quotation.quotation_number} for ${formatCurrency(Number(bill.total_amount))}`,
+        action: { label: "View invoices", onClick: () => navigate("/invoices") },
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownloadPdf = async (quotation: Quotation) => {
+    setBusyId(quotation.id);
+    try {
+      const { data: customTemplates } = await invoiceTemplatesService.fetchTemplates();
+      await downloadInvoicePdf(quotationToInvoiceData(quotation, getSymbol()), customTemplates ?? []);
+    } catch (error) {
+      console.error('❌ Error generating quotation PDF:', error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (quotation: Quotation) => {
+    const { success, error } = await quotationsService.deleteQuotation(quotation.id);
+    if (!success) {
+      toast.error("Failed to delete quotation", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    setQuotations(prev => prev.filter(q => q.id !== quotation.id));
+    if (selectedQuotation?.id === quotation.id) {
+      handleClosePanel();
+    }
+    toast.success(`${quotation.quotation_number} deleted`);
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" }) : "—";
+
+  const isOpen = (quotation: Quotation) => OPEN_QUOTATION_STATUSES.includes(quotation.status);
+  const canConvert = (quotation: Quotation) => quotation.status !== "converted" && quotation.status !== "rejected";
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">Quotations</h1>
+            <p className="text-sm text-muted-foreground">
+              Send estimates and convert accepted ones into invoices • {quotations.length} total
+            </p>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingQuotation(null);
+              setIsModalOpen(true);
+            }}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Quotation
+          </Button>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder="Search quotations..."
+              className="search-bar pl-11"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map(option => (
+              <Button
+                key={option.value}
+                variant={statusFilter === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setStatusFilter(option.value)}
+                className="rounded-xl"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading quotations...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : quotations.length === 0 ? (
+          <EmptyState
+            icon={FileSignature}
+            title="No quotations created"
+            description="Send estimates to customers before billing. Accepted quotations turn into invoices in one click."
+            actionLabel="Create Your First Quotation"
+            onAction={() => setIsModalOpen(true)}
+          />
+        ) : filteredQuotations.length === 0 ? (
+          <Card className="p-12 text-center">
+            <FileSignature className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No quotations found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search or filter</p>
+          </Card>
+        ) : (
+          <div className="grid gap-3">
+            {filteredQuotations.map(quotation => (
+              <Card
+                key={quotation.id}
+                className={cn(
+                  "p-4 hover:shadow-md hover:border-primary/50 transition-all cursor-pointer group",
+                  selectedQuotation?.id === quotation.id && "border-primary bg-primary/5"
+                )}
+                onClick={() => handleQuotationClick(quotation)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0 group-hover:bg-primary/20 transition-colors">
+                      <FileSignature className="h-6 w-6 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{quotation.quotation_number}</h3>
+                        <Badge className={cn("text-xs", getStatusColor(quotation.status))}>
+                          {statusLabel(quotation.status)}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{quotation.party_name}</span>
+                        <span className="text-muted-foreground/50">•</span>
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>Valid until {formatDate(quotation.valid_until)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <div className="text-right">
+                      <div className="text-lg font-bold text-primary">
+                        {formatCurrency(quotation.total_amount)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {quotation.items.length} item{quotation.items.length !== 1 ? "s" : ""}
+                      </div>
+                    </div>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={busyId === quotation.id}>
+                          {busyId === quotation.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <MoreVertical className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem onClick={() => handleDownloadPdf(quotation)}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Download PDF
+                        </DropdownMenuItem>
+                        {quotation.status === "draft" && (
+                          <DropdownMenuItem onClick={() => handleStatusChange(quotation, "sent")}>
+                            <Send className="h-4 w-4 mr-2" />
+                            Mark as Sent
+                          </DropdownMenuItem>
+                        )}
+                        {isOpen(quotation) && (
+                          <>
+                            <DropdownMenuItem onClick={() => handleStatusChange(quotation, "accepted")}>
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              Mark as Accepted
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleStatusChange(quotation, "rejected")}>
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Mark as Rejected
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        {canConvert(quotation) && (
+                          <DropdownMenuItem onClick={() => handleConvert(quotation)}>
+                            <ArrowRightLeft className="h-4 w-4 mr-2" />
+                            Convert to Invoice
+                          </DropdownMenuItem>
+                        )}
+                        {quotation.status !== "converted" && (
+                          <DropdownMenuItem onClick={() => handleEdit(quotation)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(quotation)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Side Detail Panel */}
+      <div
+        className={cn(
+          "fixed top-0 right-0 h-full w-full sm:w-[480px] bg-background border-l border-border shadow-2xl transform transition-transform duration-300 ease-in-out z-50 overflow-y-auto",
+          isPanelOpen ? "translate-x-0" : "translate-x-full"
+        )}
+      >
+        {selectedQuotation && (
+          <div className="h-full flex flex-col">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm border-b border-border px-6 py-4 z-10">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-bold text-foreground">Quotation Details</h2>
+                  <p className="text-sm text-muted-foreground">{selectedQuotation.quotation_number}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleClosePanel}
+                  className="rounded-full hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-6 space-y-6">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-primary">
+                  {formatCurrency(selectedQuotation.total_amount)}
+                </div>
+                <Badge className={cn("mt-2 text-xs", getStatusColor(selectedQuotation.status))}>
+                  {statusLabel(selectedQuotation.status)}
+                </Badge>
+              </div>
+
+              <Card className="p-4 bg-muted/50 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Customer</span>
+                  <span className="font-medium">{selectedQuotation.party_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span className="font-medium">{formatDate(selectedQuotation.date)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Valid until</span>
+                  <span className="font-medium">{formatDate(selectedQuotation.valid_until)}</span>
+                </div>
+              </Card>
+
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3">Items</h3>
+                <div className="space-y-2 text-sm">
+                  {selectedQuotation.items.map(item => (
+                    <div key={item.id} className="flex justify-between gap-4">
+                      <span className="truncate">
+                        {item.name}
+                        <span className="text-muted-foreground"> • {item.quantity} × {formatCurrency(Number(item.unit_price))}</span>
+                      </span>
+                      <span className="font-medium">{formatCurrency(Number(item.total))}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between pt-2 border-t text-muted-foreground">
+                    <span>Subtotal</span>
+                    <span>{formatCurrency(selectedQuotation.subtotal)}</span>
+                  </div>
+                  {selectedQuotation.tax_amount > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>GST</span>
+                      <span>{formatCurrency(selectedQuotation.tax_amount)}</span>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {selectedQuotation.notes && (
+                <Card className="p-4">
+                  <h3 className="text-sm font-semibold mb-2">Notes</h3>
+                  <p className="text-sm text-muted-foreground leading-relaxed">{selectedQuotation.notes}</p>
+                </Card>
+              )}
+
+              <div className="grid gap-2">
+                {canConvert(selectedQuotation) && (
+                  <Button
+                    className="w-full"
+                    onClick={() => handleConvert(selectedQuotation)}
+                    disabled={busyId === selectedQuotation.id}
+                  >
+                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                    Convert to Invoice
+                  </Button>
+                )}
+                {selectedQuotation.status === "converted" && (
+                  <Button className="w-full" variant="outline" onClick={() => navigate("/invoices")}>
+                    View Invoices
+                  </Button>
+                )}
+                <Button
+                  className="w-full"
+                  variant="outline"
+                  onClick={() => handleDownloadPdf(selectedQuotation)}
+                  disabled={busyId === selectedQuotation.id}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isPanelOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity duration-300"
+          onClick={handleClosePanel}
+        />
+      )}
+
+      <CreateInvoiceModal
+        key={editingQuotation?.id ?? "new"}
+        open={isModalOpen}
+        onOpenChange={(open) => {
+          setIsModalOpen(open);
+          if (!open) setEditingQuotation(null);
+        }}
+        onSuccess={handleSaved}
+        documentType="quotation"
+        quotation={editingQuotation}
+      />
+    </DashboardLayout>
+  );
+}
@@ -1,11 +1,89 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { EmptyState } from "@/components/EmptyState";
 import { Button } from "@/components/ui/button";
-import { Plus, Receipt, Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Receipt as ReceiptIcon, Search, Calendar, User, Loader2, X, Printer, FileText } from "lucide-react";
+import { CreateReceiptModal } from "@/components/CreateReceiptModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useBusinessContext } from "@/contexts/BusinessContext";
+import { receiptsService, type Receipt } from "@/services/api/receiptsService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { generateReceiptHTML, printReceipt } from "@/lib/receiptGenerator";
+import { numberToWords } from "@/lib/invoiceUtils";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 
 export default function Receipts() {
-  const [receipts] = useState([]);
+  const { format: formatCurrency, getSymbol } = useCurrency();
+  const { businessProfile } = useBusinessContext();
+
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const loadReceipts = useCallback(async () => {
+    const { data, error } = await receiptsService.fetchReceipts();
+    if (error) {
+      toast.error("Failed to load receipts");
+    } else if (data) {
+      setReceipts(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadReceipts();
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({
+      table: "receipts",
+      onChange: () => {
+        loadReceipts();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadReceipts]);
+
+  const filteredReceipts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return receipts;
+
+    return receipts.filter(receipt =>
+      receipt.receipt_number.toLowerCase().includes(query) ||
+      receipt.customer_name.toLowerCase().includes(query) ||
+      (receipt.reference_number || "").toLowerCase().includes(query) ||
+      receipt.allocations.some(a => a.bill_number.toLowerCase().includes(query))
+    );
+  }, [receipts, searchQuery]);
+
+  const handleReceiptCreated = (receipt: Receipt) => {
+    setReceipts(prev => [receipt, ...prev.filter(r => r.id !== receipt.id)]);
+  };
+
+  const handleReceiptClick = (receipt: Receipt) => {
+    setSelectedReceipt(receipt);
+    setIsPanelOpen(true);
+  };
+
+  const handleClosePanel = () => {
+    setIsPanelOpen(false);
+    setTimeout(() => setSelectedReceipt(null), 300);
+  };
+
+  const handlePrint = (receipt: Receipt) => {
+    printReceipt(generateReceiptHTML(receipt, businessProfile, getSymbol()));
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
 
   return (
     <DashboardLayout>
@@ -15,7 +93,10 @@ export default function Receipts() {
             <h1 className="text-2xl font-bold text-foreground mb-1">Receipts</h1>
             <p className="text-sm text-muted-foreground">Manage payment receipts</p>
           </div>
-          <Button className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl">
+          <Button
+            onClick={() => setIsAddModalOpen(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
             <Plus className="h-4 w-4 mr-2" />
             Create Receipt
           </Button>
@@ -27,21 +108,182 @@ export default function Receipts() {
             type="text"
             placeholder="Search receipts..."
             className="search-bar pl-11"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
           />
         </div>
 
-        {receipts.length === 0 ? (
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading receipts...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : receipts.length === 0 ? (
           <EmptyState
-            icon={Receipt}
+            icon={ReceiptIcon}
             title="No receipts created"
             description="Generate receipts for customer payments. Maintain professional records and provide proof of payment."
             actionLabel="Create Your First Receipt"
-            onAction={() => console.log("Create receipt")}
+            onAction={() => setIsAddModalOpen(true)}
           />
+        ) : filteredReceipts.length === 0 ? (
+          <Card className="p-12 text-center">
+            <ReceiptIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No receipts found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search</p>
+          </Card>
         ) : (
-          <div>Receipt list will appear here</div>
+          <div className="grid gap-3">
+            {filteredReceipts.map(receipt => (
+              <Card
+                key={receipt.id}
+                className={cn(
+                  "p-4 hover:shadow-md hover:border-primary/50 transition-all cursor-pointer",
+                  selectedReceipt?.id === receipt.id && "border-primary bg-primary/5"
+                )}
+                onClick={() => handleReceiptClick(receipt)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-12 h-12 rounded-lg bg-green-500/10 flex items-center justify-center flex-shrink-0">
+                      <ReceiptIcon className="h-6 w-6 text-green-600 dark:text-green-500" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{receipt.receipt_number}</h3>
+                        <Badge variant="secondary" className="text-xs capitalize">{receipt.payment_method}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{receipt.customer_name}</span>
+                        <span className="text-muted-foreground/50">•</span>
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>{formatDate(receipt.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div className="text-lg font-bold text-green-600 dark:text-green-500">
+                      {formatCurrency(Number(receipt.amount))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {receipt.allocations.length} bill{receipt.allocations.length !== 1 ? "s" : ""}
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
         )}
       </div>
+
+      {/* Side Detail Panel */}
+      <div
+        className={cn(
+          "fixed top-0 right-0 h-full w-full sm:w-[480px] bg-background border-l border-border shadow-2xl transform transition-transform duration-300 ease-in-out z-50 overflow-y-auto",
+          isPanelOpen ? "translate-x-0" : "translate-x-full"
+        )}
+      >
+        {selectedReceipt && (
+          <div className="h-full flex flex-col">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm border-b border-border px-6 py-4 z-10">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-bold text-foreground">Receipt Details</h2>
+                  <p className="text-sm text-muted-foreground">{selectedReceipt.receipt_number}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleClosePanel}
+                  className="rounded-full hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-6 space-y-6">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-green-600 dark:text-green-500">
+                  {formatCurrency(Number(selectedReceipt.amount))}
+                </div>
+                <p className="text-xs text-muted-foreground italic mt-1">
+                  {numberToWords(Number(selectedReceipt.amount))}
+                </p>
+              </div>
+
+              <Card className="p-4 bg-muted/50 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Received from</span>
+                  <span className="font-medium">{selectedReceipt.customer_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span className="font-medium">{formatDate(selectedReceipt.date)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Payment mode</span>
+                  <span className="font-medium capitalize">{selectedReceipt.payment_method}</span>
+                </div>
+                {selectedReceipt.reference_number && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Reference</span>
+                    <span className="font-medium">{selectedReceipt.reference_number}</span>
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  Allocated to Bills
+                </h3>
+                <div className="space-y-2 text-sm">
+                  {selectedReceipt.allocations.map(allocation => (
+                    <div key={allocation.bill_id} className="flex justify-between">
+                      <span>{allocation.bill_number}</span>
+                      <span className="font-medium">{formatCurrency(Number(allocation.amount))}</span>
+                    </div>
+                  ))}
+                  {Number(selectedReceipt.unallocated_amount) > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Advance (on account)</span>
+                      <span className="font-medium">{formatCurrency(Number(selectedReceipt.unallocated_amount))}</span>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {selectedReceipt.notes && (
+                <Card className="p-4">
+                  <h3 className="text-sm font-semibold mb-2">Notes</h3>
+                  <p className="text-sm text-muted-foreground leading-relaxed">{selectedReceipt.notes}</p>
+                </Card>
+              )}
+
+              <Button className="w-full" variant="outline" onClick={() => handlePrint(selectedReceipt)}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print Receipt
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isPanelOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity duration-300"
+          onClick={handleClosePanel}
+        />
+      )}
+
+      <CreateReceiptModal
+        open={isAddModalOpen}
+        onOpenChange={setIsAddModalOpen}
+        onReceiptCreated={handleReceiptCreated}
+      />
     </DashboardLayout>
   );
 }
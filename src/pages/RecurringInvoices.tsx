@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Plus,
+  Repeat,
+  Calendar,
+  User,
+  Loader2,
+  Pause,
+  Play,
+  Trash2,
+  RefreshCw,
+  CheckCircle2,
+  SkipForward,
+  AlertCircle,
+  Clock,
+} from "lucide-react";
+import { CreateRecurringInvoiceModal } from "@/components/CreateRecurringInvoiceModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import {
+  recurringInvoicesService,
+  RECURRING_FREQUENCY_LABELS,
+  type RecurringInvoice,
+  type RecurringInvoiceRun,
+  type RecurringRunStatus,
+} from "@/services/api/recurringInvoicesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const RUN_STATUS_STYLES: Record<RecurringRunStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pending: { icon: Clock, className: "text-muted-foreground" },
+  generated: { icon: CheckCircle2, className: "text-green-600 dark:text-green-400" },
+  skipped: { icon: SkipForward, className: "text-amber-600 dark:text-amber-400" },
+  failed: { icon: AlertCircle, className: "text-destructive" },
+};
+
+export default function RecurringInvoices() {
+  const { format: formatCurrency } = useCurrency();
+
+  const [profiles, setProfiles] = useState<RecurringInvoice[]>([]);
+  const [runs, setRuns] = useState<RecurringInvoiceRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const [profilesResult, runsResult] = await Promise.all([
+      recurringInvoicesService.fetchProfiles(),
+      recurringInvoicesService.fetchRuns({ limit: 50 }),
+    ]);
+
+    if (profilesResult.error) {
+      toast.error("Failed to load recurring invoices");
+    } else if (profilesResult.data) {
+      setProfiles(profilesResult.data);
+    }
+    if (runsResult.data) {
+      setRuns(runsResult.data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+
+    // Keep profiles and the log in sync with other devices
+    const unsubscribers = [
+      realtimeSyncService.subscribe({ table: "recurring_invoices", onChange: () => loadData() }),
+      realtimeSyncService.subscribe({ table: "recurring_invoice_runs", onChange: () => loadData() }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [loadData]);
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const { generated, skipped, failed, error } = await recurringInvoicesService.processDueInvoices();
+      if (error) {
+        toast.error("Failed to run recurring invoices");
+        return;
+      }
+
+      if (generated.length === 0 && skipped.length === 0 && failed.length === 0) {
+        toast.info("No recurring invoices are due");
+      } else {
+        toast.success(`${generated.length} invoice${generated.length !== 1 ? "s" : ""} generated`, {
+          description: [
+            skipped.length > 0 && `${skipped.length} skipped`,
+            failed.length > 0 && `${failed.length} failed`,
+          ].filter(Boolean).join(" • ") || undefined,
+        });
+      }
+      await loadData();
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleToggle = async (profile: RecurringInvoice) => {
+    const { data, error } = await recurringInvoicesService.setProfileActive(profile, !profile.is_active);
+    if (error || !data) {
+      toast.error(`Failed to ${profile.is_active ? "pause" : "resume"} ${profile.name}`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    setProfiles(prev => prev.map(p => (p.id === data.id ? { ...p, ...data } : p)));
+    toast.success(`${profile.name} ${data.is_active ? "resumed" : "paused"}`);
+  };
+
+  const handleDelete = async (profile: RecurringInvoice) => {
+    if (!confirm(`Stop "${profile.name}"? Invoices already generated are kept.`)) return;
+
+    const { success } = await recurringInvoicesService.deleteProfile(profile.id);
+    if (!success) {
+      toast.error("Failed to delete recurring invoice");
+      return;
+    }
+
+    setProfiles(prev => prev.filter(p => p.id !== profile.id));
+    toast.success(`${profile.name} deleted`);
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" }) : "—";
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">Recurring Invoices</h1>
+            <p className="text-sm text-muted-foreground">
+              Bill subscription customers automatically • {profiles.filter(p => p.is_active).length} active
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleRunNow} disabled={isRunning} className="rounded-xl">
+              {isRunning ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Run Now
+            </Button>
+            <Button
+              onClick={() => setIsModalOpen(true)}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Schedule
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading recurring invoices...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : profiles.length === 0 ? (
+          <EmptyState
+            icon={Repeat}
+            title="No recurring invoices"
+            description="Repeat an invoice weekly, monthly or quarterly. Due invoices are raised automatically when you open the app."
+            actionLabel="Create Your First Schedule"
+            onAction={() => setIsModalOpen(true)}
+          />
+        ) : (
+          <div className="grid gap-3">
+            {profiles.map(profile => (
+              <Card key={profile.id} className={cn("p-4 transition-all", !profile.is_active && "opacity-70")}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      <Repeat className="h-6 w-6 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{profile.name}</h3>
+                        <Badge variant="secondary" className="text-xs">
+                          {RECURRING_FREQUENCY_LABELS[profile.frequency]}
+                        </Badge>
+                        {!profile.is_active && (
+                          <Badge variant="outline" className="text-xs">
+                            {profile.end_date && profile.next_run_date > profile.end_date ? "Ended" : "Paused"}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{profile.party_name}</span>
+                        <span className="text-muted-foreground/50">•</span>
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>
+                          {profile.is_active ? `Next ${formatDate(profile.next_run_date)}` : `Last run ${formatDate(profile.last_run_at)}`}
+                          {profile.end_date && ` • Until ${formatDate(profile.end_date)}`}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <div className="text-lg font-bold text-primary mr-3">
+                      {formatCurrency(profile.total_amount)}
+                    </div>
+                    {!(profile.end_date && profile.next_run_date > profile.end_date) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleToggle(profile)}
+                        title={profile.is_active ? "Pause" : "Resume"}
+                      >
+                        {profile.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                      onClick={() => handleDelete(profile)}
+                      title="Delete schedule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {runs.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold mb-3">Run Log</h3>
+            <div className="space-y-2">
+              {runs.map(run => {
+                const { icon: StatusIcon, className } = RUN_STATUS_STYLES[run.status];
+                return (
+                  <div key={run.id} className="flex items-center justify-between gap-3 text-sm rounded-lg bg-muted/50 px-3 py-2">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <StatusIcon className={cn("h-4 w-4 flex-shrink-0", className)} />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">
+                          {run.profile_name}
+                          {run.bill_number && <span className="text-muted-foreground"> • {run.bill_number}</span>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          For {formatDate(run.run_date)} • <span className="capitalize">{run.status}</span>
+                          {run.reason && ` • ${run.reason}`}
+                        </div>
+                      </div>
+                    </div>
+                    <span className="font-semibold flex-shrink-0">{formatCurrency(run.amount)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <CreateRecurringInvoiceModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        onProfileCreated={(profile) => setProfiles(prev => [...prev, profile])}
+      />
+    </DashboardLayout>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { format, startOfMonth, endOfMonth, startOfYear, endOfYear, subMonths, subDays } from "date-fns";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,80 +11,157 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import { FileDown, FileSpreadsheet, ArrowLeftRight, Calendar } from "lucide-react";
+import { FileDown, FileSpreadsheet, ArrowLeftRight, Calendar, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useBusinessContext } from "@/contexts/BusinessContext";
+import { ledgerService } from "@/services/api/ledgerService";
+import { balanceAsOf, type LedgerEntry, type LedgerPartyType } from "@/lib/partyLedger";
+import { customersService } from "@/services/api/customersService";
+import { suppliersService } from "@/services/api/suppliersService";
+import { ProfitLossReport } from "@/components/ProfitLossReport";
+import { GstReturnsReport } from "@/components/GstReturnsReport";
+import { AgeingReport } from "@/components/AgeingReport";
+import { exportReportToPDF, exportReportToXLSX, sanitizeFileName, type ReportExportOptions } from "@/lib/reportExport";
 
-interface Transaction {
+type Period = "thisYear" | "thisMonth" | "lastMonth" | "custom";
+
+interface ReportRow {
   id: string;
   date: Date;
-  customerName: string;
+  partyName: string;
   details: string;
   youGave: number;
   youGot: number;
-  type: "customer" | "supplier";
+  balance: number; // Running balance: positive = you'll get, negative = you'll give
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+function getPeriodRange(period: Exclude<Period, "custom">): { start: string; end: string } {
+  const today = new Date();
+  switch (period) {
+    case "thisMonth":
+      return { start: toDateInput(startOfMonth(today)), end: toDateInput(endOfMonth(today)) };
+    case "lastMonth": {
+      const lastMonth = subMonths(today, 1);
+      return { start: toDateInput(startOfMonth(lastMonth)), end: toDateInput(endOfMonth(lastMonth)) };
+    }
+    default:
+      return { start: toDateInput(startOfYear(today)), end: toDateInput(endOfYear(today)) };
+  }
 }
 
 export default function Reports() {
-  const [activeTab, setActiveTab] = useState<"customers" | "suppliers">("customers");
+  const { format: formatCurrency } = useCurrency();
+  const { businessProfile } = useBusinessContext();
+
+  const [activeTab, setActiveTab] = useState<"customers" | "suppliers" | "ageing" | "profitLoss" | "gst">("customers");
   const [searchQuery, setSearchQuery] = useState("");
-  const [period, setPeriod] = useState("thisYear");
-  const [startDate, setStartDate] = useState("2025-01-01");
-  const [endDate, setEndDate] = useState("2025-12-31");
-
-  // Sample data - this would come from your actual data source
-  const [transactions] = useState<Transaction[]>([
-    {
-      id: "1",
-      date: new Date("2025-09-27"),
-      customerName: "Abhay Abes",
-      details: "-",
-      youGave: 100,
-      youGot: 0,
-      type: "customer",
-    },
-    {
-      id: "2",
-      date: new Date("2025-09-27"),
-      customerName: "Aditya 2",
-      details: "-",
-      youGave: 500,
-      youGot: 0,
-      type: "customer",
-    },
-    {
-      id: "3",
-      date: new Date("2025-08-05"),
-      customerName: "Abc",
-      details: "-",
-      youGave: 0,
-      youGot: 1000,
-      type: "customer",
-    },
-    {
-      id: "4",
-      date: new Date("2025-07-15"),
-      customerName: "Def Company",
-      details: "-",
-      youGave: 100,
-      youGot: 0,
-      type: "customer",
-    },
-  ]);
-
-  // Filter transactions based on active tab and search
-  const filteredTransactions = transactions.filter((t) => {
-    const matchesTab = t.type === activeTab.slice(0, -1); // Remove 's' from customers/suppliers
-    const matchesSearch = t.customerName.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesTab && matchesSearch;
+  const [period, setPeriod] = useState<Period>("thisYear");
+  const [startDate, setStartDate] = useState(() => getPeriodRange("thisYear").start);
+  const [endDate, setEndDate] = useState(() => getPeriodRange("thisYear").end);
+  const [ledgers, setLedgers] = useState<Record<LedgerPartyType, Map<string, LedgerEntry[]>>>({
+    customer: new Map(),
+    supplier: new Map(),
   });
+  const [partyNames, setPartyNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Party names for both tabs
+  useEffect(() => {
+    Promise.all([customersService.fetchCustomers(), suppliersService.fetchSuppliers()]).then(
+      ([customers, suppliers]) => {
+        const names: Record<string, string> = {};
+        (customers.data ?? []).forEach(c => { names[c.id] = c.name; });
+        (suppliers.data ?? []).forEach(s => { names[s.id] = s.name; });
+        setPartyNames(names);
+      }
+    );
+  }, []);
+
+  // Every party's ledger; entries before the start date feed the opening balance
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([ledgerService.fetchLedgers("customer"), ledgerService.fetchLedgers("supplier")]).then(
+      ([customers, suppliers]) => {
+        if (cancelled) return;
+        if (customers.error || suppliers.error) {
+          toast.error("Failed to load ledgers");
+        }
+        setLedgers({ customer: customers.data ?? new Map(), supplier: suppliers.data ?? new Map() });
+        setIsLoading(false);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handlePeriodChange = (value: string) => {
+    const next = value as Period;
+    setPeriod(next);
+    if (next !== "custom") {
+      const range = getPeriodRange(next);
+      setStartDate(range.start);
+      setEndDate(range.end);
+    }
+  };
+
+  const partyType = activeTab === "customers" ? "customer" : "supplier";
+
+  const { rows, openingBalance } = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const dayBeforeStart = startDate ? toDateInput(subDays(new Date(`${startDate}T00:00:00`), 1)) : "";
+
+    let opening = 0;
+    const periodEntries: { partyId: string; entry: LedgerEntry }[] = [];
+
+    ledgers[partyType].forEach((entries, partyId) => {
+      if (query && !(partyNames[partyId] || "").toLowerCase().includes(query)) return;
+
+      if (dayBeforeStart) opening += balanceAsOf(entries, dayBeforeStart);
+      entries
+        .filter(entry => (!startDate || entry.date >= startDate) && (!endDate || entry.date <= endDate))
+        .forEach(entry => periodEntries.push({ partyId, entry }));
+    });
+
+    let balance = opening;
+    const periodRows: ReportRow[] = periodEntries
+      .sort((a, b) => a.entry.date.localeCompare(b.entry.date))
+      .map(({ partyId, entry }) => {
+        balance = Math.round((balance + entry.amount) * 100) / 100;
+        return {
+          id: `${partyId}:${entry.id}`,
+          date: new Date(`${entry.date}T00:00:00`),
+          partyName: partyNames[partyId] || "Unknown",
+          details: entry.description || "-",
+          youGave: entry.amount > 0 ? entry.amount : 0,
+          youGot: entry.amount < 0 ? -entry.amount : 0,
+          balance,
+        };
+      });
+
+    return { rows: periodRows, openingBalance: opening };
+  }, [ledgers, partyType, partyNames, searchQuery, startDate, endDate]);
 
   // Calculate totals
-  const totalYouGave = filteredTransactions.reduce((sum, t) => sum + t.youGave, 0);
-  const totalYouGot = filteredTransactions.reduce((sum, t) => sum + t.youGot, 0);
-  const netBalance = totalYouGot - totalYouGave;
+  const totalYouGave = rows.reduce((sum, t) => sum + t.youGave, 0);
+  const totalYouGot = rows.reduce((sum, t) => sum + t.youGot, 0);
+  const closingBalance = openingBalance + totalYouGave - totalYouGot;
 
-  // Count by type
-  const customerCount = transactions.filter(t => t.type === "customer").length;
-  const supplierCount = transactions.filter(t => t.type === "supplier").length;
+  // Count by type within the period
+  const countInPeriod = (type: LedgerPartyType) =>
+    Array.from(ledgers[type].values()).reduce(
+      (count, entries) =>
+        count + entries.filter(e => (!startDate || e.date >= startDate) && (!endDate || e.date <= endDate)).length,
+      0
+    );
+  const customerCount = countInPeriod("customer");
+  const supplierCount = countInPeriod("supplier");
 
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat("en-GB", {
@@ -93,12 +171,48 @@ export default function Reports() {
     }).format(date);
   };
 
+  const formatBalance = (value: number) =>
+    `${formatCurrency(Math.abs(value))} ${value > 0 ? "Dr" : value < 0 ? "Cr" : ""}`.trim();
+
+  const partyLabel = activeTab === "customers" ? "Customer" : "Supplier";
+
+  const buildExport = (): ReportExportOptions<ReportRow> => ({
+    title: `${partyLabel} Ledger Report`,
+    subtitle: `${formatDate(new Date(startDate))} to ${formatDate(new Date(endDate))}`,
+    businessName: businessProfile.businessName,
+    columns: [
+      { header: "Date", value: row => formatDate(row.date) },
+      { header: `${partyLabel} Name`, value: row => row.partyName },
+      { header: "Details", value: row => row.details },
+      { header: "You Gave", value: row => row.youGave || "", align: "right" },
+      { header: "You Got", value: row => row.youGot || "", align: "right" },
+      { header: "Balance", value: row => formatBalance(row.balance), align: "right" },
+    ],
+    rows,
+    footerRows: [["", "Total", "", totalYouGave, totalYouGot, formatBalance(closingBalance)]],
+    summary: [
+      { label: "Opening Balance", value: formatBalance(openingBalance) },
+      { label: "You Gave", value: formatCurrency(totalYouGave) },
+      { label: "You Got", value: formatCurrency(totalYouGot) },
+      { label: "Closing Balance", value: formatBalance(closingBalance) },
+    ],
+    fileName: sanitizeFileName(`${partyLabel}_Report_${startDate}_to_${endDate}`),
+  });
+
   const handleDownloadPDF = () => {
-    alert("PDF download functionality will be implemented");
+    if (rows.length === 0) {
+      toast.error("No entries to export");
+      return;
+    }
+    exportReportToPDF(buildExport());
   };
 
   const handleDownloadExcel = () => {
-    alert("Excel download functionality will be implemented");
+    if (rows.length === 0) {
+      toast.error("No entries to export");
+      return;
+    }
+    exportReportToXLSX(buildExport(), `${partyLabel}s`);
   };
 
   return (
@@ -113,24 +227,26 @@ export default function Reports() {
               </div>
               <h1 className="text-xl sm:text-2xl font-bold text-foreground">Transactions Reports</h1>
             </div>
-            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 w-full sm:w-auto">
-              <Button
-                variant="outline"
-                onClick={handleDownloadPDF}
-                className="border-border hover:bg-accent w-full sm:w-auto"
-              >
-                <FileDown className="h-4 w-4 mr-2" />
-                Download PDF
-              </Button>
-              <Button
-                variant="outline"
-                onClick={handleDownloadExcel}
-                className="border-border hover:bg-accent w-full sm:w-auto"
-              >
-                <FileSpreadsheet className="h-4 w-4 mr-2" />
-                Download Excel
-              </Button>
-            </div>
+            {(activeTab === "customers" || activeTab === "suppliers") && (
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 w-full sm:w-auto">
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadPDF}
+                  className="border-border hover:bg-accent w-full sm:w-auto"
+                >
+                  <FileDown className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadExcel}
+                  className="border-border hover:bg-accent w-full sm:w-auto"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Download Excel
+                </Button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -165,148 +281,218 @@ export default function Reports() {
                 <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600" />
               )}
             </button>
+            <button
+              onClick={() => setActiveTab("ageing")}
+              className={`pb-3 px-1 font-medium transition-colors relative whitespace-nowrap text-sm sm:text-base ${
+                activeTab === "ageing"
+                  ? "text-blue-600"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Ageing
+              {activeTab === "ageing" && (
+                <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600" />
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab("profitLoss")}
+              className={`pb-3 px-1 font-medium transition-colors relative whitespace-nowrap text-sm sm:text-base ${
+                activeTab === "profitLoss"
+                  ? "text-blue-600"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Profit &amp; Loss
+              {activeTab === "profitLoss" && (
+                <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600" />
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab("gst")}
+              className={`pb-3 px-1 font-medium transition-colors relative whitespace-nowrap text-sm sm:text-base ${
+                activeTab === "gst"
+                  ? "text-blue-600"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              GST Returns
+              {activeTab === "gst" && (
+                <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600" />
+              )}
+            </button>
           </div>
 
-          {/* Filters */}
-          <div className="grid grid-cols-4 gap-4 mb-6">
-            <div>
-              <label className="text-sm text-muted-foreground mb-2 block font-medium">Customer Name</label>
-              <Input
-                placeholder="Search"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="bg-background border-border"
-              />
-            </div>
-            <div>
-              <label className="text-sm text-muted-foreground mb-2 block font-medium">Period</label>
-              <Select value={period} onValueChange={setPeriod}>
-                <SelectTrigger className="bg-background border-border">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="thisYear">This Year</SelectItem>
-                  <SelectItem value="thisMonth">This Month</SelectItem>
-                  <SelectItem value="lastMonth">Last Month</SelectItem>
-                  <SelectItem value="custom">Custom</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <label className="text-sm text-muted-foreground mb-2 block font-medium">Start</label>
-              <div className="relative">
-                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+          {activeTab === "ageing" ? (
+            <AgeingReport />
+          ) : activeTab === "profitLoss" ? (
+            <ProfitLossReport />
+          ) : activeTab === "gst" ? (
+            <GstReturnsReport />
+          ) : (
+            <>
+            {/* Filters */}
+            <div className="grid grid-cols-4 gap-4 mb-6">
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block font-medium">{partyLabel} Name</label>
                 <Input
-                  type="date"
-                  value={startDate}
-                  onChange={(e) => setStartDate(e.target.value)}
-                  className="bg-background border-border pl-10"
+                  placeholder="Search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="bg-background border-border"
                 />
               </div>
-            </div>
-            <div>
-              <label className="text-sm text-muted-foreground mb-2 block font-medium">End</label>
-              <div className="relative">
-                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
-                <Input
-                  type="date"
-                  value={endDate}
-                  onChange={(e) => setEndDate(e.target.value)}
-                  className="bg-background border-border pl-10"
-                />
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block font-medium">Period</label>
+                <Select value={period} onValueChange={handlePeriodChange}>
+                  <SelectTrigger className="bg-background border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="thisYear">This Year</SelectItem>
+                    <SelectItem value="thisMonth">This Month</SelectItem>
+                    <SelectItem value="lastMonth">Last Month</SelectItem>
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-            </div>
-          </div>
-
-          {/* Summary Cards */}
-          <div className="mb-6">
-            <p className="text-muted-foreground text-sm mb-3 font-medium">
-              Total {filteredTransactions.length} entries
-            </p>
-            <div className="grid grid-cols-3 gap-4">
-              <Card className="bg-red-500/10 border-red-500/30 p-6 hover:bg-red-500/15 transition-colors">
-                <div className="text-3xl font-bold text-foreground mb-1">
-                  ₹{totalYouGave.toLocaleString()}
-                </div>
-                <div className="text-red-500 font-semibold">You Gave</div>
-              </Card>
-              <Card className="bg-green-500/10 border-green-500/30 p-6 hover:bg-green-500/15 transition-colors">
-                <div className="text-3xl font-bold text-foreground mb-1">
-                  ₹{totalYouGot.toLocaleString()}
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block font-medium">Start</label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+                  <Input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => {
+                      setStartDate(e.target.value);
+                      setPeriod("custom");
+                    }}
+                    className="bg-background border-border pl-10"
+                  />
                 </div>
-                <div className="text-green-500 font-semibold">You Got</div>
-              </Card>
-              <Card className="bg-blue-500/10 border-blue-500/30 p-6 hover:bg-blue-500/15 transition-colors">
-                <div className="text-3xl font-bold text-foreground mb-1">
-                  ₹{Math.abs(netBalance).toLocaleString()}
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block font-medium">End</label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+                  <Input
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => {
+                      setEndDate(e.target.value);
+                      setPeriod("custom");
+                    }}
+                    className="bg-background border-border pl-10"
+                  />
                 </div>
-                <div className="text-blue-500 font-semibold">Net Balance</div>
-              </Card>
+              </div>
             </div>
-          </div>
 
-          {/* Transactions Table */}
-          <div className="bg-card rounded-lg border border-border overflow-hidden shadow-sm">
-            <table className="w-full">
-              <thead className="bg-muted/50">
-                <tr>
-                  <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-                    DATE
-                  </th>
-                  <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-                    Customer Name
-                  </th>
-                  <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-                    DETAILS
-                  </th>
-                  <th className="text-right py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-                    YOU GAVE
-                  </th>
-                  <th className="text-right py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-                    YOU GOT
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-border">
-                {filteredTransactions.length > 0 ? (
-                  filteredTransactions.map((transaction) => (
-                    <tr
-                      key={transaction.id}
-                      className="hover:bg-muted/30 transition-colors"
-                    >
-                      <td className="py-4 px-6 text-foreground">
-                        {formatDate(transaction.date)}
-                      </td>
-                      <td className="py-4 px-6 text-foreground font-medium">
-                        {transaction.customerName}
-                      </td>
-                      <td className="py-4 px-6 text-muted-foreground">{transaction.details}</td>
-                      <td className="py-4 px-6 text-right">
-                        {transaction.youGave > 0 ? (
-                          <span className="text-red-500 font-semibold">₹{transaction.youGave.toLocaleString()}</span>
-                        ) : (
-                          <span className="text-muted-foreground">₹0</span>
-                        )}
+            {/* Summary Cards */}
+            <div className="mb-6">
+              <p className="text-muted-foreground text-sm mb-3 font-medium">
+                Total {rows.length} entries
+                {openingBalance !== 0 && ` • Opening balance ${formatBalance(openingBalance)}`}
+              </p>
+              <div className="grid grid-cols-3 gap-4">
+                <Card className="bg-red-500/10 border-red-500/30 p-6 hover:bg-red-500/15 transition-colors">
+                  <div className="text-3xl font-bold text-foreground mb-1">
+                    {formatCurrency(totalYouGave)}
+                  </div>
+                  <div className="text-red-500 font-semibold">You Gave</div>
+                </Card>
+                <Card className="bg-green-500/10 border-green-500/30 p-6 hover:bg-green-500/15 transition-colors">
+                  <div className="text-3xl font-bold text-foreground mb-1">
+                    {formatCurrency(totalYouGot)}
+                  </div>
+                  <div className="text-green-500 font-semibold">You Got</div>
+                </Card>
+                <Card className="bg-blue-500/10 border-blue-500/30 p-6 hover:bg-blue-500/15 transition-colors">
+                  <div className="text-3xl font-bold text-foreground mb-1">
+                    {formatCurrency(Math.abs(closingBalance))}
+                  </div>
+                  <div className="text-blue-500 font-semibold">
+                    {closingBalance >= 0 ? "Net Balance (You'll Get)" : "Net Balance (You'll Give)"}
+                  </div>
+                </Card>
+              </div>
+            </div>
+
+            {/* Transactions Table */}
+            <div className="bg-card rounded-lg border border-border overflow-hidden shadow-sm">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                      DATE
+                    </th>
+                    <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                      {partyLabel} Name
+                    </th>
+                    <th className="text-left py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                      DETAILS
+                    </th>
+                    <th className="text-right py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                      YOU GAVE
+                    </th>
+                    <th className="text-right py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                      YOU GOT
+                    </th>
+                    <th className="text-right py-4 px-6 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                      BALANCE
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={6} className="py-12 text-center text-muted-foreground">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto" />
                       </td>
-                      <td className="py-4 px-6 text-right">
-                        {transaction.youGot > 0 ? (
-                          <span className="text-green-500 font-semibold">₹{transaction.youGot.toLocaleString()}</span>
-                        ) : (
-                          <span className="text-muted-foreground">₹0</span>
-                        )}
+                    </tr>
+                  ) : rows.length > 0 ? (
+                    rows.map((transaction) => (
+                      <tr
+                        key={transaction.id}
+                        className="hover:bg-muted/30 transition-colors"
+                      >
+                        <td className="py-4 px-6 text-foreground">
+                          {formatDate(transaction.date)}
+                        </td>
+                        <td className="py-4 px-6 text-foreground font-medium">
+                          {transaction.partyName}
+                        </td>
+                        <td className="py-4 px-6 text-muted-foreground">{transaction.details}</td>
+                        <td className="py-4 px-6 text-right">
+                          {transaction.youGave > 0 ? (
+                            <span className="text-red-500 font-semibold">{formatCurrency(transaction.youGave)}</span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </td>
+                        <td className="py-4 px-6 text-right">
+                          {transaction.youGot > 0 ? (
+                            <span className="text-green-500 font-semibold">{formatCurrency(transaction.youGot)}</span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </td>
+                        <td className="py-4 px-6 text-right font-medium text-foreground whitespace-nowrap">
+                          {formatBalance(transaction.balance)}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={6} className="py-12 text-center text-muted-foreground">
+                        No entries found
                       </td>
                     </tr>
-                  ))
-                ) : (
-                  <tr>
-                    <td colSpan={5} className="py-12 text-center text-muted-foreground">
-                      No transactions found
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            </>
+          )}
         </div>
       </div>
     </DashboardLayout>
@@ -1,11 +1,101 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { EmptyState } from "@/components/EmptyState";
 import { Button } from "@/components/ui/button";
-import { Plus, ShoppingCart, Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Plus, ShoppingCart, Search, Calendar, User, Loader2, X, Hash, IndianRupee } from "lucide-react";
+import { RecordSaleModal } from "@/components/RecordSaleModal";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { salesService, type Sale } from "@/services/api/salesService";
+import { realtimeSyncService } from "@/services/realtime/realtimeSyncService";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 
 export default function Sales() {
-  const [sales] = useState([]);
+  const { format: formatCurrency } = useCurrency();
+
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const loadSales = useCallback(async () => {
+    const { data, error } = await salesService.fetchSales();
+    if (error) {
+      toast.error("Failed to load sales");
+    } else if (data) {
+      setSales(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSales();
+
+    // Keep the list in sync with other devices
+    const unsubscribe = realtimeSyncService.subscribe({
+      table: "sales",
+      onChange: () => {
+        loadSales();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [loadSales]);
+
+  const filteredSales = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return sales.filter(sale => {
+      const saleDate = sale.date.split("T")[0];
+      if (startDate && saleDate < startDate) return false;
+      if (endDate && saleDate > endDate) return false;
+
+      if (!query) return true;
+      return (
+        sale.sale_number.toLowerCase().includes(query) ||
+        (sale.customer_name || "").toLowerCase().includes(query) ||
+        sale.items.some(item => item.name.toLowerCase().includes(query))
+      );
+    });
+  }, [sales, searchQuery, startDate, endDate]);
+
+  const totals = useMemo(() => {
+    return filteredSales.reduce(
+      (acc, sale) => {
+        const amount = Number(sale.total_amount);
+        if (sale.payment_mode === "credit") acc.credit += amount;
+        else acc.cash += amount;
+        return acc;
+      },
+      { cash: 0, credit: 0 }
+    );
+  }, [filteredSales]);
+
+  const handleSaleRecorded = (sale: Sale) => {
+    setSales(prev => [sale, ...prev.filter(s => s.id !== sale.id)]);
+  };
+
+  const handleSaleClick = (sale: Sale) => {
+    setSelectedSale(sale);
+    setIsPanelOpen(true);
+  };
+
+  const handleClosePanel = () => {
+    setIsPanelOpen(false);
+    setTimeout(() => setSelectedSale(null), 300);
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
 
   return (
     <DashboardLayout>
@@ -15,33 +105,241 @@ export default function Sales() {
             <h1 className="text-2xl font-bold text-foreground mb-1">Sales</h1>
             <p className="text-sm text-muted-foreground">Track all sales transactions</p>
           </div>
-          <Button className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl">
+          <Button
+            onClick={() => setIsAddModalOpen(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+          >
             <Plus className="h-4 w-4 mr-2" />
             Record Sale
           </Button>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <input
-            type="text"
-            placeholder="Search sales..."
-            className="search-bar pl-11"
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto] gap-3">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder="Search sales..."
+              className="search-bar pl-11"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            aria-label="To date"
           />
         </div>
 
-        {sales.length === 0 ? (
+        {sales.length > 0 && (
+          <div className="grid grid-cols-3 gap-3">
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground mb-1">Total Sales</p>
+              <p className="text-lg font-bold">{formatCurrency(totals.cash + totals.credit)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground mb-1">Cash</p>
+              <p className="text-lg font-bold text-green-600 dark:text-green-500">{formatCurrency(totals.cash)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground mb-1">Credit</p>
+              <p className="text-lg font-bold text-orange-600 dark:text-orange-500">{formatCurrency(totals.credit)}</p>
+            </Card>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <Loader2 className="w-12 h-12 animate-spin text-primary mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Loading sales...</h3>
+            <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+          </div>
+        ) : sales.length === 0 ? (
           <EmptyState
             icon={ShoppingCart}
             title="No sales recorded"
             description="Start recording your sales transactions. Track revenue, manage inventory, and analyze your business performance."
             actionLabel="Record Your First Sale"
-            onAction={() => console.log("Record sale")}
+            onAction={() => setIsAddModalOpen(true)}
           />
+        ) : filteredSales.length === 0 ? (
+          <Card className="p-12 text-center">
+            <ShoppingCart className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No sales found</h3>
+            <p className="text-sm text-muted-foreground">Try adjusting your search or date range</p>
+          </Card>
         ) : (
-          <div>Sales list will appear here</div>
+          <div className="grid gap-3">
+            {filteredSales.map(sale => (
+              <Card
+                key={sale.id}
+                className={cn(
+                  "p-4 hover:shadow-md hover:border-primary/50 transition-all cursor-pointer",
+                  selectedSale?.id === sale.id && "border-primary bg-primary/5"
+                )}
+                onClick={() => handleSaleClick(sale)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      <ShoppingCart className="h-6 w-6 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{sale.sale_number}</h3>
+                        <Badge variant="secondary" className="text-xs">
+                          {sale.payment_mode === "credit" ? "Credit" : "Cash"}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{sale.customer_name || "Walk-in customer"}</span>
+                        <span className="text-muted-foreground/50">•</span>
+                        <Calendar className="h-3 w-3 flex-shrink-0" />
+                        <span>{formatDate(sale.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div className="text-lg font-bold text-primary">{formatCurrency(Number(sale.total_amount))}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {sale.items.length} item{sale.items.length !== 1 ? "s" : ""}
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Side Detail Panel */}
+      <div
+        className={cn(
+          "fixed top-0 right-0 h-full w-full sm:w-[480px] bg-background border-l border-border shadow-2xl transform transition-transform duration-300 ease-in-out z-50 overflow-y-auto",
+          isPanelOpen ? "translate-x-0" : "translate-x-full"
+        )}
+      >
+        {selectedSale && (
+          <div className="h-full flex flex-col">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm border-b border-border px-6 py-4 z-10">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-bold text-foreground">Sale Details</h2>
+                  <p className="text-sm text-muted-foreground">{selectedSale.sale_number}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleClosePanel}
+                  className="rounded-full hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <Badge className="text-sm px-4 py-1" variant="secondary">
+                  {selectedSale.payment_mode === "credit" ? "Credit Sale" : "Cash Sale"}
+                </Badge>
+                <div className="text-3xl font-bold text-primary">
+                  {formatCurrency(Number(selectedSale.total_amount))}
+                </div>
+              </div>
+
+              <Card className="p-4 bg-muted/50 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Customer</span>
+                  <span className="font-medium">{selectedSale.customer_name || "Walk-in customer"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span className="font-medium">{formatDate(selectedSale.date)}</span>
+                </div>
+              </Card>
+
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                  <Hash className="h-4 w-4" />
+                  Items ({selectedSale.items.length})
+                </h3>
+                <div className="space-y-3">
+                  {selectedSale.items.map((item, index) => (
+                    <div key={`${item.product_id ?? item.name}-${index}`} className="pb-3 border-b border-border last:border-0 last:pb-0">
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <div className="font-medium text-sm">{item.name}</div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Qty: {item.quantity} {item.unit || ""} × {formatCurrency(Number(item.unit_price))}
+                            {item.discount_percentage > 0 && ` • ${item.discount_percentage}% off`}
+                          </div>
+                        </div>
+                        <div className="text-sm font-semibold">{formatCurrency(Number(item.total))}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+
+              <Card className="p-4 bg-primary/5">
+                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                  <IndianRupee className="h-4 w-4" />
+                  Amount Breakdown
+                </h3>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Subtotal:</span>
+                    <span className="font-medium">{formatCurrency(Number(selectedSale.subtotal))}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Discount:</span>
+                    <span className="font-medium">-{formatCurrency(Number(selectedSale.discount_amount))}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Tax:</span>
+                    <span className="font-medium">{formatCurrency(Number(selectedSale.tax_amount))}</span>
+                  </div>
+                  <div className="h-px bg-border my-2"></div>
+                  <div className="flex justify-between text-base font-bold">
+                    <span>Total Amount:</span>
+                    <span className="text-primary">{formatCurrency(Number(selectedSale.total_amount))}</span>
+                  </div>
+                </div>
+              </Card>
+
+              {selectedSale.notes && (
+                <Card className="p-4">
+                  <h3 className="text-sm font-semibold mb-2">Notes</h3>
+                  <p className="text-sm text-muted-foreground leading-relaxed">{selectedSale.notes}</p>
+                </Card>
+              )}
+            </div>
+          </div>
         )}
       </div>
+
+      {isPanelOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity duration-300"
+          onClick={handleClosePanel}
+        />
+      )}
+
+      <RecordSaleModal
+        open={isAddModalOpen}
+        onOpenChange={setIsAddModalOpen}
+        onSaleRecorded={handleSaleRecorded}
+      />
     </DashboardLayout>
   );
 }
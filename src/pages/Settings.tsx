@@ -33,6 +33,11 @@ import {
 import { toast } from "sonner";
 import { useBusinessContext, BusinessType } from "@/contexts/BusinessContext";
 import { useCurrency } from "@/contexts/CurrencyContext";
+import { DocumentNumberingSettings } from "@/components/DocumentNumberingSettings";
+import { NumberingSeriesSettings } from "@/components/NumberingSeriesSettings";
+import { InvoiceRoundingSettings } from "@/components/InvoiceRoundingSettings";
+import { UpiPaymentSettings } from "@/components/UpiPaymentSettings";
+import { CreditControlSettings } from "@/components/CreditControlSettings";
 
 const BUSINESS_TYPES: BusinessType[] = [
   'Retailer / Shop',
@@ -436,20 +441,12 @@ export default function Settings() {
           </TabsContent>
 
           {/* Preferences Tab */}
-          <TabsContent value="preferences">
-            <Card>
-              <CardHeader>
-                <CardTitle>Preferences</CardTitle>
-                <CardDescription>
-                  Customize your application preferences
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground text-center py-8">
-                  Preferences settings coming soon...
-                </p>
-              </CardContent>
-            </Card>
+          <TabsContent value="preferences" className="space-y-6">
+            <DocumentNumberingSettings />
+            <NumberingSeriesSettings />
+            <InvoiceRoundingSettings />
+            <UpiPaymentSettings />
+            <CreditControlSettings />
           </TabsContent>
 
           {/* Integrations Tab */}
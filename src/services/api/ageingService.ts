@@ -0,0 +1,193 @@
+/**
+ * Ageing Service
+ *
+ * Receivables and payables ageing: every open bill grouped by party and
+ * bucketed by days past due. Customer bills are receivables and purchase
+ * bills are payables. Bills without a due date fall due after the party's
+ * payment terms, or on the bill date when the party has none.
+ *
+ * @version 1.0.0
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  bucketIndexFor,
+  daysBetween,
+  parsePaymentTermsDays,
+  pastDueBuckets,
+  type AgeingBucket,
+} from '@/lib/ageing';
+import { billAmountInBase } from '@/lib/invoiceUtils';
+import { billsService, type Bill } from './billsService';
+import { customersService } from './customersService';
+import { suppliersService } from './suppliersService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type DueDateSource = 'bill' | 'payment_terms' | 'bill_date';
+
+export interface AgeingBill {
+  id: string;
+  bill_number: string;
+  date: string;
+  due_date: string;
+  due_date_source: DueDateSource;
+  days_past_due: number; // Negative while not yet due
+  bucket_index: number;
+  total_amount: number;
+  balance_amount: number;
+}
+
+export interface PartyAgeing {
+  party_key: string; // Party id, or the name for bills with no linked party
+  party_name: string;
+  payment_terms_days: number | null;
+  bills: AgeingBill[]; // Most overdue first
+  buckets: number[]; // Outstanding per bucket
+  total: number;
+}
+
+export interface AgeingSide {
+  parties: PartyAgeing[]; // Largest balance first
+  buckets: number[];
+  total: number;
+}
+
+export interface AgeingReport {
+  asOf: string; // yyyy-MM-dd
+  buckets: AgeingBucket[];
+  receivables: AgeingSide;
+  payables: AgeingSide;
+}
+
+// Bills that are settled or were never issued are not outstanding
+const CLOSED_STATUSES: Bill['status'][] = ['paid', 'cancelled', 'draft'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// AGEING SERVICE
+// ============================================================================
+
+class AgeingService {
+  /**
+   * Due date of a bill: its own, else the bill date plus the party's terms
+   */
+  private dueDateFor(bill: Bill, termsDays: number | null): { date: string; source: DueDateSource } {
+    if (bill.due_date) return { date: bill.due_date.slice(0, 10), source: 'bill' };
+
+    const billDate = bill.date.slice(0, 10);
+    if (termsDays !== null) {
+      return { date: format(addDays(parseISO(billDate), termsDays), 'yyyy-MM-dd'), source: 'payment_terms' };
+    }
+    return { date: billDate, source: 'bill_date' };
+  }
+
+  private buildSide(
+    bills: Bill[],
+    termsByParty: Map<string, number | null>,
+    asOf: string,
+    buckets: AgeingBucket[]
+  ): AgeingSide {
+    const parties = new Map<string, PartyAgeing>();
+
+    bills
+      .filter(bill => !CLOSED_STATUSES.includes(bill.status) && Number(bill.balance_amount) > 0)
+      .filter(bill => bill.date.slice(0, 10) <= asOf)
+      .forEach(bill => {
+        const partyKey = bill.party_id ?? `name:${bill.party_name}`;
+        const termsDays = bill.party_id ? termsByParty.get(bill.party_id) ?? null : null;
+
+        let party = parties.get(partyKey);
+        if (!party) {
+          party = {
+            party_key: partyKey,
+            party_name: bill.party_name || 'Walk-in',
+            payment_terms_days: termsDays,
+            bills: [],
+            buckets: buckets.map(() => 0),
+            total: 0,
+          };
+          parties.set(partyKey, party);
+        }
+
+        const due = this.dueDateFor(bill, termsDays);
+        const daysPastDue = daysBetween(due.date, asOf);
+        const bucketIndex = bucketIndexFor(daysPastDue, buckets);
+        const balance = billAmountInBase(round(Number(bill.balance_amount)), bill);
+
+        party.bills.push({
+          id: bill.id,
+          bill_number: bill.bill_number,
+          date: bill.date.slice(0, 10),
+          due_date: due.date,
+          due_date_source: due.source,
+          days_past_due: daysPastDue,
+          bucket_index: bucketIndex,
+          total_amount: billAmountInBase(Number(bill.total_amount), bill),
+          balance_amount: balance,
+        });
+        party.buckets[bucketIndex] = round(party.buckets[bucketIndex] + balance);
+        party.total = round(party.total + balance);
+      });
+
+    const sorted = Array.from(parties.values())
+      .map(party => ({ ...party, bills: party.bills.sort((a, b) => b.days_past_due - a.days_past_due) }))
+      .sort((a, b) => b.total - a.total);
+
+    return {
+      parties: sorted,
+      buckets: buckets.map((_, index) => round(sorted.reduce((sum, party) => sum + party.buckets[index], 0))),
+      total: round(sorted.reduce((sum, party) => sum + party.total, 0)),
+    };
+  }
+
+  /**
+   * Age every open bill as of a date (yyyy-MM-dd), into days-past-due
+   * buckets with the given upper bounds. Balances are the bills' current
+   * balances; bills dated after the date are left out.
+   */
+  async generateAgeing(asOf: string, boundaries?: number[]): Promise<{
+    data: AgeingReport | null;
+    error: any;
+  }> {
+    try {
+      const [bills, customers, suppliers] = await Promise.all([
+        billsService.fetchBills(),
+        customersService.fetchCustomers(),
+        suppliersService.fetchSuppliers(),
+      ]);
+
+      const failed = [bills, customers, suppliers].find(result => result.error);
+      if (failed) throw failed.error;
+
+      const termsByParty = new Map<string, number | null>();
+      (customers.data ?? []).forEach(c => termsByParty.set(c.id, parsePaymentTermsDays(c.payment_terms)));
+      (suppliers.data ?? []).forEach(s => termsByParty.set(s.id, parsePaymentTermsDays(s.payment_terms)));
+
+      const buckets = pastDueBuckets(boundaries);
+      const allBills = bills.data ?? [];
+
+      return {
+        data: {
+          asOf,
+          buckets,
+          receivables: this.buildSide(allBills.filter(b => b.party_type === 'customer'), termsByParty, asOf, buckets),
+          payables: this.buildSide(allBills.filter(b => b.party_type === 'supplier'), termsByParty, asOf, buckets),
+        },
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in generateAgeing:', err);
+      return { data: null, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const ageingService = new AgeingService();
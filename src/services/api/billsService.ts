@@ -13,6 +13,11 @@
 
 import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
 import { supabase } from '@/integrations/supabase/client';
+import { normalizeBillRow, billItemToTaxableLine } from '@/lib/invoiceMapping';
+import { generateInvoiceNumber, calculateTaxTotals, applyRoundOff } from '@/lib/invoiceUtils';
+import { ledgerService } from './ledgerService';
+import { numberingSeriesService } from './numberingSeriesService';
+import type { RoundOffMode } from '@/types/invoice';
 
 /**
  * Generate a UUID v4 compatible ID
@@ -36,28 +41,62 @@ function generateUUID(): string {
 // TYPE DEFINITIONS
 // ============================================================================
 
-export interface Bill {
+/**
+ * Invoice presentation details carried on the bill so it can be re-rendered
+ * with the same template, party snapshot and GST treatment it was issued with
+ */
+export interface BillInvoiceDetails {
+  party_gstin?: string | null;
+  party_phone?: string | null;
+  party_email?: string | null;
+  party_address?: string | null;
+  template?: string | null;
+  gst_type?: 'none' | 'igst' | 'cgst_sgst' | null;
+  gst_rate?: number | null;
+  include_gst?: boolean;
+  payment_instructions?: string | null;
+  business_name?: string | null;
+  business_address?: string | null;
+  business_phone?: string | null;
+  business_email?: string | null;
+  business_gst?: string | null;
+  round_off_mode?: RoundOffMode | null;
+  currency_code?: string | null; // Defaults to INR
+  exchange_rate?: number | null; // INR per unit of currency_code
+}
+
+export interface Bill extends BillInvoiceDetails {
   id: string;
   user_id: string;
   bill_number: string;
-  party_id: string;
+  party_id: string | null; // Null only for walk-in invoices that predate party linking
   party_type: 'customer' | 'supplier';
   party_name: string;
   date: string;
   due_date: string | null;
+  subtotal: number; // Net of line discounts, before tax
   total_amount: number;
   paid_amount: number;
-  balance_amount: number;
-  status: 'draft' | 'pending' | 'paid' | 'overdue' | 'cancelled';
+  balance_amount: number; // total_amount - note_adjustment - paid_amount
+  note_adjustment?: number; // Credit notes less debit notes against the bill
+  status: 'draft' | 'pending' | 'partial' | 'paid' | 'overdue' | 'cancelled';
   items: BillItem[];
   notes: string | null;
   terms: string | null;
-  tax_amount: number;
-  discount_amount: number;
+  tax_amount: number; // Line taxes plus any bill-level tax
+  cess_amount: number; // Compensation cess, kept apart from GST
+  round_off: number; // Adjustment included in total_amount
+  discount_amount: number; // Invoice-level discount, taken off before tax
   // 🆕 NEW DISCOUNT COLUMNS (added to database)
   discount: number; // Total discount amount
   discount_type: 'percentage' | 'flat' | null; // Type of discount
   discount_value: number | null; // Original discount value before calculation
+  einvoice_irn?: string | null; // Invoice Reference Number from the IRP
+  einvoice_ack_no?: string | null;
+  einvoice_ack_date?: string | null;
+  einvoice_signed_qr?: string | null; // Signed QR string printed on the invoice
+  eway_bill_no?: string | null; // Active e-way bill, copied from the register
+  eway_bill_valid_until?: string | null;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -66,26 +105,31 @@ export interface Bill {
 
 export interface BillItem {
   id: string;
+  product_id?: string | null; // Inventory product this line moves stock for
   name: string;
   description: string | null;
+  hsn?: string | null;
   quantity: number;
   unit_price: number;
   tax_rate: number;
+  cess_rate?: number;
+  tax_inclusive?: boolean; // unit_price already includes GST and cess
   discount_percentage: number;
   total: number;
 }
 
-export interface CreateBillInput {
+export interface CreateBillInput extends BillInvoiceDetails {
   bill_number?: string;
-  party_id: string;
+  party_id: string | null;
   party_type: 'customer' | 'supplier';
   party_name: string;
   date: string;
   due_date?: string;
   items: Omit<BillItem, 'id'>[];
+  paid_amount?: number; // Amount settled at the time of billing
   notes?: string;
   terms?: string;
-  tax_amount?: number;
+  tax_amount?: number; // Extra bill-level tax on top of line taxes
   discount_amount?: number;
   // 🆕 NEW DISCOUNT FIELDS
   discount?: number;
@@ -93,9 +137,9 @@ export interface CreateBillInput {
   discount_value?: number;
 }
 
-export interface UpdateBillInput {
+export interface UpdateBillInput extends BillInvoiceDetails {
   bill_number?: string;
-  party_id?: string;
+  party_id?: string | null;
   party_name?: string;
   date?: string;
   due_date?: string;
@@ -104,7 +148,7 @@ export interface UpdateBillInput {
   paid_amount?: number;
   notes?: string;
   terms?: string;
-  tax_amount?: number;
+  tax_amount?: number; // Extra bill-level tax on top of line taxes
   discount_amount?: number;
   // 🆕 NEW DISCOUNT FIELDS
   discount?: number;
@@ -128,7 +172,8 @@ class BillsService {
   private tableName = 'bills' as const;
 
   /**
-   * Generate unique bill number
+   * Placeholder number for purchase bills entered without the supplier's
+   * bill number. Purchases never take numbers from the invoice series.
    */
   private async generateBillNumber(): Promise<string> {
     const prefix = 'INV';
@@ -138,28 +183,106 @@ class BillsService {
   }
 
   /**
-   * Calculate bill totals
+   * Next invoice number, without reserving it. Uses the default invoice
+   * numbering series when there is one, otherwise INV-2026-0042 style
+   * numbers where deleted bills are counted so numbers are never reused.
    */
-  private calculateTotals(
+  async getNextInvoiceNumber(date?: string): Promise<string> {
+    const seriesNumber = await numberingSeriesService.peekNextNumber('invoice', date);
+    if (seriesNumber) return seriesNumber;
+
+    const year = new Date().getFullYear();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await (supabase as any)
+      .from(this.tableName)
+      .select('bill_number')
+      .eq('user_id', user.id)
+      .like('bill_number', `INV-${year}-%`);
+
+    if (error) throw error;
+
+    const last = (data ?? []).reduce((max: number, row: { bill_number: string }) => {
+      const match = row.bill_number.match(/^INV-\d{4}-(\d+)$/);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0);
+
+    return generateInvoiceNumber('INV', last, year);
+  }
+
+  /**
+   * Reserve the invoice number for a bill being saved. Numbers from a
+   * numbering series are reserved in the database so devices saving at the
+   * same time never share one.
+   */
+  async reserveInvoiceNumber(date?: string): Promise<string> {
+    return (await numberingSeriesService.reserveNextNumber('invoice', date)) ?? this.getNextInvoiceNumber(date);
+  }
+
+  /**
+   * Calculate bill totals.
+   * Line taxes and cess come from each item's own rates; taxAmount is any
+   * extra bill-level tax on top of them. The discount comes off before tax
+   * and the grand total is rounded as roundOffMode asks.
+   */
+  calculateTotals(
     items: Omit<BillItem, 'id'>[],
     taxAmount: number = 0,
-    discountAmount: number = 0
+    discountAmount: number = 0,
+    roundOffMode: RoundOffMode | null = 'none'
   ) {
-    const subtotal = items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unit_price;
-      const discountedTotal = itemTotal * (1 - item.discount_percentage / 100);
-      const taxedTotal = discountedTotal * (1 + item.tax_rate / 100);
-      return sum + taxedTotal;
-    }, 0);
+    const totals = calculateTaxTotals(items.map(billItemToTaxableLine), discountAmount);
+    const totalTax = totals.taxAmount + taxAmount;
+    const { total, roundOff } = applyRoundOff(totals.total + taxAmount, roundOffMode ?? 'none');
 
-    const totalAmount = subtotal + taxAmount - discountAmount;
-    
     return {
-      total_amount: Math.round(totalAmount * 100) / 100,
-      subtotal: Math.round(subtotal * 100) / 100,
+      total_amount: total,
+      subtotal: totals.subtotal,
+      tax_amount: Math.round(totalTax * 100) / 100,
+      cess_amount: totals.cessAmount,
+      round_off: roundOff,
     };
   }
 
+  /**
+   * Invoice detail columns present on the input, ready to persist
+   */
+  pickInvoiceDetails(input: BillInvoiceDetails): BillInvoiceDetails {
+    const keys: (keyof BillInvoiceDetails)[] = [
+      'party_gstin', 'party_phone', 'party_email', 'party_address', 'template',
+      'gst_type', 'gst_rate', 'include_gst', 'payment_instructions', 'business_name',
+      'business_address', 'business_phone', 'business_email', 'business_gst',
+      'round_off_mode', 'currency_code', 'exchange_rate',
+    ];
+
+    return keys.reduce((details, key) => {
+      if (input[key] !== undefined) {
+        (details as any)[key] = input[key];
+      }
+      return details;
+    }, {} as BillInvoiceDetails);
+  }
+
+  /**
+   * Derive balance and payment status from the amount paid so far and any
+   * credit or debit notes against the bill
+   */
+  private resolvePayment(totalAmount: number, paidAmount: number, noteAdjustment: number = 0) {
+    const paid = Math.min(Math.max(paidAmount, 0), Math.max(totalAmount - noteAdjustment, 0));
+    const balance = Math.max(Math.round((totalAmount - noteAdjustment - paid) * 100) / 100, 0);
+    const settled = paid > 0 || noteAdjustment > 0;
+
+    let status: Bill['status'] = 'pending';
+    if (settled && balance <= 0) {
+      status = 'paid';
+    } else if (settled) {
+      status = 'partial';
+    }
+
+    return { paid_amount: paid, balance_amount: balance, status };
+  }
+
   /**
    * Fetch bills with optional filtering and pagination
    */
@@ -215,7 +338,7 @@ class BillsService {
       }
 
       console.log(`✅ Fetched ${data?.length || 0} bills`);
-      return { data: data as Bill[], error: null, count: count || 0 };
+      return { data: (data ?? []).map(normalizeBillRow), error: null, count: count || 0 };
     } catch (err) {
       console.error('❌ Exception in fetchBills:', err);
       return { data: null, error: err, count: 0 };
@@ -252,7 +375,7 @@ class BillsService {
         return { data: null, error };
       }
 
-      return { data: data as Bill, error: null };
+      return { data: normalizeBillRow(data), error: null };
     } catch (err) {
       console.error('❌ Exception in fetchBillById:', err);
       return { data: null, error: err };
@@ -276,8 +399,10 @@ class BillsService {
         };
       }
 
-      // Generate bill number if not provided
-      const billNumber = input.bill_number || await this.generateBillNumber();
+      // Reserve the next invoice number if not provided
+      const billNumber = input.bill_number || (
+        input.party_type === 'supplier' ? await this.generateBillNumber() : await this.reserveInvoiceNumber(input.date)
+      );
 
       // Add IDs to items
       const itemsWithIds = input.items.map(item => ({
@@ -286,11 +411,13 @@ class BillsService {
       }));
 
       // Calculate totals
-      const { total_amount } = this.calculateTotals(
+      const { total_amount, subtotal, tax_amount, cess_amount, round_off } = this.calculateTotals(
         input.items,
         input.tax_amount,
-        input.discount_amount
+        input.discount_amount,
+        input.round_off_mode
       );
+      const payment = this.resolvePayment(total_amount, input.paid_amount ?? 0);
 
       const billData = {
         user_id: user.id,
@@ -300,19 +427,23 @@ class BillsService {
         party_name: input.party_name,
         date: input.date,
         due_date: input.due_date || null,
+        subtotal,
         total_amount,
-        paid_amount: 0,
-        balance_amount: total_amount,
-        status: 'pending' as const,
+        paid_amount: payment.paid_amount,
+        balance_amount: payment.balance_amount,
+        status: payment.status,
         items: itemsWithIds,
         notes: input.notes || null,
         terms: input.terms || null,
-        tax_amount: input.tax_amount || 0,
+        tax_amount,
+        cess_amount,
+        round_off,
         discount_amount: input.discount_amount || 0,
         // 🆕 NEW DISCOUNT FIELDS - Save to database
         discount: input.discount || 0,
         discount_type: input.discount_type || null,
         discount_value: input.discount_value || null,
+        ...this.pickInvoiceDetails(input),
         deleted_at: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -321,9 +452,11 @@ class BillsService {
 
       console.log('🚀 Creating bill with real-time sync:', billData);
 
-      const result = await realtimeSyncService.create<Bill>(
-        this.tableName,
-        billData as any
+      const result = await ledgerService.trackBalance(input.party_type, input.party_id, () =>
+        realtimeSyncService.create<Bill>(
+          this.tableName,
+          billData as any
+        )
       );
 
       if (result.error) {
@@ -354,6 +487,11 @@ class BillsService {
         return { data: null, error: fetchError || new Error('Bill not found') };
       }
 
+      // A registered e-invoice is final; amendments go through credit/debit notes
+      if (input.items && currentBill.einvoice_irn) {
+        return { data: null, error: new Error('E-invoiced bills cannot be edited; issue a credit or debit note instead') };
+      }
+
       // Recalculate totals if items changed
       let updateData: any = {
         ...input,
@@ -362,27 +500,45 @@ class BillsService {
       };
 
       if (input.items) {
-        const { total_amount } = this.calculateTotals(
+        const { total_amount, subtotal, tax_amount, cess_amount, round_off } = this.calculateTotals(
           input.items,
-          input.tax_amount ?? currentBill.tax_amount,
-          input.discount_amount ?? currentBill.discount_amount
+          input.tax_amount ?? 0,
+          input.discount_amount ?? currentBill.discount_amount,
+          input.round_off_mode ?? currentBill.round_off_mode
         );
+        updateData.subtotal = subtotal;
+        updateData.tax_amount = tax_amount;
+        updateData.cess_amount = cess_amount;
+        updateData.round_off = round_off;
         updateData.total_amount = total_amount;
-        updateData.balance_amount = total_amount - (input.paid_amount ?? currentBill.paid_amount);
+        updateData.balance_amount = Math.max(
+          total_amount - Number(currentBill.note_adjustment ?? 0) - (input.paid_amount ?? currentBill.paid_amount),
+          0
+        );
       }
 
-      // Update status if paid in full
-      if (input.paid_amount && input.paid_amount >= currentBill.total_amount) {
-        updateData.status = 'paid';
-        updateData.balance_amount = 0;
+      // Keep balance and paid/partial status in step with payments
+      if (input.paid_amount !== undefined) {
+        const payment = this.resolvePayment(
+          updateData.total_amount ?? currentBill.total_amount,
+          input.paid_amount,
+          Number(currentBill.note_adjustment ?? 0)
+        );
+        updateData.paid_amount = payment.paid_amount;
+        updateData.balance_amount = payment.balance_amount;
+        if (!input.status || input.status === 'paid') {
+          updateData.status = payment.status;
+        }
       }
 
       console.log('🔄 Updating bill with real-time sync:', id, updateData);
 
-      const result = await realtimeSyncService.update<Bill>(
-        this.tableName,
-        id,
-        updateData
+      const result = await ledgerService.trackBalance(currentBill.party_type, currentBill.party_id, () =>
+        realtimeSyncService.update<Bill>(
+          this.tableName,
+          id,
+          updateData
+        )
       );
 
       if (result.error) {
@@ -398,6 +554,45 @@ class BillsService {
     }
   }
 
+  /**
+   * Move a bill's balance and status by a credit (positive) or debit
+   * (negative) note against it. The party ledger posts the note itself, so
+   * the party balance is left alone.
+   */
+  async applyNoteAdjustment(id: string, amount: number): Promise<{
+    data: Bill | null;
+    error: any;
+  }> {
+    try {
+      const { data: bill, error: fetchError } = await this.fetchBillById(id);
+      if (fetchError || !bill) {
+        return { data: null, error: fetchError ?? new Error('Bill not found') };
+      }
+
+      const noteAdjustment = Math.round((Number(bill.note_adjustment ?? 0) + amount) * 100) / 100;
+      const payment = this.resolvePayment(Number(bill.total_amount), Number(bill.paid_amount), noteAdjustment);
+      const keepStatus = bill.status === 'draft' || bill.status === 'cancelled';
+
+      const result = await realtimeSyncService.update<Bill>(this.tableName, id, {
+        note_adjustment: noteAdjustment,
+        balance_amount: payment.balance_amount,
+        ...(!keepStatus && { status: payment.status }),
+        updated_at: new Date().toISOString(),
+        synced_at: new Date().toISOString(),
+      } as any);
+
+      if (result.error) {
+        console.error('❌ Error adjusting bill for note:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      return { data: result.data, error: null };
+    } catch (err) {
+      console.error('❌ Exception in applyNoteAdjustment:', err);
+      return { data: null, error: err };
+    }
+  }
+
   /**
    * Delete a bill (soft delete) with real-time sync
    */
@@ -408,7 +603,10 @@ class BillsService {
     try {
       console.log('🗑️ Deleting bill with real-time sync:', id);
 
-      const result = await realtimeSyncService.delete(this.tableName, id);
+      const { data: bill } = await this.fetchBillById(id);
+      const result = await ledgerService.trackBalance(bill?.party_type ?? 'customer', bill?.party_id, () =>
+        realtimeSyncService.delete(this.tableName, id)
+      );
 
       if (result.error) {
         console.error('❌ Error deleting bill:', result.error);
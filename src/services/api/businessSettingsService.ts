@@ -13,11 +13,14 @@
 
 import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
 import { supabase } from '@/integrations/supabase/client';
+import type { RoundOffMode } from '@/types/invoice';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+export type CreditLimitMode = 'warn' | 'block';
+
 export interface BusinessSettings {
   id: string;
   user_id: string;
@@ -40,11 +43,16 @@ export interface BusinessSettings {
   fiscal_year_start: string | null;
   invoice_prefix: string | null;
   invoice_number_start: number;
+  challan_prefix: string | null; // Delivery challan numbers, e.g. DC-0001
+  proforma_prefix: string | null; // Proforma invoice numbers, e.g. PI-0001
+  invoice_round_off: RoundOffMode | null; // Default rounding of invoice totals
   terms_and_conditions: string | null;
   bank_name: string | null;
   bank_account_number: string | null;
   bank_ifsc: string | null;
   upi_id: string | null;
+  invoice_upi_qr: boolean | null; // Print a UPI payment QR on invoices
+  credit_limit_mode: CreditLimitMode | null; // What happens when a customer's credit limit is breached
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -71,11 +79,16 @@ export interface UpdateBusinessSettingsInput {
   fiscal_year_start?: string;
   invoice_prefix?: string;
   invoice_number_start?: number;
+  challan_prefix?: string;
+  proforma_prefix?: string;
+  invoice_round_off?: RoundOffMode;
   terms_and_conditions?: string;
   bank_name?: string;
   bank_account_number?: string;
   bank_ifsc?: string;
   upi_id?: string;
+  invoice_upi_qr?: boolean;
+  credit_limit_mode?: CreditLimitMode;
 }
 
 // ============================================================================
@@ -151,6 +164,11 @@ class BusinessSettingsService {
         date_format: 'DD/MM/YYYY',
         invoice_number_start: 1,
         invoice_prefix: 'INV',
+        challan_prefix: 'DC',
+        proforma_prefix: 'PI',
+        invoice_round_off: 'none',
+        invoice_upi_qr: true,
+        credit_limit_mode: 'warn',
         business_type: null,
         industry: null,
         gst_number: null,
@@ -262,6 +280,49 @@ class BusinessSettingsService {
     });
   }
 
+  /**
+   * Update delivery challan and proforma invoice prefixes
+   */
+  async updateDocumentPrefixes(challanPrefix: string, proformaPrefix: string): Promise<{
+    data: BusinessSettings | null;
+    error: any;
+  }> {
+    return this.updateBusinessSettings({
+      challan_prefix: challanPrefix,
+      proforma_prefix: proformaPrefix,
+    });
+  }
+
+  /**
+   * Update the default round-off for new invoices
+   */
+  async updateRoundOff(mode: RoundOffMode): Promise<{
+    data: BusinessSettings | null;
+    error: any;
+  }> {
+    return this.updateBusinessSettings({ invoice_round_off: mode });
+  }
+
+  /**
+   * Update the UPI ID and whether invoices print a payment QR
+   */
+  async updateUpiPayments(upiId: string, showOnInvoices: boolean): Promise<{
+    data: BusinessSettings | null;
+    error: any;
+  }> {
+    return this.updateBusinessSettings({ upi_id: upiId, invoice_upi_qr: showOnInvoices });
+  }
+
+  /**
+   * Update whether breaching a customer's credit limit warns or blocks
+   */
+  async updateCreditLimitMode(mode: CreditLimitMode): Promise<{
+    data: BusinessSettings | null;
+    error: any;
+  }> {
+    return this.updateBusinessSettings({ credit_limit_mode: mode });
+  }
+
   /**
    * Update bank details
    */
@@ -0,0 +1,135 @@
+/**
+ * Credit Control Service
+ *
+ * Per-customer credit limits and credit days. Before a new charge is
+ * recorded against a customer the charge is checked against both; the
+ * business setting decides whether a breach only warns or blocks it.
+ * Balances come from the customer's ledger, not the cached amount.
+ *
+ * @version 1.0.0
+ */
+
+import { format } from 'date-fns';
+import { evaluateCredit, hasCreditPolicy, type CreditPolicy, type CreditStatus } from '@/lib/creditLimit';
+import { businessSettingsService, type CreditLimitMode } from './businessSettingsService';
+import { customersService, type Customer } from './customersService';
+import { ledgerService } from './ledgerService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CreditCheck {
+  mode: CreditLimitMode;
+  status: CreditStatus;
+  blocked: boolean; // Breached while the setting is to block
+}
+
+export interface CustomerOverLimit {
+  customer_id: string;
+  customer_name: string;
+  phone: string;
+  status: CreditStatus;
+}
+
+const policyOf = (customer: Pick<Customer, 'credit_limit' | 'credit_days'>): CreditPolicy => ({
+  credit_limit: customer.credit_limit !== null && customer.credit_limit !== undefined ? Number(customer.credit_limit) : null,
+  credit_days: customer.credit_days !== null && customer.credit_days !== undefined ? Number(customer.credit_days) : null,
+});
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// ============================================================================
+// CREDIT CONTROL SERVICE
+// ============================================================================
+
+class CreditControlService {
+  /**
+   * What happens when a credit limit is breached; warns unless set to block
+   */
+  async getMode(): Promise<{ data: CreditLimitMode; error: any }> {
+    const { data, error } = await businessSettingsService.fetchBusinessSettings();
+    return { data: data?.credit_limit_mode === 'block' ? 'block' : 'warn', error };
+  }
+
+  /**
+   * Check a new charge against a customer's credit limit and credit days.
+   * Null data when the customer has neither set. Any failure is returned
+   * as an error so callers never take an unchecked charge as within limit.
+   */
+  async checkCustomerCredit(
+    customerId: string,
+    additionalAmount: number,
+    formatAmount?: (amount: number) => string
+  ): Promise<{ data: CreditCheck | null; error: any }> {
+    try {
+      const { data: customer, error: customerError } = await customersService.fetchCustomerById(customerId);
+      if (customerError) throw customerError;
+      if (!customer) return { data: null, error: null };
+
+      const policy = policyOf(customer);
+      if (!hasCreditPolicy(policy)) return { data: null, error: null };
+
+      const [ledger, mode] = await Promise.all([
+        ledgerService.fetchPartyLedger('customer', customerId),
+        this.getMode(),
+      ]);
+      if (ledger.error) throw ledger.error;
+      if (mode.error) throw mode.error;
+
+      const status = evaluateCredit(ledger.data ?? [], policy, today(), additionalAmount, formatAmount);
+      if (status.breaches.length > 0) {
+        console.log(`⚠️ Credit check for ${customer.name}:`, status.breaches.map(b => b.message));
+      }
+
+      return {
+        data: { mode: mode.data, status, blocked: mode.data === 'block' && status.breaches.length > 0 },
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in checkCustomerCredit:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Customers who owe more than their credit limit or have dues older than
+   * their credit days, furthest over the limit first
+   */
+  async fetchCustomersOverLimit(): Promise<{ data: CustomerOverLimit[] | null; error: any }> {
+    try {
+      const [customers, ledgers] = await Promise.all([
+        customersService.fetchCustomers(),
+        ledgerService.fetchLedgers('customer'),
+      ]);
+      if (customers.error) throw customers.error;
+      if (ledgers.error) throw ledgers.error;
+
+      const asOf = today();
+      const overLimit = (customers.data ?? [])
+        .filter(customer => hasCreditPolicy(policyOf(customer)))
+        .map(customer => ({
+          customer_id: customer.id,
+          customer_name: customer.name,
+          phone: customer.phone,
+          status: evaluateCredit(ledgers.data?.get(customer.id) ?? [], policyOf(customer), asOf),
+        }))
+        .filter(row => row.status.breaches.length > 0)
+        .sort((a, b) =>
+          b.status.over_limit_by - a.status.over_limit_by ||
+          (b.status.oldest_unpaid_days ?? 0) - (a.status.oldest_unpaid_days ?? 0)
+        );
+
+      return { data: overLimit, error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchCustomersOverLimit:', err);
+      return { data: null, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const creditControlService = new CreditControlService();
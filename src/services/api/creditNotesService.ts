@@ -0,0 +1,416 @@
+/**
+ * Credit & Debit Notes Service with Real-Time Sync
+ *
+ * Notes amend an issued bill (sales or purchase) after the fact:
+ * - Credit notes reduce the bill's value (returns, discounts, overcharges)
+ * - Debit notes increase it (undercharged price or quantity)
+ *
+ * Creating a note posts its side effects:
+ * - The note posts to the party's ledger, moving their balance by its total
+ * - Returned goods can be put back into (or taken out of) inventory
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { billsService, type Bill } from './billsService';
+import { inventoryService } from './inventoryService';
+import { ledgerService } from './ledgerService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type NoteType = 'credit' | 'debit';
+
+export interface CreditNoteItem {
+  bill_item_id: string | null; // Line on the original bill this adjusts
+  product_id: string | null;
+  name: string;
+  hsn: string | null;
+  quantity: number;
+  unit_price: number; // Rate being reversed (credit) or added (debit), before tax
+  tax_rate: number;
+  taxable_value: number;
+  tax_amount: number;
+  total: number;
+}
+
+export interface CreditNote {
+  id: string;
+  user_id: string;
+  note_number: string;
+  note_type: NoteType;
+  date: string;
+  party_id: string | null;
+  party_type: 'customer' | 'supplier';
+  party_name: string;
+  party_gstin: string | null;
+  original_bill_id: string;
+  original_bill_number: string;
+  reason: string;
+  items: CreditNoteItem[];
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  restock: boolean; // Returned goods moved back through inventory
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateCreditNoteInput {
+  note_type: NoteType;
+  date: string;
+  bill: Bill;
+  reason: string;
+  items: Array<Pick<CreditNoteItem, 'bill_item_id' | 'product_id' | 'name' | 'hsn' | 'quantity' | 'unit_price' | 'tax_rate'>>;
+  restock?: boolean;
+  notes?: string;
+}
+
+export interface FetchCreditNotesOptions {
+  noteType?: NoteType;
+  partyType?: 'customer' | 'supplier';
+  billId?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const NOTE_REASONS = [
+  'Sales return',
+  'Post-sale discount',
+  'Deficiency in services',
+  'Correction in invoice',
+  'Change in POS',
+  'Finalization of provisional assessment',
+  'Others',
+];
+
+/** Separate numbering series for each note type */
+const NOTE_PREFIX: Record<NoteType, string> = {
+  credit: 'CN',
+  debit: 'DN',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether a stock movement was posted by a note (a customer return coming
+ * back in, or goods going back to a supplier)
+ */
+export const isNoteStockMovement = (movementNote?: string | null): boolean =>
+  /^(Credit|Debit) note /.test(movementNote ?? '');
+
+// ============================================================================
+// CREDIT NOTES SERVICE
+// ============================================================================
+
+class CreditNotesService {
+  private tableName = 'credit_notes' as const;
+
+  /**
+   * Next number in the note type's series, e.g. CN-0007.
+   * Deleted notes are counted so numbers are never reused.
+   */
+  async getNextNoteNumber(noteType: NoteType): Promise<string> {
+    const prefix = NOTE_PREFIX[noteType];
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await (supabase as any)
+      .from(this.tableName)
+      .select('note_number')
+      .eq('user_id', user.id)
+      .eq('note_type', noteType);
+
+    if (error) throw error;
+
+    const last = (data ?? []).reduce((max: number, row: { note_number: string }) => {
+      const match = row.note_number.match(/(\d+)$/);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0);
+
+    return `${prefix}-${String(last + 1).padStart(4, '0')}`;
+  }
+
+  /**
+   * Price the adjusted lines
+   */
+  calculateTotals(items: CreateCreditNoteInput['items']): {
+    items: CreditNoteItem[];
+    subtotal: number;
+    tax_amount: number;
+    total_amount: number;
+  } {
+    const priced = items.map(item => {
+      const taxableValue = round(item.quantity * item.unit_price);
+      const taxAmount = round((taxableValue * item.tax_rate) / 100);
+      return {
+        ...item,
+        taxable_value: taxableValue,
+        tax_amount: taxAmount,
+        total: round(taxableValue + taxAmount),
+      };
+    });
+
+    const subtotal = round(priced.reduce((sum, item) => sum + item.taxable_value, 0));
+    const taxAmount = round(priced.reduce((sum, item) => sum + item.tax_amount, 0));
+
+    return {
+      items: priced,
+      subtotal,
+      tax_amount: taxAmount,
+      total_amount: round(subtotal + taxAmount),
+    };
+  }
+
+  /**
+   * Fetch notes with optional filtering and pagination
+   */
+  async fetchNotes(options?: FetchCreditNotesOptions): Promise<{
+    data: CreditNote[] | null;
+    error: any;
+    count: number;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          count: 0,
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      // Apply filters
+      if (options?.noteType) {
+        query = query.eq('note_type', options.noteType);
+      }
+      if (options?.partyType) {
+        query = query.eq('party_type', options.partyType);
+      }
+      if (options?.billId) {
+        query = query.eq('original_bill_id', options.billId);
+      }
+      if (options?.startDate) {
+        query = query.gte('date', options.startDate);
+      }
+      if (options?.endDate) {
+        query = query.lte('date', options.endDate);
+      }
+
+      // Apply ordering
+      query = query.order('date', { ascending: false });
+
+      // Apply pagination
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit ?? 10) - 1);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching credit notes:', error);
+        return { data: null, error, count: 0 };
+      }
+
+      return { data: data as CreditNote[], error: null, count: count ?? 0 };
+    } catch (err) {
+      console.error('❌ Exception in fetchNotes:', err);
+      return { data: null, error: err, count: 0 };
+    }
+  }
+
+  /**
+   * Record a note against a bill, move the party balance and optionally restock
+   */
+  async createNote(input: CreateCreditNoteInput): Promise<{
+    data: CreditNote | null;
+    error: any;
+  }> {
+    try {
+      const { bill } = input;
+      const lines = input.items.filter(item => item.quantity > 0 && item.unit_price > 0);
+
+      if (lines.length === 0) {
+        return { data: null, error: new Error('Add at least one line with a quantity and rate') };
+      }
+      if (bill.status === 'cancelled') {
+        return { data: null, error: new Error(`Bill ${bill.bill_number} is cancelled`) };
+      }
+
+      const totals = this.calculateTotals(lines);
+
+      // Credits against a bill can never exceed what was billed
+      if (input.note_type === 'credit') {
+        const { data: existing, error: existingError } = await this.fetchNotes({ billId: bill.id });
+        if (existingError) {
+          return { data: null, error: existingError };
+        }
+
+        const credited = (existing ?? [])
+          .filter(note => note.note_type === 'credit')
+          .reduce((sum, note) => sum + Number(note.total_amount), 0);
+        const debited = (existing ?? [])
+          .filter(note => note.note_type === 'debit')
+          .reduce((sum, note) => sum + Number(note.total_amount), 0);
+        const available = round(Number(bill.total_amount) + debited - credited);
+
+        if (totals.total_amount > available + 0.001) {
+          return {
+            data: null,
+            error: new Error(`Credit exceeds the remaining value of ${bill.bill_number} (${available.toFixed(2)})`),
+          };
+        }
+      }
+
+      const noteData = {
+        note_number: await this.getNextNoteNumber(input.note_type),
+        note_type: input.note_type,
+        date: input.date,
+        party_id: bill.party_id,
+        party_type: bill.party_type,
+        party_name: bill.party_name,
+        party_gstin: bill.party_gstin ?? null,
+        original_bill_id: bill.id,
+        original_bill_number: bill.bill_number,
+        reason: input.reason,
+        items: totals.items,
+        subtotal: totals.subtotal,
+        tax_amount: totals.tax_amount,
+        total_amount: totals.total_amount,
+        restock: Boolean(input.restock) && input.note_type === 'credit',
+        notes: input.notes || null,
+        deleted_at: null,
+        synced_at: new Date().toISOString(),
+      };
+
+      console.log('🚀 Creating credit note with real-time sync:', noteData);
+
+      const result = await ledgerService.trackBalance(bill.party_type, bill.party_id, () =>
+        realtimeSyncService.create<CreditNote>(
+          this.tableName,
+          noteData as any
+        )
+      );
+
+      if (result.error || !result.data) {
+        console.error('❌ Error creating credit note:', result.error);
+        return { data: null, error: result.error ?? new Error('Failed to create note') };
+      }
+
+      const note = result.data;
+
+      // What is still due on the bill goes down by a credit, up by a debit
+      const { error: billError } = await billsService.applyNoteAdjustment(
+        bill.id,
+        note.note_type === 'credit' ? Number(note.total_amount) : -Number(note.total_amount)
+      );
+      if (billError) {
+        console.error(`⚠️ Balance of ${bill.bill_number} not adjusted (note still recorded):`, billError);
+      }
+
+      if (note.restock) {
+        await this.restockItems(note);
+      }
+
+      console.log('✅ Credit note created successfully:', note);
+      return { data: note, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createNote:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Goods come back from customers, or go back to suppliers. Returns come
+   * back in at the current average cost, so the selling price never blends
+   * into the cost of stock.
+   */
+  private async restockItems(note: CreditNote): Promise<void> {
+    for (const item of note.items) {
+      if (!item.product_id) continue;
+
+      try {
+        const isReturn = note.party_type === 'customer';
+        const product = isReturn ? await inventoryService.getProduct(item.product_id) : null;
+        const price = isReturn ? Number(product?.cost_price ?? 0) : item.unit_price;
+
+        await inventoryService.createStockTransaction({
+          product_id: item.product_id,
+          type: isReturn ? 'in' : 'out',
+          quantity: item.quantity,
+          price,
+          amount: isReturn ? Math.round(price * item.quantity * 100) / 100 : item.taxable_value,
+          note: `${note.note_type === 'credit' ? 'Credit' : 'Debit'} note ${note.note_number} (${note.original_bill_number})`,
+        });
+      } catch (stockError) {
+        console.error(`⚠️ Stock update failed for ${item.name} (note still recorded):`, stockError);
+      }
+    }
+  }
+
+  /**
+   * Delete a note (soft delete)
+   * The note leaves the party's ledger and the bill's balance; stock
+   * movements it posted are left untouched and must be reversed explicitly.
+   */
+  async deleteNote(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const { data: note } = await (supabase as any)
+        .from(this.tableName)
+        .select('party_id, party_type, note_type, total_amount, original_bill_id')
+        .eq('id', id)
+        .maybeSingle();
+
+      const result = await ledgerService.trackBalance(note?.party_type ?? 'customer', note?.party_id, () =>
+        realtimeSyncService.delete(this.tableName, id)
+      );
+
+      if (result.error) {
+        console.error('❌ Error deleting credit note:', result.error);
+        return { success: false, error: result.error };
+      }
+
+      if (note?.original_bill_id) {
+        const { error: billError } = await billsService.applyNoteAdjustment(
+          note.original_bill_id,
+          note.note_type === 'credit' ? -Number(note.total_amount) : Number(note.total_amount)
+        );
+        if (billError) {
+          console.error('⚠️ Bill balance not restored for deleted note:', billError);
+        }
+      }
+
+      return { success: true, error: null };
+    } catch (err) {
+      console.error('❌ Exception in deleteNote:', err);
+      return { success: false, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const creditNotesService = new CreditNotesService();
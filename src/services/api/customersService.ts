@@ -14,6 +14,7 @@
 import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
 import { supabase } from '@/integrations/supabase/client';
 import { withAbortController, isAbortError } from '@/lib/abortController';
+import { ledgerService } from './ledgerService';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -31,6 +32,8 @@ export interface Customer {
   business_type: string | null;
   gst_number: string | null;
   payment_terms: string | null;
+  credit_limit: number | null; // Most the customer may owe; no limit when null
+  credit_days: number | null; // Days a charge may stay unpaid; no policy when null
   notes: string | null;
   created_at: string;
   updated_at: string;
@@ -47,7 +50,10 @@ export interface CreateCustomerInput {
   business_type?: string;
   gst_number?: string;
   payment_terms?: string;
+  credit_limit?: number | null;
+  credit_days?: number | null;
   notes?: string;
+  opening_balance_date?: string; // yyyy-MM-dd the amount was owed; defaults to today
 }
 
 export interface UpdateCustomerInput {
@@ -59,6 +65,8 @@ export interface UpdateCustomerInput {
   business_type?: string;
   gst_number?: string;
   payment_terms?: string;
+  credit_limit?: number | null;
+  credit_days?: number | null;
   notes?: string;
   last_transaction?: string;
 }
@@ -186,11 +194,12 @@ class CustomersService {
    */
   async createCustomer(input: CreateCustomerInput): Promise<{ data: Customer | null; error: any }> {
     try {
+      const { opening_balance_date, ...customer } = input;
       const result = await realtimeSyncService.create<Customer>(
         this.tableName,
         {
-          ...input,
-          amount: input.amount || 0,
+          ...customer,
+          amount: customer.amount || 0,
           synced_at: new Date().toISOString(),
           deleted_at: null,
           last_transaction: null,
@@ -201,6 +210,11 @@ class CustomersService {
         throw result.error;
       }
 
+      // The balance a customer starts with is their opening ledger entry
+      if (result.data?.amount) {
+        await ledgerService.recordOpeningBalance('customer', result.data.id, result.data.amount, opening_balance_date);
+      }
+
       return {
         data: result.data,
         error: null,
@@ -214,6 +228,28 @@ class CustomersService {
     }
   }
 
+  /**
+   * Find a customer by exact name (case-insensitive), creating one if none exists.
+   * Used when documents are raised against a typed-in customer name.
+   */
+  async findOrCreateCustomer(input: CreateCustomerInput): Promise<{ data: Customer | null; error: any }> {
+    const name = input.name.trim();
+    const { data: matches, error } = await this.fetchCustomers({ searchQuery: name });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const sameName = (matches ?? []).filter(c => c.name.trim().toLowerCase() === name.toLowerCase());
+    const existing = sameName.find(c => input.phone && c.phone === input.phone) ?? sameName[0];
+
+    if (existing) {
+      return { data: existing, error: null };
+    }
+
+    return this.createCustomer({ ...input, name });
+  }
+
   /**
    * Update a customer with real-time sync
    */
@@ -271,10 +307,11 @@ class CustomersService {
 
   /**
    * Batch create customers
+   * Rows come back in the order they were given, which pairs each with its opening balance date.
    */
   async batchCreateCustomers(customers: CreateCustomerInput[]): Promise<{ data: Customer[] | null; error: any }> {
     try {
-      const customersWithDefaults = customers.map(customer => ({
+      const customersWithDefaults = customers.map(({ opening_balance_date: _date, ...customer }) => ({
         ...customer,
         amount: customer.amount || 0,
         synced_at: new Date().toISOString(),
@@ -291,6 +328,11 @@ class CustomersService {
         throw result.error;
       }
 
+      for (const [index, customer] of (result.data ?? []).entries()) {
+        if (!customer.amount) continue;
+        await ledgerService.recordOpeningBalance('customer', customer.id, customer.amount, customers[index]?.opening_balance_date);
+      }
+
       return {
         data: result.data,
         error: null,
@@ -303,137 +345,6 @@ class CustomersService {
       };
     }
   }
-
-  /**
-   * Update customer balance after transaction
-   * FIX: CRITICAL - Use database-level atomic operation to prevent race conditions
-   * 
-   * Previously: fetch customer → calculate → update (3 operations, non-atomic)
-   * Now: Single UPDATE with WHERE condition (1 atomic operation)
-   */
-  async updateCustomerBalance(
-    customerId: string, 
-    transactionAmount: number, 
-    transactionType: 'gave' | 'got'
-  ): Promise<{ success: boolean; error: any }> {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-
-      // FIX: CRITICAL - Use database-level atomic UPDATE with increment/decrement
-      // This prevents race conditions where multiple transactions update the same customer
-      // The database will handle the calculation atomically
-      
-      const amountDelta = transactionType === 'gave' ? transactionAmount : -transactionAmount;
-      
-      // Use PostgreSQL RPC function for atomic balance update
-      const { data, error } = await (supabase as any).rpc('update_customer_balance_atomic', {
-        p_customer_id: customerId,
-        p_user_id: user.id,
-        p_amount_delta: amountDelta,
-        p_last_transaction: new Date().toISOString()
-      });
-
-      if (error) {
-        // If RPC function doesn't exist, fall back to optimistic locking
-        console.warn('⚠️ RPC function not found, using optimistic locking fallback');
-        return await this.updateCustomerBalanceWithOptimisticLocking(customerId, transactionAmount, transactionType);
-      }
-
-      return {
-        success: true,
-        error: null,
-      };
-    } catch (error: any) {
-      console.error('❌ Error updating customer balance:', error);
-      return {
-        success: false,
-        error,
-      };
-    }
-  }
-
-  /**
-   * Fallback method with optimistic locking (version-based concurrency control)
-   * FIX: Uses updated_at as version field for detecting concurrent updates
-   */
-  private async updateCustomerBalanceWithOptimisticLocking(
-    customerId: string,
-    transactionAmount: number,
-    transactionType: 'gave' | 'got'
-  ): Promise<{ success: boolean; error: any }> {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-
-      // Fetch customer with current version (updated_at)
-      const { data: customer, error: fetchError } = await (supabase as any)
-        .from(this.tableName)
-        .select('id, amount, updated_at')
-        .eq('id', customerId)
-        .eq('user_id', user.id)
-        .single();
-
-      if (fetchError || !customer) {
-        throw fetchError || new Error('Customer not found');
-      }
-
-      const currentVersion = customer.updated_at;
-      
-      // Calculate new balance
-      const amountDelta = transactionType === 'gave' ? transactionAmount : -transactionAmount;
-      const newAmount = customer.amount + amountDelta;
-
-      // Update with optimistic lock - only succeeds if updated_at hasn't changed
-      const { data: updatedCustomer, error: updateError } = await (supabase as any)
-        .from(this.tableName)
-        .update({
-          amount: newAmount,
-          last_transaction: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', customerId)
-        .eq('user_id', user.id)
-        .eq('updated_at', currentVersion) // Optimistic lock condition
-        .select()
-        .single();
-
-      if (updateError) {
-        // Check if it's a concurrency conflict
-        if (updateError.code === 'PGRST116') {
-          throw new Error('CONCURRENCY_CONFLICT: Balance was updated by another transaction. Please retry.');
-        }
-        throw updateError;
-      }
-
-      if (!updatedCustomer) {
-        // No rows affected = concurrent update detected
-        throw new Error('CONCURRENCY_CONFLICT: Balance was updated by another transaction. Please retry.');
-      }
-
-      return {
-        success: true,
-        error: null,
-      }
-
-      return {
-        success: true,
-        error: null,
-      };
-    } catch (error: any) {
-      console.error('❌ Error updating customer balance:', error);
-      return {
-        success: false,
-        error,
-      };
-    }
-  }
 }
 
 // ============================================================================
@@ -0,0 +1,188 @@
+/**
+ * E-Invoice Service
+ *
+ * Registers sales invoices with the Invoice Registration Portal (IRP):
+ * - Builds and validates the INV-01 payload for a bill
+ * - Submits it through an IrpClient and stores the returned IRN,
+ *   acknowledgement and signed QR on the bill with real-time sync
+ *
+ * A local mock IRP is used until a GSP client is plugged in with
+ * setIrpClient, so the flow can be exercised without portal credentials.
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { normalizeBillRow } from '@/lib/invoiceMapping';
+import { buildEInvoicePayload, type EInvoicePayload } from '@/lib/eInvoice';
+import type { Bill } from './billsService';
+import { businessSettingsService } from './businessSettingsService';
+import { inventoryService } from './inventoryService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Response fields the IRP returns for a successful registration */
+export interface IrpResponse {
+  Irn: string;
+  AckNo: string;
+  AckDt: string; // yyyy-MM-dd HH:mm:ss, Indian Standard Time
+  SignedQRCode: string;
+}
+
+export interface IrpClient {
+  generateIrn(payload: EInvoicePayload): Promise<IrpResponse>;
+}
+
+export interface GenerateEInvoiceResult {
+  data: Bill | null;
+  errors: string[]; // Payload validation failures
+  error: any;
+}
+
+// ============================================================================
+// MOCK IRP
+// ============================================================================
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const base64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** dd/mm/yyyy → financial year, e.g. 2026-27 */
+function financialYear(irpDate: string): string {
+  const [, month, year] = irpDate.split('/').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String(start + 1).slice(-2)}`;
+}
+
+/**
+ * Stand-in for the IRP. The IRN is derived the way the portal derives it
+ * (SHA-256 of GSTIN, financial year, document type and number) and the QR
+ * carries the same claims as a real signed QR, but the signature is not
+ * verifiable.
+ */
+export const mockIrpClient: IrpClient = {
+  async generateIrn(payload) {
+    const { SellerDtls, BuyerDtls, DocDtls, ValDtls, ItemList } = payload;
+    const irn = await sha256Hex(`${SellerDtls.Gstin}${financialYear(DocDtls.Dt)}${DocDtls.Typ}${DocDtls.No}`);
+    const ackDate = new Date(Date.now() + IST_OFFSET_MS).toISOString().replace('T', ' ').slice(0, 19);
+
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: 'MOCK-IRP' }));
+    const claims = base64Url(JSON.stringify({
+      data: JSON.stringify({
+        SellerGstin: SellerDtls.Gstin,
+        BuyerGstin: BuyerDtls.Gstin,
+        DocNo: DocDtls.No,
+        DocTyp: DocDtls.Typ,
+        DocDt: DocDtls.Dt,
+        TotInvVal: ValDtls.TotInvVal,
+        ItemCnt: ItemList.length,
+        MainHsnCode: ItemList[0]?.HsnCd ?? '',
+        Irn: irn,
+        IrnDt: ackDate,
+      }),
+      iss: 'MOCK-IRP',
+    }));
+    const signature = base64Url((await sha256Hex(`${header}.${claims}`)).slice(0, 32));
+
+    return {
+      Irn: irn,
+      AckNo: String(Date.now()).padStart(15, '1').slice(-15),
+      AckDt: ackDate,
+      SignedQRCode: `${header}.${claims}.${signature}`,
+    };
+  },
+};
+
+// ============================================================================
+// E-INVOICE SERVICE
+// ============================================================================
+
+class EInvoiceService {
+  private tableName = 'bills' as const;
+  private irpClient: IrpClient = mockIrpClient;
+
+  /**
+   * Route registrations through a real IRP/GSP client
+   */
+  setIrpClient(client: IrpClient): void {
+    this.irpClient = client;
+  }
+
+  /**
+   * Build the INV-01 payload for a bill with the current business settings
+   */
+  async buildPayload(bill: Bill, customerGstin?: string): Promise<{
+    payload: EInvoicePayload | null;
+    errors: string[];
+    error: any;
+  }> {
+    const { data: settings, error } = await businessSettingsService.fetchBusinessSettings();
+    if (error || !settings) {
+      return { payload: null, errors: [], error: error ?? new Error('Business settings not found') };
+    }
+
+    // Units live on the inventory products, not on the bill lines
+    const productIds = [...new Set(bill.items.map(item => item.product_id).filter((id): id is string => !!id))];
+    const products = await Promise.all(productIds.map(id => inventoryService.getProduct(id)));
+    const productUnits = new Map(productIds.map((id, index) => [id, products[index]?.unit ?? null]));
+
+    const { payload, errors } = buildEInvoicePayload(bill, settings, customerGstin, productUnits);
+    return { payload, errors, error: null };
+  }
+
+  /**
+   * Register a bill with the IRP and store the IRN, acknowledgement and
+   * signed QR on it
+   */
+  async generateEInvoice(bill: Bill, customerGstin?: string): Promise<GenerateEInvoiceResult> {
+    try {
+      if (bill.einvoice_irn) {
+        return { data: null, errors: [`${bill.bill_number} already has IRN ${bill.einvoice_irn}`], error: null };
+      }
+
+      console.log('🧾 Building e-invoice payload:', bill.bill_number);
+
+      const { payload, errors, error } = await this.buildPayload(bill, customerGstin);
+      if (error) return { data: null, errors: [], error };
+      if (!payload) {
+        console.warn('⚠️ E-invoice payload invalid:', errors);
+        return { data: null, errors, error: null };
+      }
+
+      const response = await this.irpClient.generateIrn(payload);
+      console.log('✅ IRN generated:', response.Irn);
+
+      const result = await realtimeSyncService.update<Bill>(this.tableName, bill.id, {
+        einvoice_irn: response.Irn,
+        einvoice_ack_no: response.AckNo,
+        einvoice_ack_date: new Date(`${response.AckDt.replace(' ', 'T')}+05:30`).toISOString(),
+        einvoice_signed_qr: response.SignedQRCode,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (result.error) {
+        console.error('❌ Error saving IRN:', result.error);
+        return { data: null, errors: [], error: result.error };
+      }
+
+      return { data: result.data ? normalizeBillRow(result.data) : null, errors: [], error: null };
+    } catch (err) {
+      console.error('❌ Exception in generateEInvoice:', err);
+      return { data: null, errors: [], error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const eInvoiceService = new EInvoiceService();
@@ -0,0 +1,389 @@
+/**
+ * E-Way Bills Service with Real-Time Sync
+ *
+ * The e-way bill register: every e-way bill generated on the portal for an
+ * invoice, with its transport details and Part-B (vehicle) history.
+ * - The payload for the portal is built from the bill and business settings
+ * - Validity runs from when Part-B is filed, one day per 200 km
+ * - The active e-way bill's number and validity are copied onto the bill so
+ *   invoice templates print them
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildEWayBillPayload,
+  buildPartBUpdate,
+  calculateEWayBillValidity,
+  hasPartB,
+  isValidEWayBillNumber,
+  isValidVehicleNumber,
+  normalizeVehicleNumber,
+  type EWayBillPartBUpdate,
+  type EWayBillPayload,
+  type EWayBillTransport,
+  type PartBReason,
+  type TransportMode,
+  type VehicleType,
+} from '@/lib/eWayBill';
+import type { Bill } from './billsService';
+import { businessSettingsService } from './businessSettingsService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type EWayBillStatus = 'active' | 'cancelled';
+
+/** Register state shown to the user; expiry and pending Part-B are derived */
+export type EWayBillState = 'active' | 'part_a_only' | 'expired' | 'cancelled';
+
+export interface PartBUpdateEntry {
+  updated_at: string;
+  vehicle_no: string;
+  from_place: string;
+  from_state_code: string;
+  reason: PartBReason;
+  remarks: string | null;
+  trans_mode: TransportMode;
+  trans_doc_no: string | null;
+  trans_doc_date: string | null;
+}
+
+export interface EWayBill {
+  id: string;
+  user_id: string;
+  bill_id: string;
+  bill_number: string;
+  party_name: string;
+  ewb_no: string; // 12-digit number issued by the portal
+  ewb_date: string;
+  valid_until: string | null; // Null until Part-B is filed
+  status: EWayBillStatus;
+  trans_mode: TransportMode;
+  distance_km: number;
+  transporter_id: string | null;
+  transporter_name: string | null;
+  vehicle_no: string | null; // Current vehicle, after any Part-B updates
+  vehicle_type: VehicleType;
+  trans_doc_no: string | null;
+  trans_doc_date: string | null;
+  total_value: number;
+  payload: EWayBillPayload; // As filed
+  part_b_updates: PartBUpdateEntry[];
+  cancel_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateEWayBillInput {
+  bill: Bill;
+  transport: EWayBillTransport;
+  payload: EWayBillPayload;
+  ewb_no: string;
+  ewb_date: string; // When the portal generated it
+}
+
+export interface UpdatePartBInput {
+  vehicle_no: string;
+  from_place: string;
+  from_state_code: string;
+  reason: PartBReason;
+  remarks?: string;
+  trans_mode: TransportMode;
+  trans_doc_no?: string;
+  trans_doc_date?: string;
+}
+
+export const EWAY_BILL_STATE_LABELS: Record<EWayBillState, string> = {
+  active: 'Active',
+  part_a_only: 'Part-B pending',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+};
+
+// The portal only allows cancellation within 24 hours of generation
+const CANCEL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Current state of a register entry
+ */
+export function getEWayBillState(ewayBill: EWayBill, now: Date = new Date()): EWayBillState {
+  if (ewayBill.status === 'cancelled') return 'cancelled';
+  if (!ewayBill.valid_until) return 'part_a_only';
+  return new Date(ewayBill.valid_until) < now ? 'expired' : 'active';
+}
+
+const normalizeEWayBillRow = (row: any): EWayBill => ({
+  ...row,
+  distance_km: Number(row.distance_km ?? 0),
+  total_value: Number(row.total_value ?? 0),
+  part_b_updates: row.part_b_updates ?? [],
+});
+
+// ============================================================================
+// E-WAY BILLS SERVICE
+// ============================================================================
+
+class EWayBillsService {
+  private tableName = 'eway_bills' as const;
+
+  /**
+   * Copy the active e-way bill onto its invoice for printing
+   */
+  private async syncBill(billId: string, ewbNo: string | null, validUntil: string | null) {
+    const result = await realtimeSyncService.update<Bill>('bills', billId, {
+      eway_bill_no: ewbNo,
+      eway_bill_valid_until: validUntil,
+      updated_at: new Date().toISOString(),
+    });
+    if (result.error) {
+      console.error('❌ Error copying e-way bill to invoice:', result.error);
+    }
+  }
+
+  /**
+   * Fetch the e-way bill register, newest first
+   */
+  async fetchEWayBills(options?: { billId?: string }): Promise<{
+    data: EWayBill[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      if (options?.billId) {
+        query = query.eq('bill_id', options.billId);
+      }
+
+      const { data, error } = await query.order('ewb_date', { ascending: false });
+
+      if (error) {
+        console.error('❌ Error fetching e-way bills:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data ?? []).map(normalizeEWayBillRow), error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchEWayBills:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Build and validate the portal payload for a bill
+   */
+  async buildPayload(bill: Bill, transport: EWayBillTransport): Promise<{
+    payload: EWayBillPayload | null;
+    errors: string[];
+    error: any;
+  }> {
+    const { data: settings, error } = await businessSettingsService.fetchBusinessSettings();
+    if (error || !settings) {
+      return { payload: null, errors: [], error: error ?? new Error('Business settings not found') };
+    }
+
+    const { payload, errors } = buildEWayBillPayload(bill, settings, transport);
+    return { payload, errors, error: null };
+  }
+
+  /**
+   * Record an e-way bill generated on the portal against its invoice
+   */
+  async createEWayBill(input: CreateEWayBillInput): Promise<{
+    data: EWayBill | null;
+    error: any;
+  }> {
+    try {
+      const { bill, transport, payload } = input;
+      const ewbNo = input.ewb_no.trim();
+
+      if (!isValidEWayBillNumber(ewbNo)) {
+        return { data: null, error: new Error('E-way bill number must be 12 digits') };
+      }
+
+      const { data: existing } = await this.fetchEWayBills({ billId: bill.id });
+      const active = existing?.find(ewayBill => ewayBill.status === 'active');
+      if (active) {
+        return { data: null, error: new Error(`${bill.bill_number} already has e-way bill ${active.ewb_no}`) };
+      }
+
+      const validUntil = hasPartB(transport)
+        ? calculateEWayBillValidity(new Date(input.ewb_date), transport.distanceKm, transport.vehicleType).toISOString()
+        : null;
+
+      console.log('🚚 Recording e-way bill:', ewbNo, 'for', bill.bill_number);
+
+      const result = await realtimeSyncService.create<EWayBill>(
+        this.tableName,
+        {
+          bill_id: bill.id,
+          bill_number: bill.bill_number,
+          party_name: bill.party_name,
+          ewb_no: ewbNo,
+          ewb_date: new Date(input.ewb_date).toISOString(),
+          valid_until: validUntil,
+          status: 'active',
+          trans_mode: transport.transMode,
+          distance_km: transport.distanceKm,
+          transporter_id: payload.transporterId || null,
+          transporter_name: payload.transporterName || null,
+          vehicle_no: payload.vehicleNo || null,
+          vehicle_type: transport.vehicleType ?? 'regular',
+          trans_doc_no: payload.transDocNo || null,
+          trans_doc_date: transport.transDocDate || null,
+          total_value: payload.totInvValue,
+          payload,
+          part_b_updates: [],
+          cancel_reason: null,
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        } as any
+      );
+
+      if (result.error) {
+        console.error('❌ Error recording e-way bill:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      await this.syncBill(bill.id, ewbNo, validUntil);
+
+      console.log('✅ E-way bill recorded:', result.data);
+      return { data: result.data ? normalizeEWayBillRow(result.data) : null, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createEWayBill:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Record a Part-B (vehicle) update. The first Part-B on a Part-A-only
+   * e-way bill starts its validity. Returns the update for the portal.
+   */
+  async updatePartB(ewayBill: EWayBill, input: UpdatePartBInput): Promise<{
+    data: EWayBill | null;
+    partB: EWayBillPartBUpdate | null;
+    error: any;
+  }> {
+    try {
+      const state = getEWayBillState(ewayBill);
+      if (state === 'cancelled' || state === 'expired') {
+        return { data: null, partB: null, error: new Error(`E-way bill ${ewayBill.ewb_no} is ${state}`) };
+      }
+      if (input.trans_mode === 'road' && !isValidVehicleNumber(input.vehicle_no)) {
+        return { data: null, partB: null, error: new Error(`Vehicle number ${input.vehicle_no} is invalid, e.g. KA01AB1234`) };
+      }
+      if (input.trans_mode !== 'road' && (!input.trans_doc_no?.trim() || !input.trans_doc_date)) {
+        return { data: null, partB: null, error: new Error('Transport document number and date are required') };
+      }
+      if (!input.from_place.trim()) {
+        return { data: null, partB: null, error: new Error('Enter the place the goods are moving from') };
+      }
+
+      const now = new Date();
+      const entry: PartBUpdateEntry = {
+        updated_at: now.toISOString(),
+        vehicle_no: input.vehicle_no ? normalizeVehicleNumber(input.vehicle_no) : '',
+        from_place: input.from_place.trim(),
+        from_state_code: input.from_state_code,
+        reason: input.reason,
+        remarks: input.remarks?.trim() || null,
+        trans_mode: input.trans_mode,
+        trans_doc_no: input.trans_doc_no?.trim() || null,
+        trans_doc_date: input.trans_doc_date || null,
+      };
+      const validUntil = ewayBill.valid_until
+        ?? calculateEWayBillValidity(now, ewayBill.distance_km, ewayBill.vehicle_type).toISOString();
+
+      const result = await realtimeSyncService.update<EWayBill>(this.tableName, ewayBill.id, {
+        vehicle_no: entry.vehicle_no || null,
+        trans_mode: entry.trans_mode,
+        trans_doc_no: entry.trans_doc_no ?? ewayBill.trans_doc_no,
+        trans_doc_date: entry.trans_doc_date ?? ewayBill.trans_doc_date,
+        valid_until: validUntil,
+        part_b_updates: [...ewayBill.part_b_updates, entry],
+        updated_at: now.toISOString(),
+      });
+
+      if (result.error) {
+        console.error('❌ Error updating Part-B:', result.error);
+        return { data: null, partB: null, error: result.error };
+      }
+
+      if (validUntil !== ewayBill.valid_until) {
+        await this.syncBill(ewayBill.bill_id, ewayBill.ewb_no, validUntil);
+      }
+
+      return {
+        data: result.data ? normalizeEWayBillRow(result.data) : null,
+        partB: buildPartBUpdate(ewayBill.ewb_no, {
+          vehicleNo: entry.vehicle_no,
+          fromPlace: entry.from_place,
+          fromStateCode: entry.from_state_code,
+          reason: entry.reason,
+          remarks: entry.remarks ?? undefined,
+          transMode: entry.trans_mode,
+          transDocNo: entry.trans_doc_no ?? undefined,
+          transDocDate: entry.trans_doc_date ?? undefined,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in updatePartB:', err);
+      return { data: null, partB: null, error: err };
+    }
+  }
+
+  /**
+   * Cancel an e-way bill (within 24 hours of generation) and clear it from
+   * the invoice
+   */
+  async cancelEWayBill(ewayBill: EWayBill, reason: string = ''): Promise<{
+    data: EWayBill | null;
+    error: any;
+  }> {
+    if (ewayBill.status === 'cancelled') {
+      return { data: null, error: new Error(`E-way bill ${ewayBill.ewb_no} is already cancelled`) };
+    }
+    if (Date.now() - new Date(ewayBill.ewb_date).getTime() > CANCEL_WINDOW_MS) {
+      return { data: null, error: new Error('E-way bills can only be cancelled within 24 hours of generation') };
+    }
+
+    const result = await realtimeSyncService.update<EWayBill>(this.tableName, ewayBill.id, {
+      status: 'cancelled',
+      cancel_reason: reason.trim() || null,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (result.error) {
+      console.error('❌ Error cancelling e-way bill:', result.error);
+      return { data: null, error: result.error };
+    }
+
+    await this.syncBill(ewayBill.bill_id, null, null);
+    return { data: result.data ? normalizeEWayBillRow(result.data) : null, error: null };
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const eWayBillsService = new EWayBillsService();
@@ -0,0 +1,722 @@
+/**
+ * Expenses Service with Real-Time Sync
+ *
+ * Records business expenses and posts their side effects:
+ * - A cash_out cashbook entry for every expense
+ * - GST input-credit details for eligible purchases
+ * - Expenses generated from recurring schedules (rent, salaries, utilities)
+ *
+ * @version 1.0.0
+ */
+
+import { addWeeks, addMonths, addYears, format } from 'date-fns';
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { cashbookService, type CashbookEntry } from './cashbookService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ExpensePaymentMethod = CashbookEntry['payment_method'];
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface ExpenseCategory {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface ExpenseAttachment {
+  name: string;
+  size: number;
+  type: string;
+  uploaded_at: string;
+}
+
+export interface Expense {
+  id: string;
+  user_id: string;
+  expense_number: string;
+  date: string;
+  category_id: string | null;
+  category_name: string;
+  vendor_name: string | null;
+  description: string | null;
+  amount: number; // Taxable value
+  gst_rate: number;
+  gst_amount: number;
+  total_amount: number; // Amount actually paid
+  itc_eligible: boolean; // Claimable as GST input tax credit
+  supplier_gstin: string | null;
+  invoice_number: string | null;
+  payment_method: ExpensePaymentMethod;
+  reference_number: string | null;
+  attachments: ExpenseAttachment[];
+  recurring_expense_id: string | null;
+  cashbook_entry_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface RecurringExpense {
+  id: string;
+  user_id: string;
+  name: string;
+  category_id: string | null;
+  category_name: string;
+  vendor_name: string | null;
+  amount: number;
+  gst_rate: number;
+  itc_eligible: boolean;
+  payment_method: ExpensePaymentMethod;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date: string | null;
+  next_due_date: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateExpenseInput {
+  date: string;
+  category_id?: string;
+  category_name: string;
+  vendor_name?: string;
+  description?: string;
+  amount: number;
+  gst_rate?: number;
+  itc_eligible?: boolean;
+  supplier_gstin?: string;
+  invoice_number?: string;
+  payment_method?: ExpensePaymentMethod;
+  reference_number?: string;
+  attachments?: ExpenseAttachment[];
+  recurring_expense_id?: string;
+}
+
+export interface CreateRecurringExpenseInput {
+  name: string;
+  category_id?: string;
+  category_name: string;
+  vendor_name?: string;
+  amount: number;
+  gst_rate?: number;
+  itc_eligible?: boolean;
+  payment_method?: ExpensePaymentMethod;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date?: string;
+}
+
+export interface FetchExpensesOptions {
+  categoryName?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ExpenseCategoryTotal {
+  category: string;
+  count: number;
+  amount: number;
+  gst_amount: number;
+  total_amount: number;
+}
+
+export const DEFAULT_EXPENSE_CATEGORIES = [
+  'Rent',
+  'Salaries',
+  'Utilities',
+  'Transport',
+  'Office Supplies',
+  'Repairs & Maintenance',
+  'Marketing',
+  'Miscellaneous',
+];
+
+// Stop a long-dormant schedule from flooding the ledger in one go
+const MAX_OCCURRENCES_PER_RUN = 12;
+
+// ============================================================================
+// EXPENSES SERVICE
+// ============================================================================
+
+class ExpensesService {
+  private tableName = 'expenses' as const;
+  private categoriesTable = 'expense_categories' as const;
+  private recurringTable = 'recurring_expenses' as const;
+
+  /**
+   * Generate unique expense number
+   */
+  private generateExpenseNumber(): string {
+    const prefix = 'EXP';
+    const timestamp = Date.now().toString().slice(-6);
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+    return `${prefix}-${timestamp}-${random}`;
+  }
+
+  /**
+   * Advance a due date by one schedule period
+   */
+  private nextOccurrence(date: string, frequency: RecurringFrequency): string {
+    const current = new Date(`${date}T00:00:00`);
+    const next = frequency === 'weekly'
+      ? addWeeks(current, 1)
+      : frequency === 'monthly'
+        ? addMonths(current, 1)
+        : frequency === 'quarterly'
+          ? addMonths(current, 3)
+          : addYears(current, 1);
+    return format(next, 'yyyy-MM-dd');
+  }
+
+  /**
+   * Split an expense into taxable value, GST and total
+   */
+  calculateAmounts(amount: number, gstRate: number = 0) {
+    const gstAmount = Math.round(amount * (gstRate / 100) * 100) / 100;
+    return {
+      amount: Math.round(amount * 100) / 100,
+      gst_amount: gstAmount,
+      total_amount: Math.round((amount + gstAmount) * 100) / 100,
+    };
+  }
+
+  /**
+   * Category-wise totals, largest first
+   */
+  getCategoryTotals(expenses: Expense[]): ExpenseCategoryTotal[] {
+    const totals = new Map<string, ExpenseCategoryTotal>();
+
+    expenses.forEach(expense => {
+      const entry = totals.get(expense.category_name) ?? {
+        category: expense.category_name,
+        count: 0,
+        amount: 0,
+        gst_amount: 0,
+        total_amount: 0,
+      };
+      entry.count += 1;
+      entry.amount += Number(expense.amount);
+      entry.gst_amount += Number(expense.gst_amount);
+      entry.total_amount += Number(expense.total_amount);
+      totals.set(expense.category_name, entry);
+    });
+
+    return Array.from(totals.values()).sort((a, b) => b.total_amount - a.total_amount);
+  }
+
+  // ==========================================================================
+  // CATEGORIES
+  // ==========================================================================
+
+  /**
+   * Fetch expense categories, seeding the defaults for new users
+   */
+  async fetchCategories(): Promise<{
+    data: ExpenseCategory[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      const { data, error } = await (supabase as any)
+        .from(this.categoriesTable)
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error fetching expense categories:', error);
+        return { data: null, error };
+      }
+
+      if (data && data.length > 0) {
+        return { data: data as ExpenseCategory[], error: null };
+      }
+
+      const seeded = await realtimeSyncService.batchCreate<ExpenseCategory>(
+        this.categoriesTable,
+        DEFAULT_EXPENSE_CATEGORIES.map(name => ({
+          user_id: user.id,
+          name,
+          color: null,
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        })) as any
+      );
+
+      return { data: seeded.data ?? [], error: seeded.error };
+    } catch (err) {
+      console.error('❌ Exception in fetchCategories:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Create a user-defined expense category
+   */
+  async createCategory(name: string, color?: string): Promise<{
+    data: ExpenseCategory | null;
+    error: any;
+  }> {
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        return { data: null, error: new Error('Category name is required') };
+      }
+
+      const result = await realtimeSyncService.create<ExpenseCategory>(
+        this.categoriesTable,
+        {
+          name: trimmed,
+          color: color ?? null,
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        } as any
+      );
+
+      if (result.error) {
+        console.error('❌ Error creating expense category:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      return { data: result.data, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createCategory:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Delete an expense category (soft delete). Existing expenses keep their category name.
+   */
+  async deleteCategory(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const result = await realtimeSyncService.delete(this.categoriesTable, id);
+      return { success: !result.error, error: result.error };
+    } catch (err) {
+      console.error('❌ Exception in deleteCategory:', err);
+      return { success: false, error: err };
+    }
+  }
+
+  // ==========================================================================
+  // EXPENSES
+  // ==========================================================================
+
+  /**
+   * Fetch expenses with optional filtering and pagination
+   */
+  async fetchExpenses(options?: FetchExpensesOptions): Promise<{
+    data: Expense[] | null;
+    error: any;
+    count: number;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          count: 0,
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      // Apply filters
+      if (options?.categoryName) {
+        query = query.eq('category_name', options.categoryName);
+      }
+      if (options?.startDate) {
+        query = query.gte('date', options.startDate);
+      }
+      if (options?.endDate) {
+        query = query.lte('date', options.endDate);
+      }
+
+      // Apply ordering
+      query = query.order('date', { ascending: false });
+
+      // Apply pagination
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching expenses:', error);
+        return { data: null, error, count: 0 };
+      }
+
+      return { data: data as Expense[], error: null, count: count ?? 0 };
+    } catch (err) {
+      console.error('❌ Exception in fetchExpenses:', err);
+      return { data: null, error: err, count: 0 };
+    }
+  }
+
+  /**
+   * Record an expense and post the cash_out cashbook entry
+   */
+  async createExpense(input: CreateExpenseInput): Promise<{
+    data: Expense | null;
+    error: any;
+  }> {
+    try {
+      if (!input.category_name.trim()) {
+        return { data: null, error: new Error('Select an expense category') };
+      }
+      if (!(input.amount > 0)) {
+        return { data: null, error: new Error('Expense amount must be greater than zero') };
+      }
+
+      const expenseNumber = this.generateExpenseNumber();
+      const amounts = this.calculateAmounts(input.amount, input.gst_rate ?? 0);
+      const paymentMethod = input.payment_method ?? 'cash';
+
+      const expenseData = {
+        expense_number: expenseNumber,
+        date: input.date,
+        category_id: input.category_id ?? null,
+        category_name: input.category_name.trim(),
+        vendor_name: input.vendor_name || null,
+        description: input.description || null,
+        amount: amounts.amount,
+        gst_rate: input.gst_rate ?? 0,
+        gst_amount: amounts.gst_amount,
+        total_amount: amounts.total_amount,
+        itc_eligible: Boolean(input.itc_eligible && amounts.gst_amount > 0),
+        supplier_gstin: input.supplier_gstin?.toUpperCase() || null,
+        invoice_number: input.invoice_number || null,
+        payment_method: paymentMethod,
+        reference_number: input.reference_number || null,
+        attachments: input.attachments ?? [],
+        recurring_expense_id: input.recurring_expense_id ?? null,
+        cashbook_entry_id: null,
+        deleted_at: null,
+        synced_at: new Date().toISOString(),
+      };
+
+      const result = await realtimeSyncService.create<Expense>(
+        this.tableName,
+        expenseData as any
+      );
+
+      if (result.error || !result.data) {
+        console.error('❌ Error creating expense:', result.error);
+        return { data: null, error: result.error ?? new Error('Failed to create expense') };
+      }
+
+      let expense = result.data;
+
+      // Every expense is money going out of the cashbook
+      const { data: entry, error: cashbookError } = await cashbookService.createCashbookEntry({
+        type: 'cash_out',
+        amount: amounts.total_amount,
+        category: expenseData.category_name,
+        description: input.description
+          ? `${expenseData.category_name} - ${input.description}`
+          : expenseData.category_name,
+        date: input.date,
+        payment_method: paymentMethod,
+        reference_number: expenseNumber,
+      });
+
+      if (cashbookError) {
+        console.error('⚠️ Cashbook posting failed (expense still recorded):', cashbookError);
+      }
+
+      if (entry) {
+        const linked = await realtimeSyncService.update<Expense>(
+          this.tableName,
+          expense.id,
+          { cashbook_entry_id: entry.id, synced_at: new Date().toISOString() }
+        );
+        if (linked.data) {
+          expense = { ...expense, ...linked.data };
+        }
+      }
+
+      console.log('✅ Expense recorded successfully:', expense);
+      return { data: expense, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createExpense:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Delete an expense (soft delete) along with its cashbook entry
+   */
+  async deleteExpense(expense: Expense): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const result = await realtimeSyncService.delete(this.tableName, expense.id);
+
+      if (result.error) {
+        console.error('❌ Error deleting expense:', result.error);
+        return { success: false, error: result.error };
+      }
+
+      if (expense.cashbook_entry_id) {
+        const { error } = await cashbookService.deleteCashbookEntry(expense.cashbook_entry_id);
+        if (error) {
+          console.error('⚠️ Cashbook entry could not be removed:', error);
+        }
+      }
+
+      return { success: true, error: null };
+    } catch (err) {
+      console.error('❌ Exception in deleteExpense:', err);
+      return { success: false, error: err };
+    }
+  }
+
+  // ==========================================================================
+  // RECURRING SCHEDULES
+  // ==========================================================================
+
+  /**
+   * Fetch recurring expense schedules
+   */
+  async fetchRecurringExpenses(): Promise<{
+    data: RecurringExpense[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      const { data, error } = await (supabase as any)
+        .from(this.recurringTable)
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('next_due_date', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error fetching recurring expenses:', error);
+        return { data: null, error };
+      }
+
+      return { data: data as RecurringExpense[], error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchRecurringExpenses:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Create a recurring expense schedule
+   */
+  async createRecurringExpense(input: CreateRecurringExpenseInput): Promise<{
+    data: RecurringExpense | null;
+    error: any;
+  }> {
+    try {
+      if (!input.name.trim()) {
+        return { data: null, error: new Error('Schedule name is required') };
+      }
+      if (!(input.amount > 0)) {
+        return { data: null, error: new Error('Amount must be greater than zero') };
+      }
+      if (input.end_date && input.end_date < input.start_date) {
+        return { data: null, error: new Error('End date must be after the start date') };
+      }
+
+      const result = await realtimeSyncService.create<RecurringExpense>(
+        this.recurringTable,
+        {
+          name: input.name.trim(),
+          category_id: input.category_id ?? null,
+          category_name: input.category_name,
+          vendor_name: input.vendor_name || null,
+          amount: input.amount,
+          gst_rate: input.gst_rate ?? 0,
+          itc_eligible: input.itc_eligible ?? false,
+          payment_method: input.payment_method ?? 'cash',
+          frequency: input.frequency,
+          start_date: input.start_date,
+          end_date: input.end_date || null,
+          next_due_date: input.start_date,
+          is_active: true,
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        } as any
+      );
+
+      if (result.error) {
+        console.error('❌ Error creating recurring expense:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      return { data: result.data, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createRecurringExpense:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Pause or resume a recurring schedule
+   */
+  async setRecurringExpenseActive(id: string, isActive: boolean): Promise<{
+    data: RecurringExpense | null;
+    error: any;
+  }> {
+    const result = await realtimeSyncService.update<RecurringExpense>(
+      this.recurringTable,
+      id,
+      { is_active: isActive, synced_at: new Date().toISOString() }
+    );
+    return { data: result.data, error: result.error };
+  }
+
+  /**
+   * Delete a recurring schedule (soft delete). Expenses already generated are kept.
+   */
+  async deleteRecurringExpense(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    const result = await realtimeSyncService.delete(this.recurringTable, id);
+    return { success: !result.error, error: result.error };
+  }
+
+  /**
+   * Move a schedule's next due date from one date to another, only if it
+   * is still on the first. False when another device moved it first.
+   */
+  private async advanceSchedule(schedule: RecurringExpense, from: string, to: string): Promise<boolean> {
+    const { data, error } = await (supabase as any)
+      .from(this.recurringTable)
+      .update({
+        next_due_date: to,
+        is_active: !schedule.end_date || to <= schedule.end_date,
+        synced_at: new Date().toISOString(),
+      })
+      .eq('id', schedule.id)
+      .eq('next_due_date', from)
+      .select('id');
+
+    if (error) {
+      console.error(`⚠️ Could not move "${schedule.name}" on from ${from}:`, error);
+      return false;
+    }
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Generate expenses for every schedule that has fallen due, up to today
+   */
+  async processDueRecurringExpenses(): Promise<{
+    created: Expense[];
+    error: any;
+  }> {
+    const { data: schedules, error } = await this.fetchRecurringExpenses();
+    if (error || !schedules) {
+      return { created: [], error };
+    }
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const created: Expense[] = [];
+
+    for (const schedule of schedules) {
+      if (!schedule.is_active || schedule.next_due_date > today) continue;
+
+      let dueDate = schedule.next_due_date;
+      let occurrences = 0;
+
+      while (
+        dueDate <= today &&
+        (!schedule.end_date || dueDate <= schedule.end_date) &&
+        occurrences < MAX_OCCURRENCES_PER_RUN
+      ) {
+        // Claim the occurrence first; another device that got there first
+        // has already moved the schedule on
+        const nextDueDate = this.nextOccurrence(dueDate, schedule.frequency);
+        if (!(await this.advanceSchedule(schedule, dueDate, nextDueDate))) break;
+
+        const { data: expense, error: createError } = await this.createExpense({
+          date: new Date(dueDate).toISOString(),
+          category_id: schedule.category_id ?? undefined,
+          category_name: schedule.category_name,
+          vendor_name: schedule.vendor_name ?? undefined,
+          description: schedule.name,
+          amount: Number(schedule.amount),
+          gst_rate: Number(schedule.gst_rate),
+          itc_eligible: schedule.itc_eligible,
+          payment_method: schedule.payment_method,
+          recurring_expense_id: schedule.id,
+        });
+
+        if (createError || !expense) {
+          console.error(`⚠️ Recurring expense "${schedule.name}" failed for ${dueDate}:`, createError);
+          // Hand the occurrence back so a later run can retry it
+          await this.advanceSchedule(schedule, nextDueDate, dueDate);
+          break;
+        }
+
+        created.push(expense);
+        occurrences += 1;
+        dueDate = nextDueDate;
+      }
+    }
+
+    if (created.length > 0) {
+      console.log(`✅ Generated ${created.length} recurring expense(s)`);
+    }
+
+    return { created, error: null };
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const expensesService = new ExpensesService();
@@ -0,0 +1,642 @@
+/**
+ * GST Returns Service
+ *
+ * Aggregates a tax period's invoices for filing:
+ * - GSTR-1: B2B, B2C-large, B2C-small, credit/debit note and HSN-wise
+ *   summaries of outward supplies
+ * - GSTR-3B: outward tax liability netted against input tax credit from
+ *   purchase bills and ITC-eligible expenses
+ *
+ * Sales are read from customer bills and from sales vouchers. Credit and
+ * debit notes adjust the outward supplies (customer notes) or the input
+ * credit (supplier notes) of the period they are issued in.
+ *
+ * @version 1.0.0
+ */
+
+import { endOfMonth, format, parseISO } from 'date-fns';
+import {
+  billAmountInBase,
+  calculateTaxTotals,
+  getStateCodeFromGSTIN,
+  getStateCodeFromName,
+  toUqc,
+  validateGSTIN,
+} from '@/lib/invoiceUtils';
+import { billItemToTaxableLine } from '@/lib/invoiceMapping';
+import { billsService, type Bill } from './billsService';
+import { businessSettingsService } from './businessSettingsService';
+import { creditNotesService, type CreditNote } from './creditNotesService';
+import { customersService } from './customersService';
+import { expensesService } from './expensesService';
+import { inventoryService, type Product } from './inventoryService';
+import { salesService } from './salesService';
+import { suppliersService } from './suppliersService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type GstSupplyType = 'b2b' | 'b2cl' | 'b2cs';
+
+export interface GstTaxTotals {
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface GstLine extends GstTaxTotals {
+  hsn: string;
+  description: string;
+  uqc: string; // Unit quantity code, e.g. NOS, KGS
+  quantity: number;
+  rate: number;
+}
+
+export interface GstInvoice extends GstTaxTotals {
+  id: string;
+  source: 'invoice' | 'sale';
+  invoiceNumber: string;
+  date: string; // yyyy-MM-dd
+  partyName: string;
+  gstin: string | null;
+  placeOfSupply: string; // State code; empty when unknown
+  interState: boolean;
+  supplyType: GstSupplyType;
+  invoiceValue: number;
+  lines: GstLine[];
+}
+
+export interface GstNote extends GstTaxTotals {
+  id: string;
+  noteNumber: string;
+  noteType: 'C' | 'D'; // Credit or debit, as the portal expects
+  date: string; // yyyy-MM-dd
+  partyName: string;
+  gstin: string | null;
+  placeOfSupply: string;
+  interState: boolean;
+  supplyType: GstSupplyType; // Classification of the original invoice
+  originalInvoiceNumber: string;
+  noteValue: number;
+  lines: GstLine[];
+}
+
+export interface B2CSmallRow extends GstTaxTotals {
+  placeOfSupply: string;
+  interState: boolean;
+  rate: number;
+}
+
+export interface HsnSummaryRow extends GstTaxTotals {
+  hsn: string;
+  description: string;
+  uqc: string;
+  quantity: number;
+  rate: number;
+  totalValue: number;
+}
+
+export interface GSTR1Report {
+  period: string; // yyyy-MM
+  gstin: string;
+  b2b: GstInvoice[];
+  b2cl: GstInvoice[];
+  b2cs: B2CSmallRow[];
+  cdnr: GstNote[]; // Notes to registered customers (9B)
+  cdnur: GstNote[]; // Notes against B2C-large invoices (9B)
+  hsn: HsnSummaryRow[];
+  totals: GstTaxTotals; // Net of credit and debit notes
+  invoiceCount: number;
+  noteCount: number;
+}
+
+export interface GSTR3BReport {
+  period: string;
+  gstin: string;
+  outwardTaxable: GstTaxTotals; // 3.1(a)
+  outwardNilRated: number; // 3.1(c) taxable value at 0%
+  itcFromPurchases: GstTaxTotals;
+  itcFromExpenses: GstTaxTotals;
+  itcTotal: GstTaxTotals; // 4(A)(5) all other ITC
+  netPayable: Omit<GstTaxTotals, 'taxableValue'>;
+  creditCarriedForward: Omit<GstTaxTotals, 'taxableValue'>;
+}
+
+export interface GstReturns {
+  gstr1: GSTR1Report;
+  gstr3b: GSTR3BReport;
+  /** Records that could not be reported accurately and need a manual look */
+  warnings: string[];
+}
+
+/**
+ * Inter-state supplies to unregistered buyers above this invoice value are B2C-large
+ * (₹1,00,000 from August 2024, previously ₹2,50,000)
+ */
+export const B2CL_THRESHOLD = 100000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const emptyTotals = (): GstTaxTotals => ({ taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+const addTotals = (target: GstTaxTotals, source: GstTaxTotals) => {
+  target.taxableValue = round(target.taxableValue + source.taxableValue);
+  target.igst = round(target.igst + source.igst);
+  target.cgst = round(target.cgst + source.cgst);
+  target.sgst = round(target.sgst + source.sgst);
+  target.cess = round(target.cess + source.cess);
+};
+
+/** Credit notes reduce the period's figures, debit notes add to them */
+const noteSign = (note: { noteType: 'C' | 'D' }) => (note.noteType === 'C' ? -1 : 1);
+
+const signedTotals = <T extends GstTaxTotals>(totals: T, sign: number): T => ({
+  ...totals,
+  taxableValue: round(totals.taxableValue * sign),
+  igst: round(totals.igst * sign),
+  cgst: round(totals.cgst * sign),
+  sgst: round(totals.sgst * sign),
+  cess: round(totals.cess * sign),
+});
+
+const validGstin = (gstin?: string | null): string | null => {
+  const value = (gstin ?? '').trim().toUpperCase();
+  return value && validateGSTIN(value) ? value : null;
+};
+
+/**
+ * Split the tax on a taxable value into IGST or CGST + SGST, with any
+ * compensation cess charged at cessRate
+ */
+function taxLine(
+  line: Omit<GstLine, 'igst' | 'cgst' | 'sgst' | 'cess'>,
+  interState: boolean,
+  cessRate: number = 0
+): GstLine {
+  const tax = round((line.taxableValue * line.rate) / 100);
+  const half = round(tax / 2);
+  return {
+    ...line,
+    taxableValue: round(line.taxableValue),
+    igst: interState ? tax : 0,
+    cgst: interState ? 0 : half,
+    sgst: interState ? 0 : round(tax - half),
+    cess: round((line.taxableValue * cessRate) / 100),
+  };
+}
+
+interface BusinessTaxProfile {
+  gstin: string;
+  stateCode: string;
+}
+
+interface ReturnSources {
+  business: BusinessTaxProfile;
+  billRows: Bill[];
+  billsById: Map<string, Bill>;
+  notes: CreditNote[];
+  sales: Awaited<ReturnType<typeof salesService.fetchSales>>['data'];
+  purchaseBills: Awaited<ReturnType<typeof billsService.fetchBills>>['data'];
+  expenses: Awaited<ReturnType<typeof expensesService.fetchExpenses>>['data'];
+  customerGstins: Map<string, string | null>;
+  supplierGstins: Map<string, string | null>;
+  products: Map<string, Product>;
+}
+
+// ============================================================================
+// GST RETURNS SERVICE
+// ============================================================================
+
+class GstReturnsService {
+  /**
+   * First and last day of a yyyy-MM tax period
+   */
+  getPeriodRange(period: string): { startDate: string; endDate: string } {
+    const start = parseISO(`${period}-01`);
+    return {
+      startDate: format(start, 'yyyy-MM-dd'),
+      endDate: format(endOfMonth(start), 'yyyy-MM-dd'),
+    };
+  }
+
+  /**
+   * Load every record the period's returns are built from
+   */
+  private async loadSources(period: string): Promise<ReturnSources> {
+    const { startDate, endDate } = this.getPeriodRange(period);
+    const [settings, billsResult, sales, purchases, expenses, notes, customers, suppliers, products] = await Promise.all([
+      businessSettingsService.fetchBusinessSettings(),
+      billsService.fetchBills({ partyType: 'customer' }),
+      salesService.fetchSales({ startDate, endDate: `${endDate}T23:59:59.999` }),
+      billsService.fetchBills({ partyType: 'supplier' }),
+      expensesService.fetchExpenses({ startDate, endDate: `${endDate}T23:59:59.999` }),
+      creditNotesService.fetchNotes({ startDate, endDate: `${endDate}T23:59:59.999` }),
+      customersService.fetchCustomers(),
+      suppliersService.fetchSuppliers(),
+      inventoryService.getProducts(),
+    ]);
+
+    const firstError = [billsResult.error, sales.error, purchases.error, expenses.error, notes.error].find(Boolean);
+    if (firstError) throw firstError;
+
+    const gstin = validGstin(settings.data?.gst_number) ?? '';
+    const inPeriod = (date?: string | null) => {
+      const day = (date ?? '').slice(0, 10);
+      return day >= startDate && day <= endDate;
+    };
+
+    return {
+      business: {
+        gstin,
+        stateCode: gstin ? getStateCodeFromGSTIN(gstin) : getStateCodeFromName(settings.data?.state ?? ''),
+      },
+      billRows: (billsResult.data ?? []).filter(bill => inPeriod(bill.date)),
+      billsById: new Map([...(billsResult.data ?? []), ...(purchases.data ?? [])].map(bill => [bill.id, bill])),
+      notes: notes.data ?? [],
+      sales: sales.data ?? [],
+      purchaseBills: (purchases.data ?? []).filter(bill => inPeriod(bill.date)),
+      expenses: expenses.data ?? [],
+      customerGstins: new Map((customers.data ?? []).map(c => [c.id, c.gst_number])),
+      supplierGstins: new Map((suppliers.data ?? []).map(s => [s.id, s.gst_number])),
+      products: new Map(products.map(product => [product.id, product])),
+    };
+  }
+
+  /**
+   * Normalise customer bills and sales vouchers into GST invoices
+   */
+  private collectInvoices(sources: ReturnSources, warnings: string[]): GstInvoice[] {
+    const { business } = sources;
+    const invoices: GstInvoice[] = [];
+
+    const finish = (
+      base: Omit<GstInvoice, keyof GstTaxTotals | 'supplyType' | 'placeOfSupply' | 'lines'>,
+      lines: GstLine[],
+      placeOfSupply: string
+    ) => {
+      const totals = emptyTotals();
+      lines.forEach(line => addTotals(totals, line));
+
+      const supplyType: GstSupplyType = base.gstin
+        ? 'b2b'
+        : base.interState && base.invoiceValue > B2CL_THRESHOLD ? 'b2cl' : 'b2cs';
+
+      if (!placeOfSupply) {
+        warnings.push(`${base.invoiceNumber}: place of supply unknown for an inter-state sale`);
+      }
+      if (lines.some(line => !line.hsn)) {
+        warnings.push(`${base.invoiceNumber}: one or more items have no HSN/SAC code`);
+      }
+
+      invoices.push({ ...base, ...totals, supplyType, placeOfSupply, lines });
+    };
+
+    const placeFor = (gstin: string | null, interState: boolean) =>
+      gstin ? getStateCodeFromGSTIN(gstin) : interState ? '' : business.stateCode;
+
+    const isInterState = (gstin: string | null) =>
+      Boolean(gstin && business.stateCode && getStateCodeFromGSTIN(gstin) !== business.stateCode);
+
+    sources.billRows.forEach(bill => {
+      if (bill.status === 'cancelled' || bill.status === 'draft') return;
+
+      // Prefer the GSTIN printed on the invoice over the customer master
+      const gstin = validGstin(bill.party_gstin ?? sources.customerGstins.get(bill.party_id));
+      const interState = bill.gst_type === 'igst' || (bill.gst_type !== 'cgst_sgst' && isInterState(gstin));
+      // Taxable values net of inclusive tax and the invoice-level discount
+      const { lines: taxed } = calculateTaxTotals(bill.items.map(billItemToTaxableLine), Number(bill.discount_amount ?? 0));
+      const lines = bill.items.map((item, index) => {
+        const product = item.product_id ? sources.products.get(item.product_id) : undefined;
+        return taxLine({
+          hsn: item.hsn ?? product?.hsn_code ?? '',
+          description: item.name ?? item.description ?? '',
+          uqc: toUqc(product?.unit),
+          quantity: Number(item.quantity ?? 0),
+          rate: taxed[index].taxRate,
+          taxableValue: billAmountInBase(taxed[index].taxableValue, bill),
+        }, interState, taxed[index].cessRate);
+      });
+
+      finish({
+        id: bill.id,
+        source: 'invoice',
+        invoiceNumber: bill.bill_number,
+        date: String(bill.date).slice(0, 10),
+        partyName: bill.party_name ?? '',
+        gstin,
+        interState,
+        invoiceValue: billAmountInBase(round(Number(bill.total_amount ?? 0)), bill),
+      }, lines, placeFor(gstin, interState));
+    });
+
+    (sources.sales ?? []).forEach(sale => {
+      const gstin = sale.customer_id ? validGstin(sources.customerGstins.get(sale.customer_id)) : null;
+      const interState = isInterState(gstin);
+      const lines = sale.items.map(item => {
+        const product = item.product_id ? sources.products.get(item.product_id) : undefined;
+        return taxLine({
+          hsn: item.hsn ?? product?.hsn_code ?? '',
+          description: item.name,
+          uqc: toUqc(item.unit ?? product?.unit),
+          quantity: Number(item.quantity),
+          rate: Number(item.tax_rate ?? 0),
+          taxableValue: Number(item.quantity) * Number(item.unit_price)
+            * (1 - Number(item.discount_percentage ?? 0) / 100),
+        }, interState);
+      });
+
+      finish({
+        id: sale.id,
+        source: 'sale',
+        invoiceNumber: sale.sale_number,
+        date: sale.date.slice(0, 10),
+        partyName: sale.customer_name ?? 'Cash Sale',
+        gstin,
+        interState,
+        invoiceValue: round(Number(sale.total_amount)),
+      }, lines, placeFor(gstin, interState));
+    });
+
+    return invoices.sort((a, b) => a.date.localeCompare(b.date) || a.invoiceNumber.localeCompare(b.invoiceNumber));
+  }
+
+  /**
+   * Credit and debit notes issued to customers, classified like their original invoice
+   */
+  private collectNotes(sources: ReturnSources, warnings: string[]): GstNote[] {
+    const { business } = sources;
+
+    return sources.notes
+      .filter(note => note.party_type === 'customer')
+      .map(note => {
+        const bill = sources.billsById.get(note.original_bill_id);
+        const gstin = validGstin(note.party_gstin ?? sources.customerGstins.get(note.party_id));
+        const interState = bill?.gst_type === 'igst'
+          || (bill?.gst_type !== 'cgst_sgst'
+            && Boolean(gstin && business.stateCode && getStateCodeFromGSTIN(gstin) !== business.stateCode));
+        const placeOfSupply = gstin ? getStateCodeFromGSTIN(gstin) : interState ? '' : business.stateCode;
+
+        const lines = note.items.map(item => {
+          const product = item.product_id ? sources.products.get(item.product_id) : undefined;
+          return taxLine({
+            hsn: item.hsn ?? product?.hsn_code ?? '',
+            description: item.name,
+            uqc: toUqc(product?.unit),
+            quantity: Number(item.quantity),
+            rate: Number(item.tax_rate),
+            taxableValue: Number(item.taxable_value),
+          }, interState);
+        });
+
+        const totals = emptyTotals();
+        lines.forEach(line => addTotals(totals, line));
+
+        const supplyType: GstSupplyType = gstin
+          ? 'b2b'
+          : interState && bill && billAmountInBase(Number(bill.total_amount ?? 0), bill) > B2CL_THRESHOLD ? 'b2cl' : 'b2cs';
+
+        if (!placeOfSupply) {
+          warnings.push(`${note.note_number}: place of supply unknown for an inter-state note`);
+        }
+
+        return {
+          id: note.id,
+          noteNumber: note.note_number,
+          noteType: note.note_type === 'credit' ? 'C' : 'D',
+          date: String(note.date).slice(0, 10),
+          partyName: note.party_name,
+          gstin,
+          placeOfSupply,
+          interState,
+          supplyType,
+          originalInvoiceNumber: note.original_bill_number,
+          noteValue: round(Number(note.total_amount)),
+          lines,
+          ...totals,
+        } as GstNote;
+      })
+      .sort((a, b) => a.date.localeCompare(b.date) || a.noteNumber.localeCompare(b.noteNumber));
+  }
+
+  /**
+   * Build GSTR-1 sections from normalised invoices
+   */
+  buildGSTR1(period: string, gstin: string, invoices: GstInvoice[], notes: GstNote[] = []): GSTR1Report {
+    const b2csMap = new Map<string, B2CSmallRow>();
+    const hsnMap = new Map<string, HsnSummaryRow>();
+    const totals = emptyTotals();
+
+    // B2C-small is reported net of its notes; HSN nets every note
+    const addDocument = (document: GstInvoice | GstNote, sign: number) => {
+      addTotals(totals, signedTotals(document, sign));
+
+      document.lines.forEach(line => {
+        const signed = signedTotals(line, sign);
+
+        if (document.supplyType === 'b2cs') {
+          const key = `${document.placeOfSupply}|${document.interState}|${line.rate}`;
+          const row = b2csMap.get(key) ?? {
+            placeOfSupply: document.placeOfSupply,
+            interState: document.interState,
+            rate: line.rate,
+            ...emptyTotals(),
+          };
+          addTotals(row, signed);
+          b2csMap.set(key, row);
+        }
+
+        const hsnKey = `${line.hsn}|${line.uqc}|${line.rate}`;
+        const hsnRow = hsnMap.get(hsnKey) ?? {
+          hsn: line.hsn,
+          description: line.description,
+          uqc: line.uqc,
+          quantity: 0,
+          rate: line.rate,
+          totalValue: 0,
+          ...emptyTotals(),
+        };
+        addTotals(hsnRow, signed);
+        hsnRow.quantity = round(hsnRow.quantity + line.quantity * sign);
+        hsnRow.totalValue = round(hsnRow.taxableValue + hsnRow.igst + hsnRow.cgst + hsnRow.sgst + hsnRow.cess);
+        hsnMap.set(hsnKey, hsnRow);
+      });
+    };
+
+    invoices.forEach(invoice => addDocument(invoice, 1));
+    notes.forEach(note => addDocument(note, noteSign(note)));
+
+    return {
+      period,
+      gstin,
+      b2b: invoices.filter(invoice => invoice.supplyType === 'b2b'),
+      b2cl: invoices.filter(invoice => invoice.supplyType === 'b2cl'),
+      b2cs: Array.from(b2csMap.values()).sort((a, b) =>
+        a.placeOfSupply.localeCompare(b.placeOfSupply) || a.rate - b.rate
+      ),
+      cdnr: notes.filter(note => note.supplyType === 'b2b'),
+      cdnur: notes.filter(note => note.supplyType === 'b2cl'),
+      hsn: Array.from(hsnMap.values()).sort((a, b) => a.hsn.localeCompare(b.hsn) || a.rate - b.rate),
+      totals,
+      invoiceCount: invoices.length,
+      noteCount: notes.length,
+    };
+  }
+
+  /**
+   * Input tax credit from supplier bills and ITC-eligible expenses
+   */
+  private collectInputCredit(sources: ReturnSources, warnings: string[]): {
+    purchases: GstTaxTotals;
+    expenses: GstTaxTotals;
+  } {
+    const { business } = sources;
+    const purchases = emptyTotals();
+    const expenses = emptyTotals();
+
+    const credit = (target: GstTaxTotals, gstin: string, taxableValue: number, tax: number, cess: number = 0) => {
+      const interState = getStateCodeFromGSTIN(gstin) !== business.stateCode;
+      const half = round(tax / 2);
+      addTotals(target, {
+        taxableValue,
+        igst: interState ? tax : 0,
+        cgst: interState ? 0 : half,
+        sgst: interState ? 0 : round(tax - half),
+        cess,
+      });
+    };
+
+    (sources.purchaseBills ?? []).forEach(bill => {
+      const tax = billAmountInBase(round(Number(bill.tax_amount ?? 0)), bill);
+      if (bill.status === 'cancelled' || tax <= 0) return;
+
+      const gstin = validGstin(sources.supplierGstins.get(bill.party_id));
+      if (!gstin) {
+        warnings.push(`${bill.bill_number}: GST on a bill from ${bill.party_name} not claimed (supplier GSTIN missing)`);
+        return;
+      }
+      const cess = billAmountInBase(round(Number(bill.cess_amount ?? 0)), bill);
+      credit(purchases, gstin, round(billAmountInBase(Number(bill.total_amount), bill) - tax - cess), tax, cess);
+    });
+
+    // Supplier notes revise the credit taken on the original bill
+    sources.notes.filter(note => note.party_type === 'supplier').forEach(note => {
+      const tax = round(Number(note.tax_amount));
+      if (tax <= 0) return;
+
+      const gstin = validGstin(note.party_gstin ?? sources.supplierGstins.get(note.party_id));
+      if (!gstin) {
+        warnings.push(`${note.note_number}: ITC not adjusted (supplier GSTIN missing)`);
+        return;
+      }
+      const sign = note.note_type === 'credit' ? -1 : 1;
+      credit(purchases, gstin, round(Number(note.subtotal) * sign), round(tax * sign));
+    });
+
+    (sources.expenses ?? []).forEach(expense => {
+      const tax = round(Number(expense.gst_amount ?? 0));
+      if (!expense.itc_eligible || tax <= 0) return;
+
+      const gstin = validGstin(expense.supplier_gstin);
+      if (!gstin) {
+        warnings.push(`${expense.expense_number}: ITC not claimed (supplier GSTIN missing)`);
+        return;
+      }
+      credit(expenses, gstin, round(Number(expense.amount)), tax);
+    });
+
+    return { purchases, expenses };
+  }
+
+  /**
+   * Build the GSTR-3B summary: outward liability less input credit, per tax head
+   */
+  buildGSTR3B(
+    period: string,
+    gstin: string,
+    invoices: GstInvoice[],
+    itc: { purchases: GstTaxTotals; expenses: GstTaxTotals },
+    notes: GstNote[] = []
+  ): GSTR3BReport {
+    const outwardTaxable = emptyTotals();
+    let outwardNilRated = 0;
+
+    const addLines = (lines: GstLine[], sign: number) => lines.forEach(line => {
+      if (line.rate > 0) {
+        addTotals(outwardTaxable, signedTotals(line, sign));
+      } else {
+        outwardNilRated = round(outwardNilRated + line.taxableValue * sign);
+      }
+    });
+
+    invoices.forEach(invoice => addLines(invoice.lines, 1));
+    notes.forEach(note => addLines(note.lines, noteSign(note)));
+
+    const itcTotal = emptyTotals();
+    addTotals(itcTotal, itc.purchases);
+    addTotals(itcTotal, itc.expenses);
+
+    const heads = ['igst', 'cgst', 'sgst', 'cess'] as const;
+    const netPayable = { igst: 0, cgst: 0, sgst: 0, cess: 0 };
+    const creditCarriedForward = { igst: 0, cgst: 0, sgst: 0, cess: 0 };
+
+    heads.forEach(head => {
+      const difference = round(outwardTaxable[head] - itcTotal[head]);
+      netPayable[head] = Math.max(difference, 0);
+      creditCarriedForward[head] = Math.max(-difference, 0);
+    });
+
+    return {
+      period,
+      gstin,
+      outwardTaxable,
+      outwardNilRated,
+      itcFromPurchases: itc.purchases,
+      itcFromExpenses: itc.expenses,
+      itcTotal,
+      netPayable,
+      creditCarriedForward,
+    };
+  }
+
+  /**
+   * GSTR-1 and GSTR-3B for a yyyy-MM tax period
+   */
+  async generateReturns(period: string): Promise<{
+    data: GstReturns | null;
+    error: any;
+  }> {
+    try {
+      const sources = await this.loadSources(period);
+      const warnings: string[] = [];
+
+      if (!sources.business.gstin) {
+        warnings.push('Business GSTIN is not set in business settings');
+      }
+
+      const invoices = this.collectInvoices(sources, warnings);
+      const notes = this.collectNotes(sources, warnings);
+      const itc = this.collectInputCredit(sources, warnings);
+
+      return {
+        data: {
+          gstr1: this.buildGSTR1(period, sources.business.gstin, invoices, notes),
+          gstr3b: this.buildGSTR3B(period, sources.business.gstin, invoices, itc, notes),
+          warnings,
+        },
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in generateReturns:', err);
+      return { data: null, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const gstReturnsService = new GstReturnsService();
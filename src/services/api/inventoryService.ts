@@ -35,6 +35,7 @@ export interface StockTransactionRow {
   quantity: number;
   price: number;
   amount: number;
+  unit_cost?: number | null;
   note?: string | null;
   timestamp: string;
   created_at: string;
@@ -85,6 +86,7 @@ export interface StockTransaction {
   quantity: number;
   price: number;
   amount: number;
+  unit_cost?: number | null; // Cost of a unit when it moved; null on older movements
   note?: string;
   timestamp: string;
 }
@@ -328,6 +330,7 @@ class InventoryService {
         quantity: Number(row.quantity),
         price: Number(row.price),
         amount: Number(row.amount),
+        unit_cost: row.unit_cost !== null && row.unit_cost !== undefined ? Number(row.unit_cost) : null,
         note: row.note || undefined,
         timestamp: row.timestamp,
       }));
@@ -366,6 +369,7 @@ class InventoryService {
         quantity: Number(row.quantity),
         price: Number(row.price),
         amount: Number(row.amount),
+        unit_cost: row.unit_cost !== null && row.unit_cost !== undefined ? Number(row.unit_cost) : null,
         note: row.note || undefined,
         timestamp: row.timestamp,
       }));
@@ -383,6 +387,10 @@ class InventoryService {
     if (!user) throw new Error('Not authenticated');
 
     const id = `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // Stock going out leaves at the average cost it has now
+    const product = await this.getProduct(transaction.product_id);
+    const unitCost = transaction.type === 'in' ? transaction.price : product?.cost_price ?? null;
     
     // Create stock transaction using realtime sync service
     const result = await realtimeSyncService.create<StockTransactionRow>(
@@ -393,6 +401,7 @@ class InventoryService {
         quantity: transaction.quantity,
         price: transaction.price,
         amount: transaction.amount,
+        unit_cost: unitCost,
         note: transaction.note,
         timestamp: new Date().toISOString(),
         synced_at: new Date().toISOString(),
@@ -408,7 +417,6 @@ class InventoryService {
     }
 
     // Update product quantity and cost price (for stock in)
-    const product = await this.getProduct(transaction.product_id);
     if (product) {
       const newQuantity = transaction.type === 'in'
         ? product.quantity + transaction.quantity
@@ -437,6 +445,7 @@ class InventoryService {
       quantity: Number(data.quantity),
       price: Number(data.price),
       amount: Number(data.amount),
+      unit_cost: data.unit_cost !== null && data.unit_cost !== undefined ? Number(data.unit_cost) : null,
       note: data.note || undefined,
       timestamp: data.timestamp,
     };
@@ -0,0 +1,173 @@
+/**
+ * Invoice Templates Service with Real-Time Sync
+ *
+ * Custom templates built in the template designer. Each row stores its
+ * layout as a JSON definition; bills reference a custom template by id in
+ * the same field as the built-in template ids.
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeTemplateDefinition } from '@/lib/customTemplates';
+import type { CustomInvoiceTemplate, CustomTemplateDefinition } from '@/types/invoice';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SaveInvoiceTemplateInput {
+  name: string;
+  description?: string;
+  definition: CustomTemplateDefinition;
+}
+
+// ============================================================================
+// INVOICE TEMPLATES SERVICE
+// ============================================================================
+
+class InvoiceTemplatesService {
+  private tableName = 'invoice_templates' as const;
+
+  /**
+   * Normalise an invoice_templates row
+   */
+  private toTemplate(row: any): CustomInvoiceTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? null,
+      definition: normalizeTemplateDefinition(row.definition),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private validate(input: SaveInvoiceTemplateInput): Error | null {
+    if (!input.name.trim()) return new Error('Template name is required');
+    if (!input.definition.blocks.some(block => block.type === 'items' && block.visible)) {
+      return new Error('The items table cannot be hidden');
+    }
+    return null;
+  }
+
+  /**
+   * Fetch custom templates, by name
+   */
+  async fetchTemplates(): Promise<{
+    data: CustomInvoiceTemplate[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      const { data, error } = await (supabase as any)
+        .from(this.tableName)
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error fetching invoice templates:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data ?? []).map((row: any) => this.toTemplate(row)), error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchTemplates:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Create a custom template
+   */
+  async createTemplate(input: SaveInvoiceTemplateInput): Promise<{
+    data: CustomInvoiceTemplate | null;
+    error: any;
+  }> {
+    try {
+      const validationError = this.validate(input);
+      if (validationError) return { data: null, error: validationError };
+
+      const result = await realtimeSyncService.create<any>(
+        this.tableName,
+        {
+          name: input.name.trim(),
+          description: input.description?.trim() || null,
+          definition: normalizeTemplateDefinition(input.definition),
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        }
+      );
+
+      if (result.error) {
+        console.error('❌ Error creating invoice template:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      console.log('✅ Invoice template created:', result.data?.name);
+      return { data: this.toTemplate(result.data), error: null };
+    } catch (err) {
+      console.error('❌ Exception in createTemplate:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Update a custom template. Invoices using it pick up the new layout.
+   */
+  async updateTemplate(id: string, input: SaveInvoiceTemplateInput): Promise<{
+    data: CustomInvoiceTemplate | null;
+    error: any;
+  }> {
+    try {
+      const validationError = this.validate(input);
+      if (validationError) return { data: null, error: validationError };
+
+      const result = await realtimeSyncService.update<any>(this.tableName, id, {
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        definition: normalizeTemplateDefinition(input.definition),
+        updated_at: new Date().toISOString(),
+      });
+
+      if (result.error) {
+        console.error('❌ Error updating invoice template:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      return { data: this.toTemplate(result.data), error: null };
+    } catch (err) {
+      console.error('❌ Exception in updateTemplate:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Delete a custom template (soft delete). Invoices using it fall back to
+   * the Modern template.
+   */
+  async deleteTemplate(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    const result = await realtimeSyncService.delete(this.tableName, id);
+    return { success: !result.error, error: result.error };
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const invoiceTemplatesService = new InvoiceTemplatesService();
@@ -0,0 +1,447 @@
+/**
+ * Party Ledger Service
+ *
+ * Customer and supplier balances derived from their ledger: transactions,
+ * bills, receipts, credit/debit notes and the append-only
+ * party_ledger_entries table (dated opening balances and adjustments).
+ * Balances can be read as of any past date. The stored customers.amount /
+ * suppliers.amount is a cache of that balance; each posting sets it from
+ * the ledger, and the reconciliation tool repairs any drift.
+ *
+ * @version 1.0.0
+ */
+
+import { format } from 'date-fns';
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EMPTY_LEDGER_SOURCES,
+  balanceAsOf,
+  buildPartyLedger,
+  hasDrift,
+  ledgerBalance,
+  type LedgerEntry,
+  type LedgerPartyType,
+  type LedgerSources,
+} from '@/lib/partyLedger';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface PartyBalanceDrift {
+  party_type: LedgerPartyType;
+  party_id: string;
+  party_name: string;
+  stored: number;
+  ledger: number;
+  drift: number; // stored - ledger
+}
+
+export type BalanceRepairMode = 'use_ledger' | 'keep_stored';
+
+const PARTY_TABLES = {
+  customer: 'customers',
+  supplier: 'suppliers',
+} as const;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// LEDGER SERVICE
+// ============================================================================
+
+class LedgerService {
+  private entriesTable = 'party_ledger_entries' as const;
+
+  // Parties with a posting in progress; nested postings are covered by the outer one
+  private tracking = new Set<string>();
+
+  /**
+   * Ledger source rows for one party, or for every party of the type,
+   * grouped by party id
+   */
+  private async fetchSources(partyType: LedgerPartyType, partyId?: string): Promise<Map<string, LedgerSources>> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const partyColumn = partyType === 'customer' ? 'customer_id' : 'supplier_id';
+    const scope = (query: any, column: string) =>
+      partyId ? query.eq(column, partyId) : query.not(column, 'is', null);
+
+    const [transactions, bills, receipts, notes, adjustments] = await Promise.all([
+      scope(
+        (supabase as any)
+          .from('transactions')
+          .select(`id, date, type, amount, description, ${partyColumn}`)
+          .eq('user_id', user.id)
+          .is('deleted_at', null),
+        partyColumn
+      ),
+      scope(
+        (supabase as any)
+          .from('bills')
+          .select('id, bill_number, date, total_amount, paid_amount, status, currency_code, exchange_rate, party_id')
+          .eq('user_id', user.id)
+          .eq('party_type', partyType)
+          .is('deleted_at', null),
+        'party_id'
+      ),
+      // Receipts are customer-only; deleted ones still carry bill allocations
+      partyType === 'customer'
+        ? scope(
+            (supabase as any)
+              .from('receipts')
+              .select('id, receipt_number, date, amount, allocations, transaction_id, customer_id, deleted_at')
+              .eq('user_id', user.id),
+            'customer_id'
+          )
+        : Promise.resolve({ data: [], error: null }),
+      scope(
+        (supabase as any)
+          .from('credit_notes')
+          .select('id, note_number, note_type, date, total_amount, party_id')
+          .eq('user_id', user.id)
+          .eq('party_type', partyType)
+          .is('deleted_at', null),
+        'party_id'
+      ),
+      scope(
+        (supabase as any)
+          .from(this.entriesTable)
+          .select('id, entry_type, date, amount, description, party_id')
+          .eq('user_id', user.id)
+          .eq('party_type', partyType),
+        'party_id'
+      ),
+    ]);
+
+    const failed = [transactions, bills, receipts, notes, adjustments].find(result => result.error);
+    if (failed) throw failed.error;
+
+    const grouped = new Map<string, LedgerSources>();
+    const sourcesFor = (id: string) => {
+      let sources = grouped.get(id);
+      if (!sources) {
+        sources = { transactions: [], bills: [], receipts: [], notes: [], adjustments: [] };
+        grouped.set(id, sources);
+      }
+      return sources;
+    };
+
+    (transactions.data ?? []).forEach((row: any) => {
+      sourcesFor(row[partyColumn]).transactions.push({
+        id: row.id,
+        date: row.date,
+        type: row.type === 'gave' ? 'gave' : 'got',
+        amount: Number(row.amount) || 0,
+        description: row.description,
+      });
+    });
+    (bills.data ?? []).forEach((row: any) => {
+      sourcesFor(row.party_id).bills.push({
+        id: row.id,
+        bill_number: row.bill_number,
+        date: row.date,
+        total_amount: Number(row.total_amount) || 0,
+        paid_amount: Number(row.paid_amount) || 0,
+        status: row.status,
+        currency_code: row.currency_code ?? null,
+        exchange_rate: row.exchange_rate !== null && row.exchange_rate !== undefined ? Number(row.exchange_rate) : null,
+      });
+    });
+    (receipts.data ?? []).forEach((row: any) => {
+      sourcesFor(row.customer_id).receipts.push({
+        id: row.id,
+        receipt_number: row.receipt_number,
+        date: row.date,
+        amount: Number(row.amount) || 0,
+        allocations: Array.isArray(row.allocations) ? row.allocations : [],
+        transaction_id: row.transaction_id,
+        deleted: Boolean(row.deleted_at),
+      });
+    });
+    (notes.data ?? []).forEach((row: any) => {
+      sourcesFor(row.party_id).notes.push({
+        id: row.id,
+        note_number: row.note_number,
+        note_type: row.note_type === 'debit' ? 'debit' : 'credit',
+        date: row.date,
+        total_amount: Number(row.total_amount) || 0,
+      });
+    });
+    (adjustments.data ?? []).forEach((row: any) => {
+      sourcesFor(row.party_id).adjustments.push({
+        id: row.id,
+        entry_type: row.entry_type === 'opening' ? 'opening' : 'adjustment',
+        date: row.date,
+        amount: Number(row.amount) || 0,
+        description: row.description,
+      });
+    });
+
+    return grouped;
+  }
+
+  /**
+   * A party's ledger, oldest first, with a running balance
+   */
+  async fetchPartyLedger(partyType: LedgerPartyType, partyId: string): Promise<{
+    data: LedgerEntry[] | null;
+    error: any;
+  }> {
+    try {
+      const sources = await this.fetchSources(partyType, partyId);
+      return { data: buildPartyLedger(partyType, sources.get(partyId) ?? EMPTY_LEDGER_SOURCES), error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchPartyLedger:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Ledgers of every party of the type, keyed by party id
+   */
+  async fetchLedgers(partyType: LedgerPartyType): Promise<{
+    data: Map<string, LedgerEntry[]> | null;
+    error: any;
+  }> {
+    try {
+      const sources = await this.fetchSources(partyType);
+      const ledgers = new Map<string, LedgerEntry[]>();
+      sources.forEach((partySources, partyId) => {
+        ledgers.set(partyId, buildPartyLedger(partyType, partySources));
+      });
+      return { data: ledgers, error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchLedgers:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * A party's balance from its ledger
+   */
+  async getPartyBalance(partyType: LedgerPartyType, partyId: string): Promise<{
+    data: number | null;
+    error: any;
+  }> {
+    const { data, error } = await this.fetchPartyLedger(partyType, partyId);
+    return { data: data ? ledgerBalance(data) : null, error };
+  }
+
+  /**
+   * What a party owed (or was owed) at the end of a day (yyyy-MM-dd)
+   */
+  async balanceAsOf(partyType: LedgerPartyType, partyId: string, date: string): Promise<{
+    data: number | null;
+    error: any;
+  }> {
+    const { data, error } = await this.fetchPartyLedger(partyType, partyId);
+    return { data: data ? balanceAsOf(data, date) : null, error };
+  }
+
+  /**
+   * Set the cached balance to the party's ledger balance as it is now
+   */
+  private async syncStoredBalance(partyType: LedgerPartyType, partyId: string): Promise<number> {
+    const { data: balance, error } = await this.getPartyBalance(partyType, partyId);
+    if (balance === null) throw error ?? new Error('Ledger unavailable');
+
+    const { error: updateError } = await realtimeSyncService.update<any>(PARTY_TABLES[partyType], partyId, {
+      amount: balance,
+      last_transaction: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+    if (updateError) throw updateError;
+
+    return balance;
+  }
+
+  /**
+   * Run a write that posts to a party's ledger, then set the cached balance
+   * from the ledger. The balance is recomputed rather than moved by a
+   * difference, so a posting that races another is corrected by the next
+   * one instead of leaving the cache off for good. Balance failures are
+   * logged and left for the reconciliation tool; the write's result is
+   * returned either way. Writes made inside `post` for the same party are
+   * synced once, after the outer write.
+   */
+  async trackBalance<T>(
+    partyType: LedgerPartyType,
+    partyId: string | null | undefined,
+    post: () => Promise<T>
+  ): Promise<T> {
+    const key = `${partyType}:${partyId}`;
+    if (!partyId || this.tracking.has(key)) return post();
+
+    this.tracking.add(key);
+    let result: T;
+    try {
+      result = await post();
+    } finally {
+      this.tracking.delete(key);
+    }
+
+    try {
+      const balance = await this.syncStoredBalance(partyType, partyId);
+      console.log(`✅ ${partyType} balance synced to ${balance}`);
+    } catch (err) {
+      console.error('⚠️ Stored balance not updated (posting still recorded):', err);
+    }
+
+    return result;
+  }
+
+  /**
+   * Append an entry that has no source document
+   */
+  private async appendEntry(
+    partyType: LedgerPartyType,
+    partyId: string,
+    entryType: 'opening' | 'adjustment',
+    amount: number,
+    description: string,
+    date?: string
+  ): Promise<{
+    data: any;
+    error: any;
+  }> {
+    const result = await realtimeSyncService.create<any>(this.entriesTable, {
+      party_id: partyId,
+      party_type: partyType,
+      entry_type: entryType,
+      amount: round(amount),
+      date: date ?? format(new Date(), 'yyyy-MM-dd'),
+      description,
+      synced_at: new Date().toISOString(),
+    });
+
+    if (result.error) {
+      console.error(`❌ Error recording ledger ${entryType} entry:`, result.error);
+    }
+    return { data: result.data, error: result.error };
+  }
+
+  /**
+   * Post a correction to a party's ledger
+   */
+  async recordAdjustment(
+    partyType: LedgerPartyType,
+    partyId: string,
+    amount: number,
+    description: string,
+    date?: string
+  ): Promise<{
+    data: any;
+    error: any;
+  }> {
+    return this.appendEntry(partyType, partyId, 'adjustment', amount, description, date);
+  }
+
+  /**
+   * Post the balance a party was brought in with, dated when it was owed
+   * (today when no date is given). The stored balance is expected to
+   * include it already.
+   */
+  async recordOpeningBalance(
+    partyType: LedgerPartyType,
+    partyId: string,
+    amount: number,
+    date?: string
+  ): Promise<{
+    data: any;
+    error: any;
+  }> {
+    return this.appendEntry(partyType, partyId, 'opening', amount, 'Opening balance', date);
+  }
+
+  /**
+   * Recompute every customer's and supplier's balance from the ledger and
+   * list the parties whose stored balance differs
+   */
+  async reconcileBalances(): Promise<{
+    data: PartyBalanceDrift[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const drifts: PartyBalanceDrift[] = [];
+
+      for (const partyType of ['customer', 'supplier'] as LedgerPartyType[]) {
+        const [{ data: parties, error }, sources] = await Promise.all([
+          (supabase as any)
+            .from(PARTY_TABLES[partyType])
+            .select('id, name, amount')
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .order('name', { ascending: true }),
+          this.fetchSources(partyType),
+        ]);
+
+        if (error) throw error;
+
+        (parties ?? []).forEach((party: any) => {
+          const stored = round(Number(party.amount) || 0);
+          const ledger = ledgerBalance(buildPartyLedger(partyType, sources.get(party.id) ?? EMPTY_LEDGER_SOURCES));
+
+          if (hasDrift(stored, ledger)) {
+            drifts.push({
+              party_type: partyType,
+              party_id: party.id,
+              party_name: party.name,
+              stored,
+              ledger,
+              drift: round(stored - ledger),
+            });
+          }
+        });
+      }
+
+      console.log(`🔍 Balance reconciliation: ${drifts.length} parties drifted`);
+      return { data: drifts, error: null };
+    } catch (err) {
+      console.error('❌ Exception in reconcileBalances:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Repair a drifted balance: either overwrite the stored balance with the
+   * ledger balance, or keep the stored balance and post the difference to
+   * the ledger as an adjustment (e.g. an opening balance with no entry)
+   */
+  async repairBalance(drift: PartyBalanceDrift, mode: BalanceRepairMode): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      if (mode === 'keep_stored') {
+        const { error } = await this.recordAdjustment(
+          drift.party_type,
+          drift.party_id,
+          drift.drift,
+          'Reconciliation: kept stored balance'
+        );
+        return { success: !error, error };
+      }
+
+      const { error } = await realtimeSyncService.update<any>(PARTY_TABLES[drift.party_type], drift.party_id, {
+        amount: drift.ledger,
+        updated_at: new Date().toISOString(),
+      });
+      return { success: !error, error };
+    } catch (err) {
+      console.error('❌ Exception in repairBalance:', err);
+      return { success: false, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,397 @@
+/**
+ * Numbering Series Service with Real-Time Sync
+ *
+ * Named series that number invoices, quotations, delivery challans and
+ * proforma invoices from a token format such as {PREFIX}/{FY}/{SEQ:0000}.
+ * The default series of a document type replaces its built-in numbering.
+ * Numbers are reserved through the reserve_series_number database function
+ * so devices saving at the same moment never share a number.
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { businessSettingsService } from './businessSettingsService';
+import { getFiscalYearRange } from './profitLossService';
+import {
+  ALL_PERIODS,
+  findNumberingGaps,
+  fiscalYearToken,
+  formatSeriesNumber,
+  validateSeriesFormat,
+  type NumberingGapReport,
+  type SeriesNumberEntry,
+} from '@/lib/numberingSeries';
+import type { DocumentType } from '@/types/invoice';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type NumberingResetFrequency = 'fiscal_year' | 'never';
+
+export interface NumberingSeries {
+  id: string;
+  name: string;
+  document_type: DocumentType;
+  format: string;
+  prefix: string;
+  start_number: number;
+  reset_frequency: NumberingResetFrequency;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveNumberingSeriesInput {
+  name: string;
+  document_type: DocumentType;
+  format: string;
+  prefix: string;
+  start_number: number;
+  reset_frequency: NumberingResetFrequency;
+  is_default: boolean;
+}
+
+export const RESET_FREQUENCY_LABELS: Record<NumberingResetFrequency, string> = {
+  fiscal_year: 'Every financial year',
+  never: 'Never',
+};
+
+// Where each document type keeps its numbers
+const NUMBERED_DOCUMENTS: Record<DocumentType, { table: string; column: string; documentType?: string }> = {
+  invoice: { table: 'bills', column: 'bill_number' },
+  quotation: { table: 'quotations', column: 'quotation_number' },
+  delivery_challan: { table: 'sales_documents', column: 'document_number', documentType: 'delivery_challan' },
+  proforma: { table: 'sales_documents', column: 'document_number', documentType: 'proforma' },
+};
+
+// ============================================================================
+// NUMBERING SERIES SERVICE
+// ============================================================================
+
+class NumberingSeriesService {
+  private tableName = 'numbering_series' as const;
+  private countersTable = 'numbering_series_counters' as const;
+
+  /**
+   * Normalise a numbering_series row
+   */
+  private toSeries(row: any): NumberingSeries {
+    return {
+      id: row.id,
+      name: row.name,
+      document_type: row.document_type,
+      format: row.format,
+      prefix: row.prefix ?? '',
+      start_number: Number(row.start_number) || 1,
+      reset_frequency: row.reset_frequency === 'never' ? 'never' : 'fiscal_year',
+      is_default: Boolean(row.is_default),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private validate(input: SaveNumberingSeriesInput): Error | null {
+    if (!input.name.trim()) return new Error('Series name is required');
+    const formatError = validateSeriesFormat(input.format);
+    if (formatError) return new Error(formatError);
+    if (input.format.includes('{PREFIX}') && !input.prefix.trim()) {
+      return new Error('The format uses {PREFIX}, so a prefix is required');
+    }
+    if (!Number.isInteger(input.start_number) || input.start_number < 1) {
+      return new Error('Start number must be a whole number of at least 1');
+    }
+    return null;
+  }
+
+  /**
+   * Document date as a Date; dates without a time are read as local dates
+   */
+  private toDate(value?: string): Date {
+    if (!value) return new Date();
+    return new Date(value.length === 10 ? `${value}T00:00:00` : value);
+  }
+
+  private async getFiscalYearStart(): Promise<string | null> {
+    const { data } = await businessSettingsService.fetchBusinessSettings();
+    return data?.fiscal_year_start ?? null;
+  }
+
+  /**
+   * Counter period and {FY} value for a document date
+   */
+  private periodFor(
+    series: NumberingSeries,
+    date: Date,
+    fiscalYearStart: string | null
+  ): { periodKey: string; fiscalYear: string } {
+    const range = getFiscalYearRange(fiscalYearStart, date);
+    const fiscalYear = fiscalYearToken(range.startDate, range.endDate);
+    return { periodKey: series.reset_frequency === 'fiscal_year' ? fiscalYear : ALL_PERIODS, fiscalYear };
+  }
+
+  private formatNumber(series: NumberingSeries, sequence: number, date: Date, fiscalYear: string): string {
+    return formatSeriesNumber(series.format, { prefix: series.prefix.trim(), sequence, date, fiscalYear });
+  }
+
+  /**
+   * Fetch numbering series, by document type and name
+   */
+  async fetchSeries(): Promise<{
+    data: NumberingSeries[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      const { data, error } = await (supabase as any)
+        .from(this.tableName)
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('document_type', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error fetching numbering series:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data ?? []).map((row: any) => this.toSeries(row)), error: null };
+    } catch (err) {
+      console.error('❌ Exception in fetchSeries:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Default series of a document type, or null to use built-in numbering
+   */
+  async getDefaultSeries(documentType: DocumentType): Promise<NumberingSeries | null> {
+    const { data } = await this.fetchSeries();
+    return data?.find(series => series.document_type === documentType && series.is_default) ?? null;
+  }
+
+  /**
+   * Number the series would give next, without reserving it
+   */
+  async previewNextNumber(series: NumberingSeries, date?: string): Promise<string> {
+    const documentDate = this.toDate(date);
+    const { periodKey, fiscalYear } = this.periodFor(series, documentDate, await this.getFiscalYearStart());
+
+    const { data, error } = await (supabase as any)
+      .from(this.countersTable)
+      .select('last_value')
+      .eq('series_id', series.id)
+      .eq('period_key', periodKey)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const next = data ? Math.max(data.last_value + 1, series.start_number) : series.start_number;
+    return this.formatNumber(series, next, documentDate, fiscalYear);
+  }
+
+  /**
+   * Next number of the document type's default series, without reserving
+   * it. Null when the document type has no default series.
+   */
+  async peekNextNumber(documentType: DocumentType, date?: string): Promise<string | null> {
+    const series = await this.getDefaultSeries(documentType);
+    return series ? this.previewNextNumber(series, date) : null;
+  }
+
+  /**
+   * Reserve the next number of the document type's default series. Null
+   * when the document type has no default series.
+   */
+  async reserveNextNumber(documentType: DocumentType, date?: string): Promise<string | null> {
+    const series = await this.getDefaultSeries(documentType);
+    if (!series) return null;
+
+    const documentDate = this.toDate(date);
+    const { periodKey, fiscalYear } = this.periodFor(series, documentDate, await this.getFiscalYearStart());
+
+    const { data, error } = await (supabase as any).rpc('reserve_series_number', {
+      p_series_id: series.id,
+      p_period_key: periodKey,
+    });
+
+    if (error || typeof data !== 'number') {
+      // Offline or the function is missing; the gap report flags any clash
+      console.warn('⚠️ Could not reserve a series number, using the preview instead:', error);
+      return this.previewNextNumber(series, date);
+    }
+
+    console.log(`🔢 Reserved ${series.name} #${data} (${periodKey})`);
+    return this.formatNumber(series, data, documentDate, fiscalYear);
+  }
+
+  /**
+   * Only one series per document type can be the default
+   */
+  private async clearOtherDefaults(documentType: DocumentType, keepId: string): Promise<void> {
+    const { data } = await this.fetchSeries();
+    const others = (data ?? []).filter(series => series.document_type === documentType && series.is_default && series.id !== keepId);
+
+    for (const series of others) {
+      await realtimeSyncService.update<any>(this.tableName, series.id, {
+        is_default: false,
+        updated_at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private toRow(input: SaveNumberingSeriesInput) {
+    return {
+      name: input.name.trim(),
+      document_type: input.document_type,
+      format: input.format.trim(),
+      prefix: input.prefix.trim(),
+      start_number: input.start_number,
+      reset_frequency: input.reset_frequency,
+      is_default: input.is_default,
+    };
+  }
+
+  /**
+   * Create a numbering series
+   */
+  async createSeries(input: SaveNumberingSeriesInput): Promise<{
+    data: NumberingSeries | null;
+    error: any;
+  }> {
+    try {
+      const validationError = this.validate(input);
+      if (validationError) return { data: null, error: validationError };
+
+      const result = await realtimeSyncService.create<any>(
+        this.tableName,
+        {
+          ...this.toRow(input),
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        }
+      );
+
+      if (result.error) {
+        console.error('❌ Error creating numbering series:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      const series = this.toSeries(result.data);
+      if (series.is_default) await this.clearOtherDefaults(series.document_type, series.id);
+
+      console.log('✅ Numbering series created:', series.name);
+      return { data: series, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createSeries:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Update a numbering series. Numbers already issued are left as they are.
+   */
+  async updateSeries(id: string, input: SaveNumberingSeriesInput): Promise<{
+    data: NumberingSeries | null;
+    error: any;
+  }> {
+    try {
+      const validationError = this.validate(input);
+      if (validationError) return { data: null, error: validationError };
+
+      const result = await realtimeSyncService.update<any>(this.tableName, id, {
+        ...this.toRow(input),
+        updated_at: new Date().toISOString(),
+      });
+
+      if (result.error) {
+        console.error('❌ Error updating numbering series:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      const series = this.toSeries(result.data);
+      if (series.is_default) await this.clearOtherDefaults(series.document_type, series.id);
+
+      return { data: series, error: null };
+    } catch (err) {
+      console.error('❌ Exception in updateSeries:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Delete a numbering series (soft delete). Its document type goes back to
+   * built-in numbering unless another series is made the default.
+   */
+  async deleteSeries(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    const result = await realtimeSyncService.delete(this.tableName, id);
+    return { success: !result.error, error: result.error };
+  }
+
+  /**
+   * Missing and duplicate numbers in a series, per period. Deleted
+   * documents are included so their numbers are not reported as missing.
+   */
+  async findGaps(series: NumberingSeries): Promise<{
+    data: NumberingGapReport[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const source = NUMBERED_DOCUMENTS[series.document_type];
+      let query = (supabase as any)
+        .from(source.table)
+        .select(`${source.column}, date, deleted_at`)
+        .eq('user_id', user.id);
+
+      if (source.documentType) {
+        query = query.eq('document_type', source.documentType);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('❌ Error fetching numbers for gap check:', error);
+        return { data: null, error };
+      }
+
+      const fiscalYearStart = await this.getFiscalYearStart();
+      const entries: SeriesNumberEntry[] = (data ?? [])
+        .filter((row: any) => row[source.column])
+        .map((row: any) => ({
+          number: row[source.column],
+          period: this.periodFor(series, this.toDate(row.date ?? undefined), fiscalYearStart).periodKey,
+          deleted: Boolean(row.deleted_at),
+        }));
+
+      return {
+        data: findNumberingGaps(entries, series.format, series.prefix.trim(), series.start_number),
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in findGaps:', err);
+      return { data: null, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const numberingSeriesService = new NumberingSeriesService();
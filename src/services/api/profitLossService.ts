@@ -0,0 +1,414 @@
+/**
+ * Profit & Loss Service
+ *
+ * Builds a P&L statement for any period from data the app already records:
+ * - Revenue from customer bills and sales vouchers (net of GST, cancelled bills excluded),
+ *   less customer credit notes and plus customer debit notes
+ * - Cost of goods sold from stock-out movements valued at their cost when they
+ *   moved, less goods customers returned; supplier returns are not sales
+ * - Operating expenses from cash_out cashbook entries, grouped by category
+ *
+ * @version 1.0.0
+ */
+
+import { eachMonthOfInterval, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { billAmountInBase } from '@/lib/invoiceUtils';
+import { billsService, type Bill } from './billsService';
+import { cashbookService, type CashbookEntry } from './cashbookService';
+import { creditNotesService, isNoteStockMovement } from './creditNotesService';
+import { inventoryService, type Product, type StockTransaction } from './inventoryService';
+import { salesService } from './salesService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ProfitLossLine {
+  label: string;
+  amount: number;
+}
+
+export interface ProfitLossStatement {
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string; // yyyy-MM-dd, inclusive
+  invoiceCount: number;
+  revenue: number; // Taxable value of sales
+  taxCollected: number; // GST on sales (a liability, not income)
+  costOfGoodsSold: number;
+  grossProfit: number;
+  grossMargin: number; // Percentage of revenue
+  operatingExpenses: ProfitLossLine[];
+  totalOperatingExpenses: number;
+  netProfit: number;
+  netMargin: number; // Percentage of revenue
+}
+
+export interface ProfitLossMonth {
+  month: string; // yyyy-MM
+  label: string; // e.g. "Apr 2026"
+  statement: ProfitLossStatement;
+  /** Percentage change against the previous month; null for the first month or a zero base */
+  change: {
+    revenue: number | null;
+    grossProfit: number | null;
+    netProfit: number | null;
+  };
+}
+
+export interface ProfitLossComparison {
+  months: ProfitLossMonth[];
+  total: ProfitLossStatement;
+}
+
+export interface ProfitLossPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+interface SalesBill {
+  date: string;
+  revenue: number;
+  tax: number;
+}
+
+interface ProfitLossSources {
+  bills: SalesBill[];
+  notes: SalesBill[]; // Customer credit (negative) and debit notes
+  stockMovements: StockTransaction[]; // Stock sold, and customer returns
+  costPrices: Map<string, number>;
+  expenses: CashbookEntry[];
+}
+
+/**
+ * Cash-out categories that are not operating expenses: stock bought for resale
+ * is already counted through COGS, the rest are balance sheet movements.
+ */
+export const NON_OPERATING_CATEGORIES = [
+  'purchase',
+  'purchases',
+  'stock purchase',
+  'supplier payment',
+  'loan repayment',
+  'owner drawings',
+  'drawings',
+  'capital',
+  'gst payment',
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDay = (value: string) => value.slice(0, 10);
+
+const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : round(((current - previous) / Math.abs(previous)) * 100);
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// ============================================================================
+// FISCAL YEAR HELPERS
+// ============================================================================
+
+/**
+ * Parse the business' fiscal_year_start setting into a month (0-11) and day.
+ * Accepts "2024-04-01", "04-01", "4", "April" or "Apr"; defaults to 1 April.
+ */
+export function parseFiscalYearStart(value?: string | null): { month: number; day: number } {
+  const fallback = { month: 3, day: 1 };
+  const text = (value ?? '').trim().toLowerCase();
+  if (!text) return fallback;
+
+  const named = MONTH_NAMES.findIndex(name => name === text || name.slice(0, 3) === text);
+  if (named >= 0) return { month: named, day: 1 };
+
+  const parts = text.split(/[-/]/).map(part => parseInt(part, 10));
+  const [month, day] = parts.length === 3 ? parts.slice(1) : parts;
+
+  if (!(month >= 1 && month <= 12)) return fallback;
+  return { month: month - 1, day: day >= 1 && day <= 28 ? day : 1 };
+}
+
+/**
+ * Fiscal year containing the reference date; offset -1 gives the previous year
+ */
+export function getFiscalYearRange(
+  fiscalYearStart?: string | null,
+  referenceDate: Date = new Date(),
+  offset: number = 0
+): ProfitLossPeriod & { label: string } {
+  const { month, day } = parseFiscalYearStart(fiscalYearStart);
+
+  let startYear = referenceDate.getFullYear();
+  if (referenceDate < new Date(startYear, month, day)) {
+    startYear -= 1;
+  }
+  startYear += offset;
+
+  const start = new Date(startYear, month, day);
+  const end = new Date(startYear + 1, month, day - 1);
+
+  return {
+    startDate: format(start, 'yyyy-MM-dd'),
+    endDate: format(end, 'yyyy-MM-dd'),
+    label: start.getFullYear() === end.getFullYear()
+      ? `FY ${start.getFullYear()}`
+      : `FY ${start.getFullYear()}-${String(end.getFullYear()).slice(-2)}`,
+  };
+}
+
+// ============================================================================
+// PROFIT & LOSS SERVICE
+// ============================================================================
+
+class ProfitLossService {
+  /**
+   * Customer bills in the period, reduced to their taxable value and GST
+   */
+  private toSalesBills(customerBills: Bill[], period: ProfitLossPeriod): SalesBill[] {
+    return customerBills
+      .filter(bill => bill.status !== 'cancelled' && bill.status !== 'draft')
+      .map(bill => ({
+        date: toDay(bill.date ?? bill.created_at),
+        revenue: billAmountInBase(round(Number(bill.total_amount) - Number(bill.tax_amount)), bill),
+        tax: billAmountInBase(round(Number(bill.tax_amount)), bill),
+      }))
+      .filter(bill => bill.date >= period.startDate && bill.date <= period.endDate);
+  }
+
+  /**
+   * Customer credit and debit notes in the period, signed against revenue
+   * and in the original bill's currency converted to INR
+   */
+  private async fetchCustomerNotes(period: ProfitLossPeriod, customerBills: Bill[]): Promise<SalesBill[]> {
+    const { data, error } = await creditNotesService.fetchNotes({
+      partyType: 'customer',
+      startDate: period.startDate,
+      endDate: `${period.endDate}T23:59:59.999`,
+    });
+    if (error) throw error;
+
+    const billsById = new Map(customerBills.map(bill => [bill.id, bill]));
+    return (data ?? []).map(note => {
+      const sign = note.note_type === 'credit' ? -1 : 1;
+      const bill = billsById.get(note.original_bill_id) ?? {};
+      return {
+        date: toDay(note.date),
+        revenue: sign * billAmountInBase(round(Number(note.subtotal)), bill),
+        tax: sign * billAmountInBase(round(Number(note.tax_amount)), bill),
+      };
+    });
+  }
+
+  /**
+   * Stock that counts towards the cost of goods sold: everything that went
+   * out during the period except returns to suppliers, and customer returns
+   * that came back in
+   */
+  private async fetchStockMovements(period: ProfitLossPeriod): Promise<StockTransaction[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await (supabase as any)
+      .from('stock_transactions')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .gte('timestamp', `${period.startDate}T00:00:00`)
+      .lte('timestamp', `${period.endDate}T23:59:59.999`);
+
+    if (error) throw error;
+
+    return (data ?? [])
+      .filter((row: any) => (row.type === 'out') !== isNoteStockMovement(row.note))
+      .map((row: any) => ({
+        id: row.id,
+        product_id: row.product_id,
+        user_id: row.user_id,
+        type: row.type,
+        quantity: Number(row.quantity),
+        price: Number(row.price),
+        amount: Number(row.amount),
+        unit_cost: row.unit_cost !== null && row.unit_cost !== undefined ? Number(row.unit_cost) : null,
+        note: row.note ?? undefined,
+        timestamp: row.timestamp,
+      }));
+  }
+
+  /**
+   * Sales vouchers recorded from the Sales page; their stock movements are
+   * already part of COGS so their revenue has to be counted as well
+   */
+  private async fetchSalesVouchers(period: ProfitLossPeriod): Promise<SalesBill[]> {
+    const { data, error } = await salesService.fetchSales({
+      startDate: period.startDate,
+      endDate: `${period.endDate}T23:59:59.999`,
+    });
+
+    if (error) throw error;
+
+    return (data ?? []).map(sale => ({
+      date: toDay(sale.date),
+      revenue: round(Number(sale.total_amount) - Number(sale.tax_amount)),
+      tax: round(Number(sale.tax_amount)),
+    }));
+  }
+
+  /**
+   * Load everything a statement for the period needs in one pass
+   */
+  private async loadSources(period: ProfitLossPeriod): Promise<ProfitLossSources> {
+    const { data: customerBills, error: billsError } = await billsService.fetchBills({ partyType: 'customer' });
+    if (billsError) throw billsError;
+
+    const [notes, sales, stockMovements, products, cashbook] = await Promise.all([
+      this.fetchCustomerNotes(period, customerBills ?? []),
+      this.fetchSalesVouchers(period),
+      this.fetchStockMovements(period),
+      inventoryService.getProducts(),
+      cashbookService.fetchCashbookEntries({
+        type: 'cash_out',
+        startDate: period.startDate,
+        endDate: `${period.endDate}T23:59:59.999`,
+      }),
+    ]);
+
+    if (cashbook.error) throw cashbook.error;
+
+    return {
+      bills: [...this.toSalesBills(customerBills ?? [], period), ...sales],
+      notes,
+      stockMovements,
+      costPrices: new Map(products.map((product: Product) => [product.id, product.cost_price])),
+      expenses: cashbook.data ?? [],
+    };
+  }
+
+  /**
+   * Compute a statement from preloaded sources, limited to the period
+   */
+  private buildStatement(sources: ProfitLossSources, period: ProfitLossPeriod): ProfitLossStatement {
+    const inPeriod = (date: string) => {
+      const day = toDay(date);
+      return day >= period.startDate && day <= period.endDate;
+    };
+
+    const bills = sources.bills.filter(bill => inPeriod(bill.date));
+    const documents = [...bills, ...sources.notes.filter(note => inPeriod(note.date))];
+    const revenue = round(documents.reduce((sum, document) => sum + document.revenue, 0));
+    const taxCollected = round(documents.reduce((sum, document) => sum + document.tax, 0));
+
+    // Movements from before costs were recorded fall back to today's average cost
+    const costOf = (movement: StockTransaction) =>
+      movement.quantity * (movement.unit_cost ?? sources.costPrices.get(movement.product_id) ?? 0);
+    const costOfGoodsSold = round(
+      sources.stockMovements
+        .filter(movement => inPeriod(movement.timestamp))
+        .reduce((sum, movement) => sum + (movement.type === 'out' ? costOf(movement) : -costOf(movement)), 0)
+    );
+
+    const byCategory = new Map<string, number>();
+    sources.expenses
+      .filter(entry => inPeriod(entry.date))
+      .filter(entry => !NON_OPERATING_CATEGORIES.includes((entry.category || '').trim().toLowerCase()))
+      .forEach(entry => {
+        const category = entry.category?.trim() || 'General';
+        byCategory.set(category, (byCategory.get(category) ?? 0) + Number(entry.amount));
+      });
+
+    const operatingExpenses = Array.from(byCategory, ([label, amount]) => ({ label, amount: round(amount) }))
+      .sort((a, b) => b.amount - a.amount);
+    const totalOperatingExpenses = round(operatingExpenses.reduce((sum, line) => sum + line.amount, 0));
+
+    const grossProfit = round(revenue - costOfGoodsSold);
+    const netProfit = round(grossProfit - totalOperatingExpenses);
+
+    return {
+      startDate: period.startDate,
+      endDate: period.endDate,
+      invoiceCount: bills.length,
+      revenue,
+      taxCollected,
+      costOfGoodsSold,
+      grossProfit,
+      grossMargin: revenue ? round((grossProfit / revenue) * 100) : 0,
+      operatingExpenses,
+      totalOperatingExpenses,
+      netProfit,
+      netMargin: revenue ? round((netProfit / revenue) * 100) : 0,
+    };
+  }
+
+  /**
+   * Profit & loss statement for a single period
+   */
+  async generateStatement(period: ProfitLossPeriod): Promise<{
+    data: ProfitLossStatement | null;
+    error: any;
+  }> {
+    try {
+      const sources = await this.loadSources(period);
+      return { data: this.buildStatement(sources, period), error: null };
+    } catch (err) {
+      console.error('❌ Exception in generateStatement:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Month-by-month statements across the period with change against the previous month
+   */
+  async generateMonthlyComparison(period: ProfitLossPeriod): Promise<{
+    data: ProfitLossComparison | null;
+    error: any;
+  }> {
+    try {
+      const sources = await this.loadSources(period);
+
+      const months = eachMonthOfInterval({
+        start: parseISO(period.startDate),
+        end: parseISO(period.endDate),
+      }).map((monthStart): ProfitLossMonth => {
+        // Clamp the first and last month to the requested period
+        const startDate = format(startOfMonth(monthStart), 'yyyy-MM-dd');
+        const endDate = format(endOfMonth(monthStart), 'yyyy-MM-dd');
+
+        return {
+          month: format(monthStart, 'yyyy-MM'),
+          label: format(monthStart, 'MMM yyyy'),
+          statement: this.buildStatement(sources, {
+            startDate: startDate < period.startDate ? period.startDate : startDate,
+            endDate: endDate > period.endDate ? period.endDate : endDate,
+          }),
+          change: { revenue: null, grossProfit: null, netProfit: null },
+        };
+      });
+
+      months.forEach((month, index) => {
+        const previous = months[index - 1]?.statement;
+        if (!previous) return;
+        month.change = {
+          revenue: percentChange(month.statement.revenue, previous.revenue),
+          grossProfit: percentChange(month.statement.grossProfit, previous.grossProfit),
+          netProfit: percentChange(month.statement.netProfit, previous.netProfit),
+        };
+      });
+
+      return {
+        data: { months, total: this.buildStatement(sources, period) },
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in generateMonthlyComparison:', err);
+      return { data: null, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const profitLossService = new ProfitLossService();
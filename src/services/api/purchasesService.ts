@@ -0,0 +1,129 @@
+/**
+ * Purchases Service
+ *
+ * Records supplier bills and posts their side effects:
+ * - Stock In at cost price for every inventory item purchased
+ * - The unpaid balance against the supplier, through the supplier's ledger
+ *
+ * Purchases are stored as bills with party_type 'supplier'.
+ *
+ * @version 1.0.0
+ */
+
+import { billsService, type Bill, type BillItem } from './billsService';
+import { inventoryService } from './inventoryService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type PurchasePaymentState = 'paid' | 'partial' | 'pending';
+
+export interface CreatePurchaseInput {
+  bill_number?: string;
+  supplier_id: string;
+  supplier_name: string;
+  date: string;
+  due_date?: string;
+  items: Omit<BillItem, 'id'>[];
+  paid_amount?: number;
+  notes?: string;
+}
+
+export interface FetchPurchasesOptions {
+  supplierId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// ============================================================================
+// PURCHASES SERVICE
+// ============================================================================
+
+class PurchasesService {
+  /**
+   * Paid, partial or pending state of a supplier bill
+   */
+  getPaymentState(bill: Pick<Bill, 'total_amount' | 'paid_amount'>): PurchasePaymentState {
+    const paid = bill.paid_amount || 0;
+    if (paid > 0 && paid >= bill.total_amount) return 'paid';
+    if (paid > 0) return 'partial';
+    return 'pending';
+  }
+
+  /**
+   * Fetch supplier bills
+   */
+  async fetchPurchases(options?: FetchPurchasesOptions): Promise<{
+    data: Bill[] | null;
+    error: any;
+    count: number;
+  }> {
+    return billsService.fetchBills({
+      partyType: 'supplier',
+      partyId: options?.supplierId,
+      limit: options?.limit,
+      offset: options?.offset,
+    });
+  }
+
+  /**
+   * Record a purchase and add stock; the bill posts to the supplier's ledger
+   */
+  async createPurchase(input: CreatePurchaseInput): Promise<{
+    data: Bill | null;
+    error: any;
+  }> {
+    try {
+      if (input.items.length === 0) {
+        return { data: null, error: new Error('A purchase needs at least one item') };
+      }
+
+      const { data: bill, error } = await billsService.createBill({
+        bill_number: input.bill_number,
+        party_id: input.supplier_id,
+        party_type: 'supplier',
+        party_name: input.supplier_name,
+        date: input.date,
+        due_date: input.due_date,
+        items: input.items,
+        paid_amount: input.paid_amount,
+        notes: input.notes,
+      });
+
+      if (error || !bill) {
+        return { data: null, error: error ?? new Error('Failed to create purchase') };
+      }
+
+      // Add stock at cost price for every inventory-backed line
+      for (const item of input.items) {
+        if (!item.product_id) continue;
+
+        try {
+          await inventoryService.createStockTransaction({
+            product_id: item.product_id,
+            type: 'in',
+            quantity: item.quantity,
+            price: item.unit_price,
+            amount: Math.round(item.quantity * item.unit_price * 100) / 100,
+            note: `Purchase ${bill.bill_number}`,
+          });
+        } catch (stockError) {
+          console.error(`⚠️ Stock-in failed for ${item.name} (purchase still recorded):`, stockError);
+        }
+      }
+
+      console.log('✅ Purchase recorded successfully:', bill);
+      return { data: bill, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createPurchase:', err);
+      return { data: null, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const purchasesService = new PurchasesService();
@@ -0,0 +1,426 @@
+/**
+ * Quotations Service with Real-Time Sync
+ *
+ * Quotations (estimates) share the bill's line items, party snapshot and
+ * GST treatment, but never touch balances or stock. Once accepted, a
+ * quotation converts into a customer bill numbered from the invoice series.
+ *
+ * Lifecycle: draft → sent → accepted / rejected / expired → converted
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { isQuotationLapsed, normalizeQuotationRow, quotationToBillInput } from '@/lib/invoiceMapping';
+import { billsService, type Bill, type BillInvoiceDetails, type BillItem } from './billsService';
+import { numberingSeriesService } from './numberingSeriesService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'converted';
+
+export interface Quotation extends BillInvoiceDetails {
+  id: string;
+  user_id: string;
+  quotation_number: string;
+  party_id: string | null;
+  party_name: string;
+  date: string;
+  valid_until: string | null;
+  items: BillItem[];
+  subtotal: number; // Net of line discounts, before tax
+  tax_amount: number;
+  cess_amount: number;
+  round_off: number;
+  discount_amount: number;
+  total_amount: number;
+  status: QuotationStatus;
+  notes: string | null;
+  terms: string | null;
+  converted_bill_id: string | null; // Invoice raised from this quotation
+  converted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateQuotationInput extends BillInvoiceDetails {
+  quotation_number?: string;
+  party_id: string | null;
+  party_name: string;
+  date: string;
+  valid_until?: string;
+  items: Omit<BillItem, 'id'>[];
+  notes?: string;
+  terms?: string;
+  discount_amount?: number;
+}
+
+export interface UpdateQuotationInput extends Partial<CreateQuotationInput> {
+  status?: QuotationStatus;
+}
+
+export interface FetchQuotationsOptions {
+  partyId?: string;
+  status?: QuotationStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/** Statuses a quotation can still be accepted, rejected or converted from */
+export const OPEN_QUOTATION_STATUSES: QuotationStatus[] = ['draft', 'sent'];
+
+const QUOTATION_PREFIX = 'QT';
+
+// A conversion claim with no invoice after this long was abandoned
+const CONVERSION_CLAIM_TTL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// QUOTATIONS SERVICE
+// ============================================================================
+
+class QuotationsService {
+  private tableName = 'quotations' as const;
+
+  /**
+   * Next quotation number, without reserving it. Uses the default quotation
+   * numbering series when there is one, otherwise QT-0012 style numbers
+   * where deleted quotations are counted so numbers are never reused.
+   */
+  async getNextQuotationNumber(date?: string): Promise<string> {
+    const seriesNumber = await numberingSeriesService.peekNextNumber('quotation', date);
+    if (seriesNumber) return seriesNumber;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await (supabase as any)
+      .from(this.tableName)
+      .select('quotation_number')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    const last = (data ?? []).reduce((max: number, row: { quotation_number: string }) => {
+      const match = row.quotation_number.match(/(\d+)$/);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0);
+
+    return `${QUOTATION_PREFIX}-${String(last + 1).padStart(4, '0')}`;
+  }
+
+  /**
+   * Reserve the number for a quotation being saved
+   */
+  async reserveQuotationNumber(date?: string): Promise<string> {
+    return (await numberingSeriesService.reserveNextNumber('quotation', date)) ?? this.getNextQuotationNumber(date);
+  }
+
+  /**
+   * Fetch quotations with optional filtering and pagination.
+   * Open quotations past their validity come back as expired.
+   */
+  async fetchQuotations(options?: FetchQuotationsOptions): Promise<{
+    data: Quotation[] | null;
+    error: any;
+    count: number;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          count: 0,
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      // Apply filters
+      if (options?.partyId) {
+        query = query.eq('party_id', options.partyId);
+      }
+      if (options?.status) {
+        query = query.eq('status', options.status);
+      }
+
+      // Apply ordering
+      query = query.order('date', { ascending: false });
+
+      // Apply pagination
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit ?? 10) - 1);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching quotations:', error);
+        return { data: null, error, count: 0 };
+      }
+
+      return { data: (data ?? []).map(normalizeQuotationRow), error: null, count: count ?? 0 };
+    } catch (err) {
+      console.error('❌ Exception in fetchQuotations:', err);
+      return { data: null, error: err, count: 0 };
+    }
+  }
+
+  /**
+   * Create a new quotation with real-time sync
+   */
+  async createQuotation(input: CreateQuotationInput): Promise<{
+    data: Quotation | null;
+    error: any;
+  }> {
+    try {
+      const { total_amount, subtotal, tax_amount, cess_amount, round_off } = billsService.calculateTotals(
+        input.items,
+        0,
+        input.discount_amount,
+        input.round_off_mode
+      );
+
+      const quotationData = {
+        quotation_number: input.quotation_number || await this.reserveQuotationNumber(input.date),
+        party_id: input.party_id,
+        party_name: input.party_name,
+        date: input.date,
+        valid_until: input.valid_until || null,
+        items: input.items.map((item, index) => ({ ...item, id: `item-${Date.now()}-${index}` })),
+        subtotal,
+        tax_amount,
+        cess_amount,
+        round_off,
+        discount_amount: input.discount_amount || 0,
+        total_amount,
+        status: 'draft' as QuotationStatus,
+        notes: input.notes || null,
+        terms: input.terms || null,
+        converted_bill_id: null,
+        converted_at: null,
+        ...billsService.pickInvoiceDetails(input),
+        deleted_at: null,
+        synced_at: new Date().toISOString(),
+      };
+
+      console.log('🚀 Creating quotation with real-time sync:', quotationData);
+
+      const result = await realtimeSyncService.create<Quotation>(
+        this.tableName,
+        quotationData as any
+      );
+
+      if (result.error) {
+        console.error('❌ Error creating quotation:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      console.log('✅ Quotation created successfully:', result.data);
+      return { data: result.data ? normalizeQuotationRow(result.data) : null, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createQuotation:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Update an existing quotation with real-time sync
+   */
+  async updateQuotation(id: string, input: UpdateQuotationInput): Promise<{
+    data: Quotation | null;
+    error: any;
+  }> {
+    try {
+      const updateData: any = {
+        ...billsService.pickInvoiceDetails(input),
+        updated_at: new Date().toISOString(),
+      };
+
+      if (input.quotation_number !== undefined) updateData.quotation_number = input.quotation_number;
+      if (input.party_id !== undefined) updateData.party_id = input.party_id;
+      if (input.party_name !== undefined) updateData.party_name = input.party_name;
+      if (input.date !== undefined) updateData.date = input.date;
+      if (input.valid_until !== undefined) updateData.valid_until = input.valid_until || null;
+      if (input.notes !== undefined) updateData.notes = input.notes;
+      if (input.terms !== undefined) updateData.terms = input.terms;
+      if (input.status !== undefined) updateData.status = input.status;
+
+      // Recalculate totals if items changed
+      if (input.items) {
+        const { total_amount, subtotal, tax_amount, cess_amount, round_off } = billsService.calculateTotals(
+          input.items,
+          0,
+          input.discount_amount ?? 0,
+          input.round_off_mode
+        );
+        updateData.items = input.items.map((item, index) => ({ id: `item-${Date.now()}-${index}`, ...item }));
+        updateData.subtotal = subtotal;
+        updateData.tax_amount = tax_amount;
+        updateData.cess_amount = cess_amount;
+        updateData.round_off = round_off;
+        updateData.total_amount = total_amount;
+        updateData.discount_amount = input.discount_amount ?? 0;
+      }
+
+      console.log('🔄 Updating quotation with real-time sync:', id, updateData);
+
+      const result = await realtimeSyncService.update<Quotation>(
+        this.tableName,
+        id,
+        updateData
+      );
+
+      if (result.error) {
+        console.error('❌ Error updating quotation:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      return { data: result.data ? normalizeQuotationRow(result.data) : null, error: null };
+    } catch (err) {
+      console.error('❌ Exception in updateQuotation:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Move a quotation to sent, accepted, rejected or expired
+   */
+  async updateStatus(quotation: Quotation, status: Exclude<QuotationStatus, 'converted'>): Promise<{
+    data: Quotation | null;
+    error: any;
+  }> {
+    if (quotation.status === 'converted') {
+      return { data: null, error: new Error(`${quotation.quotation_number} has already been invoiced`) };
+    }
+
+    return this.updateQuotation(quotation.id, { status });
+  }
+
+  /**
+   * Raise a customer invoice from the quotation's party, items and taxes.
+   * The invoice is dated today and takes the next invoice series number.
+   * Expired quotations convert only when allowExpired is set.
+   */
+  async convertToInvoice(quotation: Quotation, options?: { allowExpired?: boolean }): Promise<{
+    data: Bill | null;
+    error: any;
+  }> {
+    try {
+      if (quotation.status === 'converted') {
+        return { data: null, error: new Error(`${quotation.quotation_number} has already been invoiced`) };
+      }
+      if (quotation.status === 'rejected') {
+        return { data: null, error: new Error(`${quotation.quotation_number} was rejected`) };
+      }
+      const expired = quotation.status === 'expired' ||
+        (quotation.status !== 'accepted' && isQuotationLapsed(quotation.valid_until));
+      if (expired && !options?.allowExpired) {
+        return { data: null, error: new Error(`${quotation.quotation_number} expired on ${quotation.valid_until}`) };
+      }
+
+      if (!(await this.claimConversion(quotation.id))) {
+        return { data: null, error: new Error(`${quotation.quotation_number} is already being invoiced`) };
+      }
+
+      const billNumber = await billsService.reserveInvoiceNumber();
+      const { data: bill, error } = await billsService.createBill(quotationToBillInput(quotation, billNumber));
+
+      if (error || !bill) {
+        await this.releaseConversion(quotation.id);
+        return { data: null, error: error ?? new Error('Failed to create invoice') };
+      }
+
+      const { error: updateError } = await realtimeSyncService.update<Quotation>(this.tableName, quotation.id, {
+        status: 'converted',
+        converted_bill_id: bill.id,
+        converted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      } as any);
+
+      if (updateError) {
+        console.error(`⚠️ ${bill.bill_number} created but ${quotation.quotation_number} was not marked converted:`, updateError);
+      }
+
+      console.log(`✅ ${quotation.quotation_number} converted to ${bill.bill_number}`);
+      return { data: bill, error: null };
+    } catch (err) {
+      console.error('❌ Exception in convertToInvoice:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Mark a quotation as being invoiced, only if no conversion has started,
+   * so a double click or a second device cannot raise two invoices. A claim
+   * older than CONVERSION_CLAIM_TTL_MS with no invoice was abandoned.
+   */
+  private async claimConversion(id: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - CONVERSION_CLAIM_TTL_MS).toISOString();
+
+    const { data, error } = await (supabase as any)
+      .from(this.tableName)
+      .update({ converted_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('converted_bill_id', null)
+      .not('status', 'in', '("converted","rejected")')
+      .or(`converted_at.is.null,converted_at.lt.${staleBefore}`)
+      .select('id');
+
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  }
+
+  private async releaseConversion(id: string): Promise<void> {
+    const { error } = await (supabase as any)
+      .from(this.tableName)
+      .update({ converted_at: null })
+      .eq('id', id)
+      .is('converted_bill_id', null);
+
+    if (error) {
+      console.error('⚠️ Could not release quotation conversion claim:', error);
+    }
+  }
+
+  /**
+   * Delete a quotation (soft delete) with real-time sync
+   */
+  async deleteQuotation(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const result = await realtimeSyncService.delete(this.tableName, id);
+
+      if (result.error) {
+        console.error('❌ Error deleting quotation:', result.error);
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, error: null };
+    } catch (err) {
+      console.error('❌ Exception in deleteQuotation:', err);
+      return { success: false, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const quotationsService = new QuotationsService();
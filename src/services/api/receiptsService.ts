@@ -0,0 +1,359 @@
+/**
+ * Receipts Service with Real-Time Sync
+ *
+ * Records money received from customers and posts its side effects:
+ * - Allocates the amount across open bills (paid_amount / balance_amount / status)
+ * - A 'got' ledger entry that reduces what the customer owes
+ * The customer's balance moves once, by the net change in their ledger.
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { billsService, type Bill } from './billsService';
+import { ledgerService } from './ledgerService';
+import { transactionsService } from './transactionsService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ReceiptAllocation {
+  bill_id: string;
+  bill_number: string;
+  amount: number;
+}
+
+export interface Receipt {
+  id: string;
+  user_id: string;
+  receipt_number: string;
+  date: string;
+  customer_id: string;
+  customer_name: string;
+  amount: number;
+  payment_method: string;
+  reference_number: string | null;
+  notes: string | null;
+  allocations: ReceiptAllocation[];
+  unallocated_amount: number; // Kept as advance against future bills
+  transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateReceiptInput {
+  receipt_number?: string;
+  date: string;
+  customer_id: string;
+  customer_name: string;
+  amount: number;
+  payment_method?: string;
+  reference_number?: string;
+  notes?: string;
+  allocations: ReceiptAllocation[];
+}
+
+export interface FetchReceiptsOptions {
+  customerId?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const OPEN_BILL_STATUSES: Bill['status'][] = ['pending', 'partial', 'overdue'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// RECEIPTS SERVICE
+// ============================================================================
+
+class ReceiptsService {
+  private tableName = 'receipts' as const;
+
+  /**
+   * Generate unique receipt number
+   */
+  private generateReceiptNumber(): string {
+    const prefix = 'RCT';
+    const timestamp = Date.now().toString().slice(-6);
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+    return `${prefix}-${timestamp}-${random}`;
+  }
+
+  /**
+   * Spread an amount across bills, oldest due first
+   */
+  autoAllocate(bills: Bill[], amount: number): ReceiptAllocation[] {
+    const sorted = [...bills].sort((a, b) =>
+      (a.due_date ?? a.date).localeCompare(b.due_date ?? b.date)
+    );
+
+    let remaining = round(amount);
+    const allocations: ReceiptAllocation[] = [];
+
+    for (const bill of sorted) {
+      if (remaining <= 0) break;
+      const share = round(Math.min(remaining, Number(bill.balance_amount)));
+      if (share <= 0) continue;
+
+      allocations.push({ bill_id: bill.id, bill_number: bill.bill_number, amount: share });
+      remaining = round(remaining - share);
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Fetch a customer's bills that still have a balance to collect
+   */
+  async fetchOpenBills(customerId: string): Promise<{
+    data: Bill[] | null;
+    error: any;
+  }> {
+    const { data, error } = await billsService.fetchBills({
+      partyId: customerId,
+      partyType: 'customer',
+    });
+
+    if (error || !data) {
+      return { data: null, error };
+    }
+
+    return {
+      data: data.filter(bill =>
+        OPEN_BILL_STATUSES.includes(bill.status) && Number(bill.balance_amount) > 0
+      ),
+      error: null,
+    };
+  }
+
+  /**
+   * Fetch receipts with optional filtering and pagination
+   */
+  async fetchReceipts(options?: FetchReceiptsOptions): Promise<{
+    data: Receipt[] | null;
+    error: any;
+    count: number;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          count: 0,
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      // Apply filters
+      if (options?.customerId) {
+        query = query.eq('customer_id', options.customerId);
+      }
+      if (options?.startDate) {
+        query = query.gte('date', options.startDate);
+      }
+      if (options?.endDate) {
+        query = query.lte('date', options.endDate);
+      }
+
+      // Apply ordering
+      query = query.order('date', { ascending: false });
+
+      // Apply pagination
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching receipts:', error);
+        return { data: null, error, count: 0 };
+      }
+
+      return { data: data as Receipt[], error: null, count: count ?? 0 };
+    } catch (err) {
+      console.error('❌ Exception in fetchReceipts:', err);
+      return { data: null, error: err, count: 0 };
+    }
+  }
+
+  /**
+   * Record a receipt, settle the allocated bills and post the customer ledger entry
+   */
+  async createReceipt(input: CreateReceiptInput): Promise<{
+    data: Receipt | null;
+    error: any;
+  }> {
+    return ledgerService.trackBalance('customer', input.customer_id, () => this.postReceipt(input));
+  }
+
+  private async postReceipt(input: CreateReceiptInput): Promise<{
+    data: Receipt | null;
+    error: any;
+  }> {
+    try {
+      if (!(input.amount > 0)) {
+        return { data: null, error: new Error('Receipt amount must be greater than zero') };
+      }
+
+      const allocations = input.allocations
+        .map(allocation => ({ ...allocation, amount: round(allocation.amount) }))
+        .filter(allocation => allocation.amount > 0);
+      const allocated = round(allocations.reduce((sum, a) => sum + a.amount, 0));
+
+      if (allocated > round(input.amount)) {
+        return { data: null, error: new Error('Allocated amount exceeds the amount received') };
+      }
+
+      // Re-read the bills so allocations are checked against current balances
+      const { data: openBills, error: billsError } = await this.fetchOpenBills(input.customer_id);
+      if (billsError) {
+        return { data: null, error: billsError };
+      }
+
+      const billsById = new Map((openBills ?? []).map(bill => [bill.id, bill]));
+      for (const allocation of allocations) {
+        const bill = billsById.get(allocation.bill_id);
+        if (!bill) {
+          return { data: null, error: new Error(`Bill ${allocation.bill_number} is no longer open`) };
+        }
+        if (allocation.amount > round(Number(bill.balance_amount))) {
+          return { data: null, error: new Error(`Allocation exceeds the balance of bill ${bill.bill_number}`) };
+        }
+      }
+
+      const receiptNumber = input.receipt_number || this.generateReceiptNumber();
+
+      const receiptData = {
+        receipt_number: receiptNumber,
+        date: input.date,
+        customer_id: input.customer_id,
+        customer_name: input.customer_name,
+        amount: round(input.amount),
+        payment_method: input.payment_method ?? 'cash',
+        reference_number: input.reference_number || null,
+        notes: input.notes || null,
+        allocations,
+        unallocated_amount: round(input.amount - allocated),
+        transaction_id: null,
+        deleted_at: null,
+        synced_at: new Date().toISOString(),
+      };
+
+      const result = await realtimeSyncService.create<Receipt>(
+        this.tableName,
+        receiptData as any
+      );
+
+      if (result.error || !result.data) {
+        console.error('❌ Error creating receipt:', result.error);
+        return { data: null, error: result.error ?? new Error('Failed to create receipt') };
+      }
+
+      let receipt = result.data;
+
+      // Settle each allocated bill; status moves to partial or paid
+      for (const allocation of allocations) {
+        const bill = billsById.get(allocation.bill_id);
+        if (!bill) continue;
+
+        const { error: billError } = await billsService.updateBill(bill.id, {
+          paid_amount: round(Number(bill.paid_amount || 0) + allocation.amount),
+        });
+
+        if (billError) {
+          console.error(`⚠️ Could not update bill ${bill.bill_number} (receipt still recorded):`, billError);
+        }
+      }
+
+      // Money received reduces what the customer owes
+      // UI: 'got'  →  Database: 'received'
+      const dbType: string = 'received';
+      const { data: transaction, error: transactionError } = await transactionsService.createTransaction({
+        party_id: input.customer_id,
+        party_type: 'customer',
+        type: dbType as 'gave' | 'got',
+        amount: receiptData.amount,
+        date: input.date,
+        description: `Receipt ${receiptNumber}`,
+        payment_method: receiptData.payment_method,
+        reference_number: receiptNumber,
+      });
+
+      if (transactionError) {
+        console.error('⚠️ Ledger posting failed (receipt still recorded):', transactionError);
+      }
+
+      if (transaction) {
+        const linked = await realtimeSyncService.update<Receipt>(
+          this.tableName,
+          receipt.id,
+          { transaction_id: transaction.id, synced_at: new Date().toISOString() }
+        );
+        if (linked.data) {
+          receipt = { ...receipt, ...linked.data };
+        }
+      }
+
+      console.log('✅ Receipt recorded successfully:', receipt);
+      return { data: receipt, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createReceipt:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Delete a receipt (soft delete)
+   * Bill allocations and the linked ledger entry are left untouched and must be reversed explicitly.
+   */
+  async deleteReceipt(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const { data: receipt } = await (supabase as any)
+        .from(this.tableName)
+        .select('customer_id')
+        .eq('id', id)
+        .maybeSingle();
+
+      const result = await ledgerService.trackBalance('customer', receipt?.customer_id, () =>
+        realtimeSyncService.delete(this.tableName, id)
+      );
+
+      if (result.error) {
+        console.error('❌ Error deleting receipt:', result.error);
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, error: null };
+    } catch (err) {
+      console.error('❌ Exception in deleteReceipt:', err);
+      return { success: false, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const receiptsService = new ReceiptsService();
@@ -0,0 +1,551 @@
+/**
+ * Recurring Invoices Service with Real-Time Sync
+ *
+ * Subscription-style billing: a profile stores the invoice to repeat
+ * (a CreateBillInput template), how often to raise it and the next run
+ * date. The scheduler raises every invoice that has fallen due when the app
+ * loads or on demand, numbering each from the invoice series, and records
+ * what it generated or skipped in recurring_invoice_runs.
+ *
+ * @version 1.0.0
+ */
+
+import { addWeeks, addMonths, addDays, format } from 'date-fns';
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { billsService, type Bill, type CreateBillInput } from './billsService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RecurringInvoiceFrequency = 'weekly' | 'monthly' | 'quarterly';
+
+export type RecurringRunStatus = 'pending' | 'generated' | 'skipped' | 'failed';
+
+export interface RecurringInvoice {
+  id: string;
+  user_id: string;
+  name: string;
+  party_id: string | null;
+  party_name: string;
+  bill_template: CreateBillInput; // Invoice raised on every run
+  total_amount: number; // Template total, for listing
+  frequency: RecurringInvoiceFrequency;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string;
+  payment_terms_days: number; // Due date offset from each run date
+  is_active: boolean;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface RecurringInvoiceRun {
+  id: string;
+  user_id: string;
+  recurring_invoice_id: string;
+  profile_name: string;
+  run_date: string; // Scheduled date the run was for
+  status: RecurringRunStatus;
+  bill_id: string | null;
+  bill_number: string | null;
+  amount: number;
+  reason: string | null;
+  claimed_at: string | null; // When a device claimed the period; pending until its invoice exists
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateRecurringInvoiceInput {
+  name: string;
+  bill_template: CreateBillInput;
+  frequency: RecurringInvoiceFrequency;
+  start_date: string;
+  end_date?: string;
+  payment_terms_days?: number;
+}
+
+export interface ProcessRecurringInvoicesResult {
+  generated: Bill[];
+  skipped: RecurringInvoiceRun[];
+  failed: RecurringInvoiceRun[];
+  error: any;
+}
+
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringInvoiceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+};
+
+// Stop a long-dormant profile from flooding the ledger in one go
+const MAX_OCCURRENCES_PER_RUN = 12;
+
+// Postgres unique_violation: another device claimed the period first
+const UNIQUE_VIOLATION = '23505';
+
+// A pending claim with no invoice after this long was abandoned
+const RUN_CLAIM_TTL_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// RECURRING INVOICES SERVICE
+// ============================================================================
+
+class RecurringInvoicesService {
+  private tableName = 'recurring_invoices' as const;
+  private runsTable = 'recurring_invoice_runs' as const;
+  private processing: Promise<ProcessRecurringInvoicesResult> | null = null;
+
+  /**
+   * Advance a run date by one schedule period
+   */
+  private nextRunDate(date: string, frequency: RecurringInvoiceFrequency): string {
+    const current = new Date(`${date}T00:00:00`);
+    const next = frequency === 'weekly'
+      ? addWeeks(current, 1)
+      : frequency === 'monthly'
+        ? addMonths(current, 1)
+        : addMonths(current, 3);
+    return format(next, 'yyyy-MM-dd');
+  }
+
+  /**
+   * Fetch recurring invoice profiles, next due first
+   */
+  async fetchProfiles(): Promise<{
+    data: RecurringInvoice[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      const { data, error } = await (supabase as any)
+        .from(this.tableName)
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('next_run_date', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error fetching recurring invoices:', error);
+        return { data: null, error };
+      }
+
+      return {
+        data: (data ?? []).map((row: any) => ({
+          ...row,
+          total_amount: Number(row.total_amount ?? 0),
+          payment_terms_days: Number(row.payment_terms_days ?? 0),
+        })),
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in fetchProfiles:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Create a recurring invoice profile
+   */
+  async createProfile(input: CreateRecurringInvoiceInput): Promise<{
+    data: RecurringInvoice | null;
+    error: any;
+  }> {
+    try {
+      if (!input.name.trim()) {
+        return { data: null, error: new Error('Profile name is required') };
+      }
+      if (input.bill_template.items.length === 0) {
+        return { data: null, error: new Error('The invoice needs at least one item') };
+      }
+      if (input.end_date && input.end_date < input.start_date) {
+        return { data: null, error: new Error('End date must be after the start date') };
+      }
+
+      const { total_amount } = billsService.calculateTotals(
+        input.bill_template.items,
+        input.bill_template.tax_amount,
+        input.bill_template.discount_amount,
+        input.bill_template.round_off_mode
+      );
+
+      const result = await realtimeSyncService.create<RecurringInvoice>(
+        this.tableName,
+        {
+          name: input.name.trim(),
+          party_id: input.bill_template.party_id,
+          party_name: input.bill_template.party_name,
+          bill_template: { ...input.bill_template, bill_number: undefined, paid_amount: 0 },
+          total_amount,
+          frequency: input.frequency,
+          start_date: input.start_date,
+          end_date: input.end_date || null,
+          next_run_date: input.start_date,
+          payment_terms_days: input.payment_terms_days ?? 30,
+          is_active: true,
+          last_run_at: null,
+          deleted_at: null,
+          synced_at: new Date().toISOString(),
+        } as any
+      );
+
+      if (result.error) {
+        console.error('❌ Error creating recurring invoice:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      console.log('✅ Recurring invoice created:', result.data);
+      return { data: result.data, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createProfile:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Pause or resume a profile. Runs missed while paused are skipped, not
+   * back-billed, and the profile picks up from its next future date.
+   */
+  async setProfileActive(profile: RecurringInvoice, isActive: boolean): Promise<{
+    data: RecurringInvoice | null;
+    error: any;
+  }> {
+    const updateData: Partial<RecurringInvoice> = {
+      is_active: isActive,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (isActive) {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      let runDate = profile.next_run_date;
+
+      while (runDate < today && (!profile.end_date || runDate <= profile.end_date)) {
+        await this.logRun(profile, runDate, 'skipped', { reason: 'Profile was paused' });
+        runDate = this.nextRunDate(runDate, profile.frequency);
+      }
+
+      if (profile.end_date && runDate > profile.end_date) {
+        return { data: null, error: new Error(`${profile.name} ended on ${profile.end_date}`) };
+      }
+
+      updateData.next_run_date = runDate;
+    }
+
+    const result = await realtimeSyncService.update<RecurringInvoice>(this.tableName, profile.id, updateData);
+    return { data: result.data, error: result.error };
+  }
+
+  /**
+   * Delete a profile (soft delete). Invoices already generated are kept.
+   */
+  async deleteProfile(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    const result = await realtimeSyncService.delete(this.tableName, id);
+    return { success: !result.error, error: result.error };
+  }
+
+  /**
+   * Fetch the scheduler log, newest first
+   */
+  async fetchRuns(options?: { profileId?: string; limit?: number }): Promise<{
+    data: RecurringInvoiceRun[] | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.runsTable)
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (options?.profileId) {
+        query = query.eq('recurring_invoice_id', options.profileId);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(options?.limit ?? 50);
+
+      if (error) {
+        console.error('❌ Error fetching recurring invoice runs:', error);
+        return { data: null, error };
+      }
+
+      return {
+        data: (data ?? []).map((row: any) => ({ ...row, amount: Number(row.amount ?? 0) })),
+        error: null,
+      };
+    } catch (err) {
+      console.error('❌ Exception in fetchRuns:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Raise every invoice that has fallen due, up to today. Concurrent calls
+   * (app load and a manual run) share the same pass.
+   */
+  processDueInvoices(): Promise<ProcessRecurringInvoicesResult> {
+    if (!this.processing) {
+      this.processing = this.runDueInvoices().finally(() => {
+        this.processing = null;
+      });
+    }
+    return this.processing;
+  }
+
+  private async runDueInvoices(): Promise<ProcessRecurringInvoicesResult> {
+    const { data: profiles, error } = await this.fetchProfiles();
+    if (error || !profiles) {
+      return { generated: [], skipped: [], failed: [], error };
+    }
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const result: ProcessRecurringInvoicesResult = { generated: [], skipped: [], failed: [], error: null };
+
+    for (const profile of profiles) {
+      if (!profile.is_active || profile.next_run_date > today) continue;
+
+      try {
+        await this.processProfile(profile, today, result);
+      } catch (err) {
+        console.error(`❌ Exception processing recurring invoice "${profile.name}":`, err);
+        const failed = await this.logRun(profile, profile.next_run_date, 'failed', {
+          reason: err instanceof Error ? err.message : 'Unexpected error',
+        });
+        if (failed) result.failed.push(failed);
+      }
+    }
+
+    if (result.generated.length > 0) {
+      console.log(`✅ Generated ${result.generated.length} recurring invoice(s)`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Bill every due period of one profile and move its next run date on
+   */
+  private async processProfile(
+    profile: RecurringInvoice,
+    today: string,
+    result: ProcessRecurringInvoicesResult
+  ): Promise<void> {
+    let runDate = profile.next_run_date;
+    let occurrences = 0;
+
+    while (
+      runDate <= today &&
+      (!profile.end_date || runDate <= profile.end_date) &&
+      occurrences < MAX_OCCURRENCES_PER_RUN
+    ) {
+      // Another device may already have billed this period, or be billing it
+      const { claim, held } = await this.claimRun(profile, runDate);
+
+      if (!claim && held?.status === 'pending') {
+        // Leave the schedule where it is; a later pass picks the period up
+        // if that device never finishes
+        console.log(`⏳ "${profile.name}" for ${runDate} is being billed on another device`);
+        break;
+      }
+
+      if (!claim) {
+        const skipped = await this.logRun(profile, runDate, 'skipped', { reason: 'Already generated for this period' });
+        if (skipped) result.skipped.push(skipped);
+      } else {
+        const { data: bill, error: createError } = await this.createInvoice(profile, runDate);
+
+        if (createError || !bill) {
+          const message = createError instanceof Error ? createError.message : createError?.message;
+          console.error(`⚠️ Recurring invoice "${profile.name}" failed for ${runDate}:`, createError);
+          // Releases the period so a later pass can bill it
+          const failed = await this.updateRun(claim, { status: 'failed', reason: message ?? 'Failed to create invoice' });
+          result.failed.push(failed);
+          break;
+        }
+
+        await this.updateRun(claim, {
+          status: 'generated',
+          bill_id: bill.id,
+          bill_number: bill.bill_number,
+          amount: Number(bill.total_amount),
+        });
+        result.generated.push(bill);
+      }
+
+      occurrences += 1;
+      runDate = this.nextRunDate(runDate, profile.frequency);
+    }
+
+    if (runDate !== profile.next_run_date) {
+      await realtimeSyncService.update<RecurringInvoice>(this.tableName, profile.id, {
+        next_run_date: runDate,
+        is_active: !profile.end_date || runDate <= profile.end_date,
+        last_run_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Raise one invoice from the profile's template, dated on the run date
+   */
+  private async createInvoice(profile: RecurringInvoice, runDate: string): Promise<{
+    data: Bill | null;
+    error: any;
+  }> {
+    try {
+      const billNumber = await billsService.reserveInvoiceNumber(runDate);
+      const dueDate = format(addDays(new Date(`${runDate}T00:00:00`), profile.payment_terms_days), 'yyyy-MM-dd');
+
+      return await billsService.createBill({
+        ...profile.bill_template,
+        bill_number: billNumber,
+        date: runDate,
+        due_date: dueDate,
+        paid_amount: 0,
+      });
+    } catch (err) {
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Claim a period before billing it with a pending run. The row goes
+   * straight to the database, where the unique index on pending and
+   * generated runs lets only one device hold the period; a pending claim
+   * older than RUN_CLAIM_TTL_MS is taken over. Returns the claim, or the
+   * run holding the period when another device has it. Offline passes fail
+   * here rather than billing a period twice.
+   */
+  private async claimRun(profile: RecurringInvoice, runDate: string): Promise<{
+    claim: RecurringInvoiceRun | null;
+    held: RecurringInvoiceRun | null;
+  }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await (supabase as any)
+      .from(this.runsTable)
+      .insert({
+        id: crypto.randomUUID(),
+        user_id: user.id,
+        recurring_invoice_id: profile.id,
+        profile_name: profile.name,
+        run_date: runDate,
+        status: 'pending',
+        claimed_at: new Date().toISOString(),
+        amount: profile.total_amount,
+      })
+      .select()
+      .single();
+
+    if (!error) return { claim: data as RecurringInvoiceRun, held: null };
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+
+    // Take over an abandoned claim, only if it is still pending and stale
+    const staleBefore = new Date(Date.now() - RUN_CLAIM_TTL_MS).toISOString();
+    const { data: retaken, error: retakeError } = await (supabase as any)
+      .from(this.runsTable)
+      .update({ claimed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('recurring_invoice_id', profile.id)
+      .eq('run_date', runDate)
+      .eq('status', 'pending')
+      .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+      .select();
+
+    if (retakeError) throw retakeError;
+    if ((retaken ?? []).length > 0) {
+      console.log(`🔄 Took over an abandoned claim for "${profile.name}" on ${runDate}`);
+      return { claim: retaken[0] as RecurringInvoiceRun, held: null };
+    }
+
+    const { data: held, error: heldError } = await (supabase as any)
+      .from(this.runsTable)
+      .select('*')
+      .eq('recurring_invoice_id', profile.id)
+      .eq('run_date', runDate)
+      .in('status', ['pending', 'generated'])
+      .maybeSingle();
+
+    if (heldError) throw heldError;
+    return { claim: null, held: (held as RecurringInvoiceRun | null) ?? null };
+  }
+
+  /**
+   * Mark a claimed run generated with its invoice, or failed to release the
+   * period
+   */
+  private async updateRun(
+    run: RecurringInvoiceRun,
+    changes: Partial<Pick<RecurringInvoiceRun, 'status' | 'bill_id' | 'bill_number' | 'amount' | 'reason'>>
+  ): Promise<RecurringInvoiceRun> {
+    const result = await realtimeSyncService.update<RecurringInvoiceRun>(this.runsTable, run.id, {
+      ...changes,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (result.error) {
+      console.error(`⚠️ Could not update run for "${run.profile_name}" on ${run.run_date}:`, result.error);
+    }
+
+    return { ...run, ...changes };
+  }
+
+  /**
+   * Record a scheduler outcome. Logging never blocks billing.
+   */
+  private async logRun(
+    profile: RecurringInvoice,
+    runDate: string,
+    status: RecurringRunStatus,
+    details: { bill?: Bill; reason?: string }
+  ): Promise<RecurringInvoiceRun | null> {
+    const result = await realtimeSyncService.create<RecurringInvoiceRun>(this.runsTable, {
+      recurring_invoice_id: profile.id,
+      profile_name: profile.name,
+      run_date: runDate,
+      status,
+      bill_id: details.bill?.id ?? null,
+      bill_number: details.bill?.bill_number ?? null,
+      amount: details.bill ? Number(details.bill.total_amount) : profile.total_amount,
+      reason: details.reason ?? null,
+    } as any);
+
+    if (result.error) {
+      console.error(`⚠️ Could not log ${status} run for "${profile.name}" on ${runDate}:`, result.error);
+      return null;
+    }
+
+    return result.data;
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const recurringInvoicesService = new RecurringInvoicesService();
@@ -0,0 +1,485 @@
+/**
+ * Delivery Challans & Proforma Invoices Service with Real-Time Sync
+ *
+ * Pre-invoice sales documents that share the bill's line items, party
+ * snapshot and GST details:
+ * - Delivery challans travel with goods shipped before invoicing and can
+ *   deduct stock at dispatch. Several challans merge into one tax invoice.
+ * - Proforma invoices are sent for approval or advance payment and convert
+ *   into a tax invoice once the supply is made.
+ *
+ * Numbering prefixes come from business settings (challan_prefix / proforma_prefix).
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeSalesDocumentRow, salesDocumentsToBillInput } from '@/lib/invoiceMapping';
+import type { DocumentType } from '@/types/invoice';
+import { billsService, type Bill, type BillInvoiceDetails, type BillItem } from './billsService';
+import { businessSettingsService } from './businessSettingsService';
+import { numberingSeriesService } from './numberingSeriesService';
+import { inventoryService } from './inventoryService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SalesDocumentType = Extract<DocumentType, 'delivery_challan' | 'proforma'>;
+
+export type SalesDocumentStatus = 'open' | 'invoiced' | 'cancelled';
+
+export interface SalesDocument extends BillInvoiceDetails {
+  id: string;
+  user_id: string;
+  document_type: SalesDocumentType;
+  document_number: string;
+  party_id: string | null;
+  party_name: string;
+  date: string;
+  due_date: string | null; // Delivery date (challan) or validity (proforma)
+  items: BillItem[];
+  subtotal: number;
+  tax_amount: number;
+  cess_amount: number;
+  round_off: number;
+  discount_amount: number;
+  total_amount: number;
+  status: SalesDocumentStatus;
+  stock_deducted: boolean; // Challan lines were taken out of inventory at dispatch
+  notes: string | null;
+  terms: string | null;
+  invoiced_bill_id: string | null; // Tax invoice this document was billed on
+  invoiced_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateSalesDocumentInput extends BillInvoiceDetails {
+  document_type: SalesDocumentType;
+  document_number?: string;
+  party_id: string | null;
+  party_name: string;
+  date: string;
+  due_date?: string;
+  items: Omit<BillItem, 'id'>[];
+  notes?: string;
+  terms?: string;
+  discount_amount?: number;
+  deduct_stock?: boolean; // Challans only
+}
+
+export type UpdateSalesDocumentInput = Partial<Omit<CreateSalesDocumentInput, 'document_type' | 'deduct_stock'>>;
+
+export interface FetchSalesDocumentsOptions {
+  documentType?: SalesDocumentType;
+  partyId?: string;
+  status?: SalesDocumentStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/** Prefixes used until the business sets its own */
+export const DEFAULT_DOCUMENT_PREFIXES: Record<SalesDocumentType, string> = {
+  delivery_challan: 'DC',
+  proforma: 'PI',
+};
+
+// ============================================================================
+// SALES DOCUMENTS SERVICE
+// ============================================================================
+
+class SalesDocumentsService {
+  private tableName = 'sales_documents' as const;
+
+  /**
+   * Numbering prefix for a document type from business settings
+   */
+  async getDocumentPrefix(documentType: SalesDocumentType): Promise<string> {
+    const { data: settings } = await businessSettingsService.fetchBusinessSettings();
+    const prefix = documentType === 'delivery_challan' ? settings?.challan_prefix : settings?.proforma_prefix;
+    return prefix?.trim() || DEFAULT_DOCUMENT_PREFIXES[documentType];
+  }
+
+  /**
+   * Next number for the document type, without reserving it. Uses the
+   * type's default numbering series when there is one, otherwise DC-0007
+   * style numbers where deleted documents are counted so numbers are never
+   * reused.
+   */
+  async getNextDocumentNumber(documentType: SalesDocumentType, date?: string): Promise<string> {
+    const seriesNumber = await numberingSeriesService.peekNextNumber(documentType, date);
+    if (seriesNumber) return seriesNumber;
+
+    const prefix = await this.getDocumentPrefix(documentType);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await (supabase as any)
+      .from(this.tableName)
+      .select('document_number')
+      .eq('user_id', user.id)
+      .eq('document_type', documentType)
+      .like('document_number', `${prefix}-%`);
+
+    if (error) throw error;
+
+    const last = (data ?? []).reduce((max: number, row: { document_number: string }) => {
+      const match = row.document_number.match(/(\d+)$/);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0);
+
+    return `${prefix}-${String(last + 1).padStart(4, '0')}`;
+  }
+
+  /**
+   * Reserve the number for a document being saved
+   */
+  async reserveDocumentNumber(documentType: SalesDocumentType, date?: string): Promise<string> {
+    return (await numberingSeriesService.reserveNextNumber(documentType, date)) ?? this.getNextDocumentNumber(documentType, date);
+  }
+
+  /**
+   * Fetch documents with optional filtering and pagination
+   */
+  async fetchDocuments(options?: FetchSalesDocumentsOptions): Promise<{
+    data: SalesDocument[] | null;
+    error: any;
+    count: number;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          count: 0,
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      // Apply filters
+      if (options?.documentType) {
+        query = query.eq('document_type', options.documentType);
+      }
+      if (options?.partyId) {
+        query = query.eq('party_id', options.partyId);
+      }
+      if (options?.status) {
+        query = query.eq('status', options.status);
+      }
+
+      // Apply ordering
+      query = query.order('date', { ascending: false });
+
+      // Apply pagination
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit ?? 10) - 1);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching sales documents:', error);
+        return { data: null, error, count: 0 };
+      }
+
+      return { data: (data ?? []).map(normalizeSalesDocumentRow), error: null, count: count ?? 0 };
+    } catch (err) {
+      console.error('❌ Exception in fetchDocuments:', err);
+      return { data: null, error: err, count: 0 };
+    }
+  }
+
+  /**
+   * Create a challan or proforma; challans can take their lines out of stock
+   */
+  async createDocument(input: CreateSalesDocumentInput): Promise<{
+    data: SalesDocument | null;
+    error: any;
+  }> {
+    try {
+      const { total_amount, subtotal, tax_amount, cess_amount, round_off } = billsService.calculateTotals(
+        input.items,
+        0,
+        input.discount_amount,
+        input.round_off_mode
+      );
+      const deductStock = input.document_type === 'delivery_challan' && Boolean(input.deduct_stock);
+
+      const documentData = {
+        document_type: input.document_type,
+        document_number: input.document_number || await this.reserveDocumentNumber(input.document_type, input.date),
+        party_id: input.party_id,
+        party_name: input.party_name,
+        date: input.date,
+        due_date: input.due_date || null,
+        items: input.items.map((item, index) => ({ ...item, id: `item-${Date.now()}-${index}` })),
+        subtotal,
+        tax_amount,
+        cess_amount,
+        round_off,
+        discount_amount: input.discount_amount || 0,
+        total_amount,
+        status: 'open' as SalesDocumentStatus,
+        stock_deducted: deductStock,
+        notes: input.notes || null,
+        terms: input.terms || null,
+        invoiced_bill_id: null,
+        invoiced_at: null,
+        ...billsService.pickInvoiceDetails(input),
+        deleted_at: null,
+        synced_at: new Date().toISOString(),
+      };
+
+      console.log('🚀 Creating sales document with real-time sync:', documentData);
+
+      const result = await realtimeSyncService.create<SalesDocument>(
+        this.tableName,
+        documentData as any
+      );
+
+      if (result.error || !result.data) {
+        console.error('❌ Error creating sales document:', result.error);
+        return { data: null, error: result.error ?? new Error('Failed to create document') };
+      }
+
+      const document = normalizeSalesDocumentRow(result.data);
+      if (document.stock_deducted) {
+        await this.moveStock(document, 'out');
+      }
+
+      console.log('✅ Sales document created successfully:', document);
+      return { data: document, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createDocument:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Update an open document. Lines of a challan that already moved stock
+   * are locked; cancel it and issue a new one instead.
+   */
+  async updateDocument(document: SalesDocument, input: UpdateSalesDocumentInput): Promise<{
+    data: SalesDocument | null;
+    error: any;
+  }> {
+    try {
+      if (document.status !== 'open') {
+        return { data: null, error: new Error(`${document.document_number} is ${document.status}`) };
+      }
+      if (input.items && document.stock_deducted) {
+        return {
+          data: null,
+          error: new Error(`Stock was already deducted for ${document.document_number}; cancel it and create a new challan`),
+        };
+      }
+
+      const updateData: any = {
+        ...billsService.pickInvoiceDetails(input),
+        updated_at: new Date().toISOString(),
+      };
+
+      if (input.document_number !== undefined) updateData.document_number = input.document_number;
+      if (input.party_id !== undefined) updateData.party_id = input.party_id;
+      if (input.party_name !== undefined) updateData.party_name = input.party_name;
+      if (input.date !== undefined) updateData.date = input.date;
+      if (input.due_date !== undefined) updateData.due_date = input.due_date || null;
+      if (input.notes !== undefined) updateData.notes = input.notes;
+      if (input.terms !== undefined) updateData.terms = input.terms;
+
+      // Recalculate totals if items changed
+      if (input.items) {
+        const { total_amount, subtotal, tax_amount, cess_amount, round_off } = billsService.calculateTotals(
+          input.items,
+          0,
+          input.discount_amount ?? 0,
+          input.round_off_mode
+        );
+        updateData.items = input.items.map((item, index) => ({ ...item, id: `item-${Date.now()}-${index}` }));
+        updateData.subtotal = subtotal;
+        updateData.tax_amount = tax_amount;
+        updateData.cess_amount = cess_amount;
+        updateData.round_off = round_off;
+        updateData.total_amount = total_amount;
+        updateData.discount_amount = input.discount_amount ?? 0;
+      }
+
+      const result = await realtimeSyncService.update<SalesDocument>(
+        this.tableName,
+        document.id,
+        updateData
+      );
+
+      if (result.error) {
+        console.error('❌ Error updating sales document:', result.error);
+        return { data: null, error: result.error };
+      }
+
+      return { data: result.data ? normalizeSalesDocumentRow(result.data) : null, error: null };
+    } catch (err) {
+      console.error('❌ Exception in updateDocument:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Bill one proforma, or several challans for the same customer, on a
+   * single tax invoice numbered from the invoice series
+   */
+  async convertToInvoice(documents: SalesDocument[]): Promise<{
+    data: Bill | null;
+    error: any;
+  }> {
+    try {
+      const [first] = documents;
+      if (!first) {
+        return { data: null, error: new Error('Select at least one document') };
+      }
+
+      const notOpen = documents.find(document => document.status !== 'open');
+      if (notOpen) {
+        return { data: null, error: new Error(`${notOpen.document_number} is already ${notOpen.status}`) };
+      }
+      if (documents.some(document => document.document_type !== first.document_type)) {
+        return { data: null, error: new Error('Challans and proforma invoices cannot be billed together') };
+      }
+      if (first.document_type === 'proforma' && documents.length > 1) {
+        return { data: null, error: new Error('Convert proforma invoices one at a time') };
+      }
+
+      const partyKey = (document: SalesDocument) => document.party_id ?? document.party_name.trim().toLowerCase();
+      if (documents.some(document => partyKey(document) !== partyKey(first))) {
+        return { data: null, error: new Error('Only challans for the same customer can be merged') };
+      }
+
+      const billNumber = await billsService.reserveInvoiceNumber();
+      const { data: bill, error } = await billsService.createBill(salesDocumentsToBillInput(documents, billNumber));
+
+      if (error || !bill) {
+        return { data: null, error: error ?? new Error('Failed to create invoice') };
+      }
+
+      for (const document of documents) {
+        const { error: updateError } = await realtimeSyncService.update<SalesDocument>(this.tableName, document.id, {
+          status: 'invoiced',
+          invoiced_bill_id: bill.id,
+          invoiced_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        } as any);
+
+        if (updateError) {
+          console.error(`⚠️ ${bill.bill_number} created but ${document.document_number} was not marked invoiced:`, updateError);
+        }
+      }
+
+      console.log(`✅ ${documents.map(d => d.document_number).join(', ')} billed on ${bill.bill_number}`);
+      return { data: bill, error: null };
+    } catch (err) {
+      console.error('❌ Exception in convertToInvoice:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Cancel an open document, returning any challan stock to inventory
+   */
+  async cancelDocument(document: SalesDocument): Promise<{
+    data: SalesDocument | null;
+    error: any;
+  }> {
+    if (document.status !== 'open') {
+      return { data: null, error: new Error(`${document.document_number} is already ${document.status}`) };
+    }
+
+    const result = await realtimeSyncService.update<SalesDocument>(this.tableName, document.id, {
+      status: 'cancelled',
+      updated_at: new Date().toISOString(),
+    } as any);
+
+    if (result.error) {
+      console.error('❌ Error cancelling sales document:', result.error);
+      return { data: null, error: result.error };
+    }
+
+    if (document.stock_deducted) {
+      await this.moveStock(document, 'in');
+    }
+
+    return { data: result.data ? normalizeSalesDocumentRow(result.data) : null, error: null };
+  }
+
+  /**
+   * Delete a document (soft delete). Open challans return their stock first.
+   */
+  async deleteDocument(document: SalesDocument): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const result = await realtimeSyncService.delete(this.tableName, document.id);
+
+      if (result.error) {
+        console.error('❌ Error deleting sales document:', result.error);
+        return { success: false, error: result.error };
+      }
+
+      if (document.status === 'open' && document.stock_deducted) {
+        await this.moveStock(document, 'in');
+      }
+
+      return { success: true, error: null };
+    } catch (err) {
+      console.error('❌ Exception in deleteDocument:', err);
+      return { success: false, error: err };
+    }
+  }
+
+  /**
+   * Take challan lines out of stock at dispatch, or put them back
+   */
+  private async moveStock(document: SalesDocument, type: 'in' | 'out'): Promise<void> {
+    for (const item of document.items) {
+      if (!item.product_id) continue;
+
+      try {
+        // Reversals come back in at the current average cost; the selling
+        // price would otherwise be blended into it
+        const product = type === 'in' ? await inventoryService.getProduct(item.product_id) : null;
+        const price = type === 'in' ? Number(product?.cost_price ?? 0) : item.unit_price;
+
+        await inventoryService.createStockTransaction({
+          product_id: item.product_id,
+          type,
+          quantity: item.quantity,
+          price,
+          amount: type === 'in' ? Math.round(price * item.quantity * 100) / 100 : item.total,
+          note: type === 'out'
+            ? `Delivery challan ${document.document_number}`
+            : `Delivery challan ${document.document_number} reversed`,
+        });
+      } catch (stockError) {
+        console.error(`⚠️ Stock update failed for ${item.name} (${document.document_number}):`, stockError);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const salesDocumentsService = new SalesDocumentsService();
@@ -0,0 +1,337 @@
+/**
+ * Sales Service with Real-Time Sync
+ *
+ * Records sales vouchers and posts their side effects:
+ * - Stock Out for every inventory item sold
+ * - A 'gave' ledger entry for credit sales to customers
+ *
+ * @version 1.0.0
+ */
+
+import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
+import { supabase } from '@/integrations/supabase/client';
+import { inventoryService } from './inventoryService';
+import { transactionsService } from './transactionsService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SalePaymentMode = 'cash' | 'credit';
+
+export interface SaleItem {
+  product_id: string | null;
+  name: string;
+  hsn: string | null;
+  unit: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_percentage: number;
+  tax_rate: number;
+  total: number;
+}
+
+export interface Sale {
+  id: string;
+  user_id: string;
+  sale_number: string;
+  date: string;
+  payment_mode: SalePaymentMode;
+  customer_id: string | null;
+  customer_name: string | null;
+  items: SaleItem[];
+  subtotal: number;
+  tax_amount: number;
+  discount_amount: number;
+  total_amount: number;
+  notes: string | null;
+  transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+export interface CreateSaleInput {
+  sale_number?: string;
+  date: string;
+  payment_mode: SalePaymentMode;
+  customer_id?: string;
+  customer_name?: string;
+  items: Omit<SaleItem, 'total'>[];
+  notes?: string;
+}
+
+export interface FetchSalesOptions {
+  customerId?: string;
+  paymentMode?: SalePaymentMode;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// ============================================================================
+// SALES SERVICE
+// ============================================================================
+
+class SalesService {
+  private tableName = 'sales' as const;
+
+  /**
+   * Generate unique sale number
+   */
+  private generateSaleNumber(): string {
+    const prefix = 'SAL';
+    const timestamp = Date.now().toString().slice(-6);
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+    return `${prefix}-${timestamp}-${random}`;
+  }
+
+  /**
+   * Calculate line totals and voucher totals
+   */
+  calculateTotals(items: Omit<SaleItem, 'total'>[]): {
+    items: SaleItem[];
+    subtotal: number;
+    tax_amount: number;
+    discount_amount: number;
+    total_amount: number;
+  } {
+    let subtotal = 0;
+    let taxAmount = 0;
+    let discountAmount = 0;
+
+    const lines = items.map(item => {
+      const gross = item.quantity * item.unit_price;
+      const discount = gross * (item.discount_percentage / 100);
+      const taxable = gross - discount;
+      const tax = taxable * (item.tax_rate / 100);
+
+      subtotal += gross;
+      discountAmount += discount;
+      taxAmount += tax;
+
+      return {
+        ...item,
+        total: Math.round((taxable + tax) * 100) / 100,
+      };
+    });
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      items: lines,
+      subtotal: round(subtotal),
+      tax_amount: round(taxAmount),
+      discount_amount: round(discountAmount),
+      total_amount: round(subtotal - discountAmount + taxAmount),
+    };
+  }
+
+  /**
+   * Fetch sales with optional filtering and pagination
+   */
+  async fetchSales(options?: FetchSalesOptions): Promise<{
+    data: Sale[] | null;
+    error: any;
+    count: number;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          count: 0,
+        };
+      }
+
+      let query = (supabase as any)
+        .from(this.tableName)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      // Apply filters
+      if (options?.customerId) {
+        query = query.eq('customer_id', options.customerId);
+      }
+      if (options?.paymentMode) {
+        query = query.eq('payment_mode', options.paymentMode);
+      }
+      if (options?.startDate) {
+        query = query.gte('date', options.startDate);
+      }
+      if (options?.endDate) {
+        query = query.lte('date', options.endDate);
+      }
+
+      // Apply ordering
+      query = query.order('date', { ascending: false });
+
+      // Apply pagination
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching sales:', error);
+        return { data: null, error, count: 0 };
+      }
+
+      return { data: data as Sale[], error: null, count: count ?? 0 };
+    } catch (err) {
+      console.error('❌ Exception in fetchSales:', err);
+      return { data: null, error: err, count: 0 };
+    }
+  }
+
+  /**
+   * Record a sale, deduct stock and post the customer ledger entry
+   */
+  async createSale(input: CreateSaleInput): Promise<{
+    data: Sale | null;
+    error: any;
+  }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+        };
+      }
+
+      if (input.items.length === 0) {
+        return { data: null, error: new Error('A sale needs at least one item') };
+      }
+
+      if (input.payment_mode === 'credit' && !input.customer_id) {
+        return { data: null, error: new Error('Credit sales require a customer') };
+      }
+
+      const saleNumber = input.sale_number || this.generateSaleNumber();
+      const totals = this.calculateTotals(input.items);
+
+      const saleData = {
+        user_id: user.id,
+        sale_number: saleNumber,
+        date: input.date,
+        payment_mode: input.payment_mode,
+        customer_id: input.customer_id || null,
+        customer_name: input.customer_name || null,
+        items: totals.items,
+        subtotal: totals.subtotal,
+        tax_amount: totals.tax_amount,
+        discount_amount: totals.discount_amount,
+        total_amount: totals.total_amount,
+        notes: input.notes || null,
+        transaction_id: null,
+        deleted_at: null,
+        synced_at: new Date().toISOString(),
+      };
+
+      const result = await realtimeSyncService.create<Sale>(
+        this.tableName,
+        saleData as any
+      );
+
+      if (result.error || !result.data) {
+        console.error('❌ Error creating sale:', result.error);
+        return { data: null, error: result.error ?? new Error('Failed to create sale') };
+      }
+
+      let sale = result.data;
+
+      // Deduct stock for every inventory-backed line
+      for (const item of totals.items) {
+        if (!item.product_id) continue;
+
+        try {
+          await inventoryService.createStockTransaction({
+            product_id: item.product_id,
+            type: 'out',
+            quantity: item.quantity,
+            price: item.unit_price,
+            amount: item.total,
+            note: `Sale ${saleNumber}`,
+          });
+        } catch (stockError) {
+          console.error(`⚠️ Stock deduction failed for ${item.name} (sale still recorded):`, stockError);
+        }
+      }
+
+      // Credit sales increase what the customer owes
+      if (input.payment_mode === 'credit' && input.customer_id) {
+        const { data: transaction, error: transactionError } = await transactionsService.createTransaction({
+          party_id: input.customer_id,
+          party_type: 'customer',
+          type: 'gave',
+          amount: totals.total_amount,
+          date: input.date,
+          description: `Sale ${saleNumber}`,
+          payment_method: 'credit',
+          reference_number: saleNumber,
+        });
+
+        if (transactionError) {
+          console.error('⚠️ Ledger posting failed (sale still recorded):', transactionError);
+        }
+
+        if (transaction) {
+          const linked = await realtimeSyncService.update<Sale>(
+            this.tableName,
+            sale.id,
+            { transaction_id: transaction.id, synced_at: new Date().toISOString() }
+          );
+          if (linked.data) {
+            sale = { ...sale, ...linked.data };
+          }
+        }
+      }
+
+      console.log('✅ Sale recorded successfully:', sale);
+      return { data: sale, error: null };
+    } catch (err) {
+      console.error('❌ Exception in createSale:', err);
+      return { data: null, error: err };
+    }
+  }
+
+  /**
+   * Delete a sale (soft delete) with real-time sync
+   * Stock and ledger entries are left untouched and must be reversed explicitly.
+   */
+  async deleteSale(id: string): Promise<{
+    success: boolean;
+    error: any;
+  }> {
+    try {
+      const result = await realtimeSyncService.delete(this.tableName, id);
+
+      if (result.error) {
+        console.error('❌ Error deleting sale:', result.error);
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, error: null };
+    } catch (err) {
+      console.error('❌ Exception in deleteSale:', err);
+      return { success: false, error: err };
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT SINGLETON INSTANCE
+// ============================================================================
+
+export const salesService = new SalesService();
@@ -13,6 +13,7 @@
 
 import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
 import { supabase } from '@/integrations/supabase/client';
+import { ledgerService } from './ledgerService';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -47,6 +48,7 @@ export interface CreateSupplierInput {
   gst_number?: string;
   payment_terms?: string;
   notes?: string;
+  opening_balance_date?: string; // yyyy-MM-dd the amount was owed; defaults to today
 }
 
 export interface UpdateSupplierInput {
@@ -190,10 +192,11 @@ class SuppliersService {
         };
       }
 
+      const { opening_balance_date, ...supplier } = input;
       const supplierData = {
-        ...input,
+        ...supplier,
         user_id: user.id,
-        amount: input.amount || 0,
+        amount: supplier.amount || 0,
         deleted_at: null,
         last_transaction: null,
         created_at: new Date().toISOString(),
@@ -213,6 +216,11 @@ class SuppliersService {
         return { data: null, error: result.error };
       }
 
+      // The balance a supplier starts with is their opening ledger entry
+      if (result.data?.amount) {
+        await ledgerService.recordOpeningBalance('supplier', result.data.id, result.data.amount, opening_balance_date);
+      }
+
       console.log('✅ Supplier created successfully:', result.data);
       return { data: result.data, error: null };
     } catch (err) {
@@ -298,7 +306,7 @@ class SuppliersService {
         };
       }
 
-      const suppliersData = suppliers.map(supplier => ({
+      const suppliersData = suppliers.map(({ opening_balance_date: _date, ...supplier }) => ({
         ...supplier,
         user_id: user.id,
         amount: supplier.amount || 0,
@@ -321,6 +329,12 @@ class SuppliersService {
         return { data: null, error: result.error };
       }
 
+      // Rows come back in the order they were given
+      for (const [index, supplier] of (result.data ?? []).entries()) {
+        if (!supplier.amount) continue;
+        await ledgerService.recordOpeningBalance('supplier', supplier.id, supplier.amount, suppliers[index]?.opening_balance_date);
+      }
+
       console.log(`✅ ${result.data?.length || 0} suppliers created successfully`);
       return { data: result.data, error: null };
     } catch (err) {
@@ -328,41 +342,6 @@ class SuppliersService {
       return { data: null, error: err };
     }
   }
-
-  /**
-   * Update supplier balance
-   */
-  async updateSupplierBalance(
-    supplierId: string,
-    amount: number,
-    type: 'increase' | 'decrease'
-  ): Promise<{ success: boolean; error: any }> {
-    try {
-      const { data: supplier, error: fetchError } = await this.fetchSupplierById(supplierId);
-      
-      if (fetchError || !supplier) {
-        return { success: false, error: fetchError || new Error('Supplier not found') };
-      }
-
-      const newAmount = type === 'increase' 
-        ? supplier.amount + amount 
-        : supplier.amount - amount;
-
-      const { error: updateError } = await this.updateSupplier(supplierId, {
-        amount: newAmount,
-      });
-
-      if (updateError) {
-        return { success: false, error: updateError };
-      }
-
-      console.log(`✅ Supplier balance updated: ${supplier.amount} → ${newAmount}`);
-      return { success: true, error: null };
-    } catch (err) {
-      console.error('❌ Exception in updateSupplierBalance:', err);
-      return { success: false, error: err };
-    }
-  }
 }
 
 // ============================================================================
@@ -6,8 +6,7 @@
 
 import { realtimeSyncService } from '@/services/realtime/realtimeSyncService';
 import { supabase } from '@/integrations/supabase/client';
-import { customersService } from './customersService';
-import { suppliersService } from './suppliersService';
+import { ledgerService } from './ledgerService';
 
 export interface Transaction {
   id: string;
@@ -37,12 +36,27 @@ export interface CreateTransactionInput {
   reference_number?: string;
 }
 
+/**
+ * Map a database row (customer_id / supplier_id, 'received') to the app shape
+ */
+function normalizeTransaction(row: any): Transaction {
+  return {
+    ...row,
+    party_id: row.customer_id ?? row.supplier_id,
+    party_type: row.customer_id ? 'customer' : 'supplier',
+    type: row.type === 'received' || row.type === 'got' ? 'got' : 'gave',
+    amount: Number(row.amount) || 0,
+  };
+}
+
 class TransactionsService {
   private tableName = 'transactions' as const;
 
   async fetchTransactions(options?: {
     partyId?: string;
     partyType?: 'customer' | 'supplier';
+    startDate?: string;
+    endDate?: string;
     limit?: number;
     offset?: number;
   }): Promise<{ data: Transaction[] | null; error: any; count: number }> {
@@ -60,12 +74,21 @@ class TransactionsService {
         .is('deleted_at', null)
         .order('date', { ascending: false });
 
+      // Rows store the party as customer_id / supplier_id
       if (options?.partyId) {
-        query = query.eq('party_id', options.partyId);
+        query = options.partyType
+          ? query.eq(options.partyType === 'customer' ? 'customer_id' : 'supplier_id', options.partyId)
+          : query.or(`customer_id.eq.${options.partyId},supplier_id.eq.${options.partyId}`);
+      } else if (options?.partyType) {
+        query = query.not(options.partyType === 'customer' ? 'customer_id' : 'supplier_id', 'is', null);
       }
 
-      if (options?.partyType) {
-        query = query.eq('party_type', options.partyType);
+      if (options?.startDate) {
+        query = query.gte('date', options.startDate);
+      }
+
+      if (options?.endDate) {
+        query = query.lte('date', options.endDate);
       }
 
       if (options?.limit) {
@@ -80,7 +103,7 @@ class TransactionsService {
 
       if (error) throw error;
 
-      return { data: data as Transaction[], error: null, count: count || 0 };
+      return { data: (data || []).map(normalizeTransaction), error: null, count: count || 0 };
     } catch (error: any) {
       console.error('❌ Error fetching transactions:', error);
       return { data: null, error, count: 0 };
@@ -88,11 +111,6 @@ class TransactionsService {
   }
 
   async createTransaction(input: CreateTransactionInput): Promise<{ data: Transaction | null; error: any }> {
-    // FIX: Prevent race condition by wrapping in try-finally
-    // This ensures balance updates are atomic-like
-    let transactionCreated = false;
-    let createdTransaction: Transaction | null = null;
-
     try {
       // Map party_id and party_type to customer_id or supplier_id
       const transactionData: any = {
@@ -118,10 +136,12 @@ class TransactionsService {
         console.log('📝 Creating transaction with data:', transactionData);
       }
 
-      // Create transaction with real-time sync
-      const result = await realtimeSyncService.create<Transaction>(
-        this.tableName,
-        transactionData
+      // The party's balance follows its ledger, which now includes this entry
+      const result = await ledgerService.trackBalance(input.party_type, input.party_id, () =>
+        realtimeSyncService.create<Transaction>(
+          this.tableName,
+          transactionData
+        )
       );
 
       if (result.error) {
@@ -129,68 +149,45 @@ class TransactionsService {
         throw result.error;
       }
 
-      transactionCreated = true;
-      createdTransaction = result.data;
-
       if (import.meta.env.DEV) {
         console.log('✅ Transaction created successfully:', result.data);
       }
 
-      // FIX: Update party balance with error recovery
-      // If balance update fails, we still return the transaction
-      // This prevents data inconsistency
-      if (input.party_type === 'customer' && result.data) {
-        try {
-          await customersService.updateCustomerBalance(
-            input.party_id,
-            input.amount,
-            input.type
-          );
-        } catch (balanceError) {
-          console.error('⚠️ Balance update failed (transaction still created):', balanceError);
-          // Don't throw - transaction is already created
-        }
-      } else if (input.party_type === 'supplier' && result.data) {
-        try {
-          // For suppliers: 'gave' means you gave to supplier (increase their amount)
-          // 'received' means you received from supplier (decrease their amount)
-          const balanceType = input.type === 'gave' ? 'increase' : 'decrease';
-          await suppliersService.updateSupplierBalance(
-            input.party_id,
-            input.amount,
-            balanceType
-          );
-        } catch (balanceError) {
-          console.error('⚠️ Balance update failed (transaction still created):', balanceError);
-          // Don't throw - transaction is already created
-        }
-      }
-
       return { data: result.data, error: null };
     } catch (error: any) {
       console.error('❌ Error creating transaction:', error);
-      
-      // FIX: If transaction was created but something else failed, still return it
-      if (transactionCreated && createdTransaction) {
-        return { 
-          data: createdTransaction, 
-          error: new Error('Transaction created but balance update may have failed')
-        };
-      }
-      
       return { data: null, error };
     }
   }
 
+  /**
+   * Party a stored transaction posts to
+   */
+  private async fetchTransactionParty(id: string): Promise<{ partyType: 'customer' | 'supplier'; partyId: string } | null> {
+    const { data } = await (supabase as any)
+      .from(this.tableName)
+      .select('customer_id, supplier_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!data) return null;
+    return data.customer_id
+      ? { partyType: 'customer', partyId: data.customer_id }
+      : { partyType: 'supplier', partyId: data.supplier_id };
+  }
+
   async updateTransaction(id: string, input: Partial<CreateTransactionInput>): Promise<{ data: Transaction | null; error: any }> {
     try {
-      const result = await realtimeSyncService.update<Transaction>(
-        this.tableName,
-        id,
-        {
-          ...input,
-          synced_at: new Date().toISOString(),
-        } as any
+      const party = await this.fetchTransactionParty(id);
+      const result = await ledgerService.trackBalance(party?.partyType ?? 'customer', party?.partyId, () =>
+        realtimeSyncService.update<Transaction>(
+          this.tableName,
+          id,
+          {
+            ...input,
+            synced_at: new Date().toISOString(),
+          } as any
+        )
       );
 
       if (result.error) {
@@ -206,7 +203,10 @@ class TransactionsService {
 
   async deleteTransaction(id: string): Promise<{ success: boolean; error: any }> {
     try {
-      const result = await realtimeSyncService.delete(this.tableName, id);
+      const party = await this.fetchTransactionParty(id);
+      const result = await ledgerService.trackBalance(party?.partyType ?? 'customer', party?.partyId, () =>
+        realtimeSyncService.delete(this.tableName, id)
+      );
 
       if (result.error) {
         throw result.error;
@@ -15,6 +15,8 @@
 import { supabase } from '@/integrations/supabase/client';
 import { authStateManager } from '@/lib/authStateManager';
 import type { Database } from '@/integrations/supabase/types';
+import type { Bill } from './billsService';
+import { normalizeBillRow } from '@/lib/invoiceMapping';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -110,40 +112,9 @@ export interface Supplier {
 
 /**
  * Invoice/Bill Interface
+ * Rows are normalised to the canonical Bill shape, whichever screen wrote them
  */
-export interface Invoice {
-  id: string;
-  user_id: string;
-  bill_number: string;
-  template: string;
-  customer_name: string;
-  customer_phone: string;
-  customer_email: string | null;
-  customer_gst: string | null;
-  customer_address: string | null;
-  bill_date: string;
-  due_date: string;
-  business_name: string;
-  business_address: string;
-  business_gst: string | null;
-  business_phone: string;
-  business_email: string | null;
-  gst_type: string;
-  include_gst: boolean;
-  gst_rate: number | null;
-  items: any; // JSONB
-  subtotal: number;
-  gst_amount: number;
-  total: number;
-  notes: string | null;
-  terms_and_conditions: string | null;
-  payment_instructions: string | null;
-  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  synced_at: string;
-}
+export type Invoice = Bill;
 
 /**
  * Cash Book Entry Interface
@@ -526,7 +497,7 @@ class UserDataService {
         return { data: null, error: error.message, count: 0 };
       }
 
-      return { data: data || [], error: null, count: count || 0 };
+      return { data: (data || []).map(normalizeBillRow), error: null, count: count || 0 };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       console.error('[UserDataService] Invoices fetch failed:', message);
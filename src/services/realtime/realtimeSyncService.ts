@@ -35,7 +35,21 @@ export type TableName =
   | 'business_settings'
   | 'profiles'
   | 'inventory'
-  | 'stock_transactions';
+  | 'stock_transactions'
+  | 'sales'
+  | 'expenses'
+  | 'expense_categories'
+  | 'recurring_expenses'
+  | 'receipts'
+  | 'credit_notes'
+  | 'quotations'
+  | 'sales_documents'
+  | 'recurring_invoices'
+  | 'recurring_invoice_runs'
+  | 'eway_bills'
+  | 'invoice_templates'
+  | 'numbering_series'
+  | 'party_ledger_entries';
 
 export type ChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
 
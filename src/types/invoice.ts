@@ -2,16 +2,27 @@
 
 export interface InvoiceItem {
   id: string;
+  productId?: string; // Inventory product the line was picked from
   name: string;
   description?: string;
   hsn?: string;
   quantity: string;
   price: string;
   discount: string;
-  amount: string;
+  amount: string; // Taxable value: net of the line discount, before tax
+  taxRate?: string; // Line GST %; blank uses the invoice rate
+  cessRate?: string; // Compensation cess %
+  taxInclusive?: boolean; // Price already includes GST and cess
 }
 
+/** Rounding applied to the grand total: none, nearest rupee or nearest 50 paise */
+export type RoundOffMode = "none" | "1" | "0.5";
+
+/** Documents rendered through the invoice templates */
+export type DocumentType = "invoice" | "quotation" | "delivery_challan" | "proforma";
+
 export interface InvoiceData {
+  documentType?: DocumentType; // Defaults to "invoice"
   billNumber: string;
   billDate: string;
   dueDate: string;
@@ -21,6 +32,7 @@ export interface InvoiceData {
   businessEmail: string;
   businessGST: string;
   businessState: string;
+  businessLogo?: string; // Image URL or data URL
   customerName: string;
   customerAddress: string;
   customerPhone: string;
@@ -28,11 +40,16 @@ export interface InvoiceData {
   customerGST: string;
   customerState: string;
   items: InvoiceItem[];
-  subtotal: number;
+  subtotal: number; // Net of line discounts, before the invoice discount and tax
+  discountAmount?: number; // Invoice-level discount, taken off the taxable value
   gstAmount: number;
   cgst: number;
   sgst: number;
   igst: number;
+  cess?: number;
+  taxBreakup?: TaxBreakupRow[];
+  roundOff?: number; // Added to (or taken off) the total by roundOffMode
+  roundOffMode?: RoundOffMode;
   total: number;
   gstType: "none" | "igst" | "cgst_sgst";
   gstRate: number;
@@ -44,16 +61,116 @@ export interface InvoiceData {
   templateId: string;
   currencyCode: string;
   currencySymbol: string;
+  exchangeRate?: number; // INR per unit of currencyCode, for export invoices
+  eInvoice?: EInvoiceDetails; // Set once the invoice is registered with the IRP
+  eWayBill?: { number: string; validUntil: string | null }; // Active e-way bill for the goods
+  upiPayee?: UpiPayee; // Prints a UPI payment QR when set
+  amountDue?: number; // Outstanding balance the QR asks for; defaults to the total
+}
+
+/** UPI ID payments are collected on */
+export interface UpiPayee {
+  upiId: string;
+  payeeName: string;
+}
+
+/** IRP registration printed on e-invoices */
+export interface EInvoiceDetails {
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  signedQr: string;
+}
+
+/** Layout blocks of a custom template */
+export type TemplateBlockType =
+  | "header"
+  | "parties"
+  | "items"
+  | "totals"
+  | "tax_summary"
+  | "bank"
+  | "notes"
+  | "signature";
+
+/** Optional columns of the items table; item name and amount always print */
+export type TemplateColumn = "hsn" | "quantity" | "price" | "discount" | "tax_rate";
+
+export type TemplateFont = "sans" | "serif" | "mono";
+
+export type TemplateLogoPlacement = "none" | "left" | "center" | "right";
+
+/** Extra label/value printed in the header, e.g. PAN, CIN or FSSAI licence */
+export interface TemplateCustomField {
+  label: string;
+  value: string;
+}
+
+/** Custom template, stored as JSON in invoice_templates.definition */
+export interface CustomTemplateDefinition {
+  version: 1;
+  blocks: { type: TemplateBlockType; visible: boolean }[]; // Print order
+  columns: Record<TemplateColumn, boolean>;
+  colors: {
+    primary: string; // Title, rules and the total band
+    text: string;
+    tableHeader: string;
+    tableHeaderText: string;
+  };
+  font: TemplateFont;
+  fontSize: number; // Base size in pt
+  logo: { image: string | null; placement: TemplateLogoPlacement }; // image is a data URL; falls back to the business logo
+  customFields: TemplateCustomField[];
+  footerMessage: string;
+}
+
+/** User-designed template, listed next to the built-in ones */
+export interface CustomInvoiceTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: CustomTemplateDefinition;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceTemplate {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  color: string;
+  previewColor: string;
+  features: string[];
+  bestFor: string;
+  documentTypes?: DocumentType[]; // Dedicated to these documents; omitted for general-purpose templates
+}
+
+/** Tax charged at one GST rate, for the rate-wise breakup on GST invoices */
+export interface TaxBreakupRow {
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  totalTax: number;
 }
 
 export interface InvoiceCalculation {
   subtotal: number;
+  discountAmount: number;
+  taxableValue: number;
   gstAmount: number;
   cgst: number;
   sgst: number;
   igst: number;
+  cess: number;
+  roundOff: number;
   total: number;
   amountInWords: string;
+  lineAmounts: number[]; // Taxable value of each item, before the invoice discount
+  taxBreakup: TaxBreakupRow[];
 }
 
 export interface CurrencyContext {
@@ -0,0 +1,38 @@
+-- Sales vouchers (cash and credit sales)
+-- Items are stored as JSONB; stock deduction and the customer ledger entry
+-- are posted by the client through stock_transactions and transactions.
+
+CREATE TABLE IF NOT EXISTS public.sales (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sale_number TEXT NOT NULL,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  payment_mode TEXT NOT NULL CHECK (payment_mode IN ('cash', 'credit')),
+  customer_id TEXT,
+  customer_name TEXT,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  transaction_id TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_user_date ON public.sales (user_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_sales_customer ON public.sales (customer_id);
+
+ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own sales"
+  ON public.sales
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sales;
@@ -0,0 +1,99 @@
+-- Expense tracking: user-defined categories, expenses and recurring schedules.
+-- Each expense posts a cash_out entry to cashbook_entries from the client;
+-- the entry id is kept on the expense for traceability.
+
+CREATE TABLE IF NOT EXISTS public.expense_categories (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_categories_user ON public.expense_categories (user_id);
+
+CREATE TABLE IF NOT EXISTS public.recurring_expenses (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  category_id TEXT,
+  category_name TEXT NOT NULL,
+  vendor_name TEXT,
+  amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  gst_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  itc_eligible BOOLEAN NOT NULL DEFAULT false,
+  payment_method TEXT NOT NULL DEFAULT 'cash',
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_due_date DATE NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_due ON public.recurring_expenses (user_id, next_due_date);
+
+CREATE TABLE IF NOT EXISTS public.expenses (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expense_number TEXT NOT NULL,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  category_id TEXT,
+  category_name TEXT NOT NULL,
+  vendor_name TEXT,
+  description TEXT,
+  amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  gst_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  gst_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  itc_eligible BOOLEAN NOT NULL DEFAULT false,
+  supplier_gstin TEXT,
+  invoice_number TEXT,
+  payment_method TEXT NOT NULL DEFAULT 'cash',
+  reference_number TEXT,
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  recurring_expense_id TEXT REFERENCES public.recurring_expenses(id) ON DELETE SET NULL,
+  cashbook_entry_id TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_user_date ON public.expenses (user_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_expenses_category ON public.expenses (user_id, category_name);
+
+ALTER TABLE public.expense_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own expense categories"
+  ON public.expense_categories
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own recurring expenses"
+  ON public.recurring_expenses
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own expenses"
+  ON public.expenses
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.expense_categories;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_expenses;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.expenses;
@@ -0,0 +1,38 @@
+-- Payment receipts (money received from customers)
+-- Allocations record how much of the receipt settles each open bill; the
+-- bills' paid_amount/balance_amount and the customer ledger entry are
+-- updated by the client through bills and transactions.
+
+CREATE TABLE IF NOT EXISTS public.receipts (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  receipt_number TEXT NOT NULL,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  customer_id TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  payment_method TEXT NOT NULL DEFAULT 'cash',
+  reference_number TEXT,
+  notes TEXT,
+  allocations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  unallocated_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  transaction_id TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipts_user_date ON public.receipts (user_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_receipts_customer ON public.receipts (customer_id);
+
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own receipts"
+  ON public.receipts
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.receipts;
@@ -0,0 +1,106 @@
+-- Normalise invoice builder rows in bills to the canonical bill shape
+-- The invoice builder used to insert its own columns (customer_name,
+-- bill_date, total, gst_amount, items with rate/amount). Bills are now
+-- written through billsService only, so existing rows are rewritten to
+-- party_* / date / total_amount / tax_amount with items carrying unit_price,
+-- tax_rate and discount_percentage. The legacy columns are kept for now.
+
+-- Invoice details carried on every bill
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS party_gstin TEXT,
+  ADD COLUMN IF NOT EXISTS party_phone TEXT,
+  ADD COLUMN IF NOT EXISTS party_email TEXT,
+  ADD COLUMN IF NOT EXISTS party_address TEXT,
+  ADD COLUMN IF NOT EXISTS subtotal NUMERIC(14, 2),
+  ADD COLUMN IF NOT EXISTS template TEXT,
+  ADD COLUMN IF NOT EXISTS gst_type TEXT,
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5, 2),
+  ADD COLUMN IF NOT EXISTS include_gst BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS payment_instructions TEXT,
+  ADD COLUMN IF NOT EXISTS business_name TEXT,
+  ADD COLUMN IF NOT EXISTS business_address TEXT,
+  ADD COLUMN IF NOT EXISTS business_phone TEXT,
+  ADD COLUMN IF NOT EXISTS business_email TEXT,
+  ADD COLUMN IF NOT EXISTS business_gst TEXT;
+
+-- Bills service rows: tax_amount now holds line taxes as well
+UPDATE public.bills b
+SET tax_amount = line_tax.tax
+FROM (
+  SELECT
+    bills.id,
+    round(sum(
+      COALESCE((item->>'quantity')::numeric, 0)
+      * COALESCE((item->>'unit_price')::numeric, 0)
+      * (1 - COALESCE((item->>'discount_percentage')::numeric, 0) / 100)
+      * COALESCE((item->>'tax_rate')::numeric, 0) / 100
+    ), 2) AS tax
+  FROM public.bills, jsonb_array_elements(bills.items) AS item
+  WHERE bills.party_type IS NOT NULL
+  GROUP BY bills.id
+) AS line_tax
+WHERE b.id = line_tax.id
+  AND COALESCE(b.tax_amount, 0) = 0
+  AND line_tax.tax > 0;
+
+-- Invoice builder rows (no party_type)
+UPDATE public.bills b
+SET
+  party_type = 'customer',
+  party_name = COALESCE(b.party_name, b.customer_name, ''),
+  party_gstin = COALESCE(b.party_gstin, b.customer_gst),
+  party_phone = COALESCE(b.party_phone, b.customer_phone),
+  party_email = COALESCE(b.party_email, b.customer_email),
+  party_address = COALESCE(b.party_address, b.customer_address),
+  date = COALESCE(b.date, b.bill_date),
+  total_amount = COALESCE(b.total_amount, b.total, 0),
+  tax_amount = COALESCE(b.gst_amount, b.tax_amount, 0),
+  paid_amount = CASE WHEN b.status = 'paid' THEN COALESCE(b.total_amount, b.total, 0) ELSE 0 END,
+  balance_amount = CASE WHEN b.status = 'paid' THEN 0 ELSE COALESCE(b.total_amount, b.total, 0) END,
+  status = CASE WHEN b.status IN ('paid', 'overdue', 'cancelled') THEN b.status ELSE 'pending' END,
+  terms = COALESCE(b.terms, b.terms_and_conditions),
+  items = (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', COALESCE(item->>'id', 'item-' || ord),
+      'product_id', NULL,
+      'name', COALESCE(item->>'name', item->>'description', ''),
+      'description', NULL,
+      'hsn', item->>'hsn',
+      'quantity', COALESCE((item->>'quantity')::numeric, 0),
+      'unit_price', COALESCE((item->>'rate')::numeric, 0),
+      'tax_rate', CASE
+        WHEN b.include_gst AND COALESCE(b.gst_type, 'none') <> 'none' THEN COALESCE(b.gst_rate, 0)
+        ELSE 0
+      END,
+      'discount_percentage', CASE
+        WHEN COALESCE((item->>'quantity')::numeric, 0) * COALESCE((item->>'rate')::numeric, 0) > 0
+          THEN round((1 - COALESCE((item->>'amount')::numeric, 0)
+            / ((item->>'quantity')::numeric * (item->>'rate')::numeric)) * 100, 2)
+        ELSE 0
+      END,
+      'total', COALESCE((item->>'amount')::numeric, 0)
+    ) ORDER BY ord), '[]'::jsonb)
+    FROM jsonb_array_elements(COALESCE(b.items, '[]'::jsonb)) WITH ORDINALITY AS line(item, ord)
+  ),
+  updated_at = now()
+WHERE b.party_type IS NULL;
+
+UPDATE public.bills
+SET subtotal = COALESCE(total_amount, 0) - COALESCE(tax_amount, 0)
+WHERE subtotal IS NULL;
+
+-- Link invoices to customers with the same name
+UPDATE public.bills b
+SET party_id = (
+  SELECT c.id
+  FROM public.customers c
+  WHERE c.user_id = b.user_id
+    AND c.deleted_at IS NULL
+    AND lower(trim(c.name)) = lower(trim(b.party_name))
+  ORDER BY c.created_at
+  LIMIT 1
+)
+WHERE b.party_id IS NULL
+  AND b.party_type = 'customer';
+
+CREATE INDEX IF NOT EXISTS idx_bills_user_party_type ON public.bills (user_id, party_type);
@@ -0,0 +1,44 @@
+-- Credit and debit notes against issued bills
+-- note_type 'credit' reduces and 'debit' increases the original bill's value.
+-- The party balance and any restocking are posted by the client through
+-- customers/suppliers and stock_transactions.
+
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_number TEXT NOT NULL,
+  note_type TEXT NOT NULL CHECK (note_type IN ('credit', 'debit')),
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  party_id TEXT,
+  party_type TEXT NOT NULL CHECK (party_type IN ('customer', 'supplier')),
+  party_name TEXT NOT NULL,
+  party_gstin TEXT,
+  original_bill_id TEXT NOT NULL,
+  original_bill_number TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  restock BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_notes_number ON public.credit_notes (user_id, note_type, note_number);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_user_date ON public.credit_notes (user_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_bill ON public.credit_notes (original_bill_id);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own credit notes"
+  ON public.credit_notes
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.credit_notes;
@@ -0,0 +1,57 @@
+-- Quotations / estimates
+-- Same line items, party snapshot and GST details as bills. Accepted
+-- quotations convert into a customer bill; converted_bill_id links the two.
+-- Open quotations past valid_until are reported as expired by the client.
+
+CREATE TABLE IF NOT EXISTS public.quotations (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quotation_number TEXT NOT NULL,
+  party_id TEXT,
+  party_name TEXT NOT NULL,
+  party_gstin TEXT,
+  party_phone TEXT,
+  party_email TEXT,
+  party_address TEXT,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  valid_until DATE,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'expired', 'converted')),
+  notes TEXT,
+  terms TEXT,
+  template TEXT,
+  gst_type TEXT,
+  gst_rate NUMERIC(5, 2),
+  include_gst BOOLEAN DEFAULT false,
+  payment_instructions TEXT,
+  business_name TEXT,
+  business_address TEXT,
+  business_phone TEXT,
+  business_email TEXT,
+  business_gst TEXT,
+  converted_bill_id TEXT,
+  converted_at TIMESTAMPTZ,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotations_number ON public.quotations (user_id, quotation_number);
+CREATE INDEX IF NOT EXISTS idx_quotations_user_date ON public.quotations (user_id, date DESC);
+
+ALTER TABLE public.quotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own quotations"
+  ON public.quotations
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.quotations;
@@ -0,0 +1,65 @@
+-- Delivery challans and proforma invoices
+-- Same line items, party snapshot and GST details as bills, numbered per
+-- document type from the prefixes in business_settings. Challans may move
+-- stock out when issued (stock_deducted); billed documents link to the
+-- tax invoice raised from them through invoiced_bill_id.
+
+CREATE TABLE IF NOT EXISTS public.sales_documents (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL CHECK (document_type IN ('delivery_challan', 'proforma')),
+  document_number TEXT NOT NULL,
+  party_id TEXT,
+  party_name TEXT NOT NULL,
+  party_gstin TEXT,
+  party_phone TEXT,
+  party_email TEXT,
+  party_address TEXT,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  due_date DATE,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'invoiced', 'cancelled')),
+  stock_deducted BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  terms TEXT,
+  template TEXT,
+  gst_type TEXT,
+  gst_rate NUMERIC(5, 2),
+  include_gst BOOLEAN DEFAULT false,
+  payment_instructions TEXT,
+  business_name TEXT,
+  business_address TEXT,
+  business_phone TEXT,
+  business_email TEXT,
+  business_gst TEXT,
+  invoiced_bill_id TEXT,
+  invoiced_at TIMESTAMPTZ,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_documents_number
+  ON public.sales_documents (user_id, document_type, document_number);
+CREATE INDEX IF NOT EXISTS idx_sales_documents_user_date ON public.sales_documents (user_id, date DESC);
+
+ALTER TABLE public.sales_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own sales documents"
+  ON public.sales_documents
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sales_documents;
+
+-- Numbering prefixes for the new document types
+ALTER TABLE public.business_settings
+  ADD COLUMN IF NOT EXISTS challan_prefix TEXT DEFAULT 'DC',
+  ADD COLUMN IF NOT EXISTS proforma_prefix TEXT DEFAULT 'PI';
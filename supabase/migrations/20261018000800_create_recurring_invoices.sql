@@ -0,0 +1,68 @@
+-- Recurring invoice profiles and the scheduler's run log.
+-- A profile stores the invoice to repeat as a bill payload (bill_template)
+-- plus its schedule; every scheduled run, generated or skipped, is logged.
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoices (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  party_id TEXT,
+  party_name TEXT NOT NULL,
+  bill_template JSONB NOT NULL,
+  total_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_run_date DATE NOT NULL,
+  payment_terms_days INTEGER NOT NULL DEFAULT 30,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_run_at TIMESTAMPTZ,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_due ON public.recurring_invoices (user_id, next_run_date);
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_runs (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recurring_invoice_id TEXT NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  profile_name TEXT NOT NULL,
+  run_date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('generated', 'skipped', 'failed')),
+  bill_id TEXT,
+  bill_number TEXT,
+  amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  reason TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_runs_user ON public.recurring_invoice_runs (user_id, created_at DESC);
+
+-- One generated invoice per profile and period, even across devices
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recurring_invoice_runs_generated
+  ON public.recurring_invoice_runs (recurring_invoice_id, run_date)
+  WHERE status = 'generated';
+
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recurring invoices"
+  ON public.recurring_invoices
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own recurring invoice runs"
+  ON public.recurring_invoice_runs
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_invoices;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_invoice_runs;
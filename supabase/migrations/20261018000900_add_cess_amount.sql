@@ -0,0 +1,13 @@
+-- Compensation cess on invoices, quotations and sales documents.
+-- Lines carry their own tax_rate, cess_rate and tax_inclusive flag inside
+-- the items JSON; cess_amount is the document total, kept apart from
+-- tax_amount (GST) for returns.
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS cess_amount NUMERIC(14, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS cess_amount NUMERIC(14, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.sales_documents
+  ADD COLUMN IF NOT EXISTS cess_amount NUMERIC(14, 2) NOT NULL DEFAULT 0;
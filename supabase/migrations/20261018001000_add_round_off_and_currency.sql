@@ -0,0 +1,25 @@
+-- Round-off and export currency on invoices, quotations and sales documents.
+-- round_off is the adjustment already included in total_amount; totals are
+-- in currency_code, and exchange_rate (INR per unit) gives the INR value of
+-- export invoices. business_settings.invoice_round_off is the default mode.
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS round_off NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS round_off_mode TEXT NOT NULL DEFAULT 'none' CHECK (round_off_mode IN ('none', '1', '0.5')),
+  ADD COLUMN IF NOT EXISTS currency_code TEXT NOT NULL DEFAULT 'INR',
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(14, 6);
+
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS round_off NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS round_off_mode TEXT NOT NULL DEFAULT 'none' CHECK (round_off_mode IN ('none', '1', '0.5')),
+  ADD COLUMN IF NOT EXISTS currency_code TEXT NOT NULL DEFAULT 'INR',
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(14, 6);
+
+ALTER TABLE public.sales_documents
+  ADD COLUMN IF NOT EXISTS round_off NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS round_off_mode TEXT NOT NULL DEFAULT 'none' CHECK (round_off_mode IN ('none', '1', '0.5')),
+  ADD COLUMN IF NOT EXISTS currency_code TEXT NOT NULL DEFAULT 'INR',
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(14, 6);
+
+ALTER TABLE public.business_settings
+  ADD COLUMN IF NOT EXISTS invoice_round_off TEXT NOT NULL DEFAULT 'none' CHECK (invoice_round_off IN ('none', '1', '0.5'));
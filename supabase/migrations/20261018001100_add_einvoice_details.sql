@@ -0,0 +1,13 @@
+-- E-invoice registration details returned by the Invoice Registration Portal
+-- (IRP). An invoice with an IRN has been reported to GST; the signed QR
+-- string is printed on the invoice as a QR code.
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS einvoice_irn TEXT,
+  ADD COLUMN IF NOT EXISTS einvoice_ack_no TEXT,
+  ADD COLUMN IF NOT EXISTS einvoice_ack_date TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS einvoice_signed_qr TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bills_einvoice_irn_key
+  ON public.bills (einvoice_irn)
+  WHERE einvoice_irn IS NOT NULL;
@@ -0,0 +1,52 @@
+-- E-way bill register. Each row is an e-way bill generated on the portal
+-- for an invoice, with the transport details it was filed with and every
+-- Part-B (vehicle) update since. valid_until stays empty until Part-B is
+-- filed. The active e-way bill's number and validity are copied onto the
+-- bill so invoice templates can print them.
+
+CREATE TABLE IF NOT EXISTS public.eway_bills (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bill_id TEXT NOT NULL,
+  bill_number TEXT NOT NULL,
+  party_name TEXT NOT NULL,
+  ewb_no TEXT NOT NULL CHECK (ewb_no ~ '^[0-9]{12}$'),
+  ewb_date TIMESTAMPTZ NOT NULL,
+  valid_until TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  trans_mode TEXT NOT NULL CHECK (trans_mode IN ('road', 'rail', 'air', 'ship')),
+  distance_km INTEGER NOT NULL DEFAULT 0,
+  transporter_id TEXT,
+  transporter_name TEXT,
+  vehicle_no TEXT,
+  vehicle_type TEXT NOT NULL DEFAULT 'regular' CHECK (vehicle_type IN ('regular', 'odc')),
+  trans_doc_no TEXT,
+  trans_doc_date DATE,
+  total_value NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  payload JSONB NOT NULL,
+  part_b_updates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  cancel_reason TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eway_bills_user ON public.eway_bills (user_id, ewb_date DESC);
+CREATE INDEX IF NOT EXISTS idx_eway_bills_bill ON public.eway_bills (bill_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eway_bills_number ON public.eway_bills (user_id, ewb_no);
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS eway_bill_no TEXT,
+  ADD COLUMN IF NOT EXISTS eway_bill_valid_until TIMESTAMPTZ;
+
+ALTER TABLE public.eway_bills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own e-way bills"
+  ON public.eway_bills
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.eway_bills;
@@ -0,0 +1,5 @@
+-- UPI payment QR on invoices. business_settings.upi_id is the payee; when
+-- invoice_upi_qr is on, invoices print a upi://pay QR for the balance due.
+
+ALTER TABLE public.business_settings
+  ADD COLUMN IF NOT EXISTS invoice_upi_qr BOOLEAN NOT NULL DEFAULT true;
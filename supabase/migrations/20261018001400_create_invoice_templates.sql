@@ -0,0 +1,29 @@
+-- Custom invoice templates built in the template designer. definition is
+-- the layout JSON (blocks in print order, item columns, colours, font,
+-- logo and custom header fields); bills reference a template by its id in
+-- bills.template, next to the built-in template ids.
+
+CREATE TABLE IF NOT EXISTS public.invoice_templates (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  definition JSONB NOT NULL,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_templates_user ON public.invoice_templates (user_id, name);
+
+ALTER TABLE public.invoice_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own invoice templates"
+  ON public.invoice_templates
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.invoice_templates;
@@ -0,0 +1,90 @@
+-- Named numbering series for invoices, quotations, delivery challans and
+-- proforma invoices. format is a token template such as
+-- {PREFIX}/{FY}/{SEQ:0000}; series with reset_frequency 'fiscal_year' start
+-- again from start_number in each financial year.
+--
+-- Counters live in numbering_series_counters, one row per series and period
+-- ('2026-27', or 'all' for series that never reset). Numbers are handed out
+-- by reserve_series_number, which increments the counter in a single
+-- statement so two devices can never receive the same number.
+
+CREATE TABLE IF NOT EXISTS public.numbering_series (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  document_type TEXT NOT NULL
+    CHECK (document_type IN ('invoice', 'quotation', 'delivery_challan', 'proforma')),
+  format TEXT NOT NULL DEFAULT '{PREFIX}/{FY}/{SEQ:0000}',
+  prefix TEXT NOT NULL DEFAULT '',
+  start_number INTEGER NOT NULL DEFAULT 1 CHECK (start_number >= 1),
+  reset_frequency TEXT NOT NULL DEFAULT 'fiscal_year'
+    CHECK (reset_frequency IN ('fiscal_year', 'never')),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_numbering_series_user
+  ON public.numbering_series (user_id, document_type);
+
+CREATE TABLE IF NOT EXISTS public.numbering_series_counters (
+  series_id TEXT NOT NULL REFERENCES public.numbering_series(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_key TEXT NOT NULL,
+  last_value INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (series_id, period_key)
+);
+
+ALTER TABLE public.numbering_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.numbering_series_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own numbering series"
+  ON public.numbering_series
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own numbering counters"
+  ON public.numbering_series_counters
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Reserve the next sequence number of a series in a period. The first
+-- reservation in a period returns the series' start_number.
+CREATE OR REPLACE FUNCTION public.reserve_series_number(
+  p_series_id TEXT,
+  p_period_key TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_start INTEGER;
+  v_value INTEGER;
+BEGIN
+  SELECT start_number INTO v_start
+  FROM public.numbering_series
+  WHERE id = p_series_id AND user_id = auth.uid() AND deleted_at IS NULL;
+
+  IF v_start IS NULL THEN
+    RAISE EXCEPTION 'Numbering series % not found', p_series_id;
+  END IF;
+
+  INSERT INTO public.numbering_series_counters (series_id, user_id, period_key, last_value)
+  VALUES (p_series_id, auth.uid(), p_period_key, v_start)
+  ON CONFLICT (series_id, period_key)
+  DO UPDATE SET
+    last_value = GREATEST(numbering_series_counters.last_value + 1, v_start),
+    updated_at = now()
+  RETURNING last_value INTO v_value;
+
+  RETURN v_value;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.numbering_series;
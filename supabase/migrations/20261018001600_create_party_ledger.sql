@@ -0,0 +1,73 @@
+-- Party balances are derived from the ledger: transactions, bills, receipts
+-- and credit/debit notes, plus the entries in party_ledger_entries.
+-- customers.amount and suppliers.amount are kept as a cache of that
+-- balance for lists and totals; the reconciliation tool reports and repairs
+-- any drift between the two.
+--
+-- party_ledger_entries holds postings that have no source document, such as
+-- the balance a party was added with and reconciliation adjustments. It is
+-- append-only: there are no update or delete policies, and corrections are
+-- made with a further entry. amount uses the sign of the party's stored
+-- balance.
+
+CREATE TABLE IF NOT EXISTS public.party_ledger_entries (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  party_id TEXT NOT NULL,
+  party_type TEXT NOT NULL CHECK (party_type IN ('customer', 'supplier')),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('adjustment')),
+  amount NUMERIC(14, 2) NOT NULL,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  description TEXT,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  synced_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_party_ledger_entries_party
+  ON public.party_ledger_entries (user_id, party_type, party_id, date);
+
+ALTER TABLE public.party_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own ledger entries"
+  ON public.party_ledger_entries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own ledger entries"
+  ON public.party_ledger_entries
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Move a party's cached balance by the change in its ledger balance. A
+-- single UPDATE, so concurrent postings cannot overwrite each other.
+CREATE OR REPLACE FUNCTION public.adjust_party_balance(
+  p_party_type TEXT,
+  p_party_id TEXT,
+  p_delta NUMERIC
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_amount NUMERIC;
+BEGIN
+  IF p_party_type = 'customer' THEN
+    UPDATE public.customers
+    SET amount = amount + p_delta, last_transaction = now(), updated_at = now()
+    WHERE id::TEXT = p_party_id AND user_id = auth.uid()
+    RETURNING amount INTO v_amount;
+  ELSIF p_party_type = 'supplier' THEN
+    UPDATE public.suppliers
+    SET amount = amount + p_delta, last_transaction = now(), updated_at = now()
+    WHERE id::TEXT = p_party_id AND user_id = auth.uid()
+    RETURNING amount INTO v_amount;
+  ELSE
+    RAISE EXCEPTION 'Unknown party type %', p_party_type;
+  END IF;
+
+  RETURN v_amount;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.party_ledger_entries;
@@ -0,0 +1,15 @@
+-- Opening balances are stored as dated ledger entries, so a party's balance
+-- can be read as of any past date. An opening entry carries the date the
+-- balance was owed and sorts before anything else posted that day.
+
+ALTER TABLE public.party_ledger_entries
+  DROP CONSTRAINT IF EXISTS party_ledger_entries_entry_type_check;
+
+ALTER TABLE public.party_ledger_entries
+  ADD CONSTRAINT party_ledger_entries_entry_type_check
+  CHECK (entry_type IN ('opening', 'adjustment'));
+
+-- Balances recorded when a party was added were posted as adjustments
+UPDATE public.party_ledger_entries
+SET entry_type = 'opening', description = 'Opening balance'
+WHERE entry_type = 'adjustment' AND description = 'Balance when added';
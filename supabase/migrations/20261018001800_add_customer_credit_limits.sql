@@ -0,0 +1,12 @@
+-- Credit control. credit_limit caps what a customer may owe; credit_days is
+-- how long their charges may stay unpaid. Either is off when NULL.
+-- business_settings.credit_limit_mode decides whether a new entry or
+-- invoice that breaches them only warns or is blocked.
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(14, 2) CHECK (credit_limit IS NULL OR credit_limit >= 0),
+  ADD COLUMN IF NOT EXISTS credit_days INTEGER CHECK (credit_days IS NULL OR credit_days >= 0);
+
+ALTER TABLE public.business_settings
+  ADD COLUMN IF NOT EXISTS credit_limit_mode TEXT NOT NULL DEFAULT 'warn'
+  CHECK (credit_limit_mode IN ('warn', 'block'));
@@ -0,0 +1,33 @@
+-- Credit and debit notes against a bill change what is still due on it.
+-- note_adjustment is the bill's credit notes less its debit notes; the
+-- balance is total_amount - note_adjustment - paid_amount, so a fully
+-- credited invoice is settled rather than left pending. The ledger keeps
+-- posting the notes themselves; this only keeps the bill's balance and
+-- status right for ageing and overdue lists.
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS note_adjustment NUMERIC(14, 2) NOT NULL DEFAULT 0;
+
+-- Backfill from the notes already issued
+UPDATE public.bills b
+SET note_adjustment = n.adjustment
+FROM (
+  SELECT
+    original_bill_id,
+    SUM(CASE WHEN note_type = 'credit' THEN total_amount ELSE -total_amount END) AS adjustment
+  FROM public.credit_notes
+  WHERE deleted_at IS NULL
+  GROUP BY original_bill_id
+) n
+WHERE n.original_bill_id = b.id::text;
+
+UPDATE public.bills
+SET
+  balance_amount = GREATEST(ROUND(total_amount - note_adjustment - paid_amount, 2), 0),
+  status = CASE
+    WHEN total_amount - note_adjustment - paid_amount <= 0 THEN 'paid'
+    WHEN paid_amount > 0 OR note_adjustment > 0 THEN 'partial'
+    ELSE 'pending'
+  END
+WHERE note_adjustment <> 0
+  AND status NOT IN ('draft', 'cancelled');
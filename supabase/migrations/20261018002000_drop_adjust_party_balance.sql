@@ -0,0 +1,5 @@
+-- Postings now set customers.amount / suppliers.amount from the recomputed
+-- ledger balance instead of moving it by a difference, so the delta
+-- function is no longer called.
+
+DROP FUNCTION IF EXISTS public.adjust_party_balance(TEXT, TEXT, NUMERIC);
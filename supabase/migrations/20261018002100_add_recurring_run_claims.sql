@@ -0,0 +1,21 @@
+-- A recurring invoice period is claimed with a 'pending' run before its
+-- invoice is created, and only marked 'generated' once the invoice exists.
+-- claimed_at lets another device take over a claim whose device never
+-- finished. Pending and generated runs share the unique index, so only one
+-- device can hold a period at a time.
+
+ALTER TABLE public.recurring_invoice_runs
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+ALTER TABLE public.recurring_invoice_runs
+  DROP CONSTRAINT IF EXISTS recurring_invoice_runs_status_check;
+
+ALTER TABLE public.recurring_invoice_runs
+  ADD CONSTRAINT recurring_invoice_runs_status_check
+  CHECK (status IN ('pending', 'generated', 'skipped', 'failed'));
+
+DROP INDEX IF EXISTS public.idx_recurring_invoice_runs_generated;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recurring_invoice_runs_claimed
+  ON public.recurring_invoice_runs (recurring_invoice_id, run_date)
+  WHERE status IN ('pending', 'generated');
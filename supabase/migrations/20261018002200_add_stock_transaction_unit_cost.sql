@@ -0,0 +1,8 @@
+-- Cost of each unit a stock movement moved, at the time it moved: the
+-- average cost for stock going out, the purchase price for stock coming
+-- in. price stays the rate on the document (e.g. the selling price), so
+-- the cost of goods sold no longer depends on today's average cost.
+-- Movements recorded before this column are left NULL.
+
+ALTER TABLE public.stock_transactions
+  ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(14, 4);